@@ -1,5 +1,7 @@
 import * as BackgroundTask from 'expo-background-task';
 import * as TaskManager from 'expo-task-manager';
+import { dbService } from './services/database';
+import { graphService } from './services/graph/GraphService';
 import { spotifyRemote } from './services/spotify/SpotifyRemoteService';
 
 const BACKGROUND_TASK_NAME = 'BACKGROUND_MOODIFY_SYNC';
@@ -16,6 +18,15 @@ TaskManager.defineTask(BACKGROUND_TASK_NAME, async () => {
             console.log('[Background] Spotify state synced');
         }
 
+        // Pick up likes/unlikes and plays made in Spotify since the last sync (only once the graph was ingested)
+        if ((await dbService.getPreference('graph_ingested_liked')) === 'true') {
+            const { added, removed } = await graphService.syncLikedSongs();
+            console.log(`[Background] Liked songs synced (+${added}, -${removed})`);
+            const { plays, sessions } = await graphService.importRecentlyPlayed();
+            console.log(`[Background] Recent plays imported (${plays} plays, ${sessions} sessions)`);
+            if (await graphService.takeTasteSnapshotIfDue()) console.log('[Background] Weekly taste snapshot taken');
+        }
+
         return BackgroundTask.BackgroundTaskResult.Success;
     } catch (err) {
         console.error('[Background] Sync Failed', err);
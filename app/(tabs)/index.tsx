@@ -66,6 +66,8 @@ export default function HomeScreen() {
   const [showVibeSelector, setShowVibeSelector] = useState(false);
   const [geminiReasoning, setGeminiReasoning] = useState<string | null>(null);
   const reasoningTimerRef = React.useRef<NodeJS.Timeout | null>(null);
+  // Aborts the vibe options stream once the user picks or dismisses (frees Gemini for expansion)
+  const vibeStreamRef = React.useRef<AbortController | null>(null);
 
   /** Set reasoning text with optional auto-clear (for error/status messages). */
   const setReasoningWithAutoClear = (text: string, autoClearMs?: number) => {
@@ -158,7 +160,8 @@ export default function HomeScreen() {
   }, [progressMs, currentTrack]);
 
 
-  const handleRefreshVibe = async () => {
+  /** `fresh` (long press) skips Gemini's response cache, for new options from an unchanged context. */
+  const handleRefreshVibe = async (fresh: boolean = false) => {
     setIsLoading(true);
 
     // Show what we're sending to Gemini
@@ -175,13 +178,24 @@ export default function HomeScreen() {
         ? `User's current mood: ${assessedMood}. Provide fresh vibe options.`
         : "Fresh vibe";
 
-      const options = await recommendationService.getVibeOptions(userInstruction);
+      // Open the selector right away; options appear as Gemini streams and Spotify validates them
+      const stream = new AbortController();
+      vibeStreamRef.current = stream;
+      setVibeOptions([]);
+      setShowVibeSelector(true);
+      const options = await recommendationService.getVibeOptions(
+        userInstruction,
+        option => setVibeOptions(prev => [...prev, option]),
+        stream.signal,
+        fresh
+      );
+      if (stream.signal.aborted) return; // Picked or dismissed while streaming
 
       if (options && options.length > 0) {
         setVibeOptions(options);
-        setShowVibeSelector(true);
         setGeminiReasoning("Pick a vibe to start your journey.");
       } else {
+        setShowVibeSelector(false);
         setReasoningWithAutoClear("Couldn't find a new vibe right now.", 8000);
         Alert.alert("AI Error", "Could not generate vibe options. The models might be busy or hallucinating. Please try again.");
       }
@@ -189,11 +203,18 @@ export default function HomeScreen() {
       Alert.alert("Error", "Failed to refresh vibe.");
       setReasoningWithAutoClear("Error connecting to Gemini.", 8000);
     } finally {
-      setIsLoading(false);
+      if (!vibeStreamRef.current?.signal.aborted) setIsLoading(false);
     }
   };
 
+  const closeVibeSelector = () => {
+    vibeStreamRef.current?.abort();
+    setShowVibeSelector(false);
+    setIsLoading(false);
+  };
+
   const handleVibeSelect = async (option: any) => {
+    vibeStreamRef.current?.abort();
     setShowVibeSelector(false);
 
     // 1. Immediate Feedback: Announce over music (Seamless Transition)
@@ -247,6 +268,9 @@ export default function HomeScreen() {
         return;
       }
 
+      // Gateways only read the graph, so look them up while the vibe expands
+      const gatewaysPromise = recommendationService.getGatewayTracks(seedTrack.uri);
+
       // 1. Expand Vibe First (Atomic Operation)
       setGeminiReasoning(`Gemini → Spotify: validating tracks for "${option.title}"...`);
       const { items: expandedItems, mood } = await recommendationService.expandVibe(
@@ -258,9 +282,11 @@ export default function HomeScreen() {
         usePlayerStore.getState().setMood(mood);
       }
 
-      // 2. Prepare Full Track List (Seed + Expansion)
-      const fullList = [seedTrack];
-      const uniqueSet = new Set([seedTrack.uri]);
+      // 2. Prepare Full Track List (Gateway + Seed + Expansion)
+      // A gateway track bridges the current style and the new one, so the switch isn't abrupt
+      const gateways = await gatewaysPromise;
+      const fullList = [...gateways, seedTrack];
+      const uniqueSet = new Set([seedTrack.uri, ...gateways.map(g => g.uri)]);
 
       console.log(`[HomeScreen] Building track list. Seed: "${seedTrack.title}" [${seedTrack.uri}]`);
 
@@ -442,7 +468,8 @@ export default function HomeScreen() {
           {/* Refresh Vibe Button (inline, after waveform) */}
           <Animated.View entering={FadeInDown.delay(350).duration(500)} style={styles.vibeButtonInline}>
             <AnimatedPressable
-              onPress={handleRefreshVibe}
+              onPress={() => handleRefreshVibe()}
+              onLongPress={() => handleRefreshVibe(true)}
               disabled={isLoading}
               style={refreshButtonStyle}
               {...createPressHandlers(refreshScale)}
@@ -481,6 +508,7 @@ export default function HomeScreen() {
                   isThinking={isLoading}
                   accentColor={activeTheme.aiPurple}
                   onDismiss={!isLoading ? clearReasoning : undefined}
+                  details={currentTrack?.explanation && `Why this track: ${currentTrack.explanation.text}`}
                 />
               </View>
             )}
@@ -534,7 +562,7 @@ export default function HomeScreen() {
         visible={showVibeSelector}
         options={vibeOptions}
         onSelect={handleVibeSelect}
-        onClose={() => setShowVibeSelector(false)}
+        onClose={closeVibeSelector}
         isLoading={isLoading}
       />
 
@@ -3,20 +3,28 @@
  * Features: Gradient background, glassmorphism cards, model selector, theme selector
  */
 
+import { PlaylistPickerModal } from '@/components/PlaylistPickerModal';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { MODERN_THEMES, THEMES, ThemeName } from '@/constants/theme';
 import {
   gemini,
   useGeminiStore,
   GEMINI_MODELS,
+  GeminiUsageSummary,
+  LLMProviderId,
+  LLMProviderSettings,
   MODEL_PRIORITY,
   ModelId,
 } from '@/services/gemini/GeminiService';
+import type { GeminiOperation } from '@/services/gemini/usage';
+import { graphService } from '@/services/graph/GraphService';
 import { useSpotifyAuth } from '@/services/spotify/SpotifyAuthService';
+import { useInitializationStore } from '@/stores/InitializationStore';
 import { usePlayerStore } from '@/stores/PlayerStore';
 import { useSettingsStore } from '@/stores/SettingsStore';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import { router } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
@@ -50,6 +58,46 @@ const THEME_INFO: Record<ThemeName, { icon: keyof typeof Ionicons.glyphMap; desc
   ocean: { icon: 'water', description: 'Deep blue waves' },
 };
 
+// How long listening history keeps its pull on recommendations (edge weight half-life)
+const HALF_LIFE_OPTIONS: { days: number; label: string }[] = [
+  { days: 30, label: '1 mo' },
+  { days: 90, label: '3 mo' },
+  { days: 180, label: '6 mo' },
+  { days: 365, label: '1 yr' },
+  { days: 0, label: 'Never' },
+];
+
+// Daily Gemini token budget; past it, recommendations come from the graph instead
+const TOKEN_BUDGET_OPTIONS: { tokens: number; label: string }[] = [
+  { tokens: 0, label: 'Off' },
+  { tokens: 50_000, label: '50k' },
+  { tokens: 200_000, label: '200k' },
+  { tokens: 500_000, label: '500k' },
+  { tokens: 1_000_000, label: '1M' },
+];
+
+const PROVIDER_OPTIONS: { id: LLMProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'openai-compatible', label: 'Local / OpenAI' },
+];
+
+const OPERATION_LABELS: Record<GeminiOperation, string> = {
+  getVibeOptions: 'Vibe options',
+  streamVibeOptions: 'Vibe options (streamed)',
+  expandVibe: 'Vibe expansion',
+  generateRescueVibe: 'Rescue vibe',
+  generateDJRecommendation: 'DJ picks',
+  assessCurrentMood: 'Mood check',
+  backfill: 'Backfill',
+  request: 'Other',
+};
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
 export default function SettingsScreen() {
   const {
     theme,
@@ -60,6 +108,10 @@ export default function SettingsScreen() {
     setGeminiApiKey,
     spotifyClientId,
     setSpotifyClientId,
+    graphHalfLifeDays,
+    setGraphHalfLifeDays,
+    geminiDailyTokenBudget,
+    setGeminiDailyTokenBudget,
     loadSettings,
     isLoading,
     isConnected,
@@ -69,7 +121,10 @@ export default function SettingsScreen() {
   const activeTheme = THEMES[theme] || THEMES.midnight;
 
   // Gemini store
-  const { selectedModel, modelStatuses, setSelectedModel } = useGeminiStore();
+  const { selectedModel, modelStatuses, setSelectedModel, llmSettings } = useGeminiStore();
+  const activeModelName = llmSettings.provider === 'openai-compatible'
+    ? llmSettings.model
+    : GEMINI_MODELS[selectedModel]?.name;
 
   const [localGeminiKey, setLocalGeminiKey] = useState('');
   const [localSpotifyClientId, setLocalSpotifyClientId] = useState('');
@@ -79,6 +134,16 @@ export default function SettingsScreen() {
   const [saveMessage, setSaveMessage] = useState('');
   const [geminiValid, setGeminiValid] = useState<boolean | null>(null);
   const [spotifyValid, setSpotifyValid] = useState<boolean | null>(null);
+  const [isSyncingLikes, setIsSyncingLikes] = useState(false);
+  const [showPlaylistPicker, setShowPlaylistPicker] = useState(false);
+  const [usage, setUsage] = useState<GeminiUsageSummary | null>(null);
+  // Provider form; applied only once the OpenAI-compatible server answers
+  const [localLLM, setLocalLLM] = useState<LLMProviderSettings>(llmSettings);
+  const [isTestingProvider, setIsTestingProvider] = useState(false);
+
+  // Liked-songs sync reports its progress through the initialization store
+  const syncStatusMessage = useInitializationStore((s) => s.statusMessage);
+  const syncProgress = useInitializationStore((s) => s.progress);
 
   // Spotify auth hook
   const { state: authState, login: spotifyLogin } = useSpotifyAuth();
@@ -87,6 +152,8 @@ export default function SettingsScreen() {
   const saveScale = useSharedValue(1);
   const spotifyScale = useSharedValue(1);
   const testScale = useSharedValue(1);
+  const syncScale = useSharedValue(1);
+  const playlistScale = useSharedValue(1);
 
   useEffect(() => {
     loadSettings();
@@ -104,6 +171,14 @@ export default function SettingsScreen() {
     checkConnection();
   }, []);
 
+  useEffect(() => {
+    setLocalLLM(llmSettings);
+  }, [llmSettings]);
+
+  useEffect(() => {
+    gemini.getUsageSummary().then(setUsage);
+  }, [geminiDailyTokenBudget]);
+
   useEffect(() => {
     if (saveStatus !== 'idle') {
       const timer = setTimeout(() => {
@@ -183,6 +258,43 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleSyncLikedSongs = async () => {
+    setIsSyncingLikes(true);
+    try {
+      const { added, removed } = await graphService.syncLikedSongs();
+      const { plays } = await graphService.importRecentlyPlayed();
+      Alert.alert('Synced from Spotify', `${added} liked, ${removed} unliked, ${plays} recent plays`);
+    } catch (e) {
+      console.error('Spotify sync error:', e);
+      Alert.alert('Error', 'Failed to sync from Spotify');
+    } finally {
+      setIsSyncingLikes(false);
+    }
+  };
+
+  const handleSelectProvider = async (provider: LLMProviderId) => {
+    if (provider === 'gemini') {
+      await gemini.setProviderSettings({ ...localLLM, provider });
+    } else {
+      setLocalLLM((prev) => ({ ...prev, provider }));
+    }
+  };
+
+  const handleUseLocalModel = async () => {
+    setIsTestingProvider(true);
+    try {
+      const status = await gemini.testProviderSettings(localLLM);
+      if (status.available) {
+        await gemini.setProviderSettings(localLLM);
+        Alert.alert('Model Connected', `${localLLM.model.trim()} answered in ${status.latency}ms`);
+      } else {
+        Alert.alert('Model Unavailable', status.error || 'Could not reach the server');
+      }
+    } finally {
+      setIsTestingProvider(false);
+    }
+  };
+
   const handleSelectModel = async (modelId: ModelId) => {
     await gemini.setModel(modelId);
     setSelectedModel(modelId);
@@ -225,6 +337,8 @@ export default function SettingsScreen() {
   const saveButtonStyle = useAnimatedStyle(() => ({ transform: [{ scale: saveScale.value }] }));
   const spotifyButtonStyle = useAnimatedStyle(() => ({ transform: [{ scale: spotifyScale.value }] }));
   const testButtonStyle = useAnimatedStyle(() => ({ transform: [{ scale: testScale.value }] }));
+  const syncButtonStyle = useAnimatedStyle(() => ({ transform: [{ scale: syncScale.value }] }));
+  const playlistButtonStyle = useAnimatedStyle(() => ({ transform: [{ scale: playlistScale.value }] }));
 
   const getModelStatusIcon = (modelId: ModelId) => {
     const status = modelStatuses[modelId];
@@ -374,91 +488,260 @@ export default function SettingsScreen() {
             <Text style={[styles.sectionTitle, { color: activeTheme.textSecondary }]}>AI Model</Text>
             <View style={styles.modelBadge}>
               <Text style={[styles.modelBadgeText, { color: activeTheme.aiPurple }]}>
-                {GEMINI_MODELS[selectedModel]?.name || 'Unknown'}
+                {activeModelName || 'Unknown'}
               </Text>
             </View>
           </View>
 
           <GlassCard glowColor={activeTheme.primaryGlow} borderGlow={false} padding={16} borderRadius={16}>
-            {/* Test Models Button */}
-            <AnimatedPressable
-              onPress={handleTestModels}
-              disabled={isTestingModels || !localGeminiKey}
-              style={[testButtonStyle, (!localGeminiKey || isTestingModels) && styles.buttonDisabled]}
-              {...createPressHandlers(testScale)}
-            >
-              <View
-                style={[
-                  styles.testButton,
-                  { backgroundColor: activeTheme.surface, borderColor: activeTheme.border },
-                ]}
-              >
-                {isTestingModels ? (
-                  <ActivityIndicator color={activeTheme.text} size="small" />
-                ) : (
-                  <Ionicons name="refresh-outline" size={18} color={activeTheme.text} />
-                )}
-                <Text style={[styles.testButtonText, { color: activeTheme.text }]}>
-                  {isTestingModels ? 'Testing...' : 'Test All Models'}
+            {/* Provider */}
+            <View style={[styles.halfLifeRow, { marginBottom: 16 }]}>
+              {PROVIDER_OPTIONS.map(({ id, label }) => {
+                const isSelected = localLLM.provider === id;
+                return (
+                  <Pressable
+                    key={id}
+                    onPress={() => handleSelectProvider(id)}
+                    style={[
+                      styles.halfLifeChip,
+                      {
+                        backgroundColor: isSelected ? `${activeTheme.aiPurple}20` : activeTheme.surface,
+                        borderColor: isSelected ? activeTheme.aiPurple : activeTheme.border,
+                      },
+                    ]}
+                  >
+                    <Text style={[styles.halfLifeChipText, { color: isSelected ? activeTheme.aiPurple : activeTheme.text }]}>
+                      {label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            {localLLM.provider === 'openai-compatible' ? (
+              <>
+                <Text style={[styles.label, { color: activeTheme.text }]}>Server URL</Text>
+                <TextInput
+                  style={[styles.input, { color: activeTheme.text, borderColor: activeTheme.border, backgroundColor: 'rgba(0,0,0,0.2)' }]}
+                  value={localLLM.baseUrl}
+                  onChangeText={(baseUrl) => setLocalLLM((prev) => ({ ...prev, baseUrl }))}
+                  placeholder="http://localhost:11434/v1"
+                  placeholderTextColor={activeTheme.textMuted}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <Text style={[styles.label, { color: activeTheme.text }]}>Model</Text>
+                <TextInput
+                  style={[styles.input, { color: activeTheme.text, borderColor: activeTheme.border, backgroundColor: 'rgba(0,0,0,0.2)' }]}
+                  value={localLLM.model}
+                  onChangeText={(model) => setLocalLLM((prev) => ({ ...prev, model }))}
+                  placeholder="llama3.1:8b"
+                  placeholderTextColor={activeTheme.textMuted}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <Text style={[styles.label, { color: activeTheme.text }]}>API Key (optional)</Text>
+                <TextInput
+                  style={[styles.input, { color: activeTheme.text, borderColor: activeTheme.border, backgroundColor: 'rgba(0,0,0,0.2)' }]}
+                  value={localLLM.apiKey}
+                  onChangeText={(apiKey) => setLocalLLM((prev) => ({ ...prev, apiKey }))}
+                  placeholder="Not needed for local servers"
+                  placeholderTextColor={activeTheme.textMuted}
+                  secureTextEntry
+                />
+
+                <AnimatedPressable
+                  onPress={handleUseLocalModel}
+                  disabled={isTestingProvider}
+                  style={[testButtonStyle, isTestingProvider && styles.buttonDisabled]}
+                  {...createPressHandlers(testScale)}
+                >
+                  <View style={[styles.testButton, { backgroundColor: activeTheme.surface, borderColor: activeTheme.border, marginBottom: 0 }]}>
+                    {isTestingProvider ? (
+                      <ActivityIndicator color={activeTheme.text} size="small" />
+                    ) : (
+                      <Ionicons name="flash-outline" size={18} color={activeTheme.text} />
+                    )}
+                    <Text style={[styles.testButtonText, { color: activeTheme.text }]}>
+                      {isTestingProvider ? 'Testing...' : llmSettings.provider === 'openai-compatible' ? 'Test & Save' : 'Test & Use This Model'}
+                    </Text>
+                  </View>
+                </AnimatedPressable>
+
+                <Text style={[styles.modelHint, { color: activeTheme.textMuted }]}>
+                  Any OpenAI-compatible chat completions server: Ollama, llama.cpp, LM Studio, vLLM
                 </Text>
-              </View>
-            </AnimatedPressable>
+              </>
+            ) : (
+              <>
+                {/* Test Models Button */}
+                <AnimatedPressable
+                  onPress={handleTestModels}
+                  disabled={isTestingModels || !localGeminiKey}
+                  style={[testButtonStyle, (!localGeminiKey || isTestingModels) && styles.buttonDisabled]}
+                  {...createPressHandlers(testScale)}
+                >
+                  <View
+                    style={[
+                      styles.testButton,
+                      { backgroundColor: activeTheme.surface, borderColor: activeTheme.border },
+                    ]}
+                  >
+                    {isTestingModels ? (
+                      <ActivityIndicator color={activeTheme.text} size="small" />
+                    ) : (
+                      <Ionicons name="refresh-outline" size={18} color={activeTheme.text} />
+                    )}
+                    <Text style={[styles.testButtonText, { color: activeTheme.text }]}>
+                      {isTestingModels ? 'Testing...' : 'Test All Models'}
+                    </Text>
+                  </View>
+                </AnimatedPressable>
+
+                {/* Model List */}
+                <View style={styles.modelList}>
+                  {MODEL_PRIORITY.map((modelId) => {
+                    const model = GEMINI_MODELS[modelId];
+                    const isSelected = selectedModel === modelId;
+                    const status = modelStatuses[modelId];
+                    const latency = getModelLatency(modelId);
+
+                    return (
+                      <Pressable
+                        key={modelId}
+                        onPress={() => handleSelectModel(modelId)}
+                        style={[
+                          styles.modelCard,
+                          {
+                            backgroundColor: isSelected ? `${activeTheme.aiPurple}20` : activeTheme.surface,
+                            borderColor: isSelected ? activeTheme.aiPurple : activeTheme.border,
+                          },
+                        ]}
+                      >
+                        <View style={styles.modelCardLeft}>
+                          <View style={styles.modelNameRow}>
+                            <Text style={[styles.modelName, { color: activeTheme.text }]}>{model.name}</Text>
+                            {model.tier === 'pro' && (
+                              <View style={[styles.tierBadge, { backgroundColor: '#8B5CF6' }]}>
+                                <Text style={styles.tierBadgeText}>PRO</Text>
+                              </View>
+                            )}
+                            {model.tier === 'flash' && (
+                              <View style={[styles.tierBadge, { backgroundColor: '#F59E0B' }]}>
+                                <Text style={styles.tierBadgeText}>FLASH</Text>
+                              </View>
+                            )}
+                          </View>
+                          <Text style={[styles.modelDesc, { color: activeTheme.textMuted }]}>
+                            {model.description}
+                          </Text>
+                          {latency && (
+                            <Text style={[styles.modelLatency, { color: '#4ADE80' }]}>{latency}</Text>
+                          )}
+                        </View>
+                        <View style={styles.modelCardRight}>
+                          {getModelStatusIcon(modelId)}
+                          {isSelected && (
+                            <View style={[styles.selectedDot, { backgroundColor: activeTheme.aiPurple }]} />
+                          )}
+                        </View>
+                      </Pressable>
+                    );
+                  })}
+                </View>
 
-            {/* Model List */}
-            <View style={styles.modelList}>
-              {MODEL_PRIORITY.map((modelId) => {
-                const model = GEMINI_MODELS[modelId];
-                const isSelected = selectedModel === modelId;
-                const status = modelStatuses[modelId];
-                const latency = getModelLatency(modelId);
+                <Text style={[styles.modelHint, { color: activeTheme.textMuted }]}>
+                  If selected model fails, app will automatically try other models
+                </Text>
+              </>
+            )}
+          </GlassCard>
+        </Animated.View>
+
+        {/* AI Usage Section */}
+        <Animated.View entering={FadeInDown.delay(275).duration(500)} style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="stats-chart-outline" size={20} color={activeTheme.aiPurple} />
+            <Text style={[styles.sectionTitle, { color: activeTheme.textSecondary }]}>AI Usage</Text>
+          </View>
+
+          <GlassCard glowColor={activeTheme.primaryGlow} borderGlow={false} padding={16} borderRadius={16}>
+            <View style={styles.labelRow}>
+              <Text style={[styles.label, { color: activeTheme.text, marginBottom: 0 }]}>Today</Text>
+              <Text style={[styles.aboutValue, { color: activeTheme.text }]}>
+                {formatTokens(usage?.tokensToday ?? 0)}
+                {geminiDailyTokenBudget > 0 ? ` / ${formatTokens(geminiDailyTokenBudget)}` : ''} tokens
+              </Text>
+            </View>
+            {geminiDailyTokenBudget > 0 && (
+              <View style={[styles.usageBarTrack, { backgroundColor: activeTheme.surface }]}>
+                <View
+                  style={[
+                    styles.usageBarFill,
+                    {
+                      width: `${Math.min(100, ((usage?.tokensToday ?? 0) / geminiDailyTokenBudget) * 100)}%`,
+                      backgroundColor: (usage?.tokensToday ?? 0) >= geminiDailyTokenBudget ? '#FF6B6B' : activeTheme.aiPurple,
+                    },
+                  ]}
+                />
+              </View>
+            )}
 
+            <Text style={[styles.label, { color: activeTheme.text, marginTop: 8 }]}>Daily budget</Text>
+            <View style={styles.halfLifeRow}>
+              {TOKEN_BUDGET_OPTIONS.map(({ tokens, label }) => {
+                const isSelected = geminiDailyTokenBudget === tokens;
                 return (
                   <Pressable
-                    key={modelId}
-                    onPress={() => handleSelectModel(modelId)}
+                    key={tokens}
+                    onPress={() => setGeminiDailyTokenBudget(tokens)}
                     style={[
-                      styles.modelCard,
+                      styles.halfLifeChip,
                       {
                         backgroundColor: isSelected ? `${activeTheme.aiPurple}20` : activeTheme.surface,
                         borderColor: isSelected ? activeTheme.aiPurple : activeTheme.border,
                       },
                     ]}
                   >
-                    <View style={styles.modelCardLeft}>
-                      <View style={styles.modelNameRow}>
-                        <Text style={[styles.modelName, { color: activeTheme.text }]}>{model.name}</Text>
-                        {model.tier === 'pro' && (
-                          <View style={[styles.tierBadge, { backgroundColor: '#8B5CF6' }]}>
-                            <Text style={styles.tierBadgeText}>PRO</Text>
-                          </View>
-                        )}
-                        {model.tier === 'flash' && (
-                          <View style={[styles.tierBadge, { backgroundColor: '#F59E0B' }]}>
-                            <Text style={styles.tierBadgeText}>FLASH</Text>
-                          </View>
-                        )}
-                      </View>
-                      <Text style={[styles.modelDesc, { color: activeTheme.textMuted }]}>
-                        {model.description}
-                      </Text>
-                      {latency && (
-                        <Text style={[styles.modelLatency, { color: '#4ADE80' }]}>{latency}</Text>
-                      )}
-                    </View>
-                    <View style={styles.modelCardRight}>
-                      {getModelStatusIcon(modelId)}
-                      {isSelected && (
-                        <View style={[styles.selectedDot, { backgroundColor: activeTheme.aiPurple }]} />
-                      )}
-                    </View>
+                    <Text style={[styles.halfLifeChipText, { color: isSelected ? activeTheme.aiPurple : activeTheme.text }]}>
+                      {label}
+                    </Text>
                   </Pressable>
                 );
               })}
             </View>
-
             <Text style={[styles.modelHint, { color: activeTheme.textMuted }]}>
-              If selected model fails, app will automatically try other models
+              {geminiDailyTokenBudget > 0
+                ? 'Past the budget, recommendations come from your library until tomorrow'
+                : 'No limit on Gemini tokens per day'}
             </Text>
+
+            {usage && usage.byOperation.length > 0 && (
+              <>
+                <Text style={[styles.label, { color: activeTheme.text, marginTop: 16 }]}>Last 7 days by feature</Text>
+                {usage.byOperation.map((row) => (
+                  <View key={row.key} style={styles.aboutRow}>
+                    <Text style={[styles.aboutLabel, { color: activeTheme.textSecondary }]}>
+                      {OPERATION_LABELS[row.key as GeminiOperation] ?? row.key}
+                    </Text>
+                    <Text style={[styles.aboutValue, { color: activeTheme.text }]}>
+                      {formatTokens(row.totalTokens)} · {row.calls} calls · {(row.avgLatencyMs / 1000).toFixed(1)}s
+                    </Text>
+                  </View>
+                ))}
+
+                <Text style={[styles.label, { color: activeTheme.text, marginTop: 16 }]}>By day</Text>
+                {usage.byDay.map((row) => (
+                  <View key={row.key} style={styles.aboutRow}>
+                    <Text style={[styles.aboutLabel, { color: activeTheme.textSecondary }]}>{row.key}</Text>
+                    <Text style={[styles.aboutValue, { color: activeTheme.text }]}>
+                      {formatTokens(row.totalTokens)}
+                      {row.thinkingTokens > 0 ? ` (${formatTokens(row.thinkingTokens)} thinking)` : ''}
+                    </Text>
+                  </View>
+                ))}
+              </>
+            )}
           </GlassCard>
         </Animated.View>
 
@@ -599,6 +882,104 @@ export default function SettingsScreen() {
           </View>
         </Animated.View>
 
+        {/* Taste Memory Section */}
+        <Animated.View entering={FadeInDown.delay(375).duration(500)} style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="hourglass-outline" size={20} color={activeTheme.aiPurple} />
+            <Text style={[styles.sectionTitle, { color: activeTheme.textSecondary }]}>Taste Memory</Text>
+          </View>
+
+          <GlassCard glowColor={activeTheme.primaryGlow} borderGlow={false} padding={16} borderRadius={16}>
+            <Text style={[styles.label, { color: activeTheme.text }]}>Listening half-life</Text>
+            <View style={styles.halfLifeRow}>
+              {HALF_LIFE_OPTIONS.map(({ days, label }) => {
+                const isSelected = graphHalfLifeDays === days;
+                return (
+                  <Pressable
+                    key={days}
+                    onPress={() => setGraphHalfLifeDays(days)}
+                    style={[
+                      styles.halfLifeChip,
+                      {
+                        backgroundColor: isSelected ? `${activeTheme.aiPurple}20` : activeTheme.surface,
+                        borderColor: isSelected ? activeTheme.aiPurple : activeTheme.border,
+                      },
+                    ]}
+                  >
+                    <Text style={[styles.halfLifeChipText, { color: isSelected ? activeTheme.aiPurple : activeTheme.text }]}>
+                      {label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <Text style={[styles.modelHint, { color: activeTheme.textMuted }]}>
+              {graphHalfLifeDays > 0
+                ? `Song transitions lose half their influence every ${graphHalfLifeDays} days`
+                : 'Old listening history counts as much as today'}
+            </Text>
+
+            <AnimatedPressable
+              onPress={handleSyncLikedSongs}
+              disabled={isSyncingLikes}
+              style={[syncButtonStyle, { marginTop: 16 }, isSyncingLikes && styles.buttonDisabled]}
+              {...createPressHandlers(syncScale)}
+            >
+              <View
+                style={[
+                  styles.testButton,
+                  { backgroundColor: activeTheme.surface, borderColor: activeTheme.border, marginBottom: 0 },
+                ]}
+              >
+                {isSyncingLikes ? (
+                  <ActivityIndicator color={activeTheme.text} size="small" />
+                ) : (
+                  <Ionicons name="heart-outline" size={18} color={activeTheme.text} />
+                )}
+                <Text style={[styles.testButtonText, { color: activeTheme.text }]}>
+                  {isSyncingLikes ? 'Syncing...' : 'Sync from Spotify'}
+                </Text>
+              </View>
+            </AnimatedPressable>
+            {isSyncingLikes && (
+              <Text style={[styles.modelHint, { color: activeTheme.textMuted }]}>
+                {syncStatusMessage}
+                {syncProgress.total > 0 ? ` ${syncProgress.current}/${syncProgress.total}` : ''}
+              </Text>
+            )}
+
+            <AnimatedPressable
+              onPress={() => setShowPlaylistPicker(true)}
+              style={[playlistButtonStyle, { marginTop: 12 }]}
+              {...createPressHandlers(playlistScale)}
+            >
+              <View
+                style={[
+                  styles.testButton,
+                  { backgroundColor: activeTheme.surface, borderColor: activeTheme.border, marginBottom: 0 },
+                ]}
+              >
+                <Ionicons name="list-outline" size={18} color={activeTheme.text} />
+                <Text style={[styles.testButtonText, { color: activeTheme.text }]}>Add Playlists</Text>
+              </View>
+            </AnimatedPressable>
+            <Text style={[styles.modelHint, { color: activeTheme.textMuted }]}>
+              Hand-picked playlists are a strong taste signal for recommendations
+            </Text>
+
+            <Pressable
+              onPress={() => router.push('/taste')}
+              style={[
+                styles.testButton,
+                { backgroundColor: activeTheme.surface, borderColor: activeTheme.border, marginTop: 12, marginBottom: 0 },
+              ]}
+            >
+              <Ionicons name="trending-up-outline" size={18} color={activeTheme.text} />
+              <Text style={[styles.testButtonText, { color: activeTheme.text }]}>Taste Evolution</Text>
+            </Pressable>
+          </GlassCard>
+        </Animated.View>
+
         {/* About Section */}
         <Animated.View entering={FadeInDown.delay(400).duration(500)} style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -614,7 +995,7 @@ export default function SettingsScreen() {
             <View style={styles.aboutRow}>
               <Text style={[styles.aboutLabel, { color: activeTheme.textSecondary }]}>AI Engine</Text>
               <Text style={[styles.aboutValue, { color: activeTheme.text }]}>
-                {GEMINI_MODELS[selectedModel]?.name || 'Gemini'}
+                {activeModelName || 'Gemini'}
               </Text>
             </View>
             <View style={styles.aboutRow}>
@@ -624,6 +1005,8 @@ export default function SettingsScreen() {
           </GlassCard>
         </Animated.View>
       </ScrollView>
+
+      <PlaylistPickerModal visible={showPlaylistPicker} onClose={() => setShowPlaylistPicker(false)} />
     </LinearGradient>
   );
 }
@@ -680,6 +1063,11 @@ const styles = StyleSheet.create({
   aboutRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingVertical: 10, borderBottomWidth: 1, borderBottomColor: 'rgba(255,255,255,0.05)' },
   aboutLabel: { fontSize: 14 },
   aboutValue: { fontSize: 14, fontWeight: '600' },
+  halfLifeRow: { flexDirection: 'row', gap: 8 },
+  halfLifeChip: { flex: 1, alignItems: 'center', paddingVertical: 10, borderRadius: 10, borderWidth: 1.5 },
+  halfLifeChipText: { fontSize: 13, fontWeight: '600' },
+  usageBarTrack: { height: 6, borderRadius: 3, overflow: 'hidden', marginBottom: 8 },
+  usageBarFill: { height: '100%', borderRadius: 3 },
   statusBanner: { flexDirection: 'row', alignItems: 'center', gap: 8, padding: 12, borderRadius: 10, marginTop: 12 },
   statusText: { fontSize: 13, fontWeight: '500', flex: 1 },
 });
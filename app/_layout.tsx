@@ -54,7 +54,7 @@ export default function RootLayout() {
     import('@/BackgroundTask').then((m) => m.registerBackgroundTask().catch(() => {})).catch(() => {});
   }, []);
 
-  // At init: if auth is ready and graph is empty, show setup so liked-songs ingestion runs
+  // At init: if auth is ready and graph is empty (or ingestion was interrupted), show setup so liked-songs ingestion runs
   useEffect(() => {
     let cancelled = false;
     (async () => {
@@ -62,7 +62,8 @@ export default function RootLayout() {
         const token = await dbService.getServiceToken('spotify');
         if (!token || cancelled) return;
         const populated = await graphService.isGraphPopulated();
-        if (!cancelled && !populated) setStep('GRAPH');
+        const pending = await graphService.getIngestionProgress();
+        if (!cancelled && (!populated || pending)) setStep('GRAPH');
       } catch {
         // ignore; SetupScreen checkStatus will handle flow
       }
@@ -78,6 +79,7 @@ export default function RootLayout() {
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
             <Stack.Screen name="callback" options={{ headerShown: false }} />
             <Stack.Screen name="queue" options={{ presentation: 'modal', title: 'Queue' }} />
+            <Stack.Screen name="taste" options={{ presentation: 'modal', title: 'Taste Evolution' }} />
             <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
           </Stack>
           {step !== 'READY' && <SetupScreen />}
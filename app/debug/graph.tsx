@@ -1,4 +1,5 @@
 import { graphService, type GraphNode, type EdgeType, type NodeType } from '@/services/graph/GraphService';
+import { countIntegrityIssues, type GraphIntegrityReport } from '@/services/graph/graphIntegrity';
 import { getEdgeColor, getNodeColor } from '@/services/graph/graphColors';
 import * as d3 from 'd3';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
@@ -6,7 +7,7 @@ import { Platform, StyleSheet, Text, View } from 'react-native';
 
 /* ── constants ── */
 const NODE_TYPES: NodeType[] = ['SONG', 'ARTIST', 'VIBE', 'GENRE', 'AUDIO_FEATURE'];
-const EDGE_TYPES: EdgeType[] = ['SIMILAR', 'NEXT', 'RELATED', 'HAS_FEATURE', 'HAS_GENRE'];
+const EDGE_TYPES: EdgeType[] = ['SIMILAR', 'NEXT', 'RELATED', 'HAS_FEATURE', 'HAS_GENRE', 'SKIPPED_IN'];
 type Vis = Record<string, boolean>;
 const allOn = (keys: readonly string[]): Vis => Object.fromEntries(keys.map(k => [k, true]));
 
@@ -18,6 +19,7 @@ export default function GraphDebugScreen() {
     const [nodeVis, setNodeVis] = useState<Vis>(() => allOn(NODE_TYPES));
     const [edgeVis, setEdgeVis] = useState<Vis>(() => allOn(EDGE_TYPES));
     const [svgReady, setSvgReady] = useState(false);
+    const [integrity, setIntegrity] = useState<{ report: GraphIntegrityReport | null; repaired: boolean } | null>(null);
 
     const attachSvg = useCallback((el: SVGSVGElement | null) => {
         svgRef.current = el;
@@ -40,9 +42,16 @@ export default function GraphDebugScreen() {
         if (Platform.OS === 'web') window.location.href = '/';
     };
 
+    const handleIntegrity = async (repair: boolean) => {
+        const report = await graphService.verifyIntegrity(repair);
+        setIntegrity({ report, repaired: repair });
+        if (repair && report && countIntegrityIssues(report) > 0) await loadGraph();
+    };
+
     return (
         <View style={s.root}>
-            <Header stats={stats} onRefresh={loadGraph} onClear={handleClear} />
+            <Header stats={stats} onRefresh={loadGraph} onClear={handleClear} onIntegrity={handleIntegrity} />
+            {integrity && <IntegrityBar {...integrity} />}
             <FilterBar label="Nodes" types={NODE_TYPES} vis={nodeVis} setVis={setNodeVis} colorFn={getNodeColor} />
             <FilterBar label="Edges" types={EDGE_TYPES} vis={edgeVis} setVis={setEdgeVis} colorFn={getEdgeColor} />
             <Canvas attachSvg={attachSvg} />
@@ -53,18 +62,35 @@ export default function GraphDebugScreen() {
 
 /* ══════════════════ COMPONENTS ══════════════════ */
 
-function Header({ stats, onRefresh, onClear }: { stats: { nodes: number; edges: number }; onRefresh: () => void; onClear: () => void }) {
+function Header({ stats, onRefresh, onClear, onIntegrity }: {
+    stats: { nodes: number; edges: number }; onRefresh: () => void; onClear: () => void; onIntegrity: (repair: boolean) => void;
+}) {
     return (
         <View style={s.row}>
             <Text style={s.title}>Graph</Text>
             <Text style={s.stat}>N: {stats.nodes}</Text>
             <Text style={s.stat}>E: {stats.edges}</Text>
             <Btn label="Refresh" color="#1DB954" outline onPress={onRefresh} />
+            <Btn label="Check" color="#FFC107" outline onPress={() => onIntegrity(false)} />
+            <Btn label="Repair" color="#FFC107" onPress={() => onIntegrity(true)} />
             <Btn label="Clear & Re-ingest" color="#FF5722" onPress={onClear} />
         </View>
     );
 }
 
+function IntegrityBar({ report, repaired }: { report: GraphIntegrityReport | null; repaired: boolean }) {
+    if (!report) return <Text style={[s.detailText, s.integrity]}>Integrity check failed (see logs)</Text>;
+    const issues = countIntegrityIssues(report);
+    const dupes = report.duplicateNodeGroups.reduce((sum, ids) => sum + ids.length - 1, 0);
+    return (
+        <Text style={[s.detailText, s.integrity]}>
+            {issues === 0 ? 'Integrity OK' : `${repaired ? 'Repaired' : 'Found'} ${issues} issues: `}
+            {issues > 0 && `${report.danglingEdges.length} dangling edges · ${report.orphanNodeIds.length} orphans · ` +
+                `${report.corruptDataNodeIds.length} corrupt data · ${dupes} duplicates`}
+        </Text>
+    );
+}
+
 function FilterBar({ label, types, vis, setVis, colorFn }: {
     label: string; types: readonly string[]; vis: Vis;
     setVis: React.Dispatch<React.SetStateAction<Vis>>; colorFn: (t: any) => string;
@@ -254,4 +280,5 @@ const s = StyleSheet.create({
     detail: { padding: 8, marginTop: 4, backgroundColor: '#151515', borderRadius: 6, borderLeftWidth: 3, borderLeftColor: '#1DB954' },
     detailTitle: { color: '#fff', fontSize: 13, fontWeight: 'bold' },
     detailText: { color: '#999', fontSize: 10, fontFamily: 'monospace' },
+    integrity: { paddingHorizontal: 4, marginBottom: 4 },
 });
@@ -1,18 +1,23 @@
 import { THEMES } from '@/constants/theme';
-import { usePlayerStore } from '@/stores/PlayerStore';
+import { usePlayerStore, type Track } from '@/stores/PlayerStore';
 import { useSettingsStore } from '@/stores/SettingsStore';
 import { Ionicons } from '@expo/vector-icons';
-import React from 'react';
+import React, { useState } from 'react';
 import { FlatList, Image, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 
 export default function QueueScreen() {
     const { theme } = useSettingsStore();
     const activeTheme = THEMES[theme] || THEMES.midnight;
     const { queue, currentTrack, isPlaying, syncFromSpotify } = usePlayerStore();
+    const [expandedUri, setExpandedUri] = useState<string | null>(null);
 
-    const renderQueueItem = ({ item, index }: { item: any; index: number }) => {
+    const renderQueueItem = ({ item, index }: { item: Track; index: number }) => {
+        const why = item.explanation?.text ?? item.reason;
+        const expanded = expandedUri === item.uri;
         return (
-            <View
+            <Pressable
+                onPress={() => setExpandedUri(expanded ? null : item.uri)}
+                disabled={!why}
                 style={[
                     styles.queueItem,
                     { backgroundColor: activeTheme.surface, borderColor: activeTheme.border },
@@ -38,8 +43,23 @@ export default function QueueScreen() {
                     <Text style={[styles.trackArtist, { color: activeTheme.textSecondary }]} numberOfLines={1}>
                         {item.artist}
                     </Text>
+                    {why && (
+                        <View style={styles.whyRow}>
+                            <Ionicons
+                                name={item.explanation ? 'git-network-outline' : 'sparkles-outline'}
+                                size={11}
+                                color={activeTheme.aiPurple}
+                            />
+                            <Text
+                                style={[styles.whyText, { color: activeTheme.textSecondary }]}
+                                numberOfLines={expanded ? undefined : 1}
+                            >
+                                {why}
+                            </Text>
+                        </View>
+                    )}
                 </View>
-            </View>
+            </Pressable>
         );
     };
 
@@ -207,6 +227,17 @@ const styles = StyleSheet.create({
     trackArtist: {
         fontSize: 13,
     },
+    whyRow: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 4,
+        marginTop: 4,
+    },
+    whyText: {
+        flex: 1,
+        fontSize: 11,
+        fontStyle: 'italic',
+    },
     emptyState: {
         paddingVertical: 40,
         alignItems: 'center',
@@ -0,0 +1,314 @@
+import { THEMES } from '@/constants/theme';
+import { graphService } from '@/services/graph/GraphService';
+import { diffTasteSnapshots, genreShareSeries, type TasteSnapshot } from '@/services/graph/tasteEvolution';
+import { useSettingsStore } from '@/stores/SettingsStore';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, View, useWindowDimensions } from 'react-native';
+import Svg, { Line, Polyline, Rect } from 'react-native-svg';
+
+type Theme = (typeof THEMES)[keyof typeof THEMES];
+
+const CHART_HEIGHT = 140;
+const GENRE_COLORS = ['#667EEA', '#1DB954', '#F59E0B', '#EC4899', '#06B6D4', 'rgba(255,255,255,0.25)'];
+const ENERGY_COLOR = '#F59E0B';
+const VALENCE_COLOR = '#1DB954';
+
+/** Compare the latest snapshot against the one this many weeks earlier (or the oldest). */
+const BASELINE_OPTIONS: { weeks: number; label: string }[] = [
+    { weeks: 1, label: '1 wk' },
+    { weeks: 4, label: '1 mo' },
+    { weeks: 12, label: '3 mo' },
+];
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const pct = (share: number) => `${Math.round(share * 100)}%`;
+const signedPct = (change: number) => `${change >= 0 ? '+' : ''}${Math.round(change * 100)}%`;
+
+export default function TasteEvolutionScreen() {
+    const { theme } = useSettingsStore();
+    const activeTheme = THEMES[theme] || THEMES.midnight;
+    const { width } = useWindowDimensions();
+    const chartWidth = width - 40;
+    const [snapshots, setSnapshots] = useState<TasteSnapshot[] | null>(null);
+    const [baselineWeeks, setBaselineWeeks] = useState(4);
+
+    const load = async () => setSnapshots(await graphService.getTasteSnapshots());
+
+    useEffect(() => {
+        graphService.takeTasteSnapshotIfDue().finally(load);
+    }, []);
+
+    const handleSnapshot = async () => {
+        await graphService.takeTasteSnapshot();
+        await load();
+    };
+
+    const latest = snapshots?.[snapshots.length - 1];
+    const baseline = latest && snapshots
+        ? [...snapshots].reverse().find(s => latest.takenAt - s.takenAt >= baselineWeeks * WEEK_MS) ?? snapshots[0]
+        : undefined;
+    const diff = latest && baseline && baseline !== latest ? diffTasteSnapshots(baseline, latest) : null;
+
+    return (
+        <ScrollView style={[styles.container, { backgroundColor: activeTheme.background }]}>
+            <View style={styles.header}>
+                <Text style={[styles.headerTitle, { color: activeTheme.text }]}>Taste Evolution</Text>
+                <Pressable onPress={handleSnapshot} hitSlop={12}>
+                    <Ionicons name="camera-outline" size={22} color={activeTheme.textSecondary} />
+                </Pressable>
+            </View>
+
+            {!snapshots ? (
+                <ActivityIndicator style={styles.emptyState} color={activeTheme.textSecondary} />
+            ) : snapshots.length < 2 ? (
+                <View style={styles.emptyState}>
+                    <Ionicons name="trending-up-outline" size={40} color={activeTheme.textSecondary} />
+                    <Text style={[styles.emptyText, { color: activeTheme.textSecondary }]}>
+                        A snapshot of your taste is taken every week.{'\n'}Check back once there are two.
+                    </Text>
+                </View>
+            ) : (
+                <>
+                    <View style={styles.section}>
+                        <Text style={[styles.sectionTitle, { color: activeTheme.textSecondary }]}>GENRE SHARE</Text>
+                        <GenreShareChart snapshots={snapshots} width={chartWidth} theme={activeTheme} />
+                    </View>
+
+                    <View style={styles.section}>
+                        <Text style={[styles.sectionTitle, { color: activeTheme.textSecondary }]}>ENERGY & MOOD</Text>
+                        <AudioTrendChart snapshots={snapshots} width={chartWidth} theme={activeTheme} />
+                    </View>
+
+                    <View style={styles.section}>
+                        <Text style={[styles.sectionTitle, { color: activeTheme.textSecondary }]}>WHAT CHANGED</Text>
+                        <View style={styles.chipRow}>
+                            {BASELINE_OPTIONS.map(({ weeks, label }) => {
+                                const selected = weeks === baselineWeeks;
+                                return (
+                                    <Pressable
+                                        key={weeks}
+                                        onPress={() => setBaselineWeeks(weeks)}
+                                        style={[
+                                            styles.chip,
+                                            {
+                                                backgroundColor: selected ? `${activeTheme.aiPurple}20` : activeTheme.surface,
+                                                borderColor: selected ? activeTheme.aiPurple : activeTheme.border,
+                                            },
+                                        ]}
+                                    >
+                                        <Text style={[styles.chipText, { color: selected ? activeTheme.aiPurple : activeTheme.text }]}>
+                                            {label}
+                                        </Text>
+                                    </Pressable>
+                                );
+                            })}
+                        </View>
+                        {diff && (
+                            <View style={[styles.card, { backgroundColor: activeTheme.surface, borderColor: activeTheme.border }]}>
+                                <Text style={[styles.cardHint, { color: activeTheme.textMuted }]}>
+                                    Over the last {diff.days} days
+                                </Text>
+                                {diff.genres.filter(g => g.change !== 0).slice(0, 5).map(g => (
+                                    <View key={g.name} style={styles.diffRow}>
+                                        <Text style={[styles.diffLabel, { color: activeTheme.text }]} numberOfLines={1}>{g.name}</Text>
+                                        <Text style={[styles.diffValue, { color: activeTheme.textSecondary }]}>
+                                            {pct(g.before)} → {pct(g.after)}
+                                        </Text>
+                                        <Text style={[styles.diffValue, { color: g.change > 0 ? VALENCE_COLOR : ENERGY_COLOR }]}>
+                                            {signedPct(g.change)}
+                                        </Text>
+                                    </View>
+                                ))}
+                                {diff.audio && (
+                                    <Text style={[styles.cardLine, { color: activeTheme.textSecondary }]}>
+                                        Energy {signedPct(diff.audio.energy)} · Mood {signedPct(diff.audio.valence)} · Danceability {signedPct(diff.audio.danceability)}
+                                    </Text>
+                                )}
+                                {diff.addedReps.length > 0 && (
+                                    <Text style={[styles.cardLine, { color: activeTheme.textSecondary }]} numberOfLines={2}>
+                                        New favourites: {diff.addedReps.slice(0, 3).join(', ')}
+                                    </Text>
+                                )}
+                                <Text style={[styles.cardLine, { color: activeTheme.textMuted }]}>
+                                    Graph: {diff.nodes >= 0 ? '+' : ''}{diff.nodes} nodes, {diff.edges >= 0 ? '+' : ''}{diff.edges} edges
+                                </Text>
+                            </View>
+                        )}
+                    </View>
+                </>
+            )}
+        </ScrollView>
+    );
+}
+
+/** Stacked bars: one per snapshot, split by genre share. */
+function GenreShareChart({ snapshots, width, theme }: { snapshots: TasteSnapshot[]; width: number; theme: Theme }) {
+    const series = genreShareSeries(snapshots, GENRE_COLORS.length - 1);
+    const slot = width / snapshots.length;
+    const barWidth = Math.max(2, slot * 0.7);
+
+    return (
+        <View>
+            <Svg width={width} height={CHART_HEIGHT}>
+                {snapshots.map((snapshot, i) => {
+                    let y = CHART_HEIGHT;
+                    return series.map((s, k) => {
+                        const h = s.shares[i] * CHART_HEIGHT;
+                        y -= h;
+                        return (
+                            <Rect
+                                key={`${snapshot.takenAt}-${s.name}`}
+                                x={i * slot + (slot - barWidth) / 2}
+                                y={y}
+                                width={barWidth}
+                                height={h}
+                                fill={GENRE_COLORS[Math.min(k, GENRE_COLORS.length - 1)]}
+                            />
+                        );
+                    });
+                })}
+            </Svg>
+            <View style={styles.legend}>
+                {series.map((s, k) => (
+                    <View key={s.name} style={styles.legendItem}>
+                        <View style={[styles.legendDot, { backgroundColor: GENRE_COLORS[Math.min(k, GENRE_COLORS.length - 1)] }]} />
+                        <Text style={[styles.legendText, { color: theme.textSecondary }]}>{s.name}</Text>
+                    </View>
+                ))}
+            </View>
+        </View>
+    );
+}
+
+/** Energy and valence (0–1) over the snapshots. */
+function AudioTrendChart({ snapshots, width, theme }: { snapshots: TasteSnapshot[]; width: number; theme: Theme }) {
+    const withAudio = snapshots.filter(s => s.audioProfile);
+    if (withAudio.length < 2) {
+        return <Text style={[styles.cardHint, { color: theme.textMuted }]}>Not enough audio features yet</Text>;
+    }
+    const x = (i: number) => (i / (withAudio.length - 1)) * (width - 8) + 4;
+    const y = (value: number) => CHART_HEIGHT - value * (CHART_HEIGHT - 8) - 4;
+    const points = (key: 'energy' | 'valence') =>
+        withAudio.map((s, i) => `${x(i)},${y(s.audioProfile![key])}`).join(' ');
+
+    return (
+        <View>
+            <Svg width={width} height={CHART_HEIGHT}>
+                <Line x1={0} x2={width} y1={y(0.5)} y2={y(0.5)} stroke={theme.border} strokeDasharray="4 4" />
+                <Polyline points={points('energy')} fill="none" stroke={ENERGY_COLOR} strokeWidth={2} />
+                <Polyline points={points('valence')} fill="none" stroke={VALENCE_COLOR} strokeWidth={2} />
+            </Svg>
+            <View style={styles.legend}>
+                <View style={styles.legendItem}>
+                    <View style={[styles.legendDot, { backgroundColor: ENERGY_COLOR }]} />
+                    <Text style={[styles.legendText, { color: theme.textSecondary }]}>energy</Text>
+                </View>
+                <View style={styles.legendItem}>
+                    <View style={[styles.legendDot, { backgroundColor: VALENCE_COLOR }]} />
+                    <Text style={[styles.legendText, { color: theme.textSecondary }]}>valence (mood)</Text>
+                </View>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingTop: 20,
+    },
+    headerTitle: {
+        fontSize: 28,
+        fontWeight: '700',
+    },
+    section: {
+        paddingHorizontal: 20,
+        marginTop: 20,
+    },
+    sectionTitle: {
+        fontSize: 12,
+        fontWeight: '700',
+        letterSpacing: 1,
+        marginBottom: 12,
+    },
+    legend: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 12,
+        marginTop: 8,
+    },
+    legendItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    legendDot: {
+        width: 8,
+        height: 8,
+        borderRadius: 4,
+    },
+    legendText: {
+        fontSize: 11,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        gap: 8,
+        marginBottom: 12,
+    },
+    chip: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderRadius: 10,
+        borderWidth: 1.5,
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    card: {
+        padding: 14,
+        borderRadius: 12,
+        borderWidth: 1,
+        gap: 6,
+    },
+    cardHint: {
+        fontSize: 11,
+        fontStyle: 'italic',
+    },
+    cardLine: {
+        fontSize: 13,
+        marginTop: 4,
+    },
+    diffRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    diffLabel: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    diffValue: {
+        fontSize: 13,
+        fontWeight: '500',
+    },
+    emptyState: {
+        paddingVertical: 40,
+        alignItems: 'center',
+    },
+    emptyText: {
+        fontSize: 14,
+        marginTop: 12,
+        textAlign: 'center',
+    },
+});
@@ -0,0 +1,253 @@
+import { THEMES } from '@/constants/theme';
+import { graphService, type PlaylistChoice } from '@/services/graph/GraphService';
+import { useInitializationStore } from '@/stores/InitializationStore';
+import { useSettingsStore } from '@/stores/SettingsStore';
+import { Ionicons } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import Animated, { FadeInDown, FadeOutDown } from 'react-native-reanimated';
+
+interface PlaylistPickerModalProps {
+    visible: boolean;
+    onClose: () => void;
+}
+
+/** Pick playlists to add to the knowledge graph (already-ingested ones start selected). */
+export function PlaylistPickerModal({ visible, onClose }: PlaylistPickerModalProps) {
+    const { theme } = useSettingsStore();
+    const activeTheme = THEMES[theme] || THEMES.midnight;
+    const statusMessage = useInitializationStore((s) => s.statusMessage);
+
+    const [playlists, setPlaylists] = useState<PlaylistChoice[]>([]);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isLoading, setIsLoading] = useState(false);
+    const [isIngesting, setIsIngesting] = useState(false);
+
+    useEffect(() => {
+        if (!visible) return;
+        let cancelled = false;
+        setIsLoading(true);
+        graphService.getPlaylistChoices()
+            .then((choices) => {
+                if (cancelled) return;
+                setPlaylists(choices);
+                setSelected(new Set(choices.filter(p => p.ingested).map(p => p.id)));
+            })
+            .catch((e) => console.error('Playlist load error:', e))
+            .finally(() => !cancelled && setIsLoading(false));
+        return () => { cancelled = true; };
+    }, [visible]);
+
+    const toggle = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const handleIngest = async () => {
+        setIsIngesting(true);
+        try {
+            const result = await graphService.ingestPlaylists(playlists.filter(p => selected.has(p.id)));
+            Alert.alert('Playlists Added', `${result.playlists} playlists, ${result.songs} new songs`);
+            onClose();
+        } catch (e) {
+            console.error('Playlist ingestion error:', e);
+            Alert.alert('Error', 'Failed to add playlists');
+        } finally {
+            setIsIngesting(false);
+        }
+    };
+
+    if (!visible) return null;
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <BlurView intensity={20} style={styles.overlay}>
+                <Pressable style={styles.backdrop} onPress={isIngesting ? undefined : onClose} />
+
+                <Animated.View
+                    entering={FadeInDown.springify().damping(15)}
+                    exiting={FadeOutDown}
+                    style={[styles.container, { backgroundColor: activeTheme.surfaceStrong }]}
+                >
+                    <View style={styles.handle} />
+
+                    <View style={styles.headerContainer}>
+                        <Text style={[styles.title, { color: activeTheme.text }]}>Playlists</Text>
+                        <Text style={[styles.subtitle, { color: activeTheme.textSecondary }]}>
+                            {selected.size} selected
+                        </Text>
+                    </View>
+
+                    {isLoading ? (
+                        <ActivityIndicator color={activeTheme.primary} style={styles.loader} />
+                    ) : (
+                        <ScrollView
+                            showsVerticalScrollIndicator={false}
+                            contentContainerStyle={styles.listContent}
+                        >
+                            {playlists.length === 0 && (
+                                <Text style={[styles.emptyText, { color: activeTheme.textSecondary }]}>No playlists found</Text>
+                            )}
+                            {playlists.map((playlist) => {
+                                const isSelected = selected.has(playlist.id);
+                                return (
+                                    <Pressable
+                                        key={playlist.id}
+                                        onPress={() => toggle(playlist.id)}
+                                        disabled={isIngesting}
+                                        style={[styles.playlistRow, { backgroundColor: activeTheme.surface }]}
+                                    >
+                                        <Ionicons
+                                            name={isSelected ? 'checkbox' : 'square-outline'}
+                                            size={22}
+                                            color={isSelected ? activeTheme.primary : activeTheme.textMuted}
+                                        />
+                                        <View style={styles.playlistInfo}>
+                                            <Text style={[styles.playlistName, { color: activeTheme.text }]} numberOfLines={1}>
+                                                {playlist.name}
+                                            </Text>
+                                            <Text style={[styles.playlistMeta, { color: activeTheme.textSecondary }]} numberOfLines={1}>
+                                                {playlist.trackCount} songs{playlist.owner ? ` · ${playlist.owner}` : ''}
+                                            </Text>
+                                        </View>
+                                        {playlist.ingested && (
+                                            <Ionicons name="git-network-outline" size={16} color={activeTheme.textMuted} />
+                                        )}
+                                    </Pressable>
+                                );
+                            })}
+                        </ScrollView>
+                    )}
+
+                    <View style={styles.footer}>
+                        {isIngesting && (
+                            <Text style={[styles.statusText, { color: activeTheme.textMuted }]}>{statusMessage}</Text>
+                        )}
+                        <Pressable
+                            onPress={handleIngest}
+                            disabled={isIngesting || selected.size === 0}
+                            style={[
+                                styles.ingestButton,
+                                { backgroundColor: activeTheme.primary },
+                                (isIngesting || selected.size === 0) && styles.buttonDisabled,
+                            ]}
+                        >
+                            {isIngesting ? (
+                                <ActivityIndicator color={activeTheme.background} size="small" />
+                            ) : (
+                                <Text style={[styles.ingestButtonText, { color: activeTheme.background }]}>Add to Graph</Text>
+                            )}
+                        </Pressable>
+                    </View>
+                </Animated.View>
+            </BlurView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: 'flex-end',
+    },
+    backdrop: {
+        ...StyleSheet.absoluteFillObject,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+    },
+    container: {
+        height: '80%',
+        borderTopLeftRadius: 30,
+        borderTopRightRadius: 30,
+        paddingTop: 24,
+        paddingBottom: 40,
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: -4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 10,
+        elevation: 10,
+    },
+    handle: {
+        width: 40,
+        height: 5,
+        backgroundColor: 'rgba(120,120,120,0.4)',
+        borderRadius: 3,
+        alignSelf: 'center',
+        marginBottom: 20,
+    },
+    headerContainer: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 10,
+        paddingHorizontal: 24,
+        paddingVertical: 10,
+    },
+    title: {
+        fontSize: 24,
+        fontWeight: '700',
+    },
+    subtitle: {
+        fontSize: 14,
+    },
+    loader: {
+        marginTop: 40,
+    },
+    listContent: {
+        paddingHorizontal: 24,
+        paddingBottom: 20,
+    },
+    playlistRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 12,
+        borderRadius: 12,
+        marginBottom: 8,
+    },
+    playlistInfo: {
+        flex: 1,
+    },
+    playlistName: {
+        fontSize: 16,
+        fontWeight: '600',
+        marginBottom: 2,
+    },
+    playlistMeta: {
+        fontSize: 13,
+    },
+    emptyText: {
+        textAlign: 'center',
+        marginTop: 20,
+    },
+    footer: {
+        paddingHorizontal: 24,
+        paddingTop: 12,
+        gap: 8,
+    },
+    statusText: {
+        fontSize: 12,
+        textAlign: 'center',
+    },
+    ingestButton: {
+        padding: 14,
+        borderRadius: 12,
+        alignItems: 'center',
+    },
+    ingestButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    buttonDisabled: {
+        opacity: 0.5,
+    },
+});
@@ -2,6 +2,7 @@ import { THEMES } from '@/constants/theme';
 import { dbService } from '@/services/database';
 import { gemini } from '@/services/gemini/GeminiService';
 import { graphService } from '@/services/graph/GraphService';
+import { DEFAULT_LLM_SETTINGS, LLMProviderSettings } from '@/services/llm/types';
 import { getRedirectUri, useSpotifyAuth } from '@/services/spotify/SpotifyAuthService';
 import { useInitializationStore } from '@/stores/InitializationStore';
 import { useSettingsStore } from '@/stores/SettingsStore';
@@ -24,6 +25,11 @@ export const SetupScreen = () => {
     const [inputValue, setInputValue] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [isChecking, setIsChecking] = useState(true);
+    // GEMINI step alternative: an OpenAI-compatible server (e.g. a local Ollama) instead of a Gemini key
+    const [useLocalModel, setUseLocalModel] = useState(false);
+    const [localBaseUrl, setLocalBaseUrl] = useState(DEFAULT_LLM_SETTINGS.baseUrl);
+    const [localModel, setLocalModel] = useState('');
+    const [resumeInfo, setResumeInfo] = useState<Awaited<ReturnType<typeof graphService.getIngestionProgress>>>(null);
     const graphIngestionStarted = useRef(false);
 
     // Load initial preference or check status on mount
@@ -60,16 +66,24 @@ export const SetupScreen = () => {
                 return;
             }
 
-            // 3. Check Gemini
-            const geminiKey = await dbService.getPreference('gemini_api_key');
-            if (!geminiKey) {
+            // 3. Check Gemini (or the local model configured instead)
+            if (!(await gemini.isConfigured())) {
                 setStep('GEMINI');
                 setIsChecking(false);
                 return;
             }
 
             // 4. Check Graph
-            // 4. Check Graph
+            // An interrupted ingestion leaves a partial graph behind: resume it before trusting the data
+            const pendingIngestion = await graphService.getIngestionProgress();
+            setResumeInfo(pendingIngestion);
+            if (pendingIngestion) {
+                console.log(`[Setup] Resumable ingestion found (phase: ${pendingIngestion.phase})`);
+                setStep('GRAPH');
+                setIsChecking(false);
+                return;
+            }
+
             const graphIngestedPref = await dbService.getPreference('graph_ingested_liked');
             const isGraphPopulated = await graphService.isGraphPopulated();
 
@@ -172,6 +186,33 @@ export const SetupScreen = () => {
         }
     };
 
+    const handleLocalModelSubmit = async () => {
+        if (!localBaseUrl.trim() || !localModel.trim()) {
+            setError('Please enter the server URL and model name');
+            return;
+        }
+
+        setIsLoading(true);
+        setError(null);
+
+        try {
+            const settings: LLMProviderSettings = { ...DEFAULT_LLM_SETTINGS, provider: 'openai-compatible', baseUrl: localBaseUrl, model: localModel };
+            const { available, error: testError } = await gemini.testProviderSettings(settings);
+
+            if (available) {
+                await gemini.setProviderSettings(settings);
+                checkStatus();
+            } else {
+                setError(testError || 'Could not reach the model');
+            }
+        } catch (e: any) {
+            console.error('[Setup] Local model test error:', e);
+            setError(e.message || 'Could not reach the model. Is the server running?');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
     const startGraphIngestion = async () => {
         setStatusMessage('Connecting to Spotify...');
         setProgress({ current: 0, total: 100 }); // Initial State
@@ -184,11 +225,13 @@ export const SetupScreen = () => {
                 return;
             }
 
-            setStatusMessage('Starting ingestion...');
+            setError(null);
+            setStatusMessage(resumeInfo ? 'Resuming ingestion...' : 'Starting ingestion...');
 
             // Ingest songs. The Service is responsible for updating the store progress.
             await graphService.ingestLikedSongs();
 
+            setResumeInfo(null);
             setStatusMessage('Graph ready!');
 
             setTimeout(() => {
@@ -197,8 +240,9 @@ export const SetupScreen = () => {
 
         } catch (e) {
             console.error('Ingestion Error', e);
-            setError('Failed to build graph. Please try again.');
+            setError('Failed to build graph. Progress is saved — you can resume.');
             setStatusMessage('');
+            setResumeInfo(await graphService.getIngestionProgress());
         }
     };
 
@@ -272,6 +316,60 @@ export const SetupScreen = () => {
                 );
 
             case 'GEMINI':
+                if (useLocalModel) {
+                    return (
+                        <View style={styles.content}>
+                            <Ionicons name="laptop-outline" size={60} color={activeTheme.primary} style={styles.icon} />
+                            <Text style={[styles.title, { color: activeTheme.text }]}>Use a local model</Text>
+                            <Text style={[styles.subtitle, { color: activeTheme.textMuted }]}>
+                                Any OpenAI-compatible server works, like Ollama or llama.cpp on this machine.
+                            </Text>
+
+                            <TextInput
+                                style={[styles.input, {
+                                    color: activeTheme.text,
+                                    borderColor: activeTheme.border,
+                                    backgroundColor: 'rgba(255,255,255,0.05)'
+                                }]}
+                                placeholder="Server URL"
+                                placeholderTextColor={activeTheme.textMuted}
+                                value={localBaseUrl}
+                                onChangeText={setLocalBaseUrl}
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                            />
+                            <TextInput
+                                style={[styles.input, {
+                                    color: activeTheme.text,
+                                    borderColor: activeTheme.border,
+                                    backgroundColor: 'rgba(255,255,255,0.05)'
+                                }]}
+                                placeholder="Model (e.g. llama3.1:8b)"
+                                placeholderTextColor={activeTheme.textMuted}
+                                value={localModel}
+                                onChangeText={setLocalModel}
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                            />
+
+                            <TouchableOpacity
+                                style={[styles.button, { backgroundColor: activeTheme.primary }]}
+                                onPress={handleLocalModelSubmit}
+                                disabled={isLoading}
+                            >
+                                {isLoading ? (
+                                    <ActivityIndicator color={activeTheme.background} />
+                                ) : (
+                                    <Text style={[styles.buttonText, { color: activeTheme.background }]}>Test & Continue</Text>
+                                )}
+                            </TouchableOpacity>
+
+                            <TouchableOpacity onPress={() => { setUseLocalModel(false); setError(null); }}>
+                                <Text style={[styles.link, { color: activeTheme.primary }]}>Use a Gemini API Key instead</Text>
+                            </TouchableOpacity>
+                        </View>
+                    );
+                }
                 return (
                     <View style={styles.content}>
                         <Ionicons name="sparkles" size={60} color={activeTheme.primary} style={styles.icon} />
@@ -309,6 +407,10 @@ export const SetupScreen = () => {
                         <TouchableOpacity onPress={() => Linking.openURL('https://aistudio.google.com/app/apikey')}>
                             <Text style={[styles.link, { color: activeTheme.primary }]}>Get an API Key</Text>
                         </TouchableOpacity>
+
+                        <TouchableOpacity onPress={() => { setUseLocalModel(true); setError(null); }}>
+                            <Text style={[styles.link, { color: activeTheme.textMuted }]}>Use a local model instead</Text>
+                        </TouchableOpacity>
                     </View>
                 );
 
@@ -322,6 +424,14 @@ export const SetupScreen = () => {
                             Analyzing your favorites to create your personal music map.
                         </Text>
 
+                        {resumeInfo && (
+                            <Text style={[styles.status, { color: activeTheme.textMuted }]}>
+                                {resumeInfo.phase === 'fetch'
+                                    ? `Resuming — ${resumeInfo.fetched} of ${resumeInfo.total} songs fetched`
+                                    : `Resuming — ${resumeInfo.processed} of ${resumeInfo.fetched} songs done`}
+                            </Text>
+                        )}
+
                         <View style={[styles.progressContainer, { backgroundColor: activeTheme.surface }]}>
                             <View style={[styles.progressBar, { width: `${percentage}%`, backgroundColor: activeTheme.secondary }]} />
                         </View>
@@ -333,7 +443,7 @@ export const SetupScreen = () => {
 
                         {error && (
                             <TouchableOpacity onPress={startGraphIngestion}>
-                                <Text style={[styles.link, { color: activeTheme.error }]}>Retry</Text>
+                                <Text style={[styles.link, { color: activeTheme.error }]}>{resumeInfo ? 'Resume' : 'Retry'}</Text>
                             </TouchableOpacity>
                         )}
                     </View>
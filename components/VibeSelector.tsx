@@ -3,7 +3,7 @@ import { useSettingsStore } from '@/stores/SettingsStore';
 import { Ionicons } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
 import React from 'react';
-import { Dimensions, Modal, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { ActivityIndicator, Dimensions, Modal, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 import Animated, { FadeInDown, FadeOutDown } from 'react-native-reanimated';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -28,6 +28,7 @@ interface VibeSelectorProps {
     options: VibeOption[];
     onSelect: (option: VibeOption) => void;
     onClose: () => void;
+    /** More options are still streaming in; shows a placeholder card after the ones so far. */
     isLoading?: boolean;
 }
 
@@ -60,7 +61,9 @@ export function VibeSelector({ visible, options, onSelect, onClose, isLoading }:
                     <View style={[styles.headerContainer, { backgroundColor: activeTheme.surfaceStrong }]}>
                         <Text style={[styles.title, { color: activeTheme.text }]}>Choose Your Vibe</Text>
                         <Text style={[styles.subtitle, { color: activeTheme.textSecondary }]}>
-                            Swipe to explore {limitedOptions.length} directions
+                            {isLoading
+                                ? `Finding directions... ${limitedOptions.length} so far`
+                                : `Swipe to explore ${limitedOptions.length} directions`}
                         </Text>
                     </View>
 
@@ -82,7 +85,7 @@ export function VibeSelector({ visible, options, onSelect, onClose, isLoading }:
                                         backgroundColor: '#1E1E1E', // Solid background
                                         transform: [{ scale: pressed ? 0.96 : 1 }],
                                         marginLeft: index === 0 ? 24 : CARD_MARGIN / 2,
-                                        marginRight: index === limitedOptions.length - 1 ? 24 : CARD_MARGIN / 2,
+                                        marginRight: index === limitedOptions.length - 1 && !isLoading ? 24 : CARD_MARGIN / 2,
                                         borderWidth: 0, // Remove border for cleaner solid look
                                     }
                                 ]}
@@ -124,6 +127,21 @@ export function VibeSelector({ visible, options, onSelect, onClose, isLoading }:
                                 </View>
                             </Pressable>
                         ))}
+                        {isLoading && (
+                            <Animated.View
+                                entering={FadeInDown}
+                                style={[
+                                    styles.optionCard,
+                                    styles.loadingCard,
+                                    {
+                                        marginLeft: limitedOptions.length === 0 ? 24 : CARD_MARGIN / 2,
+                                        marginRight: 24,
+                                    },
+                                ]}
+                            >
+                                <ActivityIndicator color={activeTheme.primary} />
+                            </Animated.View>
+                        )}
                     </ScrollView>
 
                     {/* Dots indicator */}
@@ -213,6 +231,11 @@ const styles = StyleSheet.create({
         borderWidth: 1,
         borderColor: 'rgba(255,255,255,0.15)',
     },
+    loadingCard: {
+        backgroundColor: 'rgba(255,255,255,0.05)',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
     cardContent: {
         flex: 1,
         padding: 20,
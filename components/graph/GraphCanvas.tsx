@@ -23,8 +23,12 @@ interface GraphCanvasProps {
     onNodePress?: (node: SimNode) => void;
     width: number;
     height: number;
+    /** Node id → centrality (0–1); central nodes are drawn up to CENTRALITY_RADIUS_BOOST larger. */
+    centrality?: ReadonlyMap<number, number>;
 }
 
+const CENTRALITY_RADIUS_BOOST = 1.5;
+
 export function GraphCanvas({
     nodes,
     edges,
@@ -34,6 +38,7 @@ export function GraphCanvas({
     onNodePress,
     width,
     height,
+    centrality,
 }: GraphCanvasProps) {
     // O(1) node lookup by id — avoids O(n) find() per edge during render
     const nodeMap = useMemo(() => {
@@ -83,6 +88,9 @@ export function GraphCanvas({
             case 'VIBE': return 10;
             case 'SONG': return 5;
             case 'ARTIST': return 7;
+            case 'ERA': return 8;
+            case 'ALBUM': return 6;
+            case 'CONTEXT': return 8;
             default: return 4;
         }
     };
@@ -154,7 +162,7 @@ export function GraphCanvas({
                             {nodes.map(node => {
                                 if (!nodeVisibility[node.type]) return null;
 
-                                const r = getNodeRadius(node.type) * scale;
+                                const r = getNodeRadius(node.type) * (1 + CENTRALITY_RADIUS_BOOST * (centrality?.get(node.id) ?? 0)) * scale;
                                 const cx = vx(node.x);
                                 const cy = vy(node.y);
 
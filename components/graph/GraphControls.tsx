@@ -1,11 +1,11 @@
 import type { ModernTheme } from '@/constants/theme';
-import type { EdgeType, NodeType } from '@/services/graph/GraphService';
+import type { EdgeType, GraphAnalytics, NodeType } from '@/services/graph/GraphService';
 import { getThemedEdgeColor, getThemedNodeColor } from '@/services/graph/graphColors';
 import React from 'react';
 import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 
-const NODE_TYPES: NodeType[] = ['SONG', 'ARTIST', 'VIBE', 'GENRE', 'AUDIO_FEATURE'];
-const EDGE_TYPES: EdgeType[] = ['SIMILAR', 'NEXT', 'RELATED', 'HAS_FEATURE', 'HAS_GENRE'];
+const NODE_TYPES: NodeType[] = ['SONG', 'ARTIST', 'VIBE', 'GENRE', 'AUDIO_FEATURE', 'PLAYLIST', 'ALBUM', 'ERA', 'CONTEXT'];
+const EDGE_TYPES: EdgeType[] = ['SIMILAR', 'NEXT', 'RELATED', 'HAS_FEATURE', 'HAS_GENRE', 'SKIPPED_IN', 'IN_PLAYLIST', 'IN_ALBUM', 'FROM_ERA', 'SUBGENRE_OF', 'IN_CONTEXT'];
 
 interface GraphControlsProps {
     nodeVisibility: Record<string, boolean>;
@@ -14,9 +14,15 @@ interface GraphControlsProps {
     onToggleEdge: (type: string) => void;
     nodeCount: number;
     edgeCount: number;
+    /** Degree distribution and bridge count shown under the totals. */
+    analytics?: GraphAnalytics | null;
     theme: ModernTheme;
     onReimport?: () => void;
     onRefresh?: () => void;
+    /** Parent genres present in the graph; a selected one narrows the view to its genre family. */
+    parentGenres?: string[];
+    parentGenre?: string | null;
+    onSelectParentGenre?: (name: string | null) => void;
 }
 
 export function GraphControls({
@@ -26,9 +32,13 @@ export function GraphControls({
     onToggleEdge,
     nodeCount,
     edgeCount,
+    analytics = null,
     theme,
     onReimport,
     onRefresh,
+    parentGenres = [],
+    parentGenre = null,
+    onSelectParentGenre,
 }: GraphControlsProps) {
     // Import Ionicons here if not already available in scope (it wasn't imported in original file)
     // Actually typically passed or imported at top.
@@ -88,6 +98,11 @@ export function GraphControls({
                 </View>
             </View>
 
+            {/* Degree distribution (log₂ bins) + bridges */}
+            {analytics && analytics.degreeDistribution.length > 0 && (
+                <DegreeSummary analytics={analytics} theme={theme} />
+            )}
+
             {/* Node filters */}
             <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
                 <Text style={[styles.label, { color: theme.textMuted }]}>Nodes:</Text>
@@ -141,6 +156,67 @@ export function GraphControls({
                     );
                 })}
             </ScrollView>
+
+            {/* Parent genre filter */}
+            {onSelectParentGenre && parentGenres.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+                    <Text style={[styles.label, { color: theme.textMuted }]}>Genre:</Text>
+                    {[null, ...parentGenres].map(name => {
+                        const active = parentGenre === name;
+                        const color = getThemedNodeColor('GENRE', theme);
+                        return (
+                            <Pressable
+                                key={name ?? 'all'}
+                                onPress={() => onSelectParentGenre(name)}
+                                style={[
+                                    styles.chip,
+                                    {
+                                        backgroundColor: active ? `${color}20` : theme.surface,
+                                        borderColor: active ? color : 'transparent',
+                                    },
+                                ]}
+                            >
+                                <Text style={[styles.chipText, { color: active ? color : theme.textMuted }]}>
+                                    {name ?? 'All'}
+                                </Text>
+                            </Pressable>
+                        );
+                    })}
+                </ScrollView>
+            )}
+        </View>
+    );
+}
+
+const HISTOGRAM_HEIGHT = 16;
+
+function DegreeSummary({ analytics, theme }: { analytics: GraphAnalytics; theme: ModernTheme }) {
+    let nodes = 0;
+    let total = 0;
+    const bins: number[] = [];
+    for (const { degree, count } of analytics.degreeDistribution) {
+        nodes += count;
+        total += degree * count;
+        const bin = degree === 0 ? 0 : Math.floor(Math.log2(degree)) + 1;
+        bins[bin] = (bins[bin] || 0) + count;
+    }
+    const counts = Array.from(bins, count => count || 0);
+    const maxBin = Math.max(...counts);
+    const maxDegree = analytics.degreeDistribution[analytics.degreeDistribution.length - 1].degree;
+
+    return (
+        <View style={[styles.statsRow, { gap: 8 }]}>
+            <View style={styles.histogram}>
+                {counts.map((count, i) => (
+                    <View
+                        key={i}
+                        style={[styles.histogramBar, { height: Math.max(1, (count / maxBin) * HISTOGRAM_HEIGHT), backgroundColor: theme.aiPurple }]}
+                    />
+                ))}
+            </View>
+            <Text style={[styles.statText, { color: theme.textMuted }]}>
+                avg degree {nodes > 0 ? (total / nodes).toFixed(1) : 0} · max {maxDegree} · {analytics.bridges.length} bridge songs
+            </Text>
         </View>
     );
 }
@@ -162,6 +238,16 @@ const styles = StyleSheet.create({
         fontSize: 12,
         fontWeight: '600',
     },
+    histogram: {
+        flexDirection: 'row',
+        alignItems: 'flex-end',
+        height: HISTOGRAM_HEIGHT,
+        gap: 1,
+    },
+    histogramBar: {
+        width: 4,
+        borderRadius: 1,
+    },
     dot: {
         width: 3,
         height: 3,
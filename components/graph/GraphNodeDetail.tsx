@@ -1,7 +1,9 @@
 import type { ModernTheme } from '@/constants/theme';
+import { graphService, type SongDuplicateGroup } from '@/services/graph/GraphService';
+import { parseNodeData } from '@/services/graph/graphIntegrity';
 import { Ionicons } from '@expo/vector-icons';
-import React, { useEffect, useRef } from 'react';
-import { Animated, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Animated, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 import type { SimEdge, SimNode } from './useForceSimulation';
 
 interface GraphNodeDetailProps {
@@ -10,10 +12,14 @@ interface GraphNodeDetailProps {
     theme: ModernTheme;
     onDismiss: () => void;
     bottomInset: number;
+    /** Called after duplicates of this song were merged, so the graph can reload. */
+    onMerged?: () => void;
 }
 
-export function GraphNodeDetail({ node, connectedEdges, theme, onDismiss, bottomInset }: GraphNodeDetailProps) {
+export function GraphNodeDetail({ node, connectedEdges, theme, onDismiss, bottomInset, onMerged }: GraphNodeDetailProps) {
     const slideAnim = useRef(new Animated.Value(300)).current; // Start off-screen
+    const [duplicates, setDuplicates] = useState<SongDuplicateGroup | null>(null);
+    const [merging, setMerging] = useState(false);
 
     useEffect(() => {
         // Slide up when node changes
@@ -25,7 +31,43 @@ export function GraphNodeDetail({ node, connectedEdges, theme, onDismiss, bottom
         }).start();
     }, [node]);
 
-    const data = typeof node.data === 'string' ? JSON.parse(node.data || '{}') : (node.data || {});
+    useEffect(() => {
+        setDuplicates(null);
+        if (node.type !== 'SONG') return;
+        let cancelled = false;
+        graphService.findDuplicateSongs(node.id).then(groups => {
+            if (!cancelled) setDuplicates(groups[0] ?? null);
+        });
+        return () => { cancelled = true; };
+    }, [node]);
+
+    const handleMerge = (group: SongDuplicateGroup) => {
+        const [keep, ...others] = group.songs;
+        Alert.alert(
+            'Merge Duplicates',
+            `Merge ${others.length} ${others.length === 1 ? 'copy' : 'copies'} into "${keep.name}"? Plays and connections are combined.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Merge',
+                    style: 'destructive',
+                    onPress: async () => {
+                        setMerging(true);
+                        const ok = await graphService.mergeSongs(keep.id, others.map(s => s.id));
+                        setMerging(false);
+                        if (!ok) {
+                            Alert.alert('Merge Failed', 'Could not merge these songs.');
+                            return;
+                        }
+                        setDuplicates(null);
+                        onMerged?.();
+                    },
+                },
+            ]
+        );
+    };
+
+    const data = parseNodeData(node.data) ?? {};
 
     // Format date
     const lastPlayed = node.lastPlayedAt
@@ -87,6 +129,32 @@ export function GraphNodeDetail({ node, connectedEdges, theme, onDismiss, bottom
                         );
                     })}
                 </View>
+
+                {/* 3. Possible duplicates (same recording under other Spotify IDs) */}
+                {duplicates && (
+                    <View style={styles.section}>
+                        <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+                            Possible Duplicates ({duplicates.songs.length - 1})
+                        </Text>
+                        {duplicates.songs.map((song, i) => (
+                            <Text key={song.id} style={[styles.detail, { color: theme.textMuted }]} numberOfLines={1}>
+                                {i === 0 ? '★ ' : '• '}
+                                <Text style={{ color: song.id === node.id ? theme.primary : theme.text }}>{song.name}</Text>
+                                {' '}({song.play_count || 0} plays)
+                            </Text>
+                        ))}
+                        <Text style={[styles.detail, { color: theme.textMuted, fontSize: 12 }]}>
+                            {duplicates.reason === 'isrc' ? 'Same ISRC' : 'Same artist and title'} · ★ is kept
+                        </Text>
+                        <Pressable
+                            onPress={() => handleMerge(duplicates)}
+                            disabled={merging}
+                            style={[styles.mergeBtn, { backgroundColor: theme.primary, opacity: merging ? 0.6 : 1 }]}
+                        >
+                            <Text style={styles.mergeText}>{merging ? 'Merging...' : 'Merge'}</Text>
+                        </Pressable>
+                    </View>
+                )}
             </ScrollView>
         </Animated.View>
     );
@@ -170,6 +238,18 @@ const styles = StyleSheet.create({
         paddingVertical: 2,
         borderRadius: 4,
     },
+    mergeBtn: {
+        alignSelf: 'flex-start',
+        paddingHorizontal: 14,
+        paddingVertical: 6,
+        borderRadius: 8,
+        marginTop: 4,
+    },
+    mergeText: {
+        color: '#FFF',
+        fontSize: 13,
+        fontWeight: '700',
+    },
     dataRow: {
         flexDirection: 'row',
         gap: 6,
@@ -1,9 +1,9 @@
 import type { ModernTheme } from '@/constants/theme';
-import type { EdgeType, NodeType } from '@/services/graph/GraphService';
+import type { EdgeType, GraphAnalytics, NodeType } from '@/services/graph/GraphService';
 import { graphService } from '@/services/graph/GraphService';
 import { usePlayerStore } from '@/stores/PlayerStore';
 import { Ionicons } from '@expo/vector-icons';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, View, useWindowDimensions } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { GraphCanvas } from './GraphCanvas';
@@ -11,8 +11,8 @@ import { GraphControls } from './GraphControls';
 import { GraphNodeDetail } from './GraphNodeDetail';
 import { useForceSimulation, type SimNode } from './useForceSimulation';
 
-const NODE_TYPES: NodeType[] = ['SONG', 'ARTIST', 'VIBE', 'GENRE', 'AUDIO_FEATURE'];
-const EDGE_TYPES: EdgeType[] = ['SIMILAR', 'NEXT', 'RELATED', 'HAS_FEATURE', 'HAS_GENRE'];
+const NODE_TYPES: NodeType[] = ['SONG', 'ARTIST', 'VIBE', 'GENRE', 'AUDIO_FEATURE', 'PLAYLIST', 'ALBUM', 'ERA', 'CONTEXT'];
+const EDGE_TYPES: EdgeType[] = ['SIMILAR', 'NEXT', 'RELATED', 'HAS_FEATURE', 'HAS_GENRE', 'SKIPPED_IN', 'IN_PLAYLIST', 'IN_ALBUM', 'FROM_ERA', 'SUBGENRE_OF', 'IN_CONTEXT'];
 const allOn = (types: readonly string[]): Record<string, boolean> =>
     Object.fromEntries(types.map(t => [t, true]));
 
@@ -29,6 +29,7 @@ export function KnowledgeGraph({ theme }: KnowledgeGraphProps) {
 
     const [rawNodes, setRawNodes] = useState<any[]>([]);
     const [rawEdges, setRawEdges] = useState<any[]>([]);
+    const [analytics, setAnalytics] = useState<GraphAnalytics | null>(null);
     const [loading, setLoading] = useState(true);
     const [selectedNode, setSelectedNode] = useState<SimNode | null>(null);
 
@@ -38,6 +39,7 @@ export function KnowledgeGraph({ theme }: KnowledgeGraphProps) {
     // Visibility toggles
     const [nodeVis, setNodeVis] = useState<Record<string, boolean>>(() => allOn(NODE_TYPES));
     const [edgeVis, setEdgeVis] = useState<Record<string, boolean>>(() => allOn(EDGE_TYPES));
+    const [parentGenre, setParentGenre] = useState<string | null>(null);
 
     const canvasWidth = Math.max(MIN_CANVAS_WIDTH, layoutSize.width, screenWidth || 0);
     const canvasHeight = Math.max(MIN_CANVAS_HEIGHT, layoutSize.height);
@@ -55,6 +57,7 @@ export function KnowledgeGraph({ theme }: KnowledgeGraphProps) {
             const snap = await graphService.getGraphSnapshot(force);
             setRawNodes(snap.nodes);
             setRawEdges(snap.edges);
+            setAnalytics(await graphService.getGraphAnalytics());
         } catch (e) {
             console.error('[KnowledgeGraph] Failed to load graph', e);
         } finally {
@@ -76,6 +79,37 @@ export function KnowledgeGraph({ theme }: KnowledgeGraphProps) {
         loadGraph(false); // Use cache on mount
     }, [loadGraph]);
 
+    // Parent genres (targets of SUBGENRE_OF), most subgenres first
+    const parentGenres = useMemo(() => {
+        const childCounts = new Map<number, number>();
+        for (const e of rawEdges) {
+            if (e.type === 'SUBGENRE_OF') childCounts.set(e.target, (childCounts.get(e.target) || 0) + 1);
+        }
+        return rawNodes
+            .filter(n => childCounts.has(n.id))
+            .sort((a, b) => childCounts.get(b.id)! - childCounts.get(a.id)!)
+            .map(n => n.name as string);
+    }, [rawNodes, rawEdges]);
+
+    // Selected parent genre: keep its subgenres and their songs only
+    const visibleIds = useMemo(() => {
+        if (!parentGenre) return null;
+        const parent = rawNodes.find(n => n.type === 'GENRE' && n.name === parentGenre);
+        if (!parent) return null;
+        const genreIds = new Set<number>([parent.id]);
+        for (const e of rawEdges) {
+            if (e.type === 'SUBGENRE_OF' && e.target === parent.id) genreIds.add(e.source);
+        }
+        const ids = new Set(genreIds);
+        for (const e of rawEdges) {
+            if (e.type === 'HAS_GENRE' && genreIds.has(e.target)) ids.add(e.source);
+        }
+        return ids;
+    }, [parentGenre, rawNodes, rawEdges]);
+
+    const shownNodes = visibleIds ? nodes.filter(n => visibleIds.has(n.id)) : nodes;
+    const shownEdges = visibleIds ? edges.filter(e => visibleIds.has(e.sourceId) && visibleIds.has(e.targetId)) : edges;
+
     const handleRefresh = useCallback(() => {
         setSelectedNode(null);
         // Sync playback state from Spotify so Home has fresh data when user goes back
@@ -83,6 +117,11 @@ export function KnowledgeGraph({ theme }: KnowledgeGraphProps) {
         loadGraph(true); // Force refresh graph data from DB
     }, [loadGraph]);
 
+    const handleMerged = useCallback(() => {
+        setSelectedNode(null);
+        loadGraph(true); // Merged nodes are gone from the DB
+    }, [loadGraph]);
+
     const handleNodePress = useCallback((node: SimNode) => {
         setSelectedNode(prev => prev?.id === node.id ? null : node);
     }, []);
@@ -156,9 +195,13 @@ export function KnowledgeGraph({ theme }: KnowledgeGraphProps) {
                         onToggleEdge={toggleEdge}
                         nodeCount={rawNodes.length}
                         edgeCount={rawEdges.length}
+                        analytics={analytics}
                         theme={theme}
                         onReimport={handleReimport}
                         onRefresh={handleRefresh}
+                        parentGenres={parentGenres}
+                        parentGenre={parentGenre}
+                        onSelectParentGenre={setParentGenre}
                     />
                 </View>
             </View>
@@ -172,14 +215,15 @@ export function KnowledgeGraph({ theme }: KnowledgeGraphProps) {
                 }}
             >
                 <GraphCanvas
-                    nodes={nodes}
-                    edges={edges}
+                    nodes={shownNodes}
+                    edges={shownEdges}
                     nodeVisibility={nodeVis}
                     edgeVisibility={edgeVis}
                     theme={theme}
                     onNodePress={handleNodePress}
                     width={canvasWidth}
                     height={canvasHeight}
+                    centrality={analytics?.eigenvector}
                 />
 
                 {/* Detail Card */}
@@ -190,6 +234,7 @@ export function KnowledgeGraph({ theme }: KnowledgeGraphProps) {
                         theme={theme}
                         onDismiss={() => setSelectedNode(null)}
                         bottomInset={insets.bottom}
+                        onMerged={handleMerged}
                     />
                 )}
             </View>
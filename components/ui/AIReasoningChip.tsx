@@ -1,12 +1,12 @@
 /**
  * AIReasoningChip - AI Status/Reasoning Display Chip
- * Features: Glassmorphism, animated sparkle icon, gradient border
+ * Features: Glassmorphism, animated sparkle icon, gradient border, tap to reveal details
  */
 
 import { Ionicons } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
 import { LinearGradient } from 'expo-linear-gradient';
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Platform, Pressable, StyleSheet, Text, View } from 'react-native';
 import Animated, {
   Easing,
@@ -22,6 +22,8 @@ interface AIReasoningChipProps {
   isThinking?: boolean;
   accentColor?: string;
   onDismiss?: () => void;
+  /** Shown under the text when the chip is tapped (e.g. why the current track was picked). */
+  details?: string;
 }
 
 export const AIReasoningChip: React.FC<AIReasoningChipProps> = ({
@@ -29,7 +31,9 @@ export const AIReasoningChip: React.FC<AIReasoningChipProps> = ({
   isThinking = false,
   accentColor = '#A855F7',
   onDismiss,
+  details,
 }) => {
+  const [expanded, setExpanded] = useState(false);
   const sparkleRotation = useSharedValue(0);
   const sparkleScale = useSharedValue(1);
   const shimmerPosition = useSharedValue(0);
@@ -69,19 +73,27 @@ export const AIReasoningChip: React.FC<AIReasoningChipProps> = ({
   }));
 
   const ChipContent = () => (
-    <View style={styles.content}>
-      <Animated.View style={[styles.iconContainer, sparkleStyle]}>
-        <Ionicons name="sparkles" size={16} color={accentColor} />
-      </Animated.View>
-      <Text style={styles.text} numberOfLines={2}>
-        {text}
-      </Text>
-      {onDismiss && (
-        <Pressable onPress={onDismiss} hitSlop={8} style={styles.dismissBtn}>
-          <Ionicons name="close" size={14} color="rgba(255,255,255,0.5)" />
-        </Pressable>
+    <Pressable onPress={() => setExpanded(e => !e)} disabled={!details}>
+      <View style={styles.content}>
+        <Animated.View style={[styles.iconContainer, sparkleStyle]}>
+          <Ionicons name="sparkles" size={16} color={accentColor} />
+        </Animated.View>
+        <Text style={styles.text} numberOfLines={2}>
+          {text}
+        </Text>
+        {details && (
+          <Ionicons name={expanded ? 'chevron-up' : 'git-network-outline'} size={14} color="rgba(255,255,255,0.5)" style={styles.detailsIcon} />
+        )}
+        {onDismiss && (
+          <Pressable onPress={onDismiss} hitSlop={8} style={styles.dismissBtn}>
+            <Ionicons name="close" size={14} color="rgba(255,255,255,0.5)" />
+          </Pressable>
+        )}
+      </View>
+      {expanded && details && (
+        <Text style={[styles.details, { borderLeftColor: accentColor }]}>{details}</Text>
       )}
-    </View>
+    </Pressable>
   );
 
   const gradientColors = [
@@ -164,4 +176,16 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     padding: 2,
   },
+  detailsIcon: {
+    marginLeft: 8,
+  },
+  details: {
+    marginTop: 8,
+    marginLeft: 30,
+    paddingLeft: 8,
+    borderLeftWidth: 2,
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 12,
+    lineHeight: 18,
+  },
 });
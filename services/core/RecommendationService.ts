@@ -1,6 +1,7 @@
 import { dbService } from '@/services/database';
-import { graphService } from '@/services/graph/GraphService';
-import { usePlayerStore } from '@/stores/PlayerStore';
+import { GraphNode, RandomWalkSeeds, graphService } from '@/services/graph/GraphService';
+import { parseNodeData } from '@/services/graph/graphIntegrity';
+import { Track, usePlayerStore } from '@/stores/PlayerStore';
 import { gemini } from '../gemini/GeminiService';
 import { spotifyRemote } from '../spotify/SpotifyRemoteService';
 import { RawTrackSuggestion, validatedQueueService } from './ValidatedQueueService';
@@ -67,16 +68,31 @@ export class RecommendationService {
      * - Uses Daily Play Log for exclusions
      * - Uses Play Counts for affinity
      * - Now uses ValidatedQueueService for smart backfill
+     * - With `onOption`, streams: each option is validated and reported as soon as Gemini has
+     *   written it, instead of after all of them; aborting `signal` stops the stream
+     * - `fresh` asks Gemini again even if an identical request's reply is still cached
+     * - Over the daily Gemini token budget: one option per graph fallback track instead
      */
-    async getVibeOptions(userInstruction: string = ''): Promise<any[]> {
+    async getVibeOptions(
+        userInstruction: string = '',
+        onOption?: (option: any) => void,
+        signal?: AbortSignal,
+        fresh: boolean = false
+    ): Promise<any[]> {
         try {
             this.invalidateExclusionCache(); // Fresh exclusions for new vibe selection
+            if (await gemini.isOverDailyBudget()) {
+                const options = await this.getBudgetFallbackOptions(8);
+                options.forEach(option => onOption?.(option));
+                return options;
+            }
+
             const history = await dbService.getRecentHistory(20);
             const allExclusions = await this.getExclusions();
             const favorites = await this.getFavorites(10, 'short_term');
 
             // Fetch full taste profile from graph for richer Gemini context
-            let tasteProfile: { clusterReps: { name: string; artist: string; playCount?: number }[]; topGenres?: { name: string; songCount: number }[]; recentVibes?: string[]; audioProfile?: { energy: number; valence: number; danceability: number } | null } = { clusterReps: [] };
+            let tasteProfile: { clusterReps: { name: string; artist: string; playCount?: number; cluster?: number }[]; topGenres?: { name: string; songCount: number }[]; topPlaylists?: { name: string; songCount: number }[]; topEras?: { name: string; songCount: number }[]; recentVibes?: string[]; audioProfile?: { energy: number; valence: number; danceability: number } | null; nowContext?: { label: string; vibes: string[] } } = { clusterReps: [] };
             try {
                 tasteProfile = await graphService.getTasteProfile();
             } catch (e) {
@@ -85,13 +101,33 @@ export class RecommendationService {
 
             console.log(`[RecService] Generating Vibe Options (Excluding ${allExclusions.length} tracks)...`);
 
+            if (onOption) {
+                const delivered: any[] = [];
+                await validatedQueueService.validateVibeOptionsStream(
+                    gemini.streamVibeOptions(history, tasteProfile, favorites, userInstruction, allExclusions, signal, fresh),
+                    8,
+                    async (option) => {
+                        if (!option.track?.uri) return;
+                        const [track] = await this.withExplanations([option.track], {});
+                        if (signal?.aborted) return;
+                        const explained = { ...option, track };
+                        delivered.push(explained);
+                        onOption(explained);
+                    },
+                    signal
+                );
+                console.log(`[RecService] Streamed ${delivered.length} vibe options.`);
+                return delivered;
+            }
+
             // Request 8 options (optimized for speed - target is 8)
             const options = await gemini.getVibeOptions(
                 history,
                 tasteProfile,
                 favorites,
                 userInstruction,
-                allExclusions
+                allExclusions,
+                fresh
             );
 
             console.log(`[RecService] Gemini returned ${options?.length ?? 0} raw options.`);
@@ -108,7 +144,8 @@ export class RecommendationService {
             const strictOptions = verifiedOptions.filter(opt => opt.track && opt.track.uri);
 
             console.log(`[RecService] ValidatedQueueService returned ${verifiedOptions.length} (Strict: ${strictOptions.length}) options.`);
-            return strictOptions;
+            const explained = await this.withExplanations(strictOptions.map(opt => opt.track), {});
+            return strictOptions.map((opt, i) => ({ ...opt, track: explained[i] }));
 
         } catch (error) {
             console.error('[RecService] GetVibeOptions Failed:', error);
@@ -126,6 +163,16 @@ export class RecommendationService {
         try {
             console.log('[RecService] Generating Rescue Vibe...');
 
+            if (await gemini.isOverDailyBudget()) {
+                console.warn('[RecService] Daily AI budget used up, rescuing with Graph Genre Mix');
+                const fallback = await this.getGraphFallbackTracks(10);
+                return {
+                    items: await this.withExplanations(fallback, { vibeName: usePlayerStore.getState().currentMood }),
+                    vibe: "Genre Mix (Smart Fallback)",
+                    reasoning: "Today's AI budget is used up, so here's a mix based on your favorite genres."
+                };
+            }
+
             const allExclusions = await this.getExclusions();
             const favorites = await this.getFavorites(10, 'medium_term');
 
@@ -140,17 +187,16 @@ export class RecommendationService {
                 console.warn('[RecService] Rescue Fallback to Graph Genre Mix');
                 const fallback = await this.getGraphFallbackTracks(10);
                 return {
-                    items: fallback,
+                    items: await this.withExplanations(fallback, { vibeName: usePlayerStore.getState().currentMood }),
                     vibe: "Genre Mix (Smart Fallback)",
                     reasoning: "We couldn't reach the AI, so here's a mix based on your favorite genres."
                 };
             }
 
             // Convert Gemini response to RawTrackSuggestion format
-            const suggestions: RawTrackSuggestion[] = result.items.map((item: any) => ({
-                title: item.title || item.t,
-                artist: item.artist || item.a,
-                reason: item.reason
+            const suggestions: RawTrackSuggestion[] = result.items.map(item => ({
+                title: item.title,
+                artist: item.artist
             }));
 
             // Get session history URIs to exclude already-played tracks
@@ -172,14 +218,14 @@ export class RecommendationService {
                 console.warn('[RecService] All tracks failed validation, using graph fallback');
                 const fallback = await this.getGraphFallbackTracks(10);
                 return {
-                    items: fallback,
+                    items: await this.withExplanations(fallback, { vibeName: usePlayerStore.getState().currentMood }),
                     vibe: "Genre Mix (Smart Fallback)",
                     reasoning: "Couldn't find suggested tracks on Spotify, here's a mix based on your favorite genres."
                 };
             }
 
             return {
-                items: validatedItems,
+                items: await this.withExplanations(validatedItems, {}),
                 vibe: result.vibe,
                 reasoning: result.reasoning
             };
@@ -199,17 +245,26 @@ export class RecommendationService {
         currentVibeContext: string
     ): Promise<{ items: any[]; mood?: string }> {
         try {
+            if (await gemini.isOverDailyBudget()) {
+                console.warn('[RecService] Daily AI budget used up, expanding with graph fallback');
+                return this.getExpansionFallback(currentVibeContext);
+            }
+
             const history = await dbService.getRecentHistory(10);
-            const allExclusions = await this.getExclusions();
             const favorites = await this.getFavorites(5, 'short_term');
+            // Songs the user keeps skipping (overall or in this vibe) are excluded from both halves of the mix
+            const dislikedKeys = await graphService.getDislikedSongKeys(currentVibeContext);
+            const allExclusions = Array.from(new Set([...await this.getExclusions(), ...dislikedKeys]));
 
             console.log(`[RecService] Expanding vibe from seed: ${seedTrack.title}...`);
 
             // 1. Fetch Graph Neighbors
             let neighbors: { name: string; artist: string; weight: number }[] = [];
+            let seedNodeId: number | null = null;
             try {
                 const seedNode = await graphService.getEffectiveNode('SONG', seedTrack.title, null, { artist: seedTrack.artist });
                 if (seedNode && seedNode.id) {
+                    seedNodeId = seedNode.id;
                     // Get more candidates than needed (e.g., 20) to filter
                     // getNeighbors returns processed objects {name, artist, weight} already
                     neighbors = await graphService.getNeighbors(seedNode.id, 20);
@@ -242,10 +297,10 @@ export class RecommendationService {
 
             // A. Add Gemini suggestions (Discovery)
             if (result && result.items) {
-                suggestions.push(...result.items.map((item: any) => ({
-                    title: item.title || item.t,
-                    artist: item.artist || item.a,
-                    reason: item.reason || 'Gemini Discovery'
+                suggestions.push(...result.items.map(item => ({
+                    title: item.title,
+                    artist: item.artist,
+                    reason: 'Gemini Discovery'
                 })));
             }
 
@@ -279,21 +334,95 @@ export class RecommendationService {
                 [...sessionUris, ...currentQueue]
             );
 
-            return { items: validatedItems, mood: result.mood };
+            const items = await this.withExplanations(validatedItems, { currentNodeId: seedNodeId, vibeName: currentVibeContext });
+            return { items, mood: result.mood };
 
         } catch (error) {
             console.error('[RecService] Expansion Failed:', error);
             // Use graph fallback instead of returning empty
-            try {
-                const fallback = await this.getGraphFallbackTracks(10);
-                if (fallback.length > 0) {
-                    console.log(`[RecService] Expansion recovered with ${fallback.length} graph fallback tracks`);
-                    return { items: fallback, mood: 'Genre Mix (Smart Fallback)' };
-                }
-            } catch (fallbackError) {
-                console.error('[RecService] Expansion graph fallback also failed:', fallbackError);
+            return this.getExpansionFallback(currentVibeContext);
+        }
+    }
+
+    /** expandVibe() without Gemini: 10 graph fallback tracks. */
+    private async getExpansionFallback(vibeName: string): Promise<{ items: any[]; mood?: string }> {
+        try {
+            const fallback = await this.getGraphFallbackTracks(10);
+            if (fallback.length > 0) {
+                console.log(`[RecService] Expansion recovered with ${fallback.length} graph fallback tracks`);
+                return { items: await this.withExplanations(fallback, { vibeName }), mood: 'Genre Mix (Smart Fallback)' };
             }
-            return { items: [] };
+        } catch (fallbackError) {
+            console.error('[RecService] Expansion graph fallback also failed:', fallbackError);
+        }
+        return { items: [] };
+    }
+
+    /**
+     * getVibeOptions() without Gemini: each graph fallback track becomes an option seeded by it,
+     * shaped like ValidatedQueueService's backfill options.
+     */
+    private async getBudgetFallbackOptions(count: number): Promise<any[]> {
+        const tracks = await this.withExplanations(await this.getGraphFallbackTracks(count), {});
+        console.log(`[RecService] Built ${tracks.length} vibe options from graph fallback`);
+        return tracks.map((track, i) => ({
+            id: `fallback_${i}`,
+            title: `${track.artist} Vibes`,
+            description: track.reason,
+            track,
+            reason: "Today's AI budget is used up"
+        }));
+    }
+
+    /**
+     * Gateway tracks to play before `targetUri` when it changes style from the track playing now:
+     * graph songs bridging the two taste clusters, so the DJ doesn't jump straight across.
+     * Empty when nothing is playing, both are the same style, no bridge exists, or graph analytics
+     * are still being computed (see GraphService.getGatewayTracks()).
+     */
+    async getGatewayTracks(targetUri: string, limit: number = 1): Promise<Track[]> {
+        const { currentTrack, sessionHistory } = usePlayerStore.getState();
+        if (!currentTrack?.uri || currentTrack.uri === targetUri) return [];
+        try {
+            const played = new Set(sessionHistory.map(h => h.uri));
+            const bridges = await graphService.getGatewayTracks(currentTrack.uri, targetUri, limit + 5);
+            const items = bridges
+                .map((song): Track => {
+                    const data = parseNodeData(song.data) ?? {};
+                    return {
+                        title: song.name,
+                        artist: data.artist || 'Unknown',
+                        uri: song.spotify_id?.startsWith('spotify:') ? song.spotify_id : `spotify:track:${song.spotify_id}`,
+                        reason: 'Gateway Track',
+                    };
+                })
+                .filter(item => !played.has(item.uri))
+                .slice(0, limit);
+            if (items.length > 0) console.log(`[RecService] Gateway into "${targetUri}": ${items.map(i => i.title).join(', ')}`);
+            return this.withExplanations(items, {});
+        } catch (e) {
+            console.warn('[RecService] Failed to find gateway tracks', e);
+            return [];
+        }
+    }
+
+    /**
+     * Attach `explanation`: the strongest graph path from what the user is listening to (session,
+     * current track, plus `seeds`) to each track. Tracks the graph can't connect are left as they are.
+     */
+    private async withExplanations<T extends { uri?: string }>(items: T[], seeds: RandomWalkSeeds): Promise<T[]> {
+        try {
+            const { currentTrack, sessionHistory } = usePlayerStore.getState();
+            const recentUris = [...sessionHistory.map(h => h.uri), ...(currentTrack?.uri ? [currentTrack.uri] : [])];
+            const uris = items.map(item => item.uri).filter((uri): uri is string => !!uri);
+            const explanations = await graphService.explainTracks(uris, { ...seeds, recentUris });
+            return items.map(item => {
+                const paths = item.uri ? explanations.get(item.uri) : undefined;
+                return paths ? { ...item, explanation: paths[0] } : item;
+            });
+        } catch (e) {
+            console.warn('[RecService] Failed to explain tracks', e);
+            return items;
         }
     }
 
@@ -313,7 +442,7 @@ export class RecommendationService {
      * Graph-aware fallback: uses local genre data + Spotify recommendations
      * when Gemini is unavailable (429, parse errors, network issues).
      *
-     * Cascade: Graph genres → Graph songs (60%) + Spotify recs (40%) → Top tracks → []
+     * Cascade: Graph genres → Graph songs (60%, random walk then genre matches) + Spotify recs (40%) → Top tracks → []
      */
     private async getGraphFallbackTracks(count: number): Promise<any[]> {
         try {
@@ -324,38 +453,54 @@ export class RecommendationService {
             );
             const excludeUris = new Set([...sessionUris]);
 
-            // 2. Get top genres from graph
-            const topGenres = await graphService.getTopGenres(10);
+            // 2. Get top genres from graph, rolled up to parent genres so micro-genres don't fragment them
+            const topGenres = await graphService.getTopParentGenres(5);
 
             if (topGenres.length === 0) {
                 console.log('[RecService] Graph empty, falling back to top tracks');
                 return this.getTopTracksFallback(count);
             }
 
-            const genreNames = topGenres.slice(0, 5).map(g => g.name);
+            const genreNames = topGenres.map(g => g.name);
             console.log(`[RecService] Graph fallback using genres: ${genreNames.join(', ')}`);
 
             const items: any[] = [];
 
-            // 3. Graph songs (~60% of target)
+            // 3. Graph songs (~60% of target): random walk from the current track, vibe and session,
+            //    topped up with songs from the top genres
             const graphTarget = Math.ceil(count * 0.6);
-            const graphSongs = await graphService.getSongsByGenres(genreNames, graphTarget * 2, excludeUris);
-
-            // Filter against string exclusions (daily history uses "title - artist" format)
-            const exclusionSet = new Set(allExclusions);
-            const filteredGraphSongs = graphSongs.filter(s => {
-                const data = typeof s.data === 'string' ? JSON.parse(s.data || '{}') : (s.data || {});
+            const { currentTrack, currentMood } = usePlayerStore.getState();
+            const recentUris = [...sessionUris, ...(currentTrack?.uri ? [currentTrack.uri] : [])];
+            const walkSongs = await graphService.getRandomWalkSuggestions(
+                { vibeName: currentMood, recentUris },
+                graphTarget * 2,
+                excludeUris
+            );
+            const genreSongs = await graphService.getSongsByGenres(genreNames, graphTarget * 2, excludeUris);
+
+            // Filter against string exclusions (daily history uses "title - artist" format),
+            // plus songs skipped in the current vibe
+            const dislikedKeys = await graphService.getDislikedSongKeys(currentMood);
+            const exclusionSet = new Set([...allExclusions, ...dislikedKeys]);
+            const notExcluded = (s: GraphNode) => {
+                const data = parseNodeData(s.data) ?? {};
                 return !exclusionSet.has(`${s.name} - ${data.artist || 'Unknown'}`);
-            });
+            };
+
+            // Walk results keep their rank; genre matches are shuffled for variety
+            const walkPicks = walkSongs.filter(notExcluded).slice(0, graphTarget);
+            const walkIds = new Set(walkPicks.map(s => s.id));
+            const genrePicks = this.shuffleArray(genreSongs.filter(s => !walkIds.has(s.id) && notExcluded(s)))
+                .slice(0, graphTarget - walkPicks.length);
+            const selectedGraphSongs = [...walkPicks, ...genrePicks];
 
-            const selectedGraphSongs = this.shuffleArray(filteredGraphSongs).slice(0, graphTarget);
             for (const song of selectedGraphSongs) {
-                const data = typeof song.data === 'string' ? JSON.parse(song.data || '{}') : (song.data || {});
+                const data = parseNodeData(song.data) ?? {};
                 items.push({
                     title: song.name,
                     artist: data.artist || 'Unknown',
                     uri: song.spotify_id?.startsWith('spotify:') ? song.spotify_id : `spotify:track:${song.spotify_id}`,
-                    reason: 'Graph Genre Match',
+                    reason: walkIds.has(song.id) ? 'Graph Walk' : 'Graph Genre Match',
                     type: 'track'
                 });
             }
@@ -86,6 +86,17 @@ export const GeminiErrors = {
         true // silent — auto-retried
     ),
 
+    /** Daily token budget used up (Settings → AI Usage) */
+    budgetExceeded: (details?: string) => createError(
+        'gemini',
+        'BUDGET_EXCEEDED',
+        'warning',
+        "Today's AI budget is used up. Recommending from your library instead.",
+        false,
+        details,
+        { label: 'Adjust Budget', link: '/settings', type: 'navigate' }
+    ),
+
     /** Network error connecting to Gemini */
     networkError: (details?: string) => createError(
         'gemini',
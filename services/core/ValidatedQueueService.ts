@@ -1,7 +1,11 @@
 import { SpotifyErrors } from '@/services/core/ServiceError';
+import { calculateSimilarity, normalizeTitle } from '@/services/core/trackMatching';
 import { useErrorStore } from '@/stores/ErrorStore';
 import { dbService } from '../database';
+import { GeminiSchemas } from '../gemini/GeminiPrompts';
+import { GeminiResponses, VibeOption } from '../gemini/GeminiResponses';
 import { gemini } from '../gemini/GeminiService';
+import { formatValidationErrors } from '../gemini/responseSchema';
 import { spotifyRemote } from '../spotify/SpotifyRemoteService';
 
 /**
@@ -77,50 +81,10 @@ class ValidatedQueueService {
     // Minimum score threshold for track matching (out of 100)
     private readonly MIN_MATCH_SCORE = 65;
 
-    private constructor() { }
-
-    /**
-     * Normalize a title for comparison
-     * Removes punctuation, extra whitespace, and converts to lowercase
-     */
-    private normalizeTitle(title: string): string {
-        return title
-            .toLowerCase()
-            .replace(/[^\w\s]/g, '') // Remove punctuation
-            .replace(/\s+/g, ' ')    // Normalize whitespace
-            .trim();
-    }
-
-    /**
-     * Calculate similarity between two strings using Dice coefficient
-     * Returns a value between 0 and 1
-     */
-    private calculateSimilarity(str1: string, str2: string): number {
-        const s1 = this.normalizeTitle(str1);
-        const s2 = this.normalizeTitle(str2);
-
-        if (s1 === s2) return 1;
-        if (s1.length < 2 || s2.length < 2) return 0;
+    // Options validated at once while streaming (each makes several Spotify searches)
+    private readonly MAX_STREAMED_VALIDATIONS = 3;
 
-        // Create bigrams
-        const bigrams1 = new Set<string>();
-        const bigrams2 = new Set<string>();
-
-        for (let i = 0; i < s1.length - 1; i++) {
-            bigrams1.add(s1.substring(i, i + 2));
-        }
-        for (let i = 0; i < s2.length - 1; i++) {
-            bigrams2.add(s2.substring(i, i + 2));
-        }
-
-        // Count intersection
-        let intersection = 0;
-        bigrams1.forEach(bigram => {
-            if (bigrams2.has(bigram)) intersection++;
-        });
-
-        return (2 * intersection) / (bigrams1.size + bigrams2.size);
-    }
+    private constructor() { }
 
     /**
      * Check if a track is likely a remix, live version, or remaster
@@ -172,13 +136,13 @@ class ValidatedQueueService {
         const resultTitle = result.name || '';
         const resultArtist = result.artists?.[0]?.name || '';
 
-        const normalizedTarget = this.normalizeTitle(targetTitle);
-        const normalizedResult = this.normalizeTitle(resultTitle);
-        const normalizedTargetArtist = this.normalizeTitle(targetArtist);
-        const normalizedResultArtist = this.normalizeTitle(resultArtist);
+        const normalizedTarget = normalizeTitle(targetTitle);
+        const normalizedResult = normalizeTitle(resultTitle);
+        const normalizedTargetArtist = normalizeTitle(targetArtist);
+        const normalizedResultArtist = normalizeTitle(resultArtist);
 
         // Title matching
-        const titleSimilarity = this.calculateSimilarity(targetTitle, resultTitle);
+        const titleSimilarity = calculateSimilarity(targetTitle, resultTitle);
 
         if (normalizedTarget === normalizedResult) {
             score += 50;
@@ -195,7 +159,7 @@ class ValidatedQueueService {
         }
 
         // Artist matching
-        const artistSimilarity = this.calculateSimilarity(targetArtist, resultArtist);
+        const artistSimilarity = calculateSimilarity(targetArtist, resultArtist);
 
         if (normalizedTargetArtist === normalizedResultArtist) {
             score += 40;
@@ -426,7 +390,7 @@ class ValidatedQueueService {
 
         try {
             // Use the public backfillRequest method instead of casting to any
-            const { text, error } = await gemini.backfillRequest(prompt, { maxOutputTokens: 2000 });
+            const { text, error } = await gemini.backfillRequest(prompt, { maxOutputTokens: 2000, responseSchema: GeminiSchemas.trackList });
 
             if (error || !text) {
                 console.warn('[ValidatedQueue] Backfill request failed:', error || 'No response text');
@@ -447,7 +411,7 @@ class ValidatedQueueService {
                 while ((match = objectPattern.exec(cleanedText)) !== null) {
                     try {
                         const obj = JSON.parse(match[0]);
-                        if (obj && (obj.t || obj.title)) objectMatches.push(obj);
+                        if (obj && obj.t) objectMatches.push(obj);
                     } catch { /* skip malformed */ }
                 }
                 if (objectMatches.length > 0) {
@@ -458,12 +422,15 @@ class ValidatedQueueService {
                 }
             }
 
-            const items = Array.isArray(parsed) ? parsed : (parsed.items || []);
-            return items.map((item: any) => ({
-                title: item.t || item.title,
-                artist: item.a || item.artist,
-                reason: item.reason || 'Backfill suggestion'
-            }));
+            // Salvaged items are checked one by one, so one bad item doesn't cost the rest
+            const items: unknown[] = Array.isArray(parsed?.items) ? parsed.items : [];
+            const suggestions: RawTrackSuggestion[] = [];
+            items.forEach((item, i) => {
+                const result = GeminiResponses.track.validate(item, `items[${i}]`);
+                if (result.ok) suggestions.push({ ...result.value, reason: 'Backfill suggestion' });
+                else console.warn(`[ValidatedQueue] Skipping backfill item: ${formatValidationErrors(result.errors)}`);
+            });
+            return suggestions;
 
         } catch (error) {
             console.warn('[ValidatedQueue] Backfill parse failed:', error);
@@ -611,7 +578,7 @@ Pick well-known tracks that definitely exist on Spotify. Major label artists pre
     /**
      * Validate vibe options in parallel
      */
-    private async validateOptions(options: any[]): Promise<{
+    private async validateOptions(options: VibeOption[]): Promise<{
         validated: any[];
         failed: any[];
     }> {
@@ -621,8 +588,8 @@ Pick well-known tracks that definitely exist on Spotify. Major label artists pre
         const results = await Promise.all(
             options.map(async (opt) => {
                 const suggestion: RawTrackSuggestion = {
-                    title: opt.track?.title || opt.track?.t,
-                    artist: opt.track?.artist || opt.track?.a,
+                    title: opt.track.title,
+                    artist: opt.track.artist,
                     reason: opt.reason
                 };
 
@@ -710,7 +677,7 @@ Pick well-known tracks that definitely exist on Spotify. Major label artists pre
      * Now targets 8 minimum from 16 input options
      */
     async validateVibeOptions(
-        options: any[],
+        options: VibeOption[],
         targetCount: number = 8
     ): Promise<any[]> {
         console.log(`[ValidatedQueue] Validating ${options.length} vibe options, target: ${targetCount} minimum`);
@@ -737,6 +704,51 @@ Pick well-known tracks that definitely exist on Spotify. Major label artists pre
         console.log(`[ValidatedQueue] Returning ${withBackfill.length} validated vibe options`);
         return withBackfill.slice(0, targetCount);
     }
+
+    /**
+     * validateVibeOptions() for options that arrive one by one: each is validated as soon as it
+     * arrives (at most MAX_STREAMED_VALIDATIONS at a time) and handed to `onValidated` once it has a URI (in validation order); backfill runs
+     * after the stream ends. Stops consuming the stream once `targetCount` options are validated;
+     * once `signal` is aborted, nothing more is reported and backfill is skipped.
+     */
+    async validateVibeOptionsStream(
+        options: AsyncIterable<VibeOption>,
+        targetCount: number,
+        onValidated: (option: any) => void | Promise<void>,
+        signal?: AbortSignal
+    ): Promise<any[]> {
+        const dailyURIs = await dbService.getDailyHistoryURIs();
+        this.addToSeenUris(dailyURIs);
+        const dailyExclusions = await dbService.getDailyHistory();
+
+        const validatedOptions: any[] = [];
+        const failedOptions: any[] = [];
+        const deliver = async (option: any) => {
+            if (validatedOptions.length >= targetCount || signal?.aborted) return;
+            validatedOptions.push(option);
+            await onValidated(option);
+        };
+
+        const pending = new Set<Promise<void>>();
+        for await (const option of options) {
+            if (validatedOptions.length >= targetCount) break;
+            const validation: Promise<void> = this.validateOptions([option]).then(async ({ validated, failed }) => {
+                failedOptions.push(...failed);
+                for (const v of validated) await deliver(v);
+            }).finally(() => pending.delete(validation));
+            pending.add(validation);
+            if (pending.size >= this.MAX_STREAMED_VALIDATIONS) await Promise.race(pending);
+        }
+        await Promise.all(pending);
+
+        const streamed = validatedOptions.length;
+        if (signal?.aborted) return validatedOptions;
+        const withBackfill = await this.addBackfillOptions([...validatedOptions], failedOptions, targetCount, dailyExclusions);
+        for (const option of withBackfill.slice(streamed)) await deliver(option);
+
+        console.log(`[ValidatedQueue] Streamed ${streamed} validated vibe options (+${validatedOptions.length - streamed} backfill)`);
+        return validatedOptions;
+    }
 }
 
 export const validatedQueueService = ValidatedQueueService.getInstance();
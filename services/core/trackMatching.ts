@@ -0,0 +1,47 @@
+/**
+ * String matching for track titles and artist names, shared by Spotify search validation
+ * (ValidatedQueueService) and duplicate song detection in the graph.
+ */
+
+/**
+ * Normalize a title for comparison
+ * Removes punctuation, extra whitespace, and converts to lowercase
+ */
+export function normalizeTitle(title: string): string {
+    return title
+        .toLowerCase()
+        .replace(/[^\w\s]/g, '') // Remove punctuation
+        .replace(/\s+/g, ' ')    // Normalize whitespace
+        .trim();
+}
+
+/**
+ * Calculate similarity between two strings using Dice coefficient
+ * Returns a value between 0 and 1
+ */
+export function calculateSimilarity(str1: string, str2: string): number {
+    const s1 = normalizeTitle(str1);
+    const s2 = normalizeTitle(str2);
+
+    if (s1 === s2) return 1;
+    if (s1.length < 2 || s2.length < 2) return 0;
+
+    // Create bigrams
+    const bigrams1 = new Set<string>();
+    const bigrams2 = new Set<string>();
+
+    for (let i = 0; i < s1.length - 1; i++) {
+        bigrams1.add(s1.substring(i, i + 2));
+    }
+    for (let i = 0; i < s2.length - 1; i++) {
+        bigrams2.add(s2.substring(i, i + 2));
+    }
+
+    // Count intersection
+    let intersection = 0;
+    bigrams1.forEach(bigram => {
+        if (bigrams2.has(bigram)) intersection++;
+    });
+
+    return (2 * intersection) / (bigrams1.size + bigrams2.size);
+}
@@ -7,6 +7,74 @@ export interface FeedbackItem {
     timestamp: number;
 }
 
+/** Liked-songs ingestion phases, in order: page /me/tracks, build nodes in chunks, link SIMILAR edges. */
+export type IngestionPhase = 'fetch' | 'build' | 'similar';
+
+export interface IngestionCheckpoint {
+    phase: IngestionPhase;
+    /** Next /me/tracks offset to fetch (fetch phase). */
+    offset: number;
+    /** Library size reported by Spotify. */
+    total: number;
+    updatedAt: number;
+}
+
+/** A fetched liked track staged for ingestion; `processed` once its nodes and edges are written. */
+export interface IngestionTrack {
+    trackId: string;
+    trackName: string;
+    primaryArtistId: string;
+    primaryArtistName: string;
+    addedAt: number;
+    albumId?: string;
+    albumName?: string;
+    releaseYear?: number;
+    isrc?: string;
+    processed?: boolean;
+}
+
+/** A stored taste snapshot; `data` is the snapshot JSON written by GraphService.takeTasteSnapshot(). */
+export interface StoredTasteSnapshot {
+    id: number;
+    takenAt: number;
+    data: Record<string, any>;
+}
+
+/** One Gemini call's token usage, as recorded by GeminiService. */
+export interface GeminiUsageRecord {
+    timestamp: number;
+    /** GeminiService entry point, e.g. `expandVibe`. */
+    operation: string;
+    model: string;
+    promptTokens: number;
+    candidateTokens: number;
+    thinkingTokens: number;
+    totalTokens: number;
+    latencyMs: number;
+}
+
+/** A play Moodify logged itself (listening_history), see getLoggedPlaysSince(). */
+export interface LoggedPlay {
+    /** Bare Spotify track id. */
+    trackId: string;
+    /** When the play was logged (ms), i.e. when the track ended or was skipped. */
+    playedAt: number;
+}
+
+/** A Gemini reply kept for reuse by GeminiService's response cache. */
+export interface GeminiCachedResponse {
+    /** `model:promptHash:configHash` (see responseCacheKey). */
+    key: string;
+    operation: string;
+    model: string;
+    text: string;
+    createdAt: number;
+    expiresAt: number;
+}
+
+/** Per-call Gemini usage older than this is dropped at the first launch of a day. */
+const GEMINI_USAGE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
 /**
  * Simple mutex for database operation serialization
  */
@@ -149,6 +217,57 @@ class DatabaseService {
         UNIQUE(source_id, target_id, type)
       );
 
+      CREATE TABLE IF NOT EXISTS ingestion_checkpoint (
+        id INTEGER PRIMARY KEY CHECK (id = 1), -- single row
+        phase TEXT NOT NULL, -- 'fetch', 'build', 'similar'
+        next_offset INTEGER DEFAULT 0,
+        total INTEGER DEFAULT 0,
+        updated_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS ingestion_tracks (
+        track_id TEXT PRIMARY KEY,
+        track_name TEXT,
+        artist_id TEXT,
+        artist_name TEXT,
+        added_at INTEGER,
+        album_id TEXT,
+        album_name TEXT,
+        release_year INTEGER,
+        isrc TEXT,
+        position INTEGER,
+        processed INTEGER DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS taste_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        taken_at INTEGER NOT NULL,
+        data TEXT -- JSON: top genres, cluster reps, audio profile, node/edge counts
+      );
+
+      CREATE TABLE IF NOT EXISTS gemini_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        operation TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER DEFAULT 0,
+        candidate_tokens INTEGER DEFAULT 0,
+        thinking_tokens INTEGER DEFAULT 0,
+        total_tokens INTEGER DEFAULT 0,
+        latency_ms INTEGER DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS gemini_response_cache (
+        cache_key TEXT PRIMARY KEY,
+        operation TEXT NOT NULL,
+        model TEXT NOT NULL,
+        response_text TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_taste_snapshots_taken_at ON taste_snapshots(taken_at);
+      CREATE INDEX IF NOT EXISTS idx_gemini_usage_timestamp ON gemini_usage(timestamp);
       CREATE INDEX IF NOT EXISTS idx_graph_spotify_id ON graph_nodes(spotify_id);
       CREATE UNIQUE INDEX IF NOT EXISTS idx_graph_nodes_spotify_id_unique ON graph_nodes(spotify_id) WHERE spotify_id IS NOT NULL;
       CREATE INDEX IF NOT EXISTS idx_graph_edges_source ON graph_edges(source_id);
@@ -162,6 +281,24 @@ class DatabaseService {
         // Migration: add pos_x/pos_y columns to graph_nodes for position persistence
         await this.migrateGraphNodesPositionColumns();
 
+        // Migration: add updated_at column to graph_edges for temporal weight decay
+        await this.migrateGraphEdgesUpdatedAtColumn();
+
+        // Migration: add dislike_score column to graph_nodes for skip penalties
+        await this.migrateGraphNodesDislikeColumn();
+
+        // Migration: add cluster_id column to graph_nodes for taste clusters
+        await this.migrateGraphNodesClusterColumn();
+
+        // Migration: add album/release columns to ingestion_tracks for ALBUM/ERA nodes
+        await this.migrateIngestionTracksAlbumColumns();
+
+        // Migration: add isrc column to ingestion_tracks for duplicate song detection
+        await this.migrateIngestionTracksIsrcColumn();
+
+        // Migration: add graph_node_aliases for spotify_ids of merged duplicate songs
+        await this.migrateGraphNodeAliasesTable();
+
         // Mark init complete BEFORE logging — external callers can now use the database
         this.initComplete = true;
         console.log('[Database] Initialized with New Schema');
@@ -229,6 +366,144 @@ class DatabaseService {
         }
     }
 
+    /**
+     * Migration: add updated_at to graph_edges (last time the edge was reinforced).
+     * Older builds overwrote created_at on every bump, so it is the best backfill we have.
+     */
+    private async migrateGraphEdgesUpdatedAtColumn() {
+        if (!this.db) return;
+        try {
+            const cols = await this.db.getAllAsync<{ name: string }>(
+                `PRAGMA table_info(graph_edges)`
+            );
+            const colNames = new Set(cols.map(c => c.name));
+            if (colNames.has('updated_at')) return; // Already migrated
+
+            console.log('[Database] Migrating graph_edges: adding updated_at column...');
+            await this.db.runAsync('ALTER TABLE graph_edges ADD COLUMN updated_at INTEGER DEFAULT NULL');
+            await this.db.runAsync('UPDATE graph_edges SET updated_at = created_at WHERE updated_at IS NULL');
+            console.log('[Database] Migration complete: graph_edges updated_at added.');
+        } catch (e) {
+            console.error('[Database] graph_edges updated_at migration failed', e);
+        }
+    }
+
+    /**
+     * Migration: add dislike_score to graph_nodes (number of early skips of a song).
+     */
+    private async migrateGraphNodesDislikeColumn() {
+        if (!this.db) return;
+        try {
+            const cols = await this.db.getAllAsync<{ name: string }>(
+                `PRAGMA table_info(graph_nodes)`
+            );
+            const colNames = new Set(cols.map(c => c.name));
+            if (colNames.has('dislike_score')) return; // Already migrated
+
+            console.log('[Database] Migrating graph_nodes: adding dislike_score column...');
+            await this.db.runAsync('ALTER TABLE graph_nodes ADD COLUMN dislike_score REAL DEFAULT 0');
+            console.log('[Database] Migration complete: graph_nodes dislike_score added.');
+        } catch (e) {
+            console.error('[Database] graph_nodes dislike_score migration failed', e);
+        }
+    }
+
+    /**
+     * Migration: add cluster_id to graph_nodes (taste community from GraphService.detectTasteClusters).
+     */
+    private async migrateGraphNodesClusterColumn() {
+        if (!this.db) return;
+        try {
+            const cols = await this.db.getAllAsync<{ name: string }>(
+                `PRAGMA table_info(graph_nodes)`
+            );
+            const colNames = new Set(cols.map(c => c.name));
+            if (colNames.has('cluster_id')) return; // Already migrated
+
+            console.log('[Database] Migrating graph_nodes: adding cluster_id column...');
+            await this.db.runAsync('ALTER TABLE graph_nodes ADD COLUMN cluster_id INTEGER DEFAULT NULL');
+            console.log('[Database] Migration complete: graph_nodes cluster_id added.');
+        } catch (e) {
+            console.error('[Database] graph_nodes cluster_id migration failed', e);
+        }
+    }
+
+    /**
+     * Migration: add album_id/album_name/release_year to ingestion_tracks (ALBUM and ERA nodes).
+     * Rows staged by an older build keep NULLs; those songs just get no album/era edges.
+     */
+    private async migrateIngestionTracksAlbumColumns() {
+        if (!this.db) return;
+        try {
+            const cols = await this.db.getAllAsync<{ name: string }>(
+                `PRAGMA table_info(ingestion_tracks)`
+            );
+            const colNames = new Set(cols.map(c => c.name));
+            if (colNames.has('album_id')) return; // Already migrated
+
+            console.log('[Database] Migrating ingestion_tracks: adding album columns...');
+            await this.db.runAsync('ALTER TABLE ingestion_tracks ADD COLUMN album_id TEXT DEFAULT NULL');
+            await this.db.runAsync('ALTER TABLE ingestion_tracks ADD COLUMN album_name TEXT DEFAULT NULL');
+            await this.db.runAsync('ALTER TABLE ingestion_tracks ADD COLUMN release_year INTEGER DEFAULT NULL');
+            console.log('[Database] Migration complete: ingestion_tracks album columns added.');
+        } catch (e) {
+            console.error('[Database] ingestion_tracks album migration failed', e);
+        }
+    }
+
+    /**
+     * Migration: add isrc to ingestion_tracks (GraphService.findDuplicateSongs matches on it).
+     */
+    private async migrateIngestionTracksIsrcColumn() {
+        if (!this.db) return;
+        try {
+            const cols = await this.db.getAllAsync<{ name: string }>(
+                `PRAGMA table_info(ingestion_tracks)`
+            );
+            const colNames = new Set(cols.map(c => c.name));
+            if (colNames.has('isrc')) return; // Already migrated
+
+            console.log('[Database] Migrating ingestion_tracks: adding isrc column...');
+            await this.db.runAsync('ALTER TABLE ingestion_tracks ADD COLUMN isrc TEXT DEFAULT NULL');
+            console.log('[Database] Migration complete: ingestion_tracks isrc added.');
+        } catch (e) {
+            console.error('[Database] ingestion_tracks isrc migration failed', e);
+        }
+    }
+
+    /**
+     * Migration: add graph_node_aliases (spotify_id of a song merged away → the song it was merged
+     * into, see GraphService.mergeSongs), backfilled from the merged_spotify_ids in node data.
+     */
+    private async migrateGraphNodeAliasesTable() {
+        if (!this.db) return;
+        try {
+            const table = await this.db.getFirstAsync<{ name: string }>(
+                `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'graph_node_aliases'`
+            );
+            if (table) return; // Already migrated
+
+            console.log('[Database] Migrating graph_nodes: adding graph_node_aliases table...');
+            await this.db.execAsync(`
+              CREATE TABLE graph_node_aliases (
+                spotify_id TEXT PRIMARY KEY,
+                node_id INTEGER NOT NULL,
+                FOREIGN KEY(node_id) REFERENCES graph_nodes(id)
+              );
+              CREATE INDEX IF NOT EXISTS idx_graph_node_aliases_node ON graph_node_aliases(node_id);
+            `);
+            await this.db.runAsync(
+                `INSERT OR IGNORE INTO graph_node_aliases (spotify_id, node_id)
+                 SELECT m.value, n.id FROM graph_nodes n,
+                    json_each(CASE WHEN json_valid(n.data) THEN n.data ELSE '{}' END, '$.merged_spotify_ids') m
+                 WHERE n.type = 'SONG'`
+            );
+            console.log('[Database] Migration complete: graph_node_aliases added.');
+        } catch (e) {
+            console.error('[Database] graph_node_aliases migration failed', e);
+        }
+    }
+
     private async checkAndClearDailyLog() {
         if (!this.db) return;
         try {
@@ -240,6 +515,8 @@ class DatabaseService {
             if (!result || result.last_clear !== today) {
                 console.log('[Database] New Day - Clearing Daily Log');
                 await this.db.runAsync('DELETE FROM daily_play_log');
+                await this.db.runAsync('DELETE FROM gemini_usage WHERE timestamp < ?', [Date.now() - GEMINI_USAGE_RETENTION_MS]);
+                await this.db.runAsync('DELETE FROM gemini_response_cache WHERE expires_at <= ?', [Date.now()]);
                 await this.setPreference('last_daily_clear', today);
             }
         } catch (e) {
@@ -408,6 +685,27 @@ class DatabaseService {
         }
     }
 
+    /**
+     * Plays logged since `sinceMs` (skips included), oldest first.
+     */
+    async getLoggedPlaysSince(sinceMs: number): Promise<LoggedPlay[]> {
+        if (!this.db) await this.init();
+        try {
+            // played_at is SQLite's CURRENT_TIMESTAMP: 'YYYY-MM-DD HH:MM:SS' in UTC
+            const rows = await this.db!.getAllAsync<{ spotify_track_id: string; played_at: string }>(
+                `SELECT spotify_track_id, played_at FROM listening_history WHERE played_at >= ? ORDER BY played_at`,
+                [new Date(sinceMs).toISOString().slice(0, 19).replace('T', ' ')]
+            );
+            return rows.map(r => ({
+                trackId: r.spotify_track_id.replace(/^spotify:track:/, ''),
+                playedAt: Date.parse(`${r.played_at.replace(' ', 'T')}Z`),
+            }));
+        } catch (e) {
+            console.error('[Database] GetLoggedPlaysSince Error', e);
+            return [];
+        }
+    }
+
     // Gemini Reasoning
     async logReasoning(
         userContext: object,
@@ -550,6 +848,237 @@ class DatabaseService {
             return null;
         }
     }
+
+    // --- Liked-songs ingestion checkpoint ---
+
+    async getIngestionCheckpoint(): Promise<IngestionCheckpoint | null> {
+        await this.ensureInit();
+        try {
+            const row = await this.db!.getFirstAsync<any>('SELECT * FROM ingestion_checkpoint WHERE id = 1');
+            if (!row) return null;
+            return { phase: row.phase, offset: row.next_offset, total: row.total, updatedAt: row.updated_at };
+        } catch (e) {
+            console.error('[Database] GetIngestionCheckpoint Error', e);
+            return null;
+        }
+    }
+
+    async setIngestionCheckpoint(checkpoint: Omit<IngestionCheckpoint, 'updatedAt'>) {
+        await this.ensureInit();
+        try {
+            await this.db!.runAsync(
+                'INSERT OR REPLACE INTO ingestion_checkpoint (id, phase, next_offset, total, updated_at) VALUES (1, ?, ?, ?, ?)',
+                [checkpoint.phase, checkpoint.offset, checkpoint.total, Date.now()]
+            );
+        } catch (e) {
+            console.error('[Database] SetIngestionCheckpoint Error', e);
+        }
+    }
+
+    /**
+     * Stage a fetched page of liked tracks and advance the checkpoint in one transaction,
+     * so a resumed fetch never skips or double-counts a page.
+     */
+    async appendIngestionPage(tracks: IngestionTrack[], checkpoint: Omit<IngestionCheckpoint, 'updatedAt'>) {
+        await this.ensureInit();
+        const db = this.db!;
+        try {
+            await db.withTransactionAsync(async () => {
+                for (let i = 0; i < tracks.length; i++) {
+                    const t = tracks[i];
+                    await db.runAsync(
+                        `INSERT OR IGNORE INTO ingestion_tracks
+                            (track_id, track_name, artist_id, artist_name, added_at, album_id, album_name, release_year, isrc, position)
+                         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                        [
+                            t.trackId, t.trackName, t.primaryArtistId, t.primaryArtistName, t.addedAt,
+                            t.albumId ?? null, t.albumName ?? null, t.releaseYear ?? null, t.isrc ?? null,
+                            checkpoint.offset - tracks.length + i,
+                        ]
+                    );
+                }
+                await db.runAsync(
+                    'INSERT OR REPLACE INTO ingestion_checkpoint (id, phase, next_offset, total, updated_at) VALUES (1, ?, ?, ?, ?)',
+                    [checkpoint.phase, checkpoint.offset, checkpoint.total, Date.now()]
+                );
+            });
+        } catch (e) {
+            console.error('[Database] AppendIngestionPage Error', e);
+            // The caller must not page on: the checkpoint would skip the tracks that were lost
+            throw e;
+        }
+    }
+
+    async getIngestionTracks(): Promise<IngestionTrack[]> {
+        await this.ensureInit();
+        try {
+            const rows = await this.db!.getAllAsync<any>('SELECT * FROM ingestion_tracks ORDER BY position');
+            return rows.map(r => ({
+                trackId: r.track_id,
+                trackName: r.track_name,
+                primaryArtistId: r.artist_id,
+                primaryArtistName: r.artist_name,
+                addedAt: r.added_at,
+                albumId: r.album_id ?? undefined,
+                albumName: r.album_name ?? undefined,
+                releaseYear: r.release_year ?? undefined,
+                isrc: r.isrc ?? undefined,
+                processed: r.processed === 1,
+            }));
+        } catch (e) {
+            console.error('[Database] GetIngestionTracks Error', e);
+            return [];
+        }
+    }
+
+    async markIngestionTracksProcessed(trackIds: string[]) {
+        if (trackIds.length === 0) return;
+        await this.ensureInit();
+        try {
+            const CHUNK_SIZE = 500; // stay under SQLite's bound-parameter limit
+            for (let i = 0; i < trackIds.length; i += CHUNK_SIZE) {
+                const chunk = trackIds.slice(i, i + CHUNK_SIZE);
+                await this.db!.runAsync(
+                    `UPDATE ingestion_tracks SET processed = 1 WHERE track_id IN (${chunk.map(() => '?').join(',')})`,
+                    chunk
+                );
+            }
+        } catch (e) {
+            console.error('[Database] MarkIngestionTracksProcessed Error', e);
+        }
+    }
+
+    async clearIngestionCheckpoint() {
+        await this.ensureInit();
+        try {
+            await this.db!.runAsync('DELETE FROM ingestion_checkpoint');
+            await this.db!.runAsync('DELETE FROM ingestion_tracks');
+        } catch (e) {
+            console.error('[Database] ClearIngestionCheckpoint Error', e);
+        }
+    }
+
+    // --- Taste snapshots ---
+
+    async addTasteSnapshot(takenAt: number, data: object) {
+        await this.ensureInit();
+        try {
+            await this.db!.runAsync(
+                'INSERT INTO taste_snapshots (taken_at, data) VALUES (?, ?)',
+                [takenAt, JSON.stringify(data)]
+            );
+        } catch (e) {
+            console.error('[Database] AddTasteSnapshot Error', e);
+        }
+    }
+
+    /** The latest `limit` snapshots, oldest first. */
+    async getTasteSnapshots(limit: number = 104): Promise<StoredTasteSnapshot[]> {
+        await this.ensureInit();
+        try {
+            const rows = await this.db!.getAllAsync<any>(
+                'SELECT * FROM taste_snapshots ORDER BY taken_at DESC LIMIT ?',
+                [limit]
+            );
+            return rows.reverse().map(r => ({ id: r.id, takenAt: r.taken_at, data: JSON.parse(r.data || '{}') }));
+        } catch (e) {
+            console.error('[Database] GetTasteSnapshots Error', e);
+            return [];
+        }
+    }
+
+    // --- Gemini usage ---
+
+    async recordGeminiUsage(record: GeminiUsageRecord) {
+        await this.ensureInit();
+        try {
+            await this.db!.runAsync(
+                `INSERT INTO gemini_usage (timestamp, operation, model, prompt_tokens, candidate_tokens, thinking_tokens, total_tokens, latency_ms)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                [record.timestamp, record.operation, record.model, record.promptTokens, record.candidateTokens,
+                    record.thinkingTokens, record.totalTokens, record.latencyMs]
+            );
+        } catch (e) {
+            console.error('[Database] RecordGeminiUsage Error', e);
+        }
+    }
+
+    /** Calls made at or after `since`, oldest first. */
+    async getGeminiUsage(since: number): Promise<GeminiUsageRecord[]> {
+        await this.ensureInit();
+        try {
+            const rows = await this.db!.getAllAsync<any>(
+                'SELECT * FROM gemini_usage WHERE timestamp >= ? ORDER BY timestamp',
+                [since]
+            );
+            return rows.map(r => ({
+                timestamp: r.timestamp,
+                operation: r.operation,
+                model: r.model,
+                promptTokens: r.prompt_tokens,
+                candidateTokens: r.candidate_tokens,
+                thinkingTokens: r.thinking_tokens,
+                totalTokens: r.total_tokens,
+                latencyMs: r.latency_ms,
+            }));
+        } catch (e) {
+            console.error('[Database] GetGeminiUsage Error', e);
+            return [];
+        }
+    }
+
+    async getGeminiTokensSince(since: number): Promise<number> {
+        await this.ensureInit();
+        try {
+            const row = await this.db!.getFirstAsync<{ total: number | null }>(
+                'SELECT SUM(total_tokens) as total FROM gemini_usage WHERE timestamp >= ?',
+                [since]
+            );
+            return row?.total ?? 0;
+        } catch (e) {
+            console.error('[Database] GetGeminiTokensSince Error', e);
+            return 0;
+        }
+    }
+
+    // --- Gemini response cache ---
+
+    /** The cached reply text under `key`, unless it expired by `now`. */
+    async getCachedGeminiResponse(key: string, now: number = Date.now()): Promise<string | null> {
+        await this.ensureInit();
+        try {
+            const row = await this.db!.getFirstAsync<{ response_text: string }>(
+                'SELECT response_text FROM gemini_response_cache WHERE cache_key = ? AND expires_at > ?',
+                [key, now]
+            );
+            return row?.response_text ?? null;
+        } catch (e) {
+            console.error('[Database] GetCachedGeminiResponse Error', e);
+            return null;
+        }
+    }
+
+    async setCachedGeminiResponse(entry: GeminiCachedResponse) {
+        await this.ensureInit();
+        try {
+            await this.db!.runAsync(
+                `INSERT OR REPLACE INTO gemini_response_cache (cache_key, operation, model, response_text, created_at, expires_at)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [entry.key, entry.operation, entry.model, entry.text, entry.createdAt, entry.expiresAt]
+            );
+        } catch (e) {
+            console.error('[Database] SetCachedGeminiResponse Error', e);
+        }
+    }
+
+    async deleteCachedGeminiResponse(key: string) {
+        await this.ensureInit();
+        try {
+            await this.db!.runAsync('DELETE FROM gemini_response_cache WHERE cache_key = ?', [key]);
+        } catch (e) {
+            console.error('[Database] DeleteCachedGeminiResponse Error', e);
+        }
+    }
 }
 
 export const dbService = new DatabaseService();
@@ -10,6 +10,71 @@ export interface FeedbackItem {
     timestamp: number;
 }
 
+/** Liked-songs ingestion phases, in order: page /me/tracks, build nodes in chunks, link SIMILAR edges. */
+export type IngestionPhase = 'fetch' | 'build' | 'similar';
+
+export interface IngestionCheckpoint {
+    phase: IngestionPhase;
+    /** Next /me/tracks offset to fetch (fetch phase). */
+    offset: number;
+    /** Library size reported by Spotify. */
+    total: number;
+    updatedAt: number;
+}
+
+/** A fetched liked track staged for ingestion; `processed` once its nodes and edges are written. */
+export interface IngestionTrack {
+    trackId: string;
+    trackName: string;
+    primaryArtistId: string;
+    primaryArtistName: string;
+    addedAt: number;
+    albumId?: string;
+    albumName?: string;
+    releaseYear?: number;
+    isrc?: string;
+    processed?: boolean;
+}
+
+/** A stored taste snapshot; `data` is the snapshot JSON written by GraphService.takeTasteSnapshot(). */
+export interface StoredTasteSnapshot {
+    id: number;
+    takenAt: number;
+    data: Record<string, any>;
+}
+
+/** One Gemini call's token usage, as recorded by GeminiService. */
+export interface GeminiUsageRecord {
+    timestamp: number;
+    /** GeminiService entry point, e.g. `expandVibe`. */
+    operation: string;
+    model: string;
+    promptTokens: number;
+    candidateTokens: number;
+    thinkingTokens: number;
+    totalTokens: number;
+    latencyMs: number;
+}
+
+/** A play Moodify logged itself (listening_history), see getLoggedPlaysSince(). */
+export interface LoggedPlay {
+    /** Bare Spotify track id. */
+    trackId: string;
+    /** When the play was logged (ms), i.e. when the track ended or was skipped. */
+    playedAt: number;
+}
+
+/** A Gemini reply kept for reuse by GeminiService's response cache. */
+export interface GeminiCachedResponse {
+    /** `model:promptHash:configHash` (see responseCacheKey). */
+    key: string;
+    operation: string;
+    model: string;
+    text: string;
+    createdAt: number;
+    expiresAt: number;
+}
+
 const STORAGE_KEYS = {
     USER_SERVICES: 'moodify_user_services',
     APP_SECRETS: 'moodify_app_secrets',
@@ -19,8 +84,16 @@ const STORAGE_KEYS = {
     TRACKS: 'moodify_tracks',
     DAILY_PLAY_LOG: 'moodify_daily_play_log',
     GEMINI_REASONING: 'moodify_gemini_reasoning',
+    INGESTION_CHECKPOINT: 'moodify_ingestion_checkpoint',
+    INGESTION_TRACKS: 'moodify_ingestion_tracks',
+    TASTE_SNAPSHOTS: 'moodify_taste_snapshots',
+    GEMINI_USAGE: 'moodify_gemini_usage',
+    GEMINI_RESPONSE_CACHE: 'moodify_gemini_response_cache',
 };
 
+/** Per-call Gemini usage older than this is dropped at the first launch of a day. */
+const GEMINI_USAGE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
 // Check if we're in a browser environment (not SSR)
 function isBrowser(): boolean {
     return typeof window !== 'undefined' && typeof localStorage !== 'undefined';
@@ -81,6 +154,13 @@ class DatabaseServiceWeb {
             if (prefs['last_daily_clear'] !== today) {
                 console.log('[Database.web] New Day - Clearing Daily Log');
                 setStorage(STORAGE_KEYS.DAILY_PLAY_LOG, []);
+                const cutoff = Date.now() - GEMINI_USAGE_RETENTION_MS;
+                const usage = getStorage<GeminiUsageRecord[]>(STORAGE_KEYS.GEMINI_USAGE, []);
+                setStorage(STORAGE_KEYS.GEMINI_USAGE, usage.filter(r => r.timestamp >= cutoff));
+                const cache = getStorage<Record<string, GeminiCachedResponse>>(STORAGE_KEYS.GEMINI_RESPONSE_CACHE, {});
+                setStorage(STORAGE_KEYS.GEMINI_RESPONSE_CACHE, Object.fromEntries(
+                    Object.entries(cache).filter(([, entry]) => entry.expiresAt > Date.now())
+                ));
                 prefs['last_daily_clear'] = today;
                 setStorage(STORAGE_KEYS.USER_PREFERENCES, prefs);
             }
@@ -204,6 +284,14 @@ class DatabaseServiceWeb {
         return Object.keys(dailyLog);
     }
 
+    async getLoggedPlaysSince(sinceMs: number): Promise<LoggedPlay[]> {
+        await this.ensureInit();
+        const history = getStorage<any[]>(STORAGE_KEYS.LISTENING_HISTORY, []);
+        return history
+            .map(h => ({ trackId: String(h.spotify_track_id).replace(/^spotify:track:/, ''), playedAt: Date.parse(h.played_at) }))
+            .filter(play => play.playedAt >= sinceMs);
+    }
+
     // Gemini Reasoning
     async logReasoning(userContext: object, reasoning: string, suggestedAction: string): Promise<void> {
         await this.ensureInit();
@@ -304,6 +392,110 @@ class DatabaseServiceWeb {
 
         return null;
     }
+
+    // --- Liked-songs ingestion checkpoint ---
+
+    async getIngestionCheckpoint(): Promise<IngestionCheckpoint | null> {
+        await this.ensureInit();
+        return getStorage<IngestionCheckpoint | null>(STORAGE_KEYS.INGESTION_CHECKPOINT, null);
+    }
+
+    async setIngestionCheckpoint(checkpoint: Omit<IngestionCheckpoint, 'updatedAt'>): Promise<void> {
+        await this.ensureInit();
+        setStorage(STORAGE_KEYS.INGESTION_CHECKPOINT, { ...checkpoint, updatedAt: Date.now() });
+    }
+
+    async appendIngestionPage(tracks: IngestionTrack[], checkpoint: Omit<IngestionCheckpoint, 'updatedAt'>): Promise<void> {
+        await this.ensureInit();
+        const staged = getStorage<IngestionTrack[]>(STORAGE_KEYS.INGESTION_TRACKS, []);
+        const known = new Set(staged.map(t => t.trackId));
+        for (const t of tracks) {
+            if (!known.has(t.trackId)) staged.push({ ...t, processed: false });
+        }
+        setStorage(STORAGE_KEYS.INGESTION_TRACKS, staged);
+        setStorage(STORAGE_KEYS.INGESTION_CHECKPOINT, { ...checkpoint, updatedAt: Date.now() });
+    }
+
+    async getIngestionTracks(): Promise<IngestionTrack[]> {
+        await this.ensureInit();
+        return getStorage<IngestionTrack[]>(STORAGE_KEYS.INGESTION_TRACKS, []);
+    }
+
+    async markIngestionTracksProcessed(trackIds: string[]): Promise<void> {
+        await this.ensureInit();
+        const ids = new Set(trackIds);
+        const staged = getStorage<IngestionTrack[]>(STORAGE_KEYS.INGESTION_TRACKS, []);
+        setStorage(STORAGE_KEYS.INGESTION_TRACKS, staged.map(t => ids.has(t.trackId) ? { ...t, processed: true } : t));
+    }
+
+    async clearIngestionCheckpoint(): Promise<void> {
+        await this.ensureInit();
+        if (!isBrowser()) return;
+        localStorage.removeItem(STORAGE_KEYS.INGESTION_CHECKPOINT);
+        localStorage.removeItem(STORAGE_KEYS.INGESTION_TRACKS);
+    }
+
+    // --- Taste snapshots ---
+
+    async addTasteSnapshot(takenAt: number, data: object): Promise<void> {
+        await this.ensureInit();
+        const snapshots = getStorage<StoredTasteSnapshot[]>(STORAGE_KEYS.TASTE_SNAPSHOTS, []);
+        const id = snapshots.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+        snapshots.push({ id, takenAt, data: data as Record<string, any> });
+        setStorage(STORAGE_KEYS.TASTE_SNAPSHOTS, snapshots);
+    }
+
+    /** The latest `limit` snapshots, oldest first. */
+    async getTasteSnapshots(limit: number = 104): Promise<StoredTasteSnapshot[]> {
+        await this.ensureInit();
+        const snapshots = getStorage<StoredTasteSnapshot[]>(STORAGE_KEYS.TASTE_SNAPSHOTS, []);
+        return snapshots.sort((a, b) => a.takenAt - b.takenAt).slice(-limit);
+    }
+
+    // --- Gemini usage ---
+
+    async recordGeminiUsage(record: GeminiUsageRecord): Promise<void> {
+        await this.ensureInit();
+        const usage = getStorage<GeminiUsageRecord[]>(STORAGE_KEYS.GEMINI_USAGE, []);
+        usage.push(record);
+        setStorage(STORAGE_KEYS.GEMINI_USAGE, usage);
+    }
+
+    /** Calls made at or after `since`, oldest first. */
+    async getGeminiUsage(since: number): Promise<GeminiUsageRecord[]> {
+        await this.ensureInit();
+        return getStorage<GeminiUsageRecord[]>(STORAGE_KEYS.GEMINI_USAGE, [])
+            .filter(r => r.timestamp >= since)
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    async getGeminiTokensSince(since: number): Promise<number> {
+        const usage = await this.getGeminiUsage(since);
+        return usage.reduce((sum, r) => sum + r.totalTokens, 0);
+    }
+
+    // --- Gemini response cache ---
+
+    /** The cached reply text under `key`, unless it expired by `now`. */
+    async getCachedGeminiResponse(key: string, now: number = Date.now()): Promise<string | null> {
+        await this.ensureInit();
+        const entry = getStorage<Record<string, GeminiCachedResponse>>(STORAGE_KEYS.GEMINI_RESPONSE_CACHE, {})[key];
+        return entry && entry.expiresAt > now ? entry.text : null;
+    }
+
+    async setCachedGeminiResponse(entry: GeminiCachedResponse): Promise<void> {
+        await this.ensureInit();
+        const cache = getStorage<Record<string, GeminiCachedResponse>>(STORAGE_KEYS.GEMINI_RESPONSE_CACHE, {});
+        cache[entry.key] = entry;
+        setStorage(STORAGE_KEYS.GEMINI_RESPONSE_CACHE, cache);
+    }
+
+    async deleteCachedGeminiResponse(key: string): Promise<void> {
+        await this.ensureInit();
+        const cache = getStorage<Record<string, GeminiCachedResponse>>(STORAGE_KEYS.GEMINI_RESPONSE_CACHE, {});
+        delete cache[key];
+        setStorage(STORAGE_KEYS.GEMINI_RESPONSE_CACHE, cache);
+    }
 }
 
 export const dbService = new DatabaseServiceWeb();
@@ -1,3 +1,5 @@
+import { Schema } from './responseSchema';
+
 export const GeminiPrompts = {
   /**
    * DJ Recommendation - Single seed track for Spotify Radio
@@ -37,10 +39,13 @@ Rules:NEVER suggest songs from H list,popular,no mega-hits
   generateVibeOptionsPrompt: (
     recentHistory: { track_name: string; artist_name: string }[],
     tasteProfile: {
-      clusterReps: { name: string; artist: string; playCount?: number }[];
+      clusterReps: { name: string; artist: string; playCount?: number; cluster?: number }[];
       topGenres?: { name: string; songCount: number }[];
+      topPlaylists?: { name: string; songCount: number }[];
+      topEras?: { name: string; songCount: number }[];
       recentVibes?: string[];
       audioProfile?: { energy: number; valence: number; danceability: number } | null;
+      nowContext?: { label: string; vibes: string[] };
     },
     favorites: string[],
     userInstruction: string,
@@ -55,14 +60,33 @@ Rules:NEVER suggest songs from H list,popular,no mega-hits
       ? safeHistory.map(h => `${h.track_name}|${h.artist_name}`).join(';')
       : 'None';
 
+    // Reps tagged with a cluster are grouped per facet: "C1:a|x,b|y;C2:c|z"
+    const repCompact = (c: { name: string; artist: string; playCount?: number }) =>
+      `${c.name}|${c.artist}${c.playCount ? `(${c.playCount})` : ''}`;
+    const clusterGroups = new Map<string, string[]>();
+    safeClusters.forEach((c, i) => {
+      const key = c.cluster != null ? `C${c.cluster + 1}:` : `#${i}`;
+      clusterGroups.set(key, [...(clusterGroups.get(key) || []), repCompact(c)]);
+    });
     const clustersCompact = safeClusters.length > 0
-      ? safeClusters.map(c => `${c.name}|${c.artist}${c.playCount ? `(${c.playCount})` : ''}`).join(';')
+      ? Array.from(clusterGroups.entries())
+        .map(([key, reps]) => key.startsWith('#') ? reps.join(',') : `${key}${reps.join(',')}`)
+        .join(';')
       : 'None';
 
     const genresCompact = tasteProfile.topGenres && tasteProfile.topGenres.length > 0
       ? tasteProfile.topGenres.map(g => `${g.name}(${g.songCount})`).join(';')
       : '';
 
+    const playlistsCompact = tasteProfile.topPlaylists && tasteProfile.topPlaylists.length > 0
+      ? tasteProfile.topPlaylists.map(p => `${p.name}(${p.songCount})`).join(';')
+      : '';
+
+    // Release decades, e.g. "1990s(42)", for era-shifted takes on the user's taste
+    const erasCompact = tasteProfile.topEras && tasteProfile.topEras.length > 0
+      ? tasteProfile.topEras.map(e => `${e.name}(${e.songCount})`).join(';')
+      : '';
+
     const vibesCompact = tasteProfile.recentVibes && tasteProfile.recentVibes.length > 0
       ? tasteProfile.recentVibes.join(';')
       : '';
@@ -71,6 +95,12 @@ Rules:NEVER suggest songs from H list,popular,no mega-hits
       ? `E:${tasteProfile.audioProfile.energy}|V:${tasteProfile.audioProfile.valence}|D:${tasteProfile.audioProfile.danceability}`
       : '';
 
+    // Time of day + weekday/weekend, with the vibes usually played then: "weekday morning|usual:Commute;Focus"
+    const nowCompact = tasteProfile.nowContext
+      ? tasteProfile.nowContext.label
+        + (tasteProfile.nowContext.vibes.length > 0 ? `|usual:${tasteProfile.nowContext.vibes.join(';')}` : '')
+      : '';
+
     const favCompact = safeFavorites.length > 0 ? safeFavorites.slice(0, 8).join(';') : 'Any';
     const excludeCompact = safeExclude.length > 0 ? safeExclude.slice(0, 50).join(';') : 'None';
 
@@ -79,19 +109,23 @@ Ctx(History):${historyCompact}
 Ctx(Taste Clusters):${clustersCompact}`;
 
     if (genresCompact) prompt += `\nCtx(Genres):${genresCompact}`;
+    if (playlistsCompact) prompt += `\nCtx(Playlists):${playlistsCompact}`;
+    if (erasCompact) prompt += `\nCtx(Eras):${erasCompact}`;
     if (vibesCompact) prompt += `\nCtx(Recent Vibes):${vibesCompact}`;
     if (audioCompact) prompt += `\nCtx(Audio Profile):${audioCompact}`;
+    if (nowCompact) prompt += `\nCtx(Now):${nowCompact}`;
 
     prompt += `\nFav:${favCompact}`;
     if (userInstruction) prompt += `\nHint:${userInstruction}`;
     prompt += `\nEXCLUDE:${excludeCompact}
 Rules:
-1. 4 'Familiar' from Taste Clusters.
+1. 4 'Familiar' from Taste Clusters (different clusters).
 2. 4 'Adjacent' (similar genre).
 3. 8 'Discovery' (new).
 4. Diverse genres.
-5. NEVER suggest songs from EXCLUDE.
-Output:{"options":[{"id":"v1","title":"Name","description":"Mood","track":{"t":"Title","a":"Artist"},"reason":"Why (Context)"}]}`;
+5. NEVER suggest songs from EXCLUDE.`;
+    if (nowCompact) prompt += `\n6. 4+ options suit Ctx(Now).`;
+    prompt += `\nOutput:{"options":[{"id":"v1","title":"Name","description":"Mood","track":{"t":"Title","a":"Artist"},"reason":"Why (Context)"}]}`;
 
     return prompt;
   },
@@ -184,5 +218,71 @@ Now:${nowPlaying}
 H:${historyCompact}
 ${userContext ? `Ctx:${userContext}` : ''}
 {"mood":"word","mood_description":"2-3 sentences","energy_level":"low|medium|high","recommended_direction":"keep_current|shift_energy|change_genre"}`;
+  },
+
+  /**
+   * Corrective retry - the original prompt again, with what was wrong with the last reply
+   */
+  generateCorrectionPrompt: (originalPrompt: string, errors: string[]) => {
+    return `${originalPrompt}
+Your previous reply was rejected:${errors.slice(0, 5).join(';')}
+Reply again with complete JSON in exactly the Output format.`;
   }
 };
+
+const track = Schema.object({ t: Schema.string(), a: Schema.string() });
+
+/**
+ * Response schemas, sent as `responseSchema` with the matching prompt and used to validate
+ * its reply (see GeminiResponses). Keys and order follow each prompt's Output example.
+ */
+export const GeminiSchemas = {
+  /** generateDJRecommendation */
+  djRecommendation: Schema.object({
+    reasoning: Schema.string(),
+    items: Schema.array(Schema.object({
+      type: Schema.string(),
+      title: Schema.string(),
+      artist: Schema.string(),
+      reason: Schema.string(),
+      query: Schema.string(),
+    })),
+  }),
+
+  /** generateVibeOptionsPrompt */
+  vibeOptions: Schema.object({
+    options: Schema.array(Schema.object({
+      id: Schema.string(),
+      title: Schema.string(),
+      description: Schema.string(),
+      track,
+      reason: Schema.string(),
+    })),
+  }),
+
+  /** generateVibeExpansionPrompt */
+  vibeExpansion: Schema.object({
+    mood: Schema.string(),
+    items: Schema.array(track),
+  }),
+
+  /** generateRescueVibePrompt */
+  rescueVibe: Schema.object({
+    vibe: Schema.string(),
+    why: Schema.string(),
+    items: Schema.array(track),
+  }),
+
+  /** generateMoodAssessmentPrompt */
+  moodAssessment: Schema.object({
+    mood: Schema.string(),
+    mood_description: Schema.string(),
+    energy_level: Schema.string(['low', 'medium', 'high']),
+    recommended_direction: Schema.string(['keep_current', 'shift_energy', 'change_genre']),
+  }),
+
+  /** Plain track lists, e.g. ValidatedQueueService's backfill prompt */
+  trackList: Schema.object({
+    items: Schema.array(track),
+  }),
+};
@@ -0,0 +1,142 @@
+/**
+ * Typed replies for the prompts in GeminiPrompts.
+ *
+ * Each validator checks a parsed reply against its prompt's schema and returns it in typed form,
+ * with the prompts' short keys (`t`, `a`) spelled out, or lists exactly what is wrong with it.
+ * In replies that list tracks or options, a bad item is dropped instead of failing the reply.
+ */
+import { GeminiSchemas } from './GeminiPrompts';
+import { ResponseSchema, ResponseValidator, validateAgainstSchema } from './responseSchema';
+
+function validator<T>(schema: ResponseSchema, toValue: (raw: any) => T): ResponseValidator<T> {
+    return {
+        schema,
+        validate: (value, path = '') => {
+            const errors = validateAgainstSchema(value, schema, path);
+            return errors.length > 0 ? { ok: false, errors } : { ok: true, value: toValue(value) };
+        },
+    };
+}
+
+/**
+ * validator() for a reply listing items under `listKey`: items that break the schema are left
+ * out (their problems reported as `dropped`) rather than failing the whole reply, unless none
+ * of them conform.
+ */
+function listValidator<T>(schema: ResponseSchema, listKey: string, toValue: (raw: any) => T): ResponseValidator<T> {
+    const whole = validator(schema, toValue);
+    const itemSchema = schema.properties![listKey].items!;
+    return {
+        schema,
+        validate: (value, path = '') => {
+            const list: unknown = (value as any)?.[listKey];
+            if (!Array.isArray(list) || list.length === 0) return whole.validate(value, path);
+
+            const listPath = path ? `${path}.${listKey}` : listKey;
+            const dropped: string[] = [];
+            const kept = list.filter((item, i) => {
+                const errors = validateAgainstSchema(item, itemSchema, `${listPath}[${i}]`);
+                dropped.push(...errors);
+                return errors.length === 0;
+            });
+            if (kept.length === 0) return { ok: false, errors: dropped };
+
+            const result = whole.validate({ ...(value as object), [listKey]: kept }, path);
+            return result.ok && dropped.length > 0 ? { ...result, dropped } : result;
+        },
+    };
+}
+
+export interface SuggestedTrack {
+    title: string;
+    artist: string;
+}
+
+export interface DJRecommendationItem extends SuggestedTrack {
+    type: string;
+    reason: string;
+    query: string;
+}
+
+export interface DJRecommendation {
+    reasoning: string;
+    items: DJRecommendationItem[];
+}
+
+export interface VibeOption {
+    id: string;
+    title: string;
+    description: string;
+    track: SuggestedTrack;
+    reason: string;
+}
+
+export interface VibeExpansion {
+    mood: string;
+    items: SuggestedTrack[];
+}
+
+export interface RescueVibe {
+    vibe: string;
+    why: string;
+    items: SuggestedTrack[];
+}
+
+export type EnergyLevel = 'low' | 'medium' | 'high';
+export type MoodDirection = 'keep_current' | 'shift_energy' | 'change_genre';
+
+export interface MoodAssessment {
+    mood: string;
+    mood_description: string;
+    energy_level: EnergyLevel;
+    recommended_direction: MoodDirection;
+}
+
+const toTrack = (raw: { t: string; a: string }): SuggestedTrack => ({ title: raw.t, artist: raw.a });
+
+const toVibeOption = (raw: any): VibeOption => ({
+    id: raw.id,
+    title: raw.title,
+    description: raw.description,
+    track: toTrack(raw.track),
+    reason: raw.reason,
+});
+
+export const GeminiResponses = {
+    djRecommendation: listValidator<DJRecommendation>(GeminiSchemas.djRecommendation, 'items', raw => ({
+        reasoning: raw.reasoning,
+        items: raw.items.map((item: any) => ({
+            type: item.type,
+            title: item.title,
+            artist: item.artist,
+            reason: item.reason,
+            query: item.query,
+        })),
+    })),
+
+    vibeOptions: listValidator<VibeOption[]>(GeminiSchemas.vibeOptions, 'options', raw => raw.options.map(toVibeOption)),
+
+    /** One element of `vibeOptions`, for options parsed out of a stream one at a time. */
+    vibeOption: validator<VibeOption>(GeminiSchemas.vibeOptions.properties!.options.items!, toVibeOption),
+
+    vibeExpansion: listValidator<VibeExpansion>(GeminiSchemas.vibeExpansion, 'items', raw => ({
+        mood: raw.mood,
+        items: raw.items.map(toTrack),
+    })),
+
+    rescueVibe: listValidator<RescueVibe>(GeminiSchemas.rescueVibe, 'items', raw => ({
+        vibe: raw.vibe,
+        why: raw.why,
+        items: raw.items.map(toTrack),
+    })),
+
+    moodAssessment: validator<MoodAssessment>(GeminiSchemas.moodAssessment, raw => ({
+        mood: raw.mood,
+        mood_description: raw.mood_description,
+        energy_level: raw.energy_level,
+        recommended_direction: raw.recommended_direction,
+    })),
+
+    /** One `{ t, a }` track, as listed by the expansion, rescue and backfill prompts. */
+    track: validator<SuggestedTrack>(GeminiSchemas.trackList.properties!.items.items!, toTrack),
+};
@@ -1,7 +1,20 @@
 import { GeminiErrors, ServiceError } from '@/services/core/ServiceError';
+import { geminiProvider } from '@/services/llm/GeminiProvider';
+import { OpenAICompatibleProvider } from '@/services/llm/OpenAICompatibleProvider';
+import {
+    DEFAULT_LLM_SETTINGS,
+    LLM_PREF_KEYS,
+    LLMGenerationConfig,
+    LLMProvider,
+    LLMProviderId,
+    LLMProviderSettings,
+    LLMReply,
+    LLMRequest,
+    LLMStreamChunk,
+    ThinkingLevel,
+} from '@/services/llm/types';
 import { useAIActivityStore } from '@/stores/AIActivityStore';
 import { useErrorStore } from '@/stores/ErrorStore';
-import axios from 'axios';
 import { create } from 'zustand';
 import { dbService } from '../database';
 import {
@@ -11,24 +24,46 @@ import {
     GeminiModel,
     MODEL_PRIORITY,
     ModelId,
+    STREAM_IDLE_TIMEOUT_MS,
     TOKEN_LIMITS,
 } from './constants';
 import { GeminiPrompts } from './GeminiPrompts';
-
-export type ThinkingLevel = 'minimal' | 'low' | 'medium' | 'high';
+import { GeminiResponses, MoodAssessment, SuggestedTrack, VibeOption } from './GeminiResponses';
+import { RESPONSE_CACHE_TTL_MS, responseCacheKey } from './responseCache';
+import { formatValidationErrors, ResponseValidationError, ResponseValidator } from './responseSchema';
+import { JsonArrayStreamParser } from './streamParser';
+import {
+    DAILY_TOKEN_BUDGET_PREF_KEY,
+    GeminiOperation,
+    isOverBudget,
+    normalizeTokenBudget,
+    startOfLocalDay,
+    TokenCounts,
+    usageByDay,
+    usageByOperation,
+    UsageTotals,
+} from './usage';
+
+export type { LLMProviderId, LLMProviderSettings, ThinkingLevel };
 
 export interface RecommendationResponse {
     mood_analysis: string;
     items: any[];
 }
 
-export interface GeminiGenerationConfig {
-    responseMimeType?: string;
-    maxOutputTokens?: number;
-    thinkingLevel?: ThinkingLevel;
-    seed?: number;
-    temperature?: number;
-    topP?: number;
+export type GeminiGenerationConfig = LLMGenerationConfig;
+
+/** makeRequest()'s reply; `cached` when it came from the response cache instead of the model. */
+export type GeminiReply = LLMReply & { cached?: boolean };
+
+export interface GeminiUsageSummary {
+    tokensToday: number;
+    /** Daily token budget; 0 = none. */
+    budget: number;
+    /** Last `days` days, newest first (days without calls are left out). */
+    byDay: UsageTotals[];
+    /** Same period, most tokens first. */
+    byOperation: UsageTotals[];
 }
 
 export interface ModelStatus {
@@ -43,21 +78,26 @@ interface GeminiState {
     apiKey: string | null;
     selectedModel: ModelId;
     modelStatuses: Record<ModelId, ModelStatus>;
+    /** The provider in use; with `openai-compatible`, `selectedModel` is unused. */
+    llmSettings: LLMProviderSettings;
     setApiKey: (key: string) => void;
     setSelectedModel: (model: ModelId) => void;
     setModelStatus: (status: ModelStatus) => void;
+    setLLMSettings: (settings: LLMProviderSettings) => void;
 }
 
 export const useGeminiStore = create<GeminiState>((set) => ({
     apiKey: null,
     selectedModel: DEFAULT_MODEL,
     modelStatuses: {} as Record<ModelId, ModelStatus>,
+    llmSettings: DEFAULT_LLM_SETTINGS,
     setApiKey: (key) => set({ apiKey: key }),
     setSelectedModel: (model) => set({ selectedModel: model }),
     setModelStatus: (status) =>
         set((state) => ({
             modelStatuses: { ...state.modelStatuses, [status.id]: status },
         })),
+    setLLMSettings: (settings) => set({ llmSettings: settings }),
 }));
 
 class GeminiService {
@@ -65,9 +105,12 @@ class GeminiService {
     private lastThoughtSignature: string | null = null;
     private isGenerating: boolean = false;
     private currentModel: ModelId = DEFAULT_MODEL;
+    private provider: LLMProvider = geminiProvider;
+    private llmSettings: LLMProviderSettings = DEFAULT_LLM_SETTINGS;
 
     private constructor() {
         this.loadSelectedModel();
+        this.loadProviderSettings();
     }
 
     static getInstance(): GeminiService {
@@ -86,6 +129,68 @@ class GeminiService {
         }
     }
 
+    // --- Provider ---
+
+    private async loadProviderSettings(): Promise<void> {
+        this.applyProviderSettings(await this.getProviderSettings());
+    }
+
+    private applyProviderSettings(settings: LLMProviderSettings): void {
+        this.llmSettings = settings;
+        this.provider = settings.provider === 'openai-compatible'
+            ? new OpenAICompatibleProvider(settings.baseUrl)
+            : geminiProvider;
+        useGeminiStore.getState().setLLMSettings(settings);
+    }
+
+    async getProviderSettings(): Promise<LLMProviderSettings> {
+        const provider = await dbService.getPreference(LLM_PREF_KEYS.PROVIDER);
+        return {
+            provider: provider === 'openai-compatible' ? 'openai-compatible' : 'gemini',
+            baseUrl: (await dbService.getPreference(LLM_PREF_KEYS.BASE_URL)) || DEFAULT_LLM_SETTINGS.baseUrl,
+            model: (await dbService.getPreference(LLM_PREF_KEYS.MODEL)) || DEFAULT_LLM_SETTINGS.model,
+            apiKey: (await dbService.getPreference(LLM_PREF_KEYS.API_KEY)) || DEFAULT_LLM_SETTINGS.apiKey,
+        };
+    }
+
+    /** Switch provider; every later request goes to it (in-flight ones finish where they started). */
+    async setProviderSettings(settings: LLMProviderSettings): Promise<void> {
+        const trimmed = { ...settings, baseUrl: settings.baseUrl.trim(), model: settings.model.trim(), apiKey: settings.apiKey.trim() };
+        await dbService.setPreference(LLM_PREF_KEYS.PROVIDER, trimmed.provider);
+        await dbService.setPreference(LLM_PREF_KEYS.BASE_URL, trimmed.baseUrl);
+        await dbService.setPreference(LLM_PREF_KEYS.MODEL, trimmed.model);
+        await dbService.setPreference(LLM_PREF_KEYS.API_KEY, trimmed.apiKey);
+        this.applyProviderSettings(trimmed);
+        this.clearConversationState();
+        console.log(`[Gemini] Provider set to: ${trimmed.provider}${trimmed.provider === 'openai-compatible' ? ` (${trimmed.model} at ${trimmed.baseUrl})` : ''}`);
+    }
+
+    /** Try an OpenAI-compatible server and model before switching to it. */
+    async testProviderSettings(settings: LLMProviderSettings): Promise<{ available: boolean; latency?: number; error?: string }> {
+        if (!settings.baseUrl.trim() || !settings.model.trim()) return { available: false, error: 'Base URL and model are required' };
+        const startTime = Date.now();
+        try {
+            await new OpenAICompatibleProvider(settings.baseUrl).test(settings.model.trim(), settings.apiKey.trim());
+            return { available: true, latency: Date.now() - startTime };
+        } catch (error: any) {
+            return { available: false, error: error.response?.data?.error?.message || error.message || 'Unknown error' };
+        }
+    }
+
+    getProviderId(): LLMProviderId {
+        return this.provider.id;
+    }
+
+    /** The model requests go to first: the selected Gemini model, or the configured OpenAI-compatible one. */
+    private activeModel(): string {
+        return this.provider.id === 'gemini' ? this.currentModel : this.llmSettings.model;
+    }
+
+    /** Display name of a model, for logs. */
+    private modelName(model: string): string {
+        return GEMINI_MODELS[model as ModelId]?.name ?? model;
+    }
+
     // Get current model info
     getCurrentModel(): GeminiModel {
         return GEMINI_MODELS[this.currentModel];
@@ -118,14 +223,7 @@ class GeminiService {
         const startTime = Date.now();
 
         try {
-            await axios.post(
-                `${model.url}?key=${key}`,
-                {
-                    contents: [{ parts: [{ text: 'Hi' }] }],
-                    generationConfig: { maxOutputTokens: 1 },
-                },
-                { timeout: 15000 }
-            );
+            await geminiProvider.test(modelId, key);
 
             const latency = Date.now() - startTime;
             const status: ModelStatus = {
@@ -188,26 +286,115 @@ class GeminiService {
         return this.lastThoughtSignature;
     }
 
+    /** The active provider's API key; null when it needs one and has none (a local server may need none: ''). */
     private async getApiKey(): Promise<string | null> {
-        return dbService.getPreference('gemini_api_key');
+        if (this.provider.id === 'openai-compatible') {
+            return this.llmSettings.model ? this.llmSettings.apiKey : null;
+        }
+        return (await dbService.getPreference('gemini_api_key')) || null;
+    }
+
+    /** Whether requests can be made: a Gemini key, or an OpenAI-compatible model, is set up. */
+    async isConfigured(): Promise<boolean> {
+        await this.loadProviderSettings();
+        return (await this.getApiKey()) !== null;
+    }
+
+    // --- Usage & budget ---
+
+    /** Daily token budget; 0 = none. */
+    async getDailyTokenBudget(): Promise<number> {
+        return normalizeTokenBudget(await dbService.getPreference(DAILY_TOKEN_BUDGET_PREF_KEY));
+    }
+
+    async setDailyTokenBudget(tokens: number): Promise<void> {
+        await dbService.setPreference(DAILY_TOKEN_BUDGET_PREF_KEY, String(normalizeTokenBudget(tokens)));
     }
 
-    private buildGenerationConfig(overrides: Partial<GeminiGenerationConfig> = {}): Record<string, any> {
-        const config = { ...DEFAULT_JSON_CONFIG, ...overrides };
+    async getTokensUsedToday(): Promise<number> {
+        return dbService.getGeminiTokensSince(startOfLocalDay(Date.now()));
+    }
+
+    /** Whether today's calls have used up the daily token budget (never, without one). */
+    async isOverDailyBudget(): Promise<boolean> {
+        const budget = await this.getDailyTokenBudget();
+        return budget > 0 && isOverBudget(await this.getTokensUsedToday(), budget);
+    }
+
+    async getUsageSummary(days: number = 7): Promise<GeminiUsageSummary> {
+        const now = Date.now();
+        const records = await dbService.getGeminiUsage(startOfLocalDay(now, days - 1));
+        const today = startOfLocalDay(now);
         return {
-            responseMimeType: config.responseMimeType,
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topP: config.topP,
-            ...(config.seed !== undefined && { seed: config.seed }),
+            tokensToday: records.filter(r => r.timestamp >= today).reduce((sum, r) => sum + r.totalTokens, 0),
+            budget: await this.getDailyTokenBudget(),
+            byDay: usageByDay(records),
+            byOperation: usageByOperation(records),
         };
     }
 
+    /** Store one call's token counts. */
+    private recordUsage(operation: GeminiOperation, model: string, usage: TokenCounts, latencyMs: number): void {
+        dbService.recordGeminiUsage({
+            timestamp: Date.now(),
+            operation,
+            model,
+            ...usage,
+            latencyMs,
+        });
+    }
+
+    // --- Response cache ---
+
+    /** Cached reply text for `prompt` and `generationConfig` from any model we'd try, in fallback order. */
+    private async readCachedResponse(prompt: string, generationConfig: GeminiGenerationConfig): Promise<string | null> {
+        for (const model of this.modelsToTry()) {
+            const text = await dbService.getCachedGeminiResponse(responseCacheKey(model, prompt, generationConfig));
+            if (text !== null) {
+                console.log(`[Gemini] Reusing cached ${this.modelName(model)} reply`);
+                return text;
+            }
+        }
+        return null;
+    }
+
+    /** Keep a reply for the operation's TTL (operations with none, and empty replies, aren't kept). */
+    private cacheResponse(
+        operation: GeminiOperation,
+        model: string,
+        prompt: string,
+        generationConfig: GeminiGenerationConfig,
+        text: string | null
+    ): void {
+        const ttl = RESPONSE_CACHE_TTL_MS[operation];
+        if (ttl <= 0 || !text) return;
+        const now = Date.now();
+        dbService.setCachedGeminiResponse({
+            key: responseCacheKey(model, prompt, generationConfig),
+            operation,
+            model,
+            text,
+            createdAt: now,
+            expiresAt: now + ttl,
+        });
+    }
+
+    /** Drop a reply that turned out unusable, so asking again goes to Gemini instead of getting it back. */
+    private async forgetCachedResponse(prompt: string, config: Partial<GeminiGenerationConfig>): Promise<void> {
+        const generationConfig = this.buildGenerationConfig(config);
+        await Promise.all(this.modelsToTry().map(model =>
+            dbService.deleteCachedGeminiResponse(responseCacheKey(model, prompt, generationConfig))
+        ));
+    }
+
+    private buildGenerationConfig(overrides: Partial<GeminiGenerationConfig> = {}): GeminiGenerationConfig {
+        return { ...DEFAULT_JSON_CONFIG, ...overrides };
+    }
+
+    /** Parse a reply's JSON, tolerating code fences, surrounding text and truncation; throws a SyntaxError otherwise. */
     private parseJsonResponse(text: string): any {
         if (!text || typeof text !== 'string') {
-            console.error('[Gemini] Empty or invalid response text');
-            this.emitError(GeminiErrors.parseError('Empty response from Gemini'));
-            return {};
+            throw new SyntaxError('Empty response from Gemini');
         }
 
         // Clean markdown code blocks and whitespace
@@ -226,30 +413,23 @@ class GeminiService {
         // Strip any text AFTER the closing bracket/brace (common Gemini issue)
         cleanedText = this.extractJsonOnly(cleanedText);
 
+        let parsed: any;
         try {
-            const parsed = JSON.parse(cleanedText);
-
-            if (parsed === null || (typeof parsed !== 'object' && !Array.isArray(parsed))) {
-                console.warn('[Gemini] Parsed JSON is not an object/array:', typeof parsed);
-                this.emitError(GeminiErrors.parseError('Response was not a valid JSON object'));
-                return {};
-            }
-
-            return parsed;
+            parsed = JSON.parse(cleanedText);
         } catch (error: any) {
             console.error('[Gemini] JSON parse error:', error.message);
             console.debug('[Gemini] Failed text (first 500 chars):', cleanedText.slice(0, 500));
 
             // Attempt repair for truncated JSON
-            const repaired = this.attemptJsonRepair(cleanedText);
-            if (repaired !== null) {
-                console.log('[Gemini] JSON repair successful');
-                return repaired;
-            }
+            parsed = this.attemptJsonRepair(cleanedText);
+            if (parsed === null) throw error;
+            console.log('[Gemini] JSON repair successful');
+        }
 
-            this.emitError(GeminiErrors.parseError(error.message));
-            throw error;
+        if (parsed === null || typeof parsed !== 'object') {
+            throw new SyntaxError(`Response was ${parsed === null ? 'null' : `a ${typeof parsed}`}, not a JSON object`);
         }
+        return parsed;
     }
 
     /**
@@ -365,6 +545,8 @@ class GeminiService {
         // Silent errors that don't affect UX - skip logging entirely
         if (error instanceof SyntaxError || error.name === 'SyntaxError') return;
         if (errorMessage === 'Concurrent Request Blocked') return;
+        if (errorMessage === 'Daily Token Budget Exceeded') return; // Emitted by assertWithinDailyBudget()
+        if (error instanceof ResponseValidationError) return; // Emitted by requestStructured()
 
         console.error('[Gemini] Error:', { status, message: errorMessage, context });
 
@@ -415,55 +597,56 @@ class GeminiService {
         throw lastError;
     }
 
-    private extractResponseText(response: any): string | null {
-        return response.data?.candidates?.[0]?.content?.parts?.[0]?.text || null;
+    /** A cached reply, in the shape of a fresh one (its tokens were counted when it was first made). */
+    private cachedReply(text: string): GeminiReply {
+        return { text, usage: { promptTokens: 0, candidateTokens: 0, thinkingTokens: 0, totalTokens: 0 }, cached: true };
+    }
+
+    private modelsToTry(preferredModel?: string): string[] {
+        return this.provider.modelsToTry(preferredModel ?? this.activeModel());
+    }
+
+    /** The request as sent to `model` by the active provider. */
+    private buildRequest(model: string, prompt: string, config: GeminiGenerationConfig, includeThoughtSignature: boolean): LLMRequest {
+        const sendSignature = includeThoughtSignature && this.provider.capabilities(model).thoughtSignatures;
+        return { prompt, config, thoughtSignature: sendSignature ? this.lastThoughtSignature : null };
     }
 
-    // Execute request with automatic fallback to other models
+    // Execute request with automatic fallback to other models; returns the reply and the model that gave it
     private async executeWithFallback(
         apiKey: string,
-        requestBody: Record<string, any>,
+        prompt: string,
+        config: GeminiGenerationConfig,
         includeThoughtSignature: boolean,
-        preferredModel?: ModelId
-    ): Promise<any> {
-        const modelsToTry = preferredModel
-            ? [preferredModel, ...MODEL_PRIORITY.filter((m) => m !== preferredModel)]
-            : [this.currentModel, ...MODEL_PRIORITY.filter((m) => m !== this.currentModel)];
+        operation: GeminiOperation,
+        preferredModel?: string
+    ): Promise<{ reply: LLMReply; model: string }> {
+        const modelsToTry = this.modelsToTry(preferredModel);
 
         let lastError: any;
 
-        for (const modelId of modelsToTry) {
-            const model = GEMINI_MODELS[modelId];
+        for (const model of modelsToTry) {
+            const name = this.modelName(model);
             const startTime = Date.now();
 
-            // Clone body to modify for this specific model
-            const currentBody = { ...requestBody };
-
-            // Only send thoughtSignature if model is Gemini 3 Pro (supports reasoning state)
-            // Gemini 2.0/2.5 Pro/Flash do not support this field and will error with 400 INVALID_ARGUMENT
-            if (modelId === 'gemini-3-pro' && includeThoughtSignature && this.lastThoughtSignature) {
-                currentBody.thoughtSignature = this.lastThoughtSignature;
-            }
-
             try {
-                console.log(`[Gemini] Trying ${model.name}...`);
+                console.log(`[Gemini] Trying ${name}...`);
 
-                const response = await axios.post(`${model.url}?key=${apiKey}`, currentBody, {
-                    timeout: 60000,
-                });
+                const reply = await this.provider.generate(model, this.buildRequest(model, prompt, config, includeThoughtSignature), apiKey);
 
                 const duration = Date.now() - startTime;
-                console.log(`[Gemini] ${model.name} responded in ${duration}ms`);
+                console.log(`[Gemini] ${name} responded in ${duration}ms`);
+                this.recordUsage(operation, model, reply.usage, duration);
 
-                if (response.data.thoughtSignature) {
-                    this.lastThoughtSignature = response.data.thoughtSignature;
+                if (reply.thoughtSignature) {
+                    this.lastThoughtSignature = reply.thoughtSignature;
                 }
 
-                return response;
+                return { reply, model };
             } catch (error: any) {
                 lastError = error;
                 const status = error.response?.status;
-                console.warn(`[Gemini] ${model.name} failed (${status}): ${error.message}`);
+                console.warn(`[Gemini] ${name} failed (${status}): ${error.message}`);
 
                 // Don't fallback on auth errors - they'll fail for all models
                 if (status === 401 || status === 403) {
@@ -477,19 +660,147 @@ class GeminiService {
         throw lastError;
     }
 
+    /**
+     * One request to the active provider's model. Replies are cached for the operation's TTL
+     * (RESPONSE_CACHE_TTL_MS); an identical request within it is answered from the cache, even
+     * over the daily token budget. `fresh` skips the lookup (the reply still replaces the cached one).
+     */
     async makeRequest(
         apiKey: string,
         prompt: string,
         config: Partial<GeminiGenerationConfig> = {},
         includeThoughtSignature: boolean = false,
-        activityLabel?: string
-    ): Promise<any> {
+        activityLabel?: string,
+        operation: GeminiOperation = 'request',
+        fresh: boolean = false
+    ): Promise<GeminiReply> {
         const generationConfig = this.buildGenerationConfig(config);
 
-        const requestBody: Record<string, any> = {
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig,
-        };
+        if (this.isGenerating) {
+            this.emitError(GeminiErrors.concurrentBlocked());
+            throw new Error('Concurrent Request Blocked');
+        }
+
+        this.isGenerating = true;
+        if (activityLabel) {
+            useAIActivityStore.getState().setActive(activityLabel);
+        }
+
+        try {
+            if (!fresh && RESPONSE_CACHE_TTL_MS[operation] > 0) {
+                const cached = await this.readCachedResponse(prompt, generationConfig);
+                if (cached !== null) return this.cachedReply(cached);
+            }
+            await this.assertWithinDailyBudget();
+            const { reply, model } = await this.executeWithFallback(apiKey, prompt, generationConfig, includeThoughtSignature, operation);
+            this.cacheResponse(operation, model, prompt, generationConfig, reply.text);
+            return reply;
+        } finally {
+            this.isGenerating = false;
+            useAIActivityStore.getState().setIdle();
+        }
+    }
+
+    /** Throws (after emitting budgetExceeded) once today's calls have used up the daily token budget. */
+    private async assertWithinDailyBudget(): Promise<void> {
+        if (!(await this.isOverDailyBudget())) return;
+        this.emitError(GeminiErrors.budgetExceeded(`${await this.getTokensUsedToday()} tokens used today`));
+        throw new Error('Daily Token Budget Exceeded');
+    }
+
+    /**
+     * makeRequest() for a prompt with a structured reply: sends the validator's schema as
+     * `responseSchema` and returns the reply validated and typed; list items that don't conform
+     * are dropped with a warning (see GeminiResponses). A reply that doesn't parse or conform is
+     * requested once more with the problems spelled out (generateCorrectionPrompt); if that one
+     * fails too, a parse error naming them is emitted and a ResponseValidationError thrown. Rejected replies are dropped from the response cache. Request errors propagate as
+     * from makeRequest().
+     */
+    private async requestStructured<T>(
+        apiKey: string,
+        prompt: string,
+        response: ResponseValidator<T>,
+        config: Partial<GeminiGenerationConfig>,
+        activityLabel: string,
+        operation: GeminiOperation,
+        fresh: boolean = false
+    ): Promise<T> {
+        let errors: string[] = [];
+
+        for (let attempt = 0; attempt < 2; attempt++) {
+            const attemptPrompt = attempt === 0 ? prompt : GeminiPrompts.generateCorrectionPrompt(prompt, errors);
+            const attemptConfig = { ...config, responseSchema: response.schema };
+            const reply = await this.makeRequest(apiKey, attemptPrompt, attemptConfig, true, activityLabel, operation, fresh);
+
+            try {
+                const result = response.validate(this.parseJsonResponse(reply.text || ''));
+                if (result.ok) {
+                    if (result.dropped) console.warn(`[Gemini] Dropped invalid items from ${operation} reply: ${formatValidationErrors(result.dropped)}`);
+                    return result.value;
+                }
+                errors = result.errors;
+            } catch (error: any) {
+                if (!(error instanceof SyntaxError)) throw error;
+                errors = [error.message];
+            }
+            console.warn(`[Gemini] Invalid reply (attempt ${attempt + 1}): ${formatValidationErrors(errors)}`);
+            await this.forgetCachedResponse(attemptPrompt, attemptConfig);
+        }
+
+        const error = new ResponseValidationError(errors);
+        this.emitError(GeminiErrors.parseError(error.message));
+        throw error;
+    }
+
+    /**
+     * Open a streamed reply, falling back to other models like executeWithFallback(). Once a
+     * stream is open there is no fallback: its text is already on its way to the caller.
+     * @returns the stream's chunks, and the model streaming them
+     */
+    private async openStreamWithFallback(
+        apiKey: string,
+        prompt: string,
+        config: GeminiGenerationConfig,
+        includeThoughtSignature: boolean,
+        signal: AbortSignal
+    ): Promise<{ stream: AsyncGenerator<LLMStreamChunk>; model: string }> {
+        let lastError: any;
+
+        for (const model of this.modelsToTry()) {
+            const name = this.modelName(model);
+            try {
+                console.log(`[Gemini] Streaming from ${name}...`);
+                const request = this.buildRequest(model, prompt, config, includeThoughtSignature);
+                return { stream: await this.provider.openStream(model, request, apiKey, signal), model };
+            } catch (error: any) {
+                lastError = error;
+                const status = error.response?.status;
+                console.warn(`[Gemini] ${name} stream failed (${status}): ${error.message}`);
+                if (status === 401 || status === 403 || signal.aborted) throw error;
+            }
+        }
+
+        throw lastError;
+    }
+
+    /**
+     * Streaming counterpart of makeRequest(): yields the response text piece by piece as the
+     * model generates it. Shares the concurrency guard and activity indicator with makeRequest();
+     * both are released when the caller stops iterating or aborts `signal` (which ends the stream
+     * quietly). Shares the response cache too: a cached reply is yielded whole, and a stream read
+     * to the end is cached.
+     */
+    async *makeStreamingRequest(
+        apiKey: string,
+        prompt: string,
+        config: Partial<GeminiGenerationConfig> = {},
+        includeThoughtSignature: boolean = false,
+        activityLabel?: string,
+        signal?: AbortSignal,
+        operation: GeminiOperation = 'request',
+        fresh: boolean = false
+    ): AsyncGenerator<string> {
+        const generationConfig = this.buildGenerationConfig(config);
 
         if (this.isGenerating) {
             this.emitError(GeminiErrors.concurrentBlocked());
@@ -501,9 +812,65 @@ class GeminiService {
             useAIActivityStore.getState().setActive(activityLabel);
         }
 
+        // No overall deadline (the point is to start early); abort when the stream goes quiet
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort);
+        let idleTimer: ReturnType<typeof setTimeout> | undefined;
+        const resetIdleTimer = () => {
+            clearTimeout(idleTimer);
+            idleTimer = setTimeout(() => controller.abort(), STREAM_IDLE_TIMEOUT_MS);
+        };
+
         try {
-            return await this.executeWithFallback(apiKey, requestBody, includeThoughtSignature);
+            if (signal?.aborted) return;
+            if (!fresh && RESPONSE_CACHE_TTL_MS[operation] > 0) {
+                const cached = await this.readCachedResponse(prompt, generationConfig);
+                if (cached !== null) {
+                    yield cached;
+                    return;
+                }
+            }
+            await this.assertWithinDailyBudget();
+            resetIdleTimer();
+            const startTime = Date.now();
+            const { stream, model } = await this.openStreamWithFallback(apiKey, prompt, generationConfig, includeThoughtSignature, controller.signal);
+            let firstChunkLogged = false;
+            let fullText = '';
+            // Chunks carry the counts so far; the last ones seen are what the call cost
+            let usage: TokenCounts | null = null;
+
+            try {
+                resetIdleTimer();
+                for await (const chunk of stream) {
+                    resetIdleTimer();
+                    if (chunk.thoughtSignature) this.lastThoughtSignature = chunk.thoughtSignature;
+                    if (chunk.usage) usage = chunk.usage;
+                    if (!chunk.text) continue;
+                    if (!firstChunkLogged) {
+                        console.log(`[Gemini] First streamed text after ${Date.now() - startTime}ms`);
+                        firstChunkLogged = true;
+                    }
+                    fullText += chunk.text;
+                    yield chunk.text;
+                }
+            } catch (error: any) {
+                if (signal?.aborted) return;
+                if (controller.signal.aborted) {
+                    throw Object.assign(new Error('Stream timed out'), { code: 'ECONNABORTED' });
+                }
+                throw error;
+            } finally {
+                if (usage) this.recordUsage(operation, model, usage, Date.now() - startTime);
+            }
+            console.log(`[Gemini] Stream finished in ${Date.now() - startTime}ms`);
+            this.cacheResponse(operation, model, prompt, generationConfig, fullText);
+        } catch (error: any) {
+            if (signal?.aborted) return;
+            throw error;
         } finally {
+            clearTimeout(idleTimer);
+            signal?.removeEventListener('abort', onAbort);
             this.isGenerating = false;
             useAIActivityStore.getState().setIdle();
         }
@@ -527,7 +894,11 @@ class GeminiService {
 
     async testConnection(): Promise<boolean> {
         const apiKey = await this.getApiKey();
-        if (!apiKey) return false;
+        if (apiKey === null) return false;
+
+        if (this.provider.id !== 'gemini') {
+            return (await this.testProviderSettings(this.llmSettings)).available;
+        }
 
         // Try current model first, then fallback to others
         for (const modelId of [this.currentModel, ...MODEL_PRIORITY.filter(m => m !== this.currentModel)]) {
@@ -553,7 +924,7 @@ class GeminiService {
         triggerCount: number = 0
     ): Promise<RecommendationResponse | null> {
         const apiKey = await this.getApiKey();
-        if (!apiKey) return null;
+        if (apiKey === null) return null;
 
         const prompt = GeminiPrompts.generateDJRecommendation(
             recentHistory,
@@ -566,22 +937,16 @@ class GeminiService {
 
         try {
             console.time('[Perf] Gemini Generation');
-            const response = await this.makeRequest(apiKey, prompt, { maxOutputTokens: TOKEN_LIMITS.SMALL, thinkingLevel: 'low' }, true, 'DJ is picking tracks...');
+            const parsed = await this.requestStructured(apiKey, prompt, GeminiResponses.djRecommendation, { maxOutputTokens: TOKEN_LIMITS.SMALL, thinkingLevel: 'low' }, 'DJ is picking tracks...', 'generateDJRecommendation');
             console.timeEnd('[Perf] Gemini Generation');
-            const text = this.extractResponseText(response);
-            if (!text) return null;
-
-            const parsed = this.parseJsonResponse(text);
 
-            if (parsed.reasoning) {
-                await dbService.logReasoning(
-                    { skipRate, lastTrack: recentHistory[0]?.track_name },
-                    parsed.reasoning,
-                    parsed.items ? `Suggested ${parsed.items.length} items` : 'No items'
-                );
-            }
+            await dbService.logReasoning(
+                { skipRate, lastTrack: recentHistory[0]?.track_name },
+                parsed.reasoning,
+                `Suggested ${parsed.items.length} items`
+            );
 
-            return { mood_analysis: parsed.reasoning, items: parsed.items || [] };
+            return { mood_analysis: parsed.reasoning, items: parsed.items };
         } catch (error: any) {
             if (error.response?.status === 400) {
                 this.clearConversationState();
@@ -593,17 +958,21 @@ class GeminiService {
     async getVibeOptions(
         recentHistory: any[],
         tasteProfile: {
-            clusterReps: { name: string; artist: string; playCount?: number }[];
+            clusterReps: { name: string; artist: string; playCount?: number; cluster?: number }[];
             topGenres?: { name: string; songCount: number }[];
+            topPlaylists?: { name: string; songCount: number }[];
+            topEras?: { name: string; songCount: number }[];
             recentVibes?: string[];
             audioProfile?: { energy: number; valence: number; danceability: number } | null;
+            nowContext?: { label: string; vibes: string[] };
         },
         favorites: string[],
         userInstruction: string,
-        excludeTracks: string[] = []
-    ): Promise<any[]> {
+        excludeTracks: string[] = [],
+        fresh: boolean = false
+    ): Promise<VibeOption[]> {
         const apiKey = await this.getApiKey();
-        if (!apiKey) return [];
+        if (apiKey === null) return [];
 
         const prompt = GeminiPrompts.generateVibeOptionsPrompt(
             recentHistory,
@@ -614,39 +983,107 @@ class GeminiService {
         );
 
         try {
-            const response = await this.makeRequest(apiKey, prompt, { maxOutputTokens: TOKEN_LIMITS.LARGE, thinkingLevel: 'low' }, true, 'Generating vibe options...');
-            const text = this.extractResponseText(response);
-            if (!text) return [];
-
-            const parsed = this.parseJsonResponse(text);
-            return parsed.options || [];
+            return await this.requestStructured(apiKey, prompt, GeminiResponses.vibeOptions, { maxOutputTokens: TOKEN_LIMITS.LARGE, thinkingLevel: 'low' }, 'Generating vibe options...', 'getVibeOptions', fresh);
         } catch (error: any) {
             this.handleGeminiError(error, 'getVibeOptions');
             return [];
         }
     }
 
+    /**
+     * getVibeOptions(), streamed: yields each option as soon as Gemini has finished writing it
+     * and it has passed validation (invalid ones are dropped). Falls back to the blocking request
+     * when streaming fails before the first option, and to validating the whole text when no
+     * option could be picked out of the stream; a reply that fails that too gets the blocking
+     * request's corrective retry. Aborting `signal` ends the stream early; `fresh` skips the
+     * response cache.
+     */
+    async *streamVibeOptions(
+        recentHistory: any[],
+        tasteProfile: Parameters<GeminiService['getVibeOptions']>[1],
+        favorites: string[],
+        userInstruction: string,
+        excludeTracks: string[] = [],
+        signal?: AbortSignal,
+        fresh: boolean = false
+    ): AsyncGenerator<VibeOption> {
+        const apiKey = await this.getApiKey();
+        if (apiKey === null) return;
+
+        const prompt = GeminiPrompts.generateVibeOptionsPrompt(
+            recentHistory,
+            tasteProfile,
+            favorites,
+            userInstruction,
+            excludeTracks
+        );
+
+        const config: Partial<GeminiGenerationConfig> = { maxOutputTokens: TOKEN_LIMITS.LARGE, thinkingLevel: 'low' };
+        const parser = new JsonArrayStreamParser('options');
+        let received = 0;
+        let emitted = 0;
+        const streamConfig = { ...config, responseSchema: GeminiResponses.vibeOptions.schema };
+        try {
+            const stream = this.makeStreamingRequest(apiKey, prompt, streamConfig, true, 'Generating vibe options...', signal, 'streamVibeOptions', fresh);
+            for await (const text of stream) {
+                for (const raw of parser.push(text)) {
+                    const result = GeminiResponses.vibeOption.validate(raw, `options[${received++}]`);
+                    if (!result.ok) {
+                        console.warn(`[Gemini] Dropping streamed vibe option: ${formatValidationErrors(result.errors)}`);
+                        continue;
+                    }
+                    emitted++;
+                    yield result.value;
+                }
+            }
+        } catch (error: any) {
+            const status = error.response?.status;
+            if (emitted > 0 || status === 401 || status === 403 || status === 429
+                || error.message === 'Concurrent Request Blocked' || error.message === 'Daily Token Budget Exceeded') {
+                this.handleGeminiError(error, 'streamVibeOptions');
+                return;
+            }
+            console.warn(`[Gemini] Streaming vibe options failed (${error.message}), retrying without streaming`);
+            yield* await this.getVibeOptions(recentHistory, tasteProfile, favorites, userInstruction, excludeTracks, fresh);
+            return;
+        }
+
+        if (emitted > 0 || signal?.aborted) return;
+
+        let errors: string[];
+        try {
+            const result = GeminiResponses.vibeOptions.validate(this.parseJsonResponse(parser.text));
+            if (result.ok) {
+                yield* result.value;
+                return;
+            }
+            errors = result.errors;
+        } catch (error: any) {
+            errors = [error.message];
+        }
+
+        console.warn(`[Gemini] Invalid streamed vibe options (${formatValidationErrors(errors)}), retrying without streaming`);
+        await this.forgetCachedResponse(prompt, streamConfig);
+        try {
+            yield* await this.requestStructured(apiKey, GeminiPrompts.generateCorrectionPrompt(prompt, errors), GeminiResponses.vibeOptions, config, 'Generating vibe options...', 'streamVibeOptions', fresh);
+        } catch (error: any) {
+            this.handleGeminiError(error, 'streamVibeOptions');
+        }
+    }
+
     async generateRescueVibe(
         recentSkips: any[],
         favorites: string[],
         excludeTracks: string[] = []
-    ): Promise<{ items: any[]; reasoning: string; vibe: string } | null> {
+    ): Promise<{ items: SuggestedTrack[]; reasoning: string; vibe: string } | null> {
         const apiKey = await this.getApiKey();
-        if (!apiKey) return null;
+        if (apiKey === null) return null;
 
         const prompt = GeminiPrompts.generateRescueVibePrompt(recentSkips, favorites, excludeTracks);
 
         try {
-            const response = await this.makeRequest(apiKey, prompt, { maxOutputTokens: TOKEN_LIMITS.STANDARD, thinkingLevel: 'medium' }, true, 'Finding a new vibe...');
-            const text = this.extractResponseText(response);
-            if (!text) return null;
-
-            const parsed = this.parseJsonResponse(text);
-            return {
-                items: parsed.items || [],
-                reasoning: parsed.why || parsed.reasoning || 'Switching it up!',
-                vibe: parsed.vibe || parsed.new_vibe_name || 'New Vibe',
-            };
+            const parsed = await this.requestStructured(apiKey, prompt, GeminiResponses.rescueVibe, { maxOutputTokens: TOKEN_LIMITS.STANDARD, thinkingLevel: 'medium' }, 'Finding a new vibe...', 'generateRescueVibe');
+            return { items: parsed.items, reasoning: parsed.why, vibe: parsed.vibe };
         } catch (error: any) {
             this.handleGeminiError(error, 'generateRescueVibe');
             return null;
@@ -660,9 +1097,9 @@ class GeminiService {
         favorites: string[],
         excludeTracks: string[] = [],
         topGenres: string[] = []
-    ): Promise<{ items: any[]; mood?: string }> {
+    ): Promise<{ items: SuggestedTrack[]; mood?: string }> {
         const apiKey = await this.getApiKey();
-        if (!apiKey) return { items: [] };
+        if (apiKey === null) return { items: [] };
 
         const prompt = GeminiPrompts.generateVibeExpansionPrompt(
             seedTrack,
@@ -674,20 +1111,15 @@ class GeminiService {
         );
 
         try {
-            const response = await this.makeRequest(apiKey, prompt, { maxOutputTokens: TOKEN_LIMITS.MEDIUM, thinkingLevel: 'low' }, true, 'Expanding your vibe...');
-            const text = this.extractResponseText(response);
-            if (!text) return { items: [] };
-
-            const parsed = this.parseJsonResponse(text);
-            const items = parsed.items || [];
+            const { items, mood } = await this.requestStructured(apiKey, prompt, GeminiResponses.vibeExpansion, { maxOutputTokens: TOKEN_LIMITS.MEDIUM, thinkingLevel: 'low' }, 'Expanding your vibe...', 'expandVibe');
 
             // Log what Gemini returned
             console.log(`[Gemini] expandVibe returned ${items.length} tracks:`);
-            items.forEach((item: any, i: number) => {
-                console.log(`  ${i + 1}. "${item.title || item.t}" - ${item.artist || item.a}`);
+            items.forEach((item, i) => {
+                console.log(`  ${i + 1}. "${item.title}" - ${item.artist}`);
             });
 
-            return { items, mood: parsed.mood || parsed.mood_description };
+            return { items, mood };
         } catch (error: any) {
             this.handleGeminiError(error, 'expandVibe');
             return { items: [] };
@@ -698,29 +1130,14 @@ class GeminiService {
         currentTrack: { title: string; artist: string } | null,
         recentHistory: any[],
         userContext?: string
-    ): Promise<{
-        mood: string;
-        mood_description: string;
-        energy_level: string;
-        recommended_direction: string;
-    } | null> {
+    ): Promise<MoodAssessment | null> {
         const apiKey = await this.getApiKey();
-        if (!apiKey) return null;
+        if (apiKey === null) return null;
 
         const prompt = GeminiPrompts.generateMoodAssessmentPrompt(currentTrack, recentHistory, userContext);
 
         try {
-            const response = await this.makeRequest(apiKey, prompt, { maxOutputTokens: TOKEN_LIMITS.SMALL, thinkingLevel: 'minimal' }, true, 'Reading the vibe...');
-            const text = this.extractResponseText(response);
-            if (!text) return null;
-
-            const parsed = this.parseJsonResponse(text);
-            return {
-                mood: parsed.mood || 'neutral',
-                mood_description: parsed.mood_description || 'Analyzing your vibe...',
-                energy_level: parsed.energy_level || 'medium',
-                recommended_direction: parsed.recommended_direction || 'keep_current',
-            };
+            return await this.requestStructured(apiKey, prompt, GeminiResponses.moodAssessment, { maxOutputTokens: TOKEN_LIMITS.SMALL, thinkingLevel: 'minimal' }, 'Reading the vibe...', 'assessCurrentMood');
         } catch (error: any) {
             this.handleGeminiError(error, 'assessCurrentMood');
             return null;
@@ -732,17 +1149,16 @@ class GeminiService {
         config: Partial<GeminiGenerationConfig> = {}
     ): Promise<{ text: string | null; error?: string }> {
         const apiKey = await this.getApiKey();
-        if (!apiKey) return { text: null, error: 'No API key configured' };
+        if (apiKey === null) return { text: null, error: 'No API key configured' };
 
         try {
-            const response = await this.withRetry(
-                () => this.makeRequest(apiKey, prompt, { maxOutputTokens: TOKEN_LIMITS.STANDARD, ...config }, true),
+            const reply = await this.withRetry(
+                () => this.makeRequest(apiKey, prompt, { maxOutputTokens: TOKEN_LIMITS.STANDARD, ...config }, true, undefined, 'backfill'),
                 2,
                 'backfill'
             );
 
-            const text = this.extractResponseText(response);
-            return { text };
+            return { text: reply.text };
         } catch (error: any) {
             this.handleGeminiError(error, 'backfillRequest');
             return { text: null, error: error.message };
@@ -73,3 +73,6 @@ export const DEFAULT_JSON_CONFIG = {
     temperature: 0.7,
     topP: 0.9,
 } as const;
+
+// Streaming requests are aborted after this long without a chunk (there is no overall deadline)
+export const STREAM_IDLE_TIMEOUT_MS = 20000;
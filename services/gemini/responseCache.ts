@@ -0,0 +1,58 @@
+/**
+ * Gemini response cache keys and lifetimes.
+ *
+ * GeminiService keeps each reply's text in SQLite under (model, prompt hash, generation config
+ * hash), so asking the same thing twice within an operation's TTL — refreshing vibes with an
+ * unchanged history and taste profile, expanding the same vibe again — is answered without a
+ * Gemini call.
+ */
+import type { GeminiOperation } from './usage';
+
+const MINUTE_MS = 60 * 1000;
+
+/** How long a reply stays reusable, per operation; 0 = never cached. */
+export const RESPONSE_CACHE_TTL_MS: Record<GeminiOperation, number> = {
+    // Reacts to the skip rate and last track, which move every few songs
+    generateDJRecommendation: 5 * MINUTE_MS,
+    getVibeOptions: 30 * MINUTE_MS,
+    streamVibeOptions: 30 * MINUTE_MS,
+    generateRescueVibe: 10 * MINUTE_MS,
+    expandVibe: 30 * MINUTE_MS,
+    assessCurrentMood: 10 * MINUTE_MS,
+    // Backfill replaces suggestions Spotify just rejected; a cached reply would bring them back
+    backfill: 0,
+    // Direct makeRequest() calls (connection tests, tests) always go to Gemini
+    request: 0,
+};
+
+/** 53-bit string hash (cyrb53), as 14 hex digits. Not cryptographic; only has to spread prompts apart. */
+export function hashString(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/** JSON with object keys sorted, so equal configs serialize alike whatever order they were built in. */
+export function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value)
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/** Cache key of a request: `model:promptHash:configHash`. */
+export function responseCacheKey(model: string, prompt: string, generationConfig: Record<string, any>): string {
+    return `${model}:${hashString(prompt)}:${hashString(stableStringify(generationConfig))}`;
+}
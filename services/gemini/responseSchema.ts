@@ -0,0 +1,127 @@
+/**
+ * Structured output for Gemini prompts.
+ *
+ * Every prompt in GeminiPrompts has a schema in GeminiSchemas. It is sent as the request's
+ * `responseSchema` so the model is constrained to that shape, and the parsed reply is checked
+ * against the same schema afterwards (a truncated or empty reply still gets through the
+ * constraint). The typed validators built on this live in GeminiResponses.
+ */
+
+export type SchemaType = 'OBJECT' | 'ARRAY' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN';
+
+/** The OpenAPI subset Gemini accepts as `generationConfig.responseSchema`. */
+export interface ResponseSchema {
+    type: SchemaType;
+    description?: string;
+    properties?: Record<string, ResponseSchema>;
+    required?: string[];
+    propertyOrdering?: string[];
+    items?: ResponseSchema;
+    enum?: string[];
+    nullable?: boolean;
+}
+
+export const Schema = {
+    string: (values?: readonly string[]): ResponseSchema =>
+        values ? { type: 'STRING', enum: [...values] } : { type: 'STRING' },
+
+    array: (items: ResponseSchema): ResponseSchema => ({ type: 'ARRAY', items }),
+
+    /** An object whose properties are all required, generated in the order given. */
+    object: (properties: Record<string, ResponseSchema>): ResponseSchema => ({
+        type: 'OBJECT',
+        properties,
+        required: Object.keys(properties),
+        propertyOrdering: Object.keys(properties),
+    }),
+};
+
+/** `dropped`: problems of list items left out of `value` (see GeminiResponses' listValidator()). */
+export type ValidationResult<T> = { ok: true; value: T; dropped?: string[] } | { ok: false; errors: string[] };
+
+export interface ResponseValidator<T> {
+    schema: ResponseSchema;
+    /** `path` prefixes error locations, for values validated on their own (e.g. `options[2]`). */
+    validate: (value: unknown, path?: string) => ValidationResult<T>;
+}
+
+/** A reply that still didn't conform after the corrective retry. */
+export class ResponseValidationError extends Error {
+    constructor(readonly errors: string[]) {
+        super(formatValidationErrors(errors));
+        this.name = 'ResponseValidationError';
+    }
+}
+
+/** The first `max` errors on one line, with a count of the rest. */
+export function formatValidationErrors(errors: string[], max: number = 5): string {
+    const shown = errors.slice(0, max).join('; ');
+    return errors.length > max ? `${shown}; ...and ${errors.length - max} more` : shown;
+}
+
+function childPath(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+}
+
+function describeType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/**
+ * Every way `value` breaks `schema`, as `path: problem` strings (empty when it conforms).
+ * Required strings must also be non-blank; properties the schema doesn't mention are ignored.
+ */
+export function validateAgainstSchema(value: unknown, schema: ResponseSchema, path: string = ''): string[] {
+    const where = path || '(root)';
+
+    if (value === null || value === undefined) {
+        return schema.nullable ? [] : [`${where}: expected ${schema.type.toLowerCase()}, got ${describeType(value)}`];
+    }
+
+    switch (schema.type) {
+        case 'STRING':
+            if (typeof value !== 'string') return [`${where}: expected string, got ${describeType(value)}`];
+            if (schema.enum && !schema.enum.includes(value)) {
+                return [`${where}: expected one of ${schema.enum.join('|')}, got "${value}"`];
+            }
+            return [];
+
+        case 'NUMBER':
+        case 'INTEGER':
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                return [`${where}: expected number, got ${describeType(value)}`];
+            }
+            if (schema.type === 'INTEGER' && !Number.isInteger(value)) return [`${where}: expected integer, got ${value}`];
+            return [];
+
+        case 'BOOLEAN':
+            return typeof value === 'boolean' ? [] : [`${where}: expected boolean, got ${describeType(value)}`];
+
+        case 'ARRAY':
+            if (!Array.isArray(value)) return [`${where}: expected array, got ${describeType(value)}`];
+            return schema.items
+                ? value.flatMap((item, i) => validateAgainstSchema(item, schema.items!, childPath(path, i)))
+                : [];
+
+        case 'OBJECT': {
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                return [`${where}: expected object, got ${describeType(value)}`];
+            }
+            const record = value as Record<string, unknown>;
+            const errors: string[] = [];
+            for (const key of schema.required || []) {
+                const property = record[key];
+                if (property === undefined) errors.push(`${childPath(path, key)}: missing`);
+                else if (typeof property === 'string' && !property.trim()) errors.push(`${childPath(path, key)}: empty`);
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+                if (record[key] === undefined) continue;
+                errors.push(...validateAgainstSchema(record[key], propertySchema, childPath(path, key)));
+            }
+            return errors;
+        }
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * Incremental parsing for Gemini's `:streamGenerateContent?alt=sse` responses.
+ *
+ * The endpoint sends Server-Sent Events, each carrying a partial GenerateContentResponse whose
+ * text continues the model's JSON output. `splitSseEvents` turns raw network chunks into event
+ * payloads; `JsonArrayStreamParser` pulls complete elements out of a JSON array as its text
+ * arrives, so callers can act on the first vibe option long before the last one is generated.
+ */
+
+/**
+ * Split buffered SSE text into complete events.
+ * @returns the `data:` payload of every complete event, and the incomplete tail to prepend to the next chunk
+ */
+export function splitSseEvents(buffer: string): { events: string[]; rest: string } {
+    const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+    const rest = blocks.pop() ?? '';
+    const events = blocks
+        .map(block => block
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).replace(/^ /, ''))
+            .join('\n'))
+        .filter(data => data.length > 0);
+    return { events, rest };
+}
+
+/**
+ * Emits each object (or nested array) element of a JSON array as soon as it is complete, from
+ * text fed in arbitrary pieces; scalar elements are skipped.
+ * With `arrayKey` the array is the value of that property (`{"options":[...]}`); without it, the
+ * first array in the text. Elements that fail to parse are dropped; everything fed in is kept in
+ * `text` so the caller can fall back to parsing the whole response.
+ */
+export class JsonArrayStreamParser {
+    private buffer = '';
+    private pos = 0;
+    /** Nesting depth relative to the target array (1 = directly inside it); 0 = not inside yet. */
+    private depth = 0;
+    private inString = false;
+    private escaped = false;
+    private elementStart = -1;
+    private done = false;
+    /** Last string literal seen before the array starts (to match `arrayKey`). */
+    private lastString = '';
+    private stringStart = -1;
+
+    constructor(private readonly arrayKey?: string) { }
+
+    /** Everything fed in so far. */
+    get text(): string {
+        return this.buffer;
+    }
+
+    /** Feed the next piece of text; returns the elements completed by it, in order. */
+    push(chunk: string): any[] {
+        this.buffer += chunk;
+        const elements: any[] = [];
+
+        for (; this.pos < this.buffer.length && !this.done; this.pos++) {
+            const char = this.buffer[this.pos];
+
+            if (this.inString) {
+                if (this.escaped) this.escaped = false;
+                else if (char === '\\') this.escaped = true;
+                else if (char === '"') {
+                    this.inString = false;
+                    if (this.depth === 0) this.lastString = this.buffer.slice(this.stringStart + 1, this.pos);
+                }
+                continue;
+            }
+
+            if (char === '"') {
+                this.inString = true;
+                this.stringStart = this.pos;
+                continue;
+            }
+
+            if (this.depth === 0) {
+                if (char === '[' && (this.arrayKey === undefined || this.lastString === this.arrayKey)) this.depth = 1;
+                continue;
+            }
+
+            if (char === '{' || char === '[') {
+                if (this.depth === 1) this.elementStart = this.pos;
+                this.depth++;
+            } else if (char === '}' || char === ']') {
+                this.depth--;
+                if (this.depth === 0) {
+                    this.done = true; // End of the array
+                } else if (this.depth === 1) {
+                    this.emit(this.buffer.slice(this.elementStart, this.pos + 1), elements);
+                }
+            }
+        }
+        return elements;
+    }
+
+    private emit(json: string, into: any[]): void {
+        this.elementStart = -1;
+        try {
+            into.push(JSON.parse(json));
+        } catch {
+            // Malformed element; the rest of the array may still be fine
+        }
+    }
+}
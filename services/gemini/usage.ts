@@ -0,0 +1,99 @@
+/**
+ * Gemini token accounting.
+ *
+ * GeminiService records every call's token counts (from the response's `usageMetadata`), model
+ * and latency; these helpers turn the raw records into the per-day and per-operation totals shown
+ * in Settings, and decide when the daily token budget is used up.
+ */
+import type { GeminiUsageRecord } from '@/services/database';
+
+/** The GeminiService entry point a call was made for (`request` when called directly). */
+export type GeminiOperation =
+    | 'generateDJRecommendation'
+    | 'getVibeOptions'
+    | 'streamVibeOptions'
+    | 'generateRescueVibe'
+    | 'expandVibe'
+    | 'assessCurrentMood'
+    | 'backfill'
+    | 'request';
+
+/** Preference key for the daily token budget; 0 or unset = no budget. */
+export const DAILY_TOKEN_BUDGET_PREF_KEY = 'gemini_daily_token_budget';
+
+export type TokenCounts = Pick<GeminiUsageRecord, 'promptTokens' | 'candidateTokens' | 'thinkingTokens' | 'totalTokens'>;
+
+export interface UsageTotals extends TokenCounts {
+    /** Day (`YYYY-MM-DD`) or operation name. */
+    key: string;
+    calls: number;
+    avgLatencyMs: number;
+}
+
+/** Token counts of one response's `usageMetadata`; missing counts are 0. */
+export function tokensFromUsageMetadata(metadata: any): TokenCounts {
+    const count = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+    const promptTokens = count(metadata?.promptTokenCount);
+    const candidateTokens = count(metadata?.candidatesTokenCount);
+    const thinkingTokens = count(metadata?.thoughtsTokenCount);
+    return {
+        promptTokens,
+        candidateTokens,
+        thinkingTokens,
+        totalTokens: count(metadata?.totalTokenCount) || promptTokens + candidateTokens + thinkingTokens,
+    };
+}
+
+/** Parse a stored budget preference; anything that isn't a positive number means no budget (0). */
+export function normalizeTokenBudget(value: unknown): number {
+    const n = typeof value === 'string' ? Number(value) : value;
+    if (typeof n !== 'number' || !Number.isFinite(n) || n <= 0) return 0;
+    return Math.round(n);
+}
+
+export function isOverBudget(tokensUsed: number, budget: number): boolean {
+    return budget > 0 && tokensUsed >= budget;
+}
+
+/** Local calendar day of `timestamp`, as `YYYY-MM-DD`. */
+export function localDayKey(timestamp: number): string {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/** Local midnight starting the day `daysAgo` days before `now`'s. */
+export function startOfLocalDay(now: number, daysAgo: number = 0): number {
+    const d = new Date(now);
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate() - daysAgo).getTime();
+}
+
+function aggregateUsage(records: GeminiUsageRecord[], keyOf: (record: GeminiUsageRecord) => string): UsageTotals[] {
+    const groups = new Map<string, UsageTotals & { latencySum: number }>();
+    for (const record of records) {
+        const key = keyOf(record);
+        const group = groups.get(key) ?? {
+            key, calls: 0, promptTokens: 0, candidateTokens: 0, thinkingTokens: 0, totalTokens: 0, avgLatencyMs: 0, latencySum: 0,
+        };
+        group.calls++;
+        group.promptTokens += record.promptTokens;
+        group.candidateTokens += record.candidateTokens;
+        group.thinkingTokens += record.thinkingTokens;
+        group.totalTokens += record.totalTokens;
+        group.latencySum += record.latencyMs;
+        groups.set(key, group);
+    }
+    return Array.from(groups.values(), ({ latencySum, ...totals }) => ({
+        ...totals,
+        avgLatencyMs: Math.round(latencySum / totals.calls),
+    }));
+}
+
+/** Totals per local day, newest first. */
+export function usageByDay(records: GeminiUsageRecord[]): UsageTotals[] {
+    return aggregateUsage(records, r => localDayKey(r.timestamp)).sort((a, b) => b.key.localeCompare(a.key));
+}
+
+/** Totals per operation, most tokens first. */
+export function usageByOperation(records: GeminiUsageRecord[]): UsageTotals[] {
+    return aggregateUsage(records, r => r.operation).sort((a, b) => b.totalTokens - a.totalTokens);
+}
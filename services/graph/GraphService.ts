@@ -1,18 +1,75 @@
-import { dbService } from '@/services/database';
+import { IngestionPhase, dbService } from '@/services/database';
+import {
+    GraphExportEdge,
+    GraphExportFormat,
+    GraphExportNode,
+    parseGraphExport,
+    serializeGraphExport,
+    toGraphExport,
+} from './graphSerialization';
+import {
+    DECAYING_EDGE_TYPES,
+    EDGE_HALF_LIFE_PREF_KEY,
+    decayEdgeWeight,
+    normalizeHalfLifeDays,
+} from './edgeDecay';
+import { VIBE_SKIP_EXCLUDE_WEIGHT, isDisliked, penalizeWeight } from './skipPenalty';
+import { detectCommunities } from './communityDetection';
+import {
+    AUDIO_VECTOR_FEATURES,
+    AudioVectorItem,
+    SIMILAR_K,
+    buildKnnEdges,
+    nearestNeighbors,
+    normalizeAudioFeature,
+    similarityWeight,
+    toAudioVector,
+} from './audioSimilarity';
+import { WALK_EDGE_TYPE_WEIGHTS, WALK_SEED_WEIGHTS, personalizedPageRank } from './randomWalk';
+import {
+    PathExplanation,
+    PathStep,
+    UNEXPLAINING_NODE_TYPES,
+    buildExplanationAdjacency,
+    describePath,
+    shortestWeightedPaths,
+} from './pathExplanation';
+import { splitIntoSessions } from './listeningSessions';
+import { ListeningContext, contextNodeNames, describeContext, listeningContextOf } from './listeningContext';
+import { parentGenreOf } from './genreTaxonomy';
+import { findDuplicateGroups } from './songDuplicates';
+import { VibeCandidate, clusterVibes, findClosestVibe } from './vibeCanonicalization';
+import { TasteSnapshot, isSnapshotDue } from './tasteEvolution';
+import {
+    BridgeSong,
+    betweennessCentralityAsync,
+    buildAnalyticsAdjacency,
+    degreeDistribution,
+    degrees,
+    eigenvectorCentrality,
+    findBridgeSongs,
+} from './graphAnalytics';
+import { GraphIntegrityReport, checkGraphIntegrity, countIntegrityIssues, parseNodeData } from './graphIntegrity';
+import type { RecentlyPlayedItem } from '@/services/spotify/SpotifyRemoteService';
 // Note: spotifyRemote is imported lazily in ingestLikedSongs() to avoid require cycle
 
-export type NodeType = 'SONG' | 'ARTIST' | 'GENRE' | 'VIBE' | 'AUDIO_FEATURE';
-export type EdgeType = 'SIMILAR' | 'SAME_ARTIST' | 'IN_GENRE' | 'HAS_VIBE' | 'NEXT' | 'RELATED' | 'HAS_GENRE' | 'HAS_FEATURE';
+export type NodeType = 'SONG' | 'ARTIST' | 'GENRE' | 'VIBE' | 'AUDIO_FEATURE' | 'PLAYLIST' | 'ALBUM' | 'ERA' | 'CONTEXT';
+export type EdgeType = 'SIMILAR' | 'SAME_ARTIST' | 'IN_GENRE' | 'HAS_VIBE' | 'NEXT' | 'RELATED' | 'HAS_GENRE' | 'HAS_FEATURE' | 'SKIPPED_IN' | 'IN_PLAYLIST' | 'IN_ALBUM' | 'FROM_ERA' | 'SUBGENRE_OF' | 'IN_CONTEXT';
 
 export interface GraphNode {
     id: number;
     type: NodeType;
     name: string;
     spotify_id: string | null;
-    data: string | null; // JSON string
+    /** JSON string on SQLite rows; an object on in-memory nodes and nodes returned by getEffectiveNode(). */
+    data: Record<string, any> | string | null;
     created_at?: string;
     play_count?: number;
     last_played_at?: number;
+    /** Early skips of this song (negative learning); see skipPenalty.ts. */
+    dislike_score?: number;
+    /** Taste cluster (community) id; 0 is the largest cluster. See detectTasteClusters(). */
+    cluster_id?: number | null;
     x?: number;
     y?: number;
 }
@@ -22,6 +79,99 @@ export interface GraphEdge {
     target: number;
     type: EdgeType;
     weight: number;
+    /** Last time the edge was created or reinforced (ms). Drives temporal decay. */
+    updated_at?: number;
+}
+
+/** Fields of a SONG node's `data` that GraphService reads back (ingestion stores a few more). */
+export interface SongNodeData {
+    artist?: string;
+    isrc?: string;
+    /** When the song was liked on Spotify (ms). */
+    liked_at?: number;
+    /** Set when the like was removed (null once liked again); the node stays for its listening history. */
+    unliked_at?: number | null;
+    /** spotify_ids of duplicates merged into this song (see mergeSongs()). */
+    merged_spotify_ids?: string[];
+}
+
+/** One node for upsertNodesBatch(); same dedup rules as getEffectiveNode(). */
+export interface NodeUpsert {
+    type: NodeType;
+    name: string;
+    spotifyId?: string | null;
+    data?: Record<string, any>;
+}
+
+/** One edge for connectEdgesBatch(); same upsert rules as connectNodes(). */
+export interface EdgeUpsert {
+    source: number;
+    target: number;
+    type: EdgeType;
+    weight?: number;
+}
+
+/**
+ * What connectEdgesBatch() does to an edge that already exists:
+ * - reinforce: +0.5 on the decayed weight, like connectNodes() (listening signals)
+ * - set: replace the weight (derived edges like SIMILAR, which are recomputed rather than accumulated)
+ * - max: keep the heavier weight (structural edges: writing them again, e.g. on a resumed ingestion, is a no-op)
+ */
+export type EdgeConflict = 'reinforce' | 'set' | 'max';
+
+type GraphDatabase = NonNullable<typeof dbService.database>;
+
+/** A liked track as read from `/me/tracks` (addedAt in ms). */
+interface LikedSongRef {
+    trackId: string;
+    trackName: string;
+    primaryArtistId: string;
+    primaryArtistName: string;
+    addedAt: number;
+    albumId?: string;
+    albumName?: string;
+    releaseYear?: number;
+    isrc?: string;
+}
+
+/** Likely duplicates of one song; `songs[0]` is the suggested node to keep. See findDuplicateSongs(). */
+export interface SongDuplicateGroup {
+    songs: GraphNode[];
+    reason: 'isrc' | 'title';
+}
+
+/** Structural stats of the graph; see getGraphAnalytics(). */
+export interface GraphAnalytics {
+    /** Node id → number of distinct neighbors. */
+    degrees: Map<number, number>;
+    degreeDistribution: { degree: number; count: number }[];
+    /** Node id → betweenness centrality (0–1). */
+    betweenness: Map<number, number>;
+    /** Node id → eigenvector centrality over decayed weights (most central node = 1). */
+    eigenvector: Map<number, number>;
+    /** Songs connecting otherwise separate taste clusters, best bridge first. */
+    bridges: BridgeSong[];
+}
+
+/** A user playlist offered for ingestPlaylists(); see getPlaylistChoices(). */
+export interface PlaylistChoice {
+    id: string;
+    name: string;
+    owner: string;
+    trackCount: number;
+    snapshotId: string | null;
+    /** Already has a PLAYLIST node in the graph. */
+    ingested: boolean;
+}
+
+/** Where a random-walk recommendation restarts from; see getRandomWalkSuggestions(). */
+export interface RandomWalkSeeds {
+    /** Node of the song playing now. */
+    currentNodeId?: number | null;
+    /** Active vibe; its VIBE node is seeded and songs skipped in it are left out. */
+    vibeName?: string | null;
+    /** Spotify URIs (or bare track ids) heard this session, oldest first. */
+    recentUris?: string[];
 }
 
 export class GraphService {
@@ -29,7 +179,7 @@ export class GraphService {
 
     // In-memory fallback for Web/No-SQL environments
     private memoryNodes: Map<number, GraphNode> = new Map();
-    private memoryEdges: { source: number, target: number, type: EdgeType, weight: number }[] = [];
+    private memoryEdges: { source: number, target: number, type: EdgeType, weight: number, updated_at?: number }[] = [];
     /** O(1) edge dedup key → index in memoryEdges. Key = "sourceId|targetId|type" */
     private memoryEdgeIndex: Map<string, number> = new Map();
     private nextNodeId: number = 1;
@@ -38,6 +188,15 @@ export class GraphService {
     /** O(1) lookup by type+name for nodes without spotify_id (GENRE, VIBE, etc.). */
     private memoryNodesByTypeName: Map<string, GraphNode> = new Map();
 
+    /** Cached half-life (days) for edge decay; loaded lazily from preferences. */
+    private edgeHalfLifeDays: number | null = null;
+    /** The structure taste clusters were last detected for (see clusterKey()); null until the first run. */
+    private clustersKey: string | null = null;
+    /** Same for vibe canonicalization (see canonicalizeVibes()). */
+    private vibesStale: boolean = true;
+    /** Vibe name or alias → the vibe's name, for lookupVibeName() and resolveVibeName(). Dropped by invalidateCache(). */
+    private vibeNameCache: Map<string, string> | null = null;
+
     private static typeNameKey(type: NodeType, name: string): string {
         return `${type}\0${name}`;
     }
@@ -59,6 +218,13 @@ export class GraphService {
             if (node.spotify_id) this.memoryNodesBySpotifyId.set(node.spotify_id, node);
             else this.memoryNodesByTypeName.set(GraphService.typeNameKey(node.type, node.name), node);
         }
+        // spotify_ids of songs merged away resolve to the song they were merged into
+        for (const node of this.memoryNodes.values()) {
+            const data: SongNodeData = parseNodeData(node.data) ?? {};
+            for (const id of data.merged_spotify_ids ?? []) {
+                if (!this.memoryNodesBySpotifyId.has(id)) this.memoryNodesBySpotifyId.set(id, node);
+            }
+        }
     }
 
     private readonly STORAGE_KEY_NODES = 'moodify_graph_nodes';
@@ -168,10 +334,7 @@ export class GraphService {
 
             // 1. With spotify_id: only match by spotify_id (songs can share names — different tracks)
             if (spotifyId) {
-                node = await dbService.database?.getFirstAsync<any>(
-                    'SELECT * FROM graph_nodes WHERE spotify_id = ?',
-                    [spotifyId]
-                );
+                node = await this.selectBySpotifyId(dbService.database, spotifyId);
             } else {
                 // 2. No spotify_id (GENRE, VIBE, etc.): match by type + name
                 node = await dbService.database?.getFirstAsync<any>(
@@ -205,7 +368,7 @@ export class GraphService {
                     ? await dbService.database?.getFirstAsync<any>('SELECT * FROM graph_nodes WHERE spotify_id = ?', [spotifyId])
                     : await dbService.database?.getFirstAsync<any>('SELECT * FROM graph_nodes WHERE type = ? AND name = ?', [type, name]);
                 if (created) {
-                    return { ...created, data: JSON.parse(created.data || '{}') } as GraphNode;
+                    return { ...created, data: parseNodeData(created.data) ?? {} } as GraphNode;
                 }
                 return null;
             }
@@ -214,14 +377,14 @@ export class GraphService {
             if (spotifyId && !node.spotify_id) {
                 await dbService.database?.runAsync(
                     'UPDATE graph_nodes SET spotify_id = ?, data = ? WHERE id = ?',
-                    [spotifyId, JSON.stringify({ ...JSON.parse(node.data || '{}'), ...data }), node.id]
+                    [spotifyId, JSON.stringify({ ...parseNodeData(node.data), ...data }), node.id]
                 );
                 node.spotify_id = spotifyId;
             }
 
             return {
                 ...node,
-                data: JSON.parse(node.data || '{}')
+                data: parseNodeData(node.data) ?? {}
             };
 
         } catch (e) {
@@ -230,6 +393,47 @@ export class GraphService {
         }
     }
 
+    /** Row of the node with this spotify_id, or of the song a duplicate with it was merged into (mergeSongs). */
+    private async selectBySpotifyId(db: GraphDatabase, spotifyId: string): Promise<any | null> {
+        const node = await db.getFirstAsync<any>('SELECT * FROM graph_nodes WHERE spotify_id = ?', [spotifyId]);
+        if (node) return node;
+        return db.getFirstAsync<any>(
+            'SELECT n.* FROM graph_node_aliases a JOIN graph_nodes n ON n.id = a.node_id WHERE a.spotify_id = ?',
+            [spotifyId]
+        );
+    }
+
+    /** Point spotify_ids merged away at the song that absorbed them (read by selectBySpotifyId()). */
+    private static async writeSongAliases(db: GraphDatabase, nodeId: number, spotifyIds: string[]): Promise<void> {
+        for (let i = 0; i < spotifyIds.length; i += GraphService.BATCH_LOOKUP_CHUNK) {
+            const chunk = spotifyIds.slice(i, i + GraphService.BATCH_LOOKUP_CHUNK);
+            await db.runAsync(
+                `INSERT OR REPLACE INTO graph_node_aliases (spotify_id, node_id) VALUES ${chunk.map(() => '(?, ?)').join(', ')}`,
+                chunk.flatMap(id => [id, nodeId])
+            );
+        }
+    }
+
+    /**
+     * The SONG node for a track, without creating one (unlike getEffectiveNode).
+     * For signals that should only touch songs already in the graph, like skips.
+     */
+    async findSongNode(spotifyId: string): Promise<GraphNode | null> {
+        if (!dbService.database) {
+            const node = this.memoryNodesBySpotifyId.get(spotifyId);
+            return node?.type === 'SONG' ? node : null;
+        }
+
+        try {
+            const node = await this.selectBySpotifyId(dbService.database, spotifyId);
+            if (!node || node.type !== 'SONG') return null;
+            return { ...node, data: parseNodeData(node.data) ?? {} };
+        } catch (e) {
+            console.error('[GraphService] findSongNode Error', e);
+            return null;
+        }
+    }
+
     /**
      * Update data on an existing node (merge into existing data).
      */
@@ -249,7 +453,7 @@ export class GraphService {
                 [nodeId]
             );
             if (existing) {
-                const merged = { ...JSON.parse(existing.data || '{}'), ...data };
+                const merged = { ...parseNodeData(existing.data), ...data };
                 await dbService.database.runAsync(
                     'UPDATE graph_nodes SET data = ? WHERE id = ?',
                     [JSON.stringify(merged), nodeId]
@@ -268,16 +472,21 @@ export class GraphService {
     }
 
     async connectNodes(sourceId: number, targetId: number, type: EdgeType, weight: number = 1.0, persist: boolean = true) {
+        const now = Date.now();
+
         if (!dbService.database) {
             // Memory Fallback — O(1) lookup via index map
             const key = GraphService.edgeKey(sourceId, targetId, type);
             const idx = this.memoryEdgeIndex.get(key);
 
             if (idx !== undefined) {
-                this.memoryEdges[idx].weight += 0.5;
+                const edge = this.memoryEdges[idx];
+                const halfLife = DECAYING_EDGE_TYPES.has(type) ? await this.getEdgeHalfLifeDays() : 0;
+                edge.weight = decayEdgeWeight(edge.weight, type, edge.updated_at, halfLife, now) + 0.5;
+                edge.updated_at = now;
             } else {
                 this.memoryEdgeIndex.set(key, this.memoryEdges.length);
-                this.memoryEdges.push({ source: sourceId, target: targetId, type, weight });
+                this.memoryEdges.push({ source: sourceId, target: targetId, type, weight, updated_at: now });
             }
             if (persist) {
                 this.persistToStorage();
@@ -286,18 +495,278 @@ export class GraphService {
         }
 
         try {
+            // Decaying edges: fold the decay into the stored weight before bumping,
+            // so reinforcing a stale edge doesn't revive its full historical weight.
+            if (DECAYING_EDGE_TYPES.has(type)) {
+                const existing = await dbService.database.getFirstAsync<{ weight: number; updated_at: number | null }>(
+                    'SELECT weight, updated_at FROM graph_edges WHERE source_id = ? AND target_id = ? AND type = ?',
+                    [sourceId, targetId, type]
+                );
+                if (existing) {
+                    const halfLife = await this.getEdgeHalfLifeDays();
+                    const reinforced = decayEdgeWeight(existing.weight, type, existing.updated_at, halfLife, now) + 0.5;
+                    await dbService.database.runAsync(
+                        'UPDATE graph_edges SET weight = ?, updated_at = ? WHERE source_id = ? AND target_id = ? AND type = ?',
+                        [reinforced, now, sourceId, targetId, type]
+                    );
+                    return;
+                }
+            }
+
             // Upsert: insert if new, bump weight if existing (UNIQUE(source_id, target_id, type))
             await dbService.database?.runAsync(
-                `INSERT INTO graph_edges (source_id, target_id, type, weight, created_at)
-                 VALUES (?, ?, ?, ?, ?)
-                 ON CONFLICT(source_id, target_id, type) DO UPDATE SET weight = weight + 0.5, created_at = excluded.created_at`,
-                [sourceId, targetId, type, weight, Date.now()]
+                `INSERT INTO graph_edges (source_id, target_id, type, weight, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?)
+                 ON CONFLICT(source_id, target_id, type) DO UPDATE SET weight = weight + 0.5, updated_at = excluded.updated_at`,
+                [sourceId, targetId, type, weight, now, now]
             );
         } catch (e) {
             console.error('[GraphService] connectNodes Error', e);
         }
     }
 
+    /** Max ids per `IN (...)` lookup (SQLite's default host-parameter limit is 999). */
+    private static readonly BATCH_LOOKUP_CHUNK = 500;
+
+    private static upsertKey(node: NodeUpsert): string {
+        return node.spotifyId ? `spotify\0${node.spotifyId}` : GraphService.typeNameKey(node.type, node.name);
+    }
+
+    /**
+     * Bulk getEffectiveNode(): resolve or create many nodes at once.
+     * SQLite: chunked IN lookups plus a prepared INSERT, in one transaction. Memory: one persist at the end.
+     * @returns nodes in input order (repeats in the batch resolve to the same node; null on failure)
+     */
+    async upsertNodesBatch(nodes: NodeUpsert[]): Promise<(GraphNode | null)[]> {
+        if (nodes.length === 0) return [];
+
+        if (!dbService.database) {
+            const resolved: (GraphNode | null)[] = [];
+            for (const n of nodes) {
+                resolved.push(await this.getEffectiveNode(n.type, n.name, n.spotifyId ?? null, n.data ?? {}, false));
+            }
+            this.persistToStorage();
+            return resolved;
+        }
+
+        try {
+            const db = dbService.database;
+            let resolved: (GraphNode | null)[] = [];
+            await db.withTransactionAsync(async () => {
+                resolved = await this.upsertNodesInTransaction(db, nodes);
+            });
+            return resolved;
+        } catch (e) {
+            console.error('[GraphService] upsertNodesBatch Error', e);
+            return nodes.map(() => null);
+        }
+    }
+
+    /** upsertNodesBatch() body; the caller owns the transaction. */
+    private async upsertNodesInTransaction(db: GraphDatabase, nodes: NodeUpsert[]): Promise<(GraphNode | null)[]> {
+        const existing = new Map<string, any>();
+        const keep = (key: string, row: any) => {
+            if (!existing.has(key)) existing.set(key, row);
+        };
+
+        // 1. Look up what already exists: by spotify_id, else by type + name (as getEffectiveNode)
+        const spotifyIds = Array.from(new Set(nodes.map(n => n.spotifyId).filter((id): id is string => !!id)));
+        for (let i = 0; i < spotifyIds.length; i += GraphService.BATCH_LOOKUP_CHUNK) {
+            const chunk = spotifyIds.slice(i, i + GraphService.BATCH_LOOKUP_CHUNK);
+            const rows = await db.getAllAsync<any>(
+                `SELECT * FROM graph_nodes WHERE spotify_id IN (${chunk.map(() => '?').join(',')}) ORDER BY id`,
+                chunk
+            );
+            for (const row of rows) keep(`spotify\0${row.spotify_id}`, row);
+        }
+        const unresolved = spotifyIds.filter(id => !existing.has(`spotify\0${id}`));
+        for (let i = 0; i < unresolved.length; i += GraphService.BATCH_LOOKUP_CHUNK) {
+            const chunk = unresolved.slice(i, i + GraphService.BATCH_LOOKUP_CHUNK);
+            const rows = await db.getAllAsync<any>(
+                `SELECT n.*, a.spotify_id AS merged_id FROM graph_node_aliases a JOIN graph_nodes n ON n.id = a.node_id
+                 WHERE a.spotify_id IN (${chunk.map(() => '?').join(',')}) ORDER BY n.id`,
+                chunk
+            );
+            for (const { merged_id, ...row } of rows) keep(`spotify\0${merged_id}`, row);
+        }
+
+        const namesByType = new Map<NodeType, Set<string>>();
+        for (const n of nodes) {
+            if (n.spotifyId) continue;
+            if (!namesByType.has(n.type)) namesByType.set(n.type, new Set());
+            namesByType.get(n.type)!.add(n.name);
+        }
+        for (const [type, nameSet] of namesByType) {
+            const names = Array.from(nameSet);
+            for (let i = 0; i < names.length; i += GraphService.BATCH_LOOKUP_CHUNK) {
+                const chunk = names.slice(i, i + GraphService.BATCH_LOOKUP_CHUNK);
+                const rows = await db.getAllAsync<any>(
+                    `SELECT * FROM graph_nodes WHERE type = ? AND name IN (${chunk.map(() => '?').join(',')}) ORDER BY id`,
+                    [type, ...chunk]
+                );
+                for (const row of rows) keep(GraphService.typeNameKey(type, row.name), row);
+            }
+        }
+
+        // 2. Insert the rest with one prepared statement
+        const resolved = new Map<string, GraphNode>();
+        const now = Date.now();
+        const insert = await db.prepareAsync(
+            `INSERT INTO graph_nodes (type, spotify_id, name, data, created_at, last_accessed)
+             VALUES (?, ?, ?, ?, ?, ?)`
+        );
+        try {
+            for (const n of nodes) {
+                const key = GraphService.upsertKey(n);
+                if (resolved.has(key)) continue;
+
+                const row = existing.get(key);
+                if (row) {
+                    resolved.set(key, { ...row, data: parseNodeData(row.data) ?? {} });
+                    continue;
+                }
+
+                const data: Record<string, any> = n.data ?? {};
+                const spotifyId = n.spotifyId ?? null;
+                const { lastInsertRowId } = await insert.executeAsync([n.type, spotifyId, n.name, JSON.stringify(data), now, now]);
+                resolved.set(key, {
+                    id: lastInsertRowId,
+                    type: n.type,
+                    spotify_id: spotifyId,
+                    name: n.name,
+                    data,
+                    play_count: 0,
+                    last_played_at: 0
+                });
+            }
+        } finally {
+            await insert.finalizeAsync();
+        }
+
+        return nodes.map(n => resolved.get(GraphService.upsertKey(n)) ?? null);
+    }
+
+    /**
+     * Bulk updateNodeData(): merge `data` into each node's data (later entries for a node win).
+     * SQLite: chunked IN lookups plus a prepared UPDATE, in one transaction. Memory: one persist at the end.
+     */
+    async updateNodeDataBatch(updates: { nodeId: number; data: Record<string, any> }[]): Promise<void> {
+        if (updates.length === 0) return;
+
+        if (!dbService.database) {
+            for (const { nodeId, data } of updates) await this.updateNodeData(nodeId, data);
+            this.persistToStorage();
+            return;
+        }
+
+        try {
+            const db = dbService.database;
+            const merged = new Map<number, Record<string, any>>();
+            for (const { nodeId, data } of updates) merged.set(nodeId, { ...merged.get(nodeId), ...data });
+
+            await db.withTransactionAsync(async () => {
+                const ids = Array.from(merged.keys());
+                const stored = new Map<number, Record<string, any>>();
+                for (let i = 0; i < ids.length; i += GraphService.BATCH_LOOKUP_CHUNK) {
+                    const chunk = ids.slice(i, i + GraphService.BATCH_LOOKUP_CHUNK);
+                    const rows = await db.getAllAsync<any>(
+                        `SELECT id, data FROM graph_nodes WHERE id IN (${chunk.map(() => '?').join(',')})`,
+                        chunk
+                    );
+                    for (const row of rows) stored.set(row.id, parseNodeData(row.data) ?? {});
+                }
+
+                const update = await db.prepareAsync('UPDATE graph_nodes SET data = ? WHERE id = ?');
+                try {
+                    for (const [nodeId, data] of merged) {
+                        const existing = stored.get(nodeId);
+                        if (existing) await update.executeAsync([JSON.stringify({ ...existing, ...data }), nodeId]);
+                    }
+                } finally {
+                    await update.finalizeAsync();
+                }
+            });
+        } catch (e) {
+            console.error('[GraphService] updateNodeDataBatch Error', e);
+        }
+    }
+
+    /**
+     * Bulk connectNodes(): same insert/reinforce/decay rules per edge, in order.
+     * SQLite: prepared statements in one transaction. Memory: one persist at the end.
+     * @param conflict - 'set' overwrites existing weights instead of reinforcing them (see EdgeConflict)
+     */
+    async connectEdgesBatch(edges: EdgeUpsert[], conflict: EdgeConflict = 'reinforce'): Promise<void> {
+        if (edges.length === 0) return;
+
+        if (!dbService.database) {
+            for (const e of edges) {
+                if (conflict === 'reinforce') await this.connectNodes(e.source, e.target, e.type, e.weight ?? 1.0, false);
+                else this.setMemoryEdge(e.source, e.target, e.type, e.weight ?? 1.0, conflict);
+            }
+            this.persistToStorage();
+            return;
+        }
+
+        try {
+            const db = dbService.database;
+            await db.withTransactionAsync(() => this.connectEdgesInTransaction(db, edges, conflict));
+        } catch (e) {
+            console.error('[GraphService] connectEdgesBatch Error', e);
+        }
+    }
+
+    /** Insert one in-memory edge, or overwrite / keep the heavier weight of an existing one. */
+    private setMemoryEdge(source: number, target: number, type: EdgeType, weight: number, conflict: 'set' | 'max'): void {
+        const key = GraphService.edgeKey(source, target, type);
+        const idx = this.memoryEdgeIndex.get(key);
+        if (idx !== undefined) {
+            const edge = this.memoryEdges[idx];
+            edge.weight = conflict === 'max' ? Math.max(edge.weight, weight) : weight;
+            edge.updated_at = Date.now();
+        } else {
+            this.memoryEdgeIndex.set(key, this.memoryEdges.length);
+            this.memoryEdges.push({ source, target, type, weight, updated_at: Date.now() });
+        }
+    }
+
+    private static readonly CONFLICT_WEIGHT_SQL: Record<EdgeConflict, string> = {
+        reinforce: 'weight = weight + 0.5',
+        set: 'weight = excluded.weight',
+        max: 'weight = MAX(weight, excluded.weight)',
+    };
+
+    /** connectEdgesBatch() body; the caller owns the transaction. */
+    private async connectEdgesInTransaction(db: GraphDatabase, edges: EdgeUpsert[], conflict: EdgeConflict = 'reinforce'): Promise<void> {
+        const now = Date.now();
+        const halfLife = edges.some(e => DECAYING_EDGE_TYPES.has(e.type)) ? await this.getEdgeHalfLifeDays() : 0;
+
+        const select = await db.prepareAsync('SELECT weight, updated_at FROM graph_edges WHERE source_id = ? AND target_id = ? AND type = ?');
+        const update = await db.prepareAsync('UPDATE graph_edges SET weight = ?, updated_at = ? WHERE source_id = ? AND target_id = ? AND type = ?');
+        const upsert = await db.prepareAsync(
+            `INSERT INTO graph_edges (source_id, target_id, type, weight, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?)
+             ON CONFLICT(source_id, target_id, type) DO UPDATE SET ${GraphService.CONFLICT_WEIGHT_SQL[conflict]}, updated_at = excluded.updated_at`
+        );
+        try {
+            for (const e of edges) {
+                if (conflict === 'reinforce' && DECAYING_EDGE_TYPES.has(e.type)) {
+                    const existing = await (await select.executeAsync<{ weight: number; updated_at: number | null }>(
+                        [e.source, e.target, e.type]
+                    )).getFirstAsync();
+                    if (existing) {
+                        const reinforced = decayEdgeWeight(existing.weight, e.type, existing.updated_at, halfLife, now) + 0.5;
+                        await update.executeAsync([reinforced, now, e.source, e.target, e.type]);
+                        continue;
+                    }
+                }
+                await upsert.executeAsync([e.source, e.target, e.type, e.weight ?? 1.0, now, now]);
+            }
+        } finally {
+            await Promise.all([select.finalizeAsync(), update.finalizeAsync(), upsert.finalizeAsync()]);
+        }
+    }
+
     /**
      * Update play stats for a node.
      */
@@ -322,6 +791,121 @@ export class GraphService {
         }
     }
 
+    /**
+     * Record an early skip of a song (song-level dislike score).
+     */
+    async recordSkip(nodeId: number) {
+        if (!dbService.database) {
+            const node = this.memoryNodes.get(nodeId);
+            if (node) {
+                node.dislike_score = (node.dislike_score || 0) + 1;
+                this.persistToStorage();
+            }
+            return;
+        }
+
+        try {
+            await dbService.database.runAsync(
+                'UPDATE graph_nodes SET dislike_score = COALESCE(dislike_score, 0) + 1 WHERE id = ?',
+                [nodeId]
+            );
+        } catch (e) {
+            console.error('[GraphService] recordSkip Error', e);
+        }
+    }
+
+    /**
+     * Record that a song was skipped while a vibe was playing (SONG → VIBE SKIPPED_IN).
+     * The edge decays like other listening edges, so an old skip eventually stops excluding the song.
+     */
+    async recordVibeSkip(songNodeId: number, vibeName: string) {
+        try {
+            const vibeNode = await this.getEffectiveNode('VIBE', await this.lookupVibeName(vibeName));
+            if (vibeNode) {
+                await this.connectNodes(songNodeId, vibeNode.id, 'SKIPPED_IN', 1.0);
+            }
+        } catch (e) {
+            console.error('[GraphService] recordVibeSkip Error', e);
+        }
+    }
+
+    /**
+     * IDs of songs recently skipped in the given vibe (decayed SKIPPED_IN weight above threshold).
+     */
+    async getSkippedInVibe(vibeName: string): Promise<Set<number>> {
+        vibeName = await this.lookupVibeName(vibeName);
+        const skipped = new Set<number>();
+        const now = Date.now();
+        const halfLife = await this.getEdgeHalfLifeDays();
+
+        if (!dbService.database) {
+            const vibeNode = this.memoryNodesByTypeName.get(GraphService.typeNameKey('VIBE', vibeName));
+            if (!vibeNode) return skipped;
+            for (const edge of this.memoryEdges) {
+                if (edge.type !== 'SKIPPED_IN' || edge.target !== vibeNode.id) continue;
+                if (decayEdgeWeight(edge.weight, edge.type, edge.updated_at, halfLife, now) >= VIBE_SKIP_EXCLUDE_WEIGHT) {
+                    skipped.add(edge.source);
+                }
+            }
+            return skipped;
+        }
+
+        try {
+            const rows = await dbService.database.getAllAsync<{ source_id: number; weight: number; updated_at: number | null }>(
+                `SELECT e.source_id, e.weight, e.updated_at
+                 FROM graph_edges e
+                 JOIN graph_nodes v ON e.target_id = v.id
+                 WHERE e.type = 'SKIPPED_IN' AND v.type = 'VIBE' AND v.name = ?`,
+                [vibeName]
+            );
+            for (const r of rows || []) {
+                if (decayEdgeWeight(r.weight, 'SKIPPED_IN', r.updated_at, halfLife, now) >= VIBE_SKIP_EXCLUDE_WEIGHT) {
+                    skipped.add(r.source_id);
+                }
+            }
+        } catch (e) {
+            console.error('[GraphService] getSkippedInVibe Error', e);
+        }
+        return skipped;
+    }
+
+    /**
+     * "Title - Artist" keys of songs that should not be suggested: disliked overall,
+     * or (when vibeName is given) recently skipped in that vibe. Same format as daily exclusions.
+     */
+    async getDislikedSongKeys(vibeName?: string | null): Promise<string[]> {
+        const skippedInVibe = vibeName ? await this.getSkippedInVibe(vibeName) : new Set<number>();
+        const keys: string[] = [];
+        const toKey = (node: { name: string; data: any }) => {
+            const data = parseNodeData(node.data) ?? {};
+            return `${node.name} - ${data.artist || 'Unknown'}`;
+        };
+
+        if (!dbService.database) {
+            for (const node of this.memoryNodes.values()) {
+                if (node.type !== 'SONG') continue;
+                if (skippedInVibe.has(node.id) || isDisliked(node.dislike_score, node.play_count)) keys.push(toKey(node));
+            }
+            return keys;
+        }
+
+        try {
+            // Disliked songs plus the ones skipped in the vibe, in one query
+            const skippedIds = [...skippedInVibe];
+            const rows = await dbService.database.getAllAsync<any>(
+                `SELECT id, name, data, play_count, dislike_score FROM graph_nodes
+                 WHERE type = 'SONG' AND (COALESCE(dislike_score, 0) > 0${skippedIds.length ? ` OR id IN (${skippedIds.map(() => '?').join(',')})` : ''})`,
+                skippedIds
+            );
+            for (const r of rows || []) {
+                if (skippedInVibe.has(r.id) || isDisliked(r.dislike_score, r.play_count)) keys.push(toKey(r));
+            }
+        } catch (e) {
+            console.error('[GraphService] getDislikedSongKeys Error', e);
+        }
+        return keys;
+    }
+
     /**
      * Batch process a session of songs to build/update the graph.
      */
@@ -342,7 +926,7 @@ export class GraphService {
             // For now, simple sequence within session is enough.
             // Actually, let's fetch the most recent song to link the FIRST song of this session to it.
             try {
-                const candidates = await this.getCandidates(1);
+                const candidates = await this.getCandidates(1, null);
                 if (candidates.length > 0) {
                     previousNodeId = candidates[0].id;
                 }
@@ -384,42 +968,110 @@ export class GraphService {
     }
 
     /**
-     * Get candidate nodes for Gemini context.
-     * Excludes songs played "today" (since midnight).
+     * Get candidate nodes for Gemini context: recently played songs, those usually heard in
+     * `context` (time of day, weekday/weekend) first. Pass null for plain recency.
      */
-    async getCandidates(limit: number = 5): Promise<GraphNode[]> {
+    async getCandidates(limit: number = 5, context: ListeningContext | null = listeningContextOf()): Promise<GraphNode[]> {
+        // Over-fetch recent songs so the context can re-rank them
+        const poolSize = context ? limit * GraphService.CONTEXT_CANDIDATE_POOL : limit;
+        let pool: GraphNode[];
         if (!dbService.database) {
-            // Memory path: return most recently played SONG nodes
+            // Memory path: most recently played SONG nodes
             const songNodes: GraphNode[] = [];
             for (const node of this.memoryNodes.values()) {
                 if (node.type === 'SONG') songNodes.push(node);
             }
-            return songNodes
+            pool = songNodes
                 .sort((a, b) => (b.last_played_at || 0) - (a.last_played_at || 0))
-                .slice(0, limit);
+                .slice(0, poolSize);
+        } else {
+            try {
+                const result = await dbService.database.getAllAsync<any>(
+                    'SELECT * FROM graph_nodes WHERE type = "SONG" ORDER BY last_played_at DESC LIMIT ?',
+                    [poolSize]
+                );
+                pool = result?.map(r => ({ ...r, data: parseNodeData(r.data) ?? {} })) || [];
+            } catch (e) {
+                console.error('[GraphService] getCandidates Error', e);
+                return [];
+            }
         }
+        if (!context || pool.length <= limit) return pool.slice(0, limit);
+
+        const affinity = new Map((await this.getContextAffinity(context, 'SONG')).map(a => [a.id, a.weight]));
+        // Stable sort: recency still breaks ties
+        return pool
+            .map((node, rank) => ({ node, rank, weight: affinity.get(node.id) || 0 }))
+            .sort((a, b) => b.weight - a.weight || a.rank - b.rank)
+            .slice(0, limit)
+            .map(c => c.node);
+    }
 
-        try {
-            const result = await dbService.database.getAllAsync<any>(
-                'SELECT * FROM graph_nodes WHERE type = "SONG" ORDER BY last_played_at DESC LIMIT ?',
-                [limit]
-            );
+    /** getCandidates() looks at this many times `limit` recent songs when ranking by context. */
+    private static readonly CONTEXT_CANDIDATE_POOL = 4;
 
-            return result?.map(r => ({ ...r, data: JSON.parse(r.data || '{}') })) || [];
-        } catch (e) {
-            console.error('[GraphService] getCandidates Error', e);
-            return [];
+    /**
+     * Songs or vibes committed in `context` (IN_CONTEXT edges to its CONTEXT nodes), strongest first.
+     * Weights are decayed like other listening edges and summed over the context's buckets.
+     */
+    private async getContextAffinity(
+        context: ListeningContext,
+        type: 'SONG' | 'VIBE'
+    ): Promise<{ id: number; name: string; weight: number }[]> {
+        const names = contextNodeNames(context);
+        const now = Date.now();
+        const halfLife = await this.getEdgeHalfLifeDays();
+        const totals = new Map<number, { id: number; name: string; weight: number }>();
+        const add = (id: number, name: string, weight: number, updatedAt?: number | null) => {
+            const entry = totals.get(id) ?? { id, name, weight: 0 };
+            entry.weight += decayEdgeWeight(weight, 'IN_CONTEXT', updatedAt, halfLife, now);
+            totals.set(id, entry);
+        };
+
+        if (!dbService.database) {
+            const contextIds = new Set(names
+                .map(name => this.memoryNodesByTypeName.get(GraphService.typeNameKey('CONTEXT', name))?.id)
+                .filter((id): id is number => id !== undefined));
+            for (const e of this.memoryEdges) {
+                if (e.type !== 'IN_CONTEXT' || !contextIds.has(e.target)) continue;
+                const node = this.memoryNodes.get(e.source);
+                if (node?.type === type) add(node.id, node.name, e.weight, e.updated_at);
+            }
+        } else {
+            try {
+                const rows = await dbService.database.getAllAsync<any>(
+                    `SELECT s.id, s.name, e.weight, e.updated_at
+                     FROM graph_edges e
+                     JOIN graph_nodes c ON c.id = e.target_id
+                     JOIN graph_nodes s ON s.id = e.source_id
+                     WHERE e.type = 'IN_CONTEXT' AND c.type = 'CONTEXT' AND c.name IN (${names.map(() => '?').join(',')})
+                     AND s.type = ?`,
+                    [...names, type]
+                );
+                for (const r of rows || []) add(r.id, r.name, r.weight, r.updated_at);
+            } catch (e) {
+                console.error('[GraphService] getContextAffinity Error', e);
+            }
         }
+        return Array.from(totals.values()).sort((a, b) => b.weight - a.weight || a.id - b.id);
     }
 
     /**
      * Get suggestions from the graph (traversal).
-     * Filters out songs played today.
+     * Filters out songs played today and songs the user keeps skipping (overall, or in `vibeName`).
+     * Ranks by decayed edge weight (recent transitions win), scaled down by each song's skip penalty.
      */
-    async getNextSuggestedNode(currentNodeId: number, excludeIds: Set<number> = new Set()): Promise<GraphNode | null> {
+    async getNextSuggestedNode(
+        currentNodeId: number,
+        excludeIds: Set<number> = new Set(),
+        vibeName?: string | null
+    ): Promise<GraphNode | null> {
         const todayStart = new Date();
         todayStart.setHours(0, 0, 0, 0);
         const todayTimestamp = todayStart.getTime();
+        const now = Date.now();
+        const halfLife = await this.getEdgeHalfLifeDays();
+        const skippedInVibe = vibeName ? await this.getSkippedInVibe(vibeName) : new Set<number>();
 
         // Memory fallback path
         if (!dbService.database) {
@@ -428,34 +1080,39 @@ export class GraphService {
                 if (edge.source !== currentNodeId) continue;
                 const targetNode = this.memoryNodes.get(edge.target);
                 if (!targetNode || targetNode.type !== 'SONG') continue;
-                if (targetNode.last_played_at >= todayTimestamp) continue;
-                if (excludeIds.has(targetNode.id)) continue;
-                candidates.push({ node: targetNode, weight: edge.weight });
+                if ((targetNode.last_played_at ?? 0) >= todayTimestamp) continue;
+                if (excludeIds.has(targetNode.id) || skippedInVibe.has(targetNode.id)) continue;
+                if (isDisliked(targetNode.dislike_score, targetNode.play_count)) continue;
+                const weight = decayEdgeWeight(edge.weight, edge.type, edge.updated_at, halfLife, now);
+                candidates.push({ node: targetNode, weight: penalizeWeight(weight, targetNode.dislike_score, targetNode.play_count) });
             }
             candidates.sort((a, b) => b.weight - a.weight);
             return candidates.length > 0 ? candidates[0].node : null;
         }
 
         try {
-            // Fetch top 10 candidates and find first non-excluded
+            // Decay is applied in JS (SQLite has no POW), so rank all outgoing song edges here
             const results = await dbService.database?.getAllAsync<any>(
-                `SELECT n.*
+                `SELECT n.*, e.weight AS edge_weight, e.type AS edge_type, e.updated_at AS edge_updated_at
                  FROM graph_edges e
                  JOIN graph_nodes n ON e.target_id = n.id
                  WHERE e.source_id = ?
                  AND n.last_played_at < ?
-                 AND n.type = 'SONG'
-                 ORDER BY e.weight DESC
-                 LIMIT 10`,
+                 AND n.type = 'SONG'`,
                 [currentNodeId, todayTimestamp]
             );
 
-            if (results) {
-                for (const result of results) {
-                    if (!excludeIds.has(result.id)) {
-                        return { ...result, data: JSON.parse(result.data || '{}') };
-                    }
-                }
+            const ranked = (results || [])
+                .filter(r => !excludeIds.has(r.id) && !skippedInVibe.has(r.id) && !isDisliked(r.dislike_score, r.play_count))
+                .map(r => {
+                    const weight = decayEdgeWeight(r.edge_weight, r.edge_type, r.edge_updated_at, halfLife, now);
+                    return { row: r, weight: penalizeWeight(weight, r.dislike_score, r.play_count) };
+                })
+                .sort((a, b) => b.weight - a.weight);
+
+            if (ranked.length > 0) {
+                const { edge_weight, edge_type, edge_updated_at, ...node } = ranked[0].row;
+                return { ...node, data: parseNodeData(node.data) ?? {} };
             }
 
             return null;
@@ -466,254 +1123,455 @@ export class GraphService {
     }
 
     /**
-     * Get all neighbors of a node (for Context)
+     * Multi-hop suggestions: personalized PageRank (random walk with restart) seeded by the
+     * current song, the vibe node and the recent session. Edges are weighted by type
+     * (WALK_EDGE_TYPE_WEIGHTS) and decay; seeds, `excludeUris`, songs played today, disliked songs
+     * and songs skipped in the vibe are never returned. Walks the cached graph snapshot.
      */
-    async getNeighbors(nodeId: number, limit: number = 5): Promise<{ name: string; artist: string; weight: number }[]> {
-        if (!dbService.database) {
-            // Memory path: traverse edges from nodeId, resolve target nodes
-            const neighbors: { name: string; artist: string; weight: number }[] = [];
-            for (const edge of this.memoryEdges) {
-                if (edge.source !== nodeId) continue;
-                const targetNode = this.memoryNodes.get(edge.target);
-                if (!targetNode) continue;
-                const data = typeof targetNode.data === 'string' ? JSON.parse(targetNode.data || '{}') : (targetNode.data || {});
-                neighbors.push({ name: targetNode.name, artist: data.artist || 'Unknown', weight: edge.weight });
-            }
-            return neighbors.sort((a, b) => b.weight - a.weight).slice(0, limit);
-        }
-
+    async getRandomWalkSuggestions(
+        seeds: RandomWalkSeeds,
+        limit: number = 10,
+        excludeUris: Set<string> = new Set()
+    ): Promise<GraphNode[]> {
         try {
-            const results = await dbService.database.getAllAsync<any>(
-                `SELECT n.name, n.data, e.weight
-                 FROM graph_edges e
-                 JOIN graph_nodes n ON e.target_id = n.id
-                 WHERE e.source_id = ?
-                 ORDER BY e.weight DESC
-                 LIMIT ?`,
-                [nodeId, limit]
-            );
-
-            return results?.map(r => {
-                const data = JSON.parse(r.data || '{}');
-                return {
-                    name: r.name,
-                    artist: data.artist || 'Unknown',
-                    weight: r.weight
-                };
-            }) || [];
+            const { nodes, edges } = await this.getGraphSnapshot();
+            if (nodes.length === 0) return [];
+            if (seeds.vibeName) seeds = { ...seeds, vibeName: await this.lookupVibeName(seeds.vibeName) };
 
+            const todayStart = new Date();
+            todayStart.setHours(0, 0, 0, 0);
+            const todayTimestamp = todayStart.getTime();
+            const now = Date.now();
+            const halfLife = await this.getEdgeHalfLifeDays();
+            const skippedInVibe = seeds.vibeName ? await this.getSkippedInVibe(seeds.vibeName) : new Set<number>();
+
+            const restart = GraphService.walkRestart(nodes, seeds);
+            if (restart.size === 0) return [];
+
+            const walkEdges = edges
+                .map(e => ({
+                    source: e.source,
+                    target: e.target,
+                    weight: WALK_EDGE_TYPE_WEIGHTS[e.type] * decayEdgeWeight(e.weight, e.type, e.updated_at, halfLife, now),
+                }))
+                .filter(e => e.weight > 0);
+            const scores = personalizedPageRank(nodes.map(n => n.id), walkEdges, restart);
+
+            const excluded = new Set(Array.from(excludeUris, GraphService.bareTrackId));
+            return nodes
+                .filter(n => n.type === 'SONG' && n.spotify_id && !restart.has(n.id))
+                .filter(n => !excluded.has(GraphService.bareTrackId(n.spotify_id!)))
+                .filter(n => (n.last_played_at ?? 0) < todayTimestamp)
+                .filter(n => !skippedInVibe.has(n.id) && !isDisliked(n.dislike_score, n.play_count))
+                .map(n => ({ node: n, score: penalizeWeight(scores.get(n.id) || 0, n.dislike_score, n.play_count) }))
+                .filter(s => s.score > 0)
+                .sort((a, b) => b.score - a.score || a.node.id - b.node.id)
+                .slice(0, limit)
+                .map(s => s.node);
         } catch (e) {
-            console.error('[GraphService] getNeighbors Error', e);
+            console.error('[GraphService] getRandomWalkSuggestions Error', e);
             return [];
         }
     }
+
     /**
-     * Quantize audio features into a bucket key for similarity grouping.
-     * 3 dimensions (energy, valence, danceability) x 3 bins each = 27 buckets.
+     * Restart distribution for a walk: current song, vibe, then session songs weighted toward the latest.
+     * @returns nodeId → restart weight (not normalized); empty when no seed is in the graph
      */
-    private getAudioBucket(features: { energy: number; valence: number; danceability: number }): string {
-        const bin = (v: number) => v < 0.33 ? 0 : v < 0.66 ? 1 : 2;
-        return `${bin(features.energy)}-${bin(features.valence)}-${bin(features.danceability)}`;
+    private static walkRestart(nodes: GraphNode[], seeds: RandomWalkSeeds): Map<number, number> {
+        const songsBySpotifyId = GraphService.songsBySpotifyId(nodes);
+        const restart = new Map<number, number>();
+        const addSeed = (id: number, w: number) => restart.set(id, (restart.get(id) || 0) + w);
+        if (seeds.currentNodeId != null) addSeed(seeds.currentNodeId, WALK_SEED_WEIGHTS.current);
+        if (seeds.vibeName) {
+            const vibeNode = nodes.find(n => n.type === 'VIBE' && n.name === seeds.vibeName);
+            if (vibeNode) addSeed(vibeNode.id, WALK_SEED_WEIGHTS.vibe);
+        }
+        const sessionIds = (seeds.recentUris || [])
+            .map(uri => songsBySpotifyId.get(GraphService.bareTrackId(uri))?.id)
+            .filter((id): id is number => id !== undefined);
+        const recency = sessionIds.reduce((sum, _, i) => sum + i + 1, 0);
+        sessionIds.forEach((id, i) => addSeed(id, WALK_SEED_WEIGHTS.session * (i + 1) / recency));
+        return restart;
     }
 
-    /** Audio feature dimensions used for AUDIO_FEATURE nodes (one node per dimension). */
-    private static readonly AUDIO_FEATURE_NAMES = [
-        'energy', 'valence', 'danceability', 'tempo', 'acousticness', 'instrumentalness'
-    ] as const;
+    private static bareTrackId(uri: string): string {
+        return uri.replace(/^spotify:track:/, '');
+    }
+
+    /** SONG nodes by bare track id. */
+    private static songsBySpotifyId(nodes: GraphNode[]): Map<string, GraphNode> {
+        const songs = new Map<string, GraphNode>();
+        for (const n of nodes) {
+            if (n.type === 'SONG' && n.spotify_id) songs.set(GraphService.bareTrackId(n.spotify_id), n);
+        }
+        return songs;
+    }
 
     /**
-     * Ingest User's Liked Songs into the Graph (Background Process).
-     * 1. Fetch ALL liked songs into memory.
-     * 2. Fetch artist details (with genres) for all unique artists.
-     * 3. Iterate song-by-song: create SONG, connect to ARTIST and GENRE using hash tables (create if missing).
-     * 4. Audio features + SIMILAR + HAS_FEATURE edges.
+     * Explain recommendations: the shortest weighted path(s) from the seeds (session songs, current
+     * song, vibe) to each track, over the same edge weights the random walk uses.
+     * @param uris Spotify URIs (or bare track ids) of the recommended tracks
+     * @returns uri → paths, cheapest first; tracks that aren't in the graph or aren't reachable are left out
      */
-    async ingestLikedSongs() {
-        console.log('[GraphService] Starting Liked Songs Ingestion...');
+    async explainTracks(
+        uris: string[],
+        seeds: RandomWalkSeeds,
+        maxPaths: number = 1
+    ): Promise<Map<string, PathExplanation[]>> {
+        const explanations = new Map<string, PathExplanation[]>();
+        try {
+            const { nodes, edges } = await this.getGraphSnapshot();
+            if (seeds.vibeName) seeds = { ...seeds, vibeName: await this.lookupVibeName(seeds.vibeName) };
+            const sources = Array.from(GraphService.walkRestart(nodes, seeds).keys());
+            if (sources.length === 0 || uris.length === 0) return explanations;
+
+            const now = Date.now();
+            const halfLife = await this.getEdgeHalfLifeDays();
+            const hubIds = new Set(nodes.filter(n => UNEXPLAINING_NODE_TYPES.has(n.type)).map(n => n.id));
+            const adjacency = buildExplanationAdjacency(edges.map(e => ({
+                source: e.source,
+                target: e.target,
+                type: e.type,
+                weight: WALK_EDGE_TYPE_WEIGHTS[e.type] * decayEdgeWeight(e.weight, e.type, e.updated_at, halfLife, now),
+            })), hubIds);
+
+            const nodeById = new Map(nodes.map(n => [n.id, n]));
+            const songsBySpotifyId = GraphService.songsBySpotifyId(nodes);
+
+            for (const uri of uris) {
+                const song = songsBySpotifyId.get(GraphService.bareTrackId(uri));
+                if (!song) continue;
+                const paths = shortestWeightedPaths(adjacency, sources, song.id, maxPaths).map(path => {
+                    const steps: PathStep[] = path.nodeIds.map((id, i) => ({
+                        nodeId: id,
+                        name: nodeById.get(id)!.name,
+                        type: nodeById.get(id)!.type,
+                        via: i > 0 ? path.edgeTypes[i - 1] : null,
+                    }));
+                    return { steps, cost: path.cost, text: describePath(steps) };
+                });
+                if (paths.length > 0) explanations.set(uri, paths);
+            }
+        } catch (e) {
+            console.error('[GraphService] explainTracks Error', e);
+        }
+        return explanations;
+    }
 
-        const { spotifyRemote } = require('@/services/spotify/SpotifyRemoteService');
-        const initStore = require('@/stores/InitializationStore').useInitializationStore.getState();
+    /**
+     * Get all neighbors of a node (for Context), strongest first by decayed weight.
+     * Skip feedback is not a connection: SKIPPED_IN edges and disliked songs are left out,
+     * and other songs are down-ranked by their skip penalty.
+     */
+    async getNeighbors(nodeId: number, limit: number = 5): Promise<{ name: string; artist: string; weight: number }[]> {
+        const now = Date.now();
+        const halfLife = await this.getEdgeHalfLifeDays();
+
+        if (!dbService.database) {
+            // Memory path: traverse edges from nodeId, resolve target nodes
+            const neighbors: { name: string; artist: string; weight: number }[] = [];
+            for (const edge of this.memoryEdges) {
+                if (edge.source !== nodeId || edge.type === 'SKIPPED_IN') continue;
+                const targetNode = this.memoryNodes.get(edge.target);
+                if (!targetNode) continue;
+                if (isDisliked(targetNode.dislike_score, targetNode.play_count)) continue;
+                const data = parseNodeData(targetNode.data) ?? {};
+                const weight = decayEdgeWeight(edge.weight, edge.type, edge.updated_at, halfLife, now);
+                neighbors.push({
+                    name: targetNode.name,
+                    artist: data.artist || 'Unknown',
+                    weight: penalizeWeight(weight, targetNode.dislike_score, targetNode.play_count),
+                });
+            }
+            return neighbors.sort((a, b) => b.weight - a.weight).slice(0, limit);
+        }
 
         try {
-            // ===== 1. Fetch ALL liked songs into memory =====
-            initStore.setStatusMessage('Fetching liked songs...');
-            const PAGE_SIZE = 50;
-            const allSongs: { trackId: string; trackName: string; primaryArtistId: string; primaryArtistName: string }[] = [];
-            let offset = 0;
-            let totalSongs = 0;
-
-            const firstPage = await spotifyRemote.getUserSavedTracks(PAGE_SIZE, 0);
-            totalSongs = firstPage.total;
-            if (!firstPage.items?.length) {
-                // If total > 0 but items empty, the API likely failed — don't mark as done
-                if (totalSongs > 0) {
-                    console.warn('[GraphService] Liked songs API returned items=[] but total=' + totalSongs + '. Skipping (possible API error).');
-                    throw new Error('Liked songs fetch returned empty items despite total > 0');
-                }
-                console.log('[GraphService] No liked songs found (user library is empty).');
-                await dbService.setPreference('graph_ingested_liked', 'true');
-                return;
+            const results = await dbService.database.getAllAsync<any>(
+                `SELECT n.name, n.data, n.play_count, n.dislike_score, e.weight, e.type, e.updated_at
+                 FROM graph_edges e
+                 JOIN graph_nodes n ON e.target_id = n.id
+                 WHERE e.source_id = ? AND e.type != 'SKIPPED_IN'`,
+                [nodeId]
+            );
+
+            return (results || [])
+                .filter(r => !isDisliked(r.dislike_score, r.play_count))
+                .map(r => {
+                    const data = parseNodeData(r.data) ?? {};
+                    const weight = decayEdgeWeight(r.weight, r.type, r.updated_at, halfLife, now);
+                    return {
+                        name: r.name,
+                        artist: data.artist || 'Unknown',
+                        weight: penalizeWeight(weight, r.dislike_score, r.play_count)
+                    };
+                }).sort((a, b) => b.weight - a.weight).slice(0, limit);
+
+        } catch (e) {
+            console.error('[GraphService] getNeighbors Error', e);
+            return [];
+        }
+    }
+    /**
+     * Store songs' Spotify audio features on their nodes and link them to the AUDIO_FEATURE nodes
+     * (one node per dimension, HAS_FEATURE weighted by the normalized value).
+     */
+    private async storeAudioFeatures(entries: { nodeId: number; features: Record<string, any> }[]): Promise<void> {
+        if (entries.length === 0) return;
+        const featNodes = await this.upsertNodesBatch(AUDIO_VECTOR_FEATURES.map(name => ({ type: 'AUDIO_FEATURE' as const, name })));
+
+        const edges: EdgeUpsert[] = [];
+        const updates: { nodeId: number; data: Record<string, number> }[] = [];
+        for (const { nodeId, features } of entries) {
+            const data: Record<string, number> = {};
+            for (const featName of AUDIO_VECTOR_FEATURES) {
+                if (typeof features[featName] === 'number') data[featName] = features[featName];
             }
+            updates.push({ nodeId, data });
 
-            const pushPage = (items: any[]) => {
-                for (const item of items) {
-                    const track = item?.track;
-                    if (!track?.id) continue;
-                    const primary = track.artists?.[0];
-                    allSongs.push({
-                        trackId: track.id,
-                        trackName: track.name,
-                        primaryArtistId: primary?.id ?? '',
-                        primaryArtistName: primary?.name ?? 'Unknown',
-                    });
+            AUDIO_VECTOR_FEATURES.forEach((featName, i) => {
+                const featNode = featNodes[i];
+                const value = data[featName];
+                if (featNode != null && typeof value === 'number') {
+                    edges.push({ source: nodeId, target: featNode.id, type: 'HAS_FEATURE', weight: normalizeAudioFeature(featName, value) });
                 }
-            };
+            });
+        }
+        await this.updateNodeDataBatch(updates);
+        // The weight is the feature value itself, never a count
+        await this.connectEdgesBatch(edges, 'set');
+    }
 
-            pushPage(firstPage.items);
-            offset = firstPage.items.length;
-            initStore.setProgress({ current: offset, total: totalSongs });
+    /** Every node of one type (raw rows on SQLite: `data` is still a JSON string). */
+    private async loadNodesByType(type: NodeType): Promise<GraphNode[]> {
+        if (!dbService.database) {
+            return Array.from(this.memoryNodes.values()).filter(n => n.type === type);
+        }
+        const rows = await dbService.database.getAllAsync<any>('SELECT * FROM graph_nodes WHERE type = ?', [type]);
+        return rows || [];
+    }
 
-            while (offset < totalSongs) {
-                const page = await spotifyRemote.getUserSavedTracks(PAGE_SIZE, offset);
-                if (!page.items?.length) break;
-                pushPage(page.items);
-                offset += page.items.length;
-                initStore.setProgress({ current: offset, total: totalSongs });
-                await new Promise(r => setTimeout(r, 50));
-            }
+    /** Audio feature vectors of every song node that has the full set of stored features. */
+    private async loadAudioVectors(): Promise<AudioVectorItem[]> {
+        const songs = await this.loadNodesByType('SONG');
+        const items: AudioVectorItem[] = [];
+        for (const n of songs) {
+            const data = parseNodeData(n.data) ?? {};
+            const vector = toAudioVector(data);
+            if (vector) items.push({ id: n.id, vector });
+        }
+        return items;
+    }
 
-            console.log(`[GraphService] Fetched ${allSongs.length} songs into memory`);
+    /**
+     * Incremental kNN: link each given song to its k nearest songs by audio features,
+     * in both directions (the existing songs' neighbour lists are not pruned).
+     * Songs without stored features are skipped. Returns the number of edges created.
+     */
+    async linkSimilarSongs(nodeIds: number[], persist: boolean = true): Promise<number> {
+        const items = await this.loadAudioVectors();
+        const byId = new Map(items.map(i => [i.id, i]));
+        const linking = new Set(nodeIds);
+        // Songs linked in this call only see the songs that were already there (and each other once)
+        const candidates = items.filter(i => !linking.has(i.id));
+
+        const edges: EdgeUpsert[] = [];
+        for (const nodeId of nodeIds) {
+            const item = byId.get(nodeId);
+            if (!item) continue;
+            for (const { id, distance } of nearestNeighbors(item.vector, candidates, SIMILAR_K)) {
+                const weight = similarityWeight(distance);
+                edges.push({ source: nodeId, target: id, type: 'SIMILAR', weight }, { source: id, target: nodeId, type: 'SIMILAR', weight });
+            }
+            candidates.push(item);
+        }
 
-            // ===== 2. Artist details (with genres) for all unique artists =====
-            const uniqueArtistIds = Array.from(new Set(allSongs.map(s => s.primaryArtistId).filter(Boolean)));
-            initStore.setStatusMessage('Loading artist details...');
-            const artistDetailsList = await spotifyRemote.getArtistsBatch(uniqueArtistIds);
-            const artistDetailsMap = new Map<string, { id: string; name: string; genres: string[] }>();
-            uniqueArtistIds.forEach((id, i) => {
-                const a = artistDetailsList[i];
-                if (a?.id) artistDetailsMap.set(id, { id: a.id, name: a.name, genres: a.genres ?? [] });
-            });
+        // Relinking replaces a song's neighbors (and any left from before the kNN) instead of reinforcing them
+        await this.deleteEdgesOfType('SIMILAR', nodeIds);
+        await this.connectEdgesBatch(edges, 'set');
 
-            // ===== 3. Build graph: hash tables so we create once and reuse =====
-            const genreToNode = new Map<string, GraphNode>();
-            const artistToNode = new Map<string, GraphNode>();
-            const trackNodeIds = new Map<string, number>();
-            const trackIds: string[] = [];
+        if (persist) this.persistToStorage();
+        return edges.length;
+    }
 
-            initStore.setStatusMessage('Building graph (songs → artist & genre)...');
-            initStore.setProgress({ current: 0, total: allSongs.length });
+    /** Delete every edge of a type, or only those touching the given nodes. */
+    private async deleteEdgesOfType(type: EdgeType, nodeIds?: number[]): Promise<void> {
+        if (nodeIds?.length === 0) return;
+        this.structureVersion++;
 
-            let artistEdgeCount = 0;
-            let genreEdgeCount = 0;
+        if (!dbService.database) {
+            const ids = nodeIds && new Set(nodeIds);
+            this.memoryEdges = this.memoryEdges.filter(e => e.type !== type || (ids && !ids.has(e.source) && !ids.has(e.target)));
+            this.rebuildEdgeIndex();
+            return;
+        }
 
-            for (let i = 0; i < allSongs.length; i++) {
-                const song = allSongs[i];
-                const songNode = await this.getEffectiveNode(
-                    'SONG',
-                    song.trackName,
-                    song.trackId,
-                    { artist: song.primaryArtistName },
-                    false
-                );
-                if (!songNode) continue;
+        if (!nodeIds) {
+            await dbService.database.runAsync('DELETE FROM graph_edges WHERE type = ?', [type]);
+            return;
+        }
+        for (let i = 0; i < nodeIds.length; i += GraphService.BATCH_LOOKUP_CHUNK) {
+            const chunk = nodeIds.slice(i, i + GraphService.BATCH_LOOKUP_CHUNK);
+            const placeholders = chunk.map(() => '?').join(',');
+            await dbService.database.runAsync(
+                `DELETE FROM graph_edges WHERE type = ? AND (source_id IN (${placeholders}) OR target_id IN (${placeholders}))`,
+                [type, ...chunk, ...chunk]
+            );
+        }
+    }
 
-                trackNodeIds.set(song.trackId, songNode.id);
-                trackIds.push(song.trackId);
-
-                const artistData = song.primaryArtistId ? artistDetailsMap.get(song.primaryArtistId) : null;
-                if (artistData) {
-                    let artistNode = artistToNode.get(artistData.id);
-                    if (!artistNode) {
-                        const created = await this.getEffectiveNode(
-                            'ARTIST',
-                            artistData.name,
-                            artistData.id,
-                            { genres: artistData.genres },
-                            false
-                        );
-                        if (created) {
-                            artistToNode.set(artistData.id, created);
-                            artistNode = created;
-                        }
-                    }
-                    if (artistNode) {
-                        await this.connectNodes(songNode.id, artistNode.id, 'RELATED', 1.0, false);
-                        artistEdgeCount++;
-                    }
-                }
+    /**
+     * Fetch audio features for songs that have none yet (e.g. first heard in a session)
+     * and link them into the SIMILAR kNN graph. Returns the number of songs enriched.
+     */
+    private async enrichAudioFeatures(nodes: GraphNode[]): Promise<number> {
+        const missing = nodes.filter(n => n.spotify_id && !toAudioVector(parseNodeData(n.data) ?? {}));
+        if (missing.length === 0) return 0;
 
-                const genres = artistData?.genres ?? [];
-                for (const genreName of genres) {
-                    if (!genreName) continue;
-                    let genreNode = genreToNode.get(genreName);
-                    if (!genreNode) {
-                        const created = await this.getEffectiveNode('GENRE', genreName, null, {}, false);
-                        if (created) {
-                            genreToNode.set(genreName, created);
-                            genreNode = created;
-                        }
-                    }
-                    if (genreNode) {
-                        await this.connectNodes(songNode.id, genreNode.id, 'HAS_GENRE', 1.0, false);
-                        genreEdgeCount++;
-                    }
-                }
+        const { spotifyRemote } = require('@/services/spotify/SpotifyRemoteService');
+        const features = await spotifyRemote.getAudioFeaturesBatch(missing.map(n => n.spotify_id));
+
+        const entries = missing
+            .map((n, i) => ({ nodeId: n.id, features: features[i] }))
+            .filter(entry => entry.features);
+        if (entries.length === 0) return 0;
+        await this.storeAudioFeatures(entries);
+        const enriched = entries.map(entry => entry.nodeId);
+
+        const created = await this.linkSimilarSongs(enriched, false);
+        this.persistToStorage();
+        console.log(`[GraphService] Audio features for ${enriched.length} new songs, ${created} SIMILAR edges`);
+        return enriched.length;
+    }
 
-                if (i % 100 === 0) initStore.setProgress({ current: i, total: allSongs.length });
-            }
+    /** Preference key: newest `added_at` (ms) of a liked song the graph has seen; syncLikedSongs() stops there. */
+    private static readonly LIKED_SYNC_CURSOR_PREF_KEY = 'graph_liked_sync_cursor';
+
+    /** Edge weights of a song that is no longer liked are scaled by this (its audio features are kept). */
+    private static readonly UNLIKED_EDGE_WEIGHT_FACTOR = 0.5;
+
+    private likedSyncInFlight: Promise<{ added: number; removed: number }> | null = null;
+
+    private static toLikedSong(item: any): LikedSongRef | null {
+        const track = item?.track;
+        if (!track?.id) return null;
+        const primary = track.artists?.[0];
+        return {
+            trackId: track.id,
+            trackName: track.name,
+            primaryArtistId: primary?.id ?? '',
+            primaryArtistName: primary?.name ?? 'Unknown',
+            addedAt: Date.parse(item.added_at) || 0,
+            albumId: track.album?.id || undefined,
+            albumName: track.album?.name || undefined,
+            releaseYear: parseInt(track.album?.release_date, 10) || undefined,
+            isrc: track.external_ids?.isrc || undefined,
+        };
+    }
 
-            console.log(`[GraphService] Graph links: ${artistToNode.size} artists, ${genreToNode.size} genres, ${artistEdgeCount} SONG→ARTIST, ${genreEdgeCount} SONG→GENRE`);
+    /** ERA node name for a release year, e.g. 1994 → "1990s". */
+    private static eraOf(year: number): string {
+        return `${Math.floor(year / 10) * 10}s`;
+    }
 
-            // ===== 4. Audio features + SIMILAR + HAS_FEATURE =====
-            initStore.setStatusMessage('Analyzing audio features...');
-            initStore.setProgress({ current: 0, total: trackIds.length });
-            const audioFeatures = await spotifyRemote.getAudioFeaturesBatch(trackIds);
-            const buckets: Map<string, number[]> = new Map();
+    /** Liked songs built per checkpoint during ingestion; an interrupted chunk is redone on resume. */
+    private static readonly INGEST_CHUNK_SIZE = 200;
 
-            for (let i = 0; i < audioFeatures.length; i++) {
-                const features = audioFeatures[i];
-                const trackId = trackIds[i];
-                const nodeId = trackNodeIds.get(trackId);
-                if (!features || !nodeId) continue;
+    /**
+     * Ingest User's Liked Songs into the Graph (Background Process).
+     * Resumable: each phase checkpoints in the DB, so a network failure or app kill continues
+     * where it stopped instead of restarting from zero.
+     * 1. fetch: page /me/tracks into the staging table (checkpoint = next offset).
+     * 2. build: addSongs() over unprocessed tracks, chunk by chunk (songs, artists, genres, features).
+     * 3. similar: SIMILAR edges from a kNN over all songs' features.
+     */
+    async ingestLikedSongs() {
+        console.log('[GraphService] Starting Liked Songs Ingestion...');
 
-                await this.updateNodeData(nodeId, {
-                    energy: features.energy,
-                    valence: features.valence,
-                    danceability: features.danceability,
-                    tempo: features.tempo,
-                    acousticness: features.acousticness,
-                    instrumentalness: features.instrumentalness,
-                });
+        const { spotifyRemote } = require('@/services/spotify/SpotifyRemoteService');
+        const initStore = require('@/stores/InitializationStore').useInitializationStore.getState();
 
-                const bucket = this.getAudioBucket(features);
-                if (!buckets.has(bucket)) buckets.set(bucket, []);
-                buckets.get(bucket)!.push(nodeId);
+        try {
+            let checkpoint = await dbService.getIngestionCheckpoint();
+            if (checkpoint) {
+                console.log(`[GraphService] Resuming ingestion at phase '${checkpoint.phase}' (offset ${checkpoint.offset}/${checkpoint.total})`);
+            }
 
-                for (const featName of GraphService.AUDIO_FEATURE_NAMES) {
-                    const featNode = await this.getEffectiveNode('AUDIO_FEATURE', featName, null, {}, false);
-                    const value = (features as any)[featName];
-                    if (featNode != null && typeof value === 'number') {
-                        const normalized = featName === 'tempo' ? Math.min(1, value / 200) : value;
-                        await this.connectNodes(nodeId, featNode.id, 'HAS_FEATURE', normalized, false);
+            // ===== 1. Fetch ALL liked songs into the staging table =====
+            if (!checkpoint || checkpoint.phase === 'fetch') {
+                initStore.setStatusMessage(checkpoint ? 'Resuming liked songs fetch...' : 'Fetching liked songs...');
+                const PAGE_SIZE = 50;
+                let offset = checkpoint?.offset ?? 0;
+                let total = checkpoint?.total ?? 0;
+
+                do {
+                    const page = await spotifyRemote.getUserSavedTracks(PAGE_SIZE, offset);
+                    if (!page.items?.length) {
+                        if (offset === 0 && total === 0 && page.total === 0) {
+                            console.log('[GraphService] No liked songs found (user library is empty).');
+                            await dbService.clearIngestionCheckpoint();
+                            await dbService.setPreference('graph_ingested_liked', 'true');
+                            return;
+                        }
+                        // Items empty while more are expected: the API likely failed — keep the checkpoint
+                        if (page.total > offset || (page.total === 0 && offset < total)) {
+                            console.warn(`[GraphService] Liked songs API returned items=[] at offset ${offset} (total=${page.total || total}). Will resume from here.`);
+                            throw new Error('Liked songs fetch returned empty items despite more expected');
+                        }
+                        break; // Library shrank while paging
                     }
-                }
-                if (i % 100 === 0) initStore.setProgress({ current: i, total: trackIds.length });
+
+                    total = page.total;
+                    offset += page.items.length;
+                    const songs = page.items
+                        .map((item: any) => GraphService.toLikedSong(item))
+                        .filter((song: LikedSongRef | null): song is LikedSongRef => song !== null);
+                    await dbService.appendIngestionPage(songs, { phase: 'fetch', offset, total });
+                    initStore.setProgress({ current: offset, total });
+                    await new Promise(r => setTimeout(r, 50));
+                } while (offset < total);
+
+                checkpoint = { phase: 'build', offset, total, updatedAt: Date.now() };
+                await dbService.setIngestionCheckpoint(checkpoint);
             }
 
-            let similarEdgeCount = 0;
-            for (const [, nodeIds] of buckets) {
-                for (let j = 0; j < nodeIds.length - 1; j++) {
-                    await this.connectNodes(nodeIds[j], nodeIds[j + 1], 'SIMILAR', 1.0, false);
-                    similarEdgeCount++;
+            const staged = await dbService.getIngestionTracks();
+            console.log(`[GraphService] ${staged.length} liked songs staged for ingestion`);
+
+            // ===== 2. Build the graph chunk by chunk; each finished chunk is marked processed =====
+            if (checkpoint.phase === 'build') {
+                const pending = staged.filter(t => !t.processed);
+                let done = staged.length - pending.length;
+                for (let i = 0; i < pending.length; i += GraphService.INGEST_CHUNK_SIZE) {
+                    const chunk = pending.slice(i, i + GraphService.INGEST_CHUNK_SIZE);
+                    await this.addSongs(chunk, spotifyRemote, initStore, { progress: { done, total: staged.length } });
+                    this.persistToStorage();
+                    await dbService.markIngestionTracksProcessed(chunk.map(t => t.trackId));
+                    done += chunk.length;
                 }
+
+                checkpoint = { ...checkpoint, phase: 'similar' };
+                await dbService.setIngestionCheckpoint(checkpoint);
             }
-            console.log(`[GraphService] Audio phase: ${similarEdgeCount} SIMILAR edges across ${buckets.size} buckets`);
+
+            // ===== 3. kNN over every song with features (including songs enriched earlier via commitSession) =====
+            initStore.setStatusMessage('Linking similar songs...');
+            const vectors = await this.loadAudioVectors();
+            const similarEdges = buildKnnEdges(vectors);
+            // A full rebuild: no edge of an earlier (or interrupted) run may survive or be reinforced
+            await this.deleteEdgesOfType('SIMILAR');
+            await this.connectEdgesBatch(similarEdges.map(edge => ({ ...edge, type: 'SIMILAR' as const })), 'set');
+            console.log(`[GraphService] Audio phase: ${similarEdges.length} SIMILAR edges over ${vectors.length} songs (k=${SIMILAR_K})`);
 
             this.persistToStorage();
             this.invalidateCache(); // Clear cache so next view gets fresh data
+            const cursor = staged.reduce((max, s) => Math.max(max, s.addedAt || 0), 0);
+            await dbService.setPreference(GraphService.LIKED_SYNC_CURSOR_PREF_KEY, String(cursor));
             await dbService.setPreference('graph_ingested_liked', 'true');
+            await dbService.clearIngestionCheckpoint();
             initStore.setStatusMessage('Ingestion complete!');
-            initStore.setProgress({ current: allSongs.length, total: allSongs.length });
+            initStore.setProgress({ current: staged.length, total: staged.length });
             console.log('[GraphService] Ingestion Complete.');
         } catch (e) {
             console.error('[GraphService] Ingestion Failed', e);
@@ -722,126 +1580,915 @@ export class GraphService {
     }
 
     /**
-     * Get Cluster Representatives
-     * "Give Gemini 2 songs from each big cluster"
+     * State of an interrupted ingestion (null when none is pending), for the setup screen.
+     * `fetched` counts tracks paged so far, `processed` tracks already written to the graph.
      */
-    async getClusterRepresentatives(limit: number = 8): Promise<GraphNode[]> {
-        if (!dbService.database) {
-            // Memory path: collect SONG nodes, sort by play_count desc, pick diverse artists
-            const songNodes: GraphNode[] = [];
-            for (const node of this.memoryNodes.values()) {
-                if (node.type === 'SONG') songNodes.push(node);
+    async getIngestionProgress(): Promise<{ phase: IngestionPhase; fetched: number; processed: number; total: number } | null> {
+        const checkpoint = await dbService.getIngestionCheckpoint();
+        if (!checkpoint) return null;
+        const staged = await dbService.getIngestionTracks();
+        return {
+            phase: checkpoint.phase,
+            fetched: staged.length,
+            processed: staged.filter(t => t.processed).length,
+            total: checkpoint.total,
+        };
+    }
+
+    /**
+     * Add songs to the graph: SONG nodes (liked ones marked with `liked_at`) linked to their ARTIST
+     * and GENRE nodes, plus stored audio features and HAS_FEATURE edges. SIMILAR edges are left
+     * to the caller (full kNN on ingestion, incremental on sync).
+     * @returns node ids of the songs
+     */
+    private async addSongs(
+        songs: LikedSongRef[],
+        spotifyRemote: any,
+        initStore: any,
+        { liked = true, progress = { done: 0, total: songs.length } }: { liked?: boolean; progress?: { done: number; total: number } } = {}
+    ): Promise<number[]> {
+        const report = (i: number) => initStore.setProgress({ current: progress.done + i, total: progress.total });
+
+        // ===== 2. Artist details (with genres) for all unique artists =====
+        const uniqueArtistIds = Array.from(new Set(songs.map(s => s.primaryArtistId).filter(Boolean)));
+        initStore.setStatusMessage('Loading artist details...');
+        const artistDetailsList = await spotifyRemote.getArtistsBatch(uniqueArtistIds);
+        const artistDetailsMap = new Map<string, { id: string; name: string; genres: string[] }>();
+        uniqueArtistIds.forEach((id, i) => {
+            const a = artistDetailsList[i];
+            if (a?.id) artistDetailsMap.set(id, { id: a.id, name: a.name, genres: a.genres ?? [] });
+        });
+
+        // ===== 3. Build graph: every song, artist, genre, album and era node in one batch, then all edges in one batch =====
+        initStore.setStatusMessage('Building graph (songs → artist, genre, album & era)...');
+        report(0);
+
+        const artists = uniqueArtistIds
+            .map(id => artistDetailsMap.get(id))
+            .filter((a): a is { id: string; name: string; genres: string[] } => !!a);
+        const genreNames = Array.from(new Set(artists.flatMap(a => a.genres).filter(Boolean)));
+        const albums = new Map<string, NodeUpsert>();
+        for (const song of songs) {
+            if (!song.albumId || !song.albumName || albums.has(song.albumId)) continue;
+            albums.set(song.albumId, {
+                type: 'ALBUM',
+                name: song.albumName,
+                spotifyId: song.albumId,
+                data: { artist: song.primaryArtistName, release_year: song.releaseYear },
+            });
+        }
+        const albumIds = Array.from(albums.keys());
+        const eraNames = Array.from(new Set(
+            songs.filter(s => s.releaseYear).map(s => GraphService.eraOf(s.releaseYear!))
+        ));
+        const nodes = await this.upsertNodesBatch([
+            ...songs.map(song => ({
+                type: 'SONG' as const,
+                name: song.trackName,
+                spotifyId: song.trackId,
+                data: {
+                    artist: song.primaryArtistName,
+                    ...(song.isrc && { isrc: song.isrc }),
+                    ...(liked && { liked_at: song.addedAt }),
+                },
+            })),
+            ...artists.map(a => ({ type: 'ARTIST' as const, name: a.name, spotifyId: a.id, data: { genres: a.genres } })),
+            ...genreNames.map(name => ({ type: 'GENRE' as const, name })),
+            ...albums.values(),
+            ...eraNames.map(name => ({ type: 'ERA' as const, name, data: { decade: parseInt(name, 10) } })),
+        ]);
+        const artistToNode = new Map<string, GraphNode>();
+        artists.forEach((a, i) => {
+            const node = nodes[songs.length + i];
+            if (node) artistToNode.set(a.id, node);
+        });
+        const genreToNode = new Map<string, GraphNode>();
+        genreNames.forEach((name, i) => {
+            const node = nodes[songs.length + artists.length + i];
+            if (node) genreToNode.set(name, node);
+        });
+        const albumToNode = new Map<string, GraphNode>();
+        albumIds.forEach((id, i) => {
+            const node = nodes[songs.length + artists.length + genreNames.length + i];
+            if (node) albumToNode.set(id, node);
+        });
+        const eraToNode = new Map<string, GraphNode>();
+        eraNames.forEach((name, i) => {
+            const node = nodes[songs.length + artists.length + genreNames.length + albumIds.length + i];
+            if (node) eraToNode.set(name, node);
+        });
+
+        // Songs that were already nodes (heard in a session, in a playlist, unliked) kept their old data
+        if (liked) {
+            for (let i = 0; i < songs.length; i++) {
+                const node = nodes[i];
+                const data = node && parseNodeData(node.data);
+                if (data && (data.liked_at == null || data.unliked_at)) await this.markSongLiked(node!.id, data.unliked_at ?? null, songs[i].addedAt);
             }
-            songNodes.sort((a, b) => (b.play_count || 0) - (a.play_count || 0));
+        }
 
-            const selected: GraphNode[] = [];
-            const selectedIds = new Set<number>();
+        const trackNodeIds = new Map<string, number>();
+        const trackIds: string[] = [];
+        const edges: EdgeUpsert[] = [];
+        let artistEdgeCount = 0;
+        let genreEdgeCount = 0;
+
+        songs.forEach((song, i) => {
+            const songNode = nodes[i];
+            if (!songNode) return;
+            trackNodeIds.set(song.trackId, songNode.id);
+            trackIds.push(song.trackId);
+
+            const artistData = song.primaryArtistId ? artistDetailsMap.get(song.primaryArtistId) : null;
+            const artistNode = artistData ? artistToNode.get(artistData.id) : undefined;
+            if (artistNode) {
+                edges.push({ source: songNode.id, target: artistNode.id, type: 'RELATED' });
+                artistEdgeCount++;
+            }
+            for (const genreName of artistData?.genres ?? []) {
+                const genreNode = genreToNode.get(genreName);
+                if (!genreNode) continue;
+                edges.push({ source: songNode.id, target: genreNode.id, type: 'HAS_GENRE' });
+                genreEdgeCount++;
+            }
 
-            // 1. Pick top one
-            if (songNodes.length === 0) return [];
-            selected.push(songNodes[0]);
-            selectedIds.add(songNodes[0].id);
+            const albumNode = song.albumId ? albumToNode.get(song.albumId) : undefined;
+            if (albumNode) edges.push({ source: songNode.id, target: albumNode.id, type: 'IN_ALBUM' });
+            const eraNode = song.releaseYear ? eraToNode.get(GraphService.eraOf(song.releaseYear)) : undefined;
+            if (eraNode) edges.push({ source: songNode.id, target: eraNode.id, type: 'FROM_ERA' });
+        });
+        // 'max': a song added twice (resumed ingestion chunk, playlist re-import) keeps its weights
+        await this.connectEdgesBatch(edges, 'max');
+        await this.linkGenreHierarchy(Array.from(genreToNode.values()));
+        report(songs.length);
+
+        console.log(`[GraphService] Graph links: ${artistToNode.size} artists, ${genreToNode.size} genres, ${albumToNode.size} albums, ${eraToNode.size} eras, ${artistEdgeCount} SONG→ARTIST, ${genreEdgeCount} SONG→GENRE`);
+
+        // ===== 4. Audio features + HAS_FEATURE =====
+        initStore.setStatusMessage('Analyzing audio features...');
+        report(0);
+        const audioFeatures = await spotifyRemote.getAudioFeaturesBatch(trackIds);
+        const entries: { nodeId: number; features: Record<string, any> }[] = [];
+        audioFeatures.forEach((features: Record<string, any> | null, i: number) => {
+            const nodeId = trackNodeIds.get(trackIds[i]);
+            if (features && nodeId) entries.push({ nodeId, features });
+        });
+        await this.storeAudioFeatures(entries);
+        report(songs.length);
 
-            // 2. Pick others with artist diversity
-            for (let i = 1; i < songNodes.length && selected.length < limit; i++) {
-                const cand = songNodes[i];
-                const candData = typeof cand.data === 'string' ? JSON.parse(cand.data || '{}') : (cand.data || {});
-                const sameArtist = selected.some(s => {
-                    const sData = typeof s.data === 'string' ? JSON.parse(s.data || '{}') : (s.data || {});
-                    return sData.artist === candData.artist;
-                });
-                if (!sameArtist) {
-                    selected.push(cand);
-                    selectedIds.add(cand.id);
+        return Array.from(trackNodeIds.values());
+    }
+
+    /**
+     * Incremental Liked Songs re-sync (after the initial ingestion).
+     * Pages newest-first; songs liked since the last sync are added. The rest of the library is
+     * paged too, so the liked ids can be diffed against the graph: removed likes are tombstoned
+     * (`unliked_at`) and their edge weights dropped, re-liked songs get their weights back.
+     * Runs the full ingestion instead if it never completed.
+     */
+    async syncLikedSongs(): Promise<{ added: number; removed: number }> {
+        if (this.likedSyncInFlight) return this.likedSyncInFlight;
+        this.likedSyncInFlight = this.runLikedSongsSync().finally(() => {
+            this.likedSyncInFlight = null;
+        });
+        return this.likedSyncInFlight;
+    }
+
+    private async runLikedSongsSync(): Promise<{ added: number; removed: number }> {
+        const { spotifyRemote } = require('@/services/spotify/SpotifyRemoteService');
+        const initStore = require('@/stores/InitializationStore').useInitializationStore.getState();
+
+        if ((await dbService.getPreference('graph_ingested_liked')) !== 'true') {
+            await this.ingestLikedSongs();
+            return { added: (await this.loadLikedSongNodes()).liked.size, removed: 0 };
+        }
+
+        try {
+            const cursor = Number(await dbService.getPreference(GraphService.LIKED_SYNC_CURSOR_PREF_KEY)) || 0;
+            const { liked, bySpotifyId, unliked } = await this.loadLikedSongNodes();
+
+            // ===== 1. Page newest-first until we reach songs the last sync already saw =====
+            initStore.setStatusMessage('Checking liked songs...');
+            const PAGE_SIZE = 50;
+            const fresh: LikedSongRef[] = [];
+            const seen = new Set<string>();
+            let total = 0;
+            let offset = 0;
+            let reachedCursor = false;
+            let newestAddedAt = cursor;
+
+            const fetchPage = async (): Promise<any[] | null> => {
+                const page = await spotifyRemote.getUserSavedTracks(PAGE_SIZE, offset);
+                if (!page.items?.length) return null;
+                total = page.total;
+                offset += page.items.length;
+                initStore.setProgress({ current: offset, total });
+                return page.items;
+            };
+
+            do {
+                const items = await fetchPage();
+                if (!items) break;
+                for (const item of items) {
+                    const song = GraphService.toLikedSong(item);
+                    if (!song) continue;
+                    seen.add(song.trackId);
+                    if (cursor && song.addedAt <= cursor) {
+                        reachedCursor = true;
+                        continue;
+                    }
+                    newestAddedAt = Math.max(newestAddedAt, song.addedAt);
+                    if (!liked.has(song.trackId)) fresh.push(song);
                 }
+            } while (!reachedCursor && offset < total);
+            // An empty first page is indistinguishable from an API error: never treat it as complete
+            let complete = offset > 0 && offset >= total;
+
+            // ===== 2. Removals: page the rest of the library so every liked id can be diffed =====
+            // (Spotify's total can't tell: a like and an unlike since the last sync cancel out)
+            if (!complete && offset > 0) {
+                initStore.setStatusMessage('Looking for removed likes...');
+                while (offset < total) {
+                    const items = await fetchPage();
+                    if (!items) break;
+                    for (const item of items) {
+                        const song = GraphService.toLikedSong(item);
+                        if (song) seen.add(song.trackId);
+                    }
+                    await new Promise(r => setTimeout(r, 50));
+                }
+                complete = offset >= total;
             }
 
-            // Fill rest if needed
-            if (selected.length < limit) {
-                for (const c of songNodes) {
-                    if (!selectedIds.has(c.id)) {
-                        selected.push(c);
-                        selectedIds.add(c.id);
-                        if (selected.length >= limit) break;
-                    }
+            // A partial pass (API error mid-way) must never tombstone anything
+            const removedIds = complete
+                ? Array.from(liked.entries()).filter(([spotifyId]) => !seen.has(spotifyId)).map(([, nodeId]) => nodeId)
+                : [];
+
+            // ===== 3. Apply: re-mark known songs, add unknown ones, tombstone removed =====
+            const unknown: LikedSongRef[] = [];
+            for (const song of fresh) {
+                const existingId = bySpotifyId.get(song.trackId);
+                if (existingId !== undefined) {
+                    await this.markSongLiked(existingId, unliked.get(existingId) ?? null, song.addedAt);
+                } else {
+                    unknown.push(song);
                 }
             }
+            if (unknown.length > 0) {
+                const nodeIds = await this.addSongs(unknown, spotifyRemote, initStore);
+                initStore.setStatusMessage('Linking similar songs...');
+                await this.linkSimilarSongs(nodeIds, false);
+            }
+
+            const now = Date.now();
+            for (const nodeId of removedIds) {
+                await this.updateNodeData(nodeId, { unliked_at: now });
+                await this.scaleNodeEdgeWeights(nodeId, GraphService.UNLIKED_EDGE_WEIGHT_FACTOR);
+            }
 
-            return selected;
+            if (fresh.length > 0 || removedIds.length > 0) {
+                this.persistToStorage();
+                this.invalidateCache();
+            }
+            await dbService.setPreference(GraphService.LIKED_SYNC_CURSOR_PREF_KEY, String(newestAddedAt));
+
+            initStore.setStatusMessage(`Liked songs synced: ${fresh.length} added, ${removedIds.length} removed`);
+            console.log(`[GraphService] Liked songs sync: ${fresh.length} added (${unknown.length} new nodes), ${removedIds.length} removed`);
+            return { added: fresh.length, removed: removedIds.length };
+        } catch (e) {
+            console.error('[GraphService] syncLikedSongs Error', e);
+            throw e;
+        }
+    }
+
+    /** Song nodes by spotify id, the subset currently liked (liked_at set, not tombstoned) and the tombstoned ones' unliked_at. */
+    private async loadLikedSongNodes(): Promise<{ liked: Map<string, number>; bySpotifyId: Map<string, number>; unliked: Map<number, number> }> {
+        const songs = await this.loadNodesByType('SONG');
+        const liked = new Map<string, number>();
+        const bySpotifyId = new Map<string, number>();
+        const unliked = new Map<number, number>();
+        for (const n of songs) {
+            if (!n.spotify_id) continue;
+            bySpotifyId.set(n.spotify_id, n.id);
+            const data = parseNodeData(n.data) ?? {};
+            if (data.unliked_at) unliked.set(n.id, data.unliked_at);
+            else if (data.liked_at != null) liked.set(n.spotify_id, n.id);
+        }
+        return { liked, bySpotifyId, unliked };
+    }
+
+    /**
+     * Mark an existing song liked. A tombstoned one (unlikedAt set) also gets back the edge weight
+     * its unlike took: only on edges left untouched since then, and not on SIMILAR edges (the kNN
+     * sets those afresh), so nothing written while it was unliked is inflated.
+     */
+    private async markSongLiked(nodeId: number, unlikedAt: number | null, addedAt: number): Promise<void> {
+        await this.updateNodeData(nodeId, { liked_at: addedAt, unliked_at: null });
+        if (unlikedAt) {
+            await this.scaleNodeEdgeWeights(nodeId, 1 / GraphService.UNLIKED_EDGE_WEIGHT_FACTOR, { skipTypes: ['SIMILAR'], notUpdatedAfter: unlikedAt });
+        }
+    }
+
+    /**
+     * Scale the weight of every edge touching a node, except HAS_FEATURE (those hold feature values)
+     * and `skipTypes`; with `notUpdatedAfter`, only edges last written at or before that time.
+     */
+    private async scaleNodeEdgeWeights(
+        nodeId: number,
+        factor: number,
+        { skipTypes = [], notUpdatedAfter }: { skipTypes?: EdgeType[]; notUpdatedAfter?: number } = {}
+    ): Promise<void> {
+        const skipped = new Set<EdgeType>(['HAS_FEATURE', ...skipTypes]);
+        if (!dbService.database) {
+            for (const edge of this.memoryEdges) {
+                if ((edge.source === nodeId || edge.target === nodeId) && !skipped.has(edge.type)
+                    && (notUpdatedAfter === undefined || (edge.updated_at ?? 0) <= notUpdatedAfter)) {
+                    edge.weight *= factor;
+                }
+            }
+            return;
         }
 
         try {
-            // Fetch candidates (Top 50 played/connected)
-            const candidates = await dbService.database.getAllAsync<any>(
-                `SELECT * FROM graph_nodes WHERE type = 'SONG' ORDER BY play_count DESC, id DESC LIMIT 50`
+            const types = Array.from(skipped).map(t => `'${t}'`).join(', ');
+            await dbService.database.runAsync(
+                `UPDATE graph_edges SET weight = weight * ?
+                 WHERE (source_id = ? OR target_id = ?) AND type NOT IN (${types})`
+                + (notUpdatedAfter === undefined ? '' : ' AND COALESCE(updated_at, 0) <= ?'),
+                notUpdatedAfter === undefined ? [factor, nodeId, nodeId] : [factor, nodeId, nodeId, notUpdatedAfter]
             );
+        } catch (e) {
+            console.error('[GraphService] scaleNodeEdgeWeights Error', e);
+        }
+    }
 
-            if (candidates.length === 0) return [];
+    /**
+     * The user's playlists (owned and followed) for the playlist picker.
+     * `ingested` marks the ones that already have a PLAYLIST node.
+     */
+    async getPlaylistChoices(): Promise<PlaylistChoice[]> {
+        const { spotifyRemote } = require('@/services/spotify/SpotifyRemoteService');
+        const known = new Set((await this.loadNodesByType('PLAYLIST')).map(n => n.spotify_id));
+
+        const choices: PlaylistChoice[] = [];
+        const PAGE_SIZE = 50;
+        let offset = 0;
+        let total = 0;
+        do {
+            const page = await spotifyRemote.getUserPlaylists(PAGE_SIZE, offset);
+            if (!page.items?.length) break;
+            total = page.total;
+            offset += page.items.length;
+            for (const p of page.items) {
+                if (!p?.id) continue;
+                choices.push({
+                    id: p.id,
+                    name: p.name || 'Untitled',
+                    owner: p.owner?.display_name ?? p.owner?.id ?? '',
+                    trackCount: p.tracks?.total ?? 0,
+                    snapshotId: p.snapshot_id ?? null,
+                    ingested: known.has(p.id),
+                });
+            }
+        } while (offset < total);
+        return choices;
+    }
 
-            const selected: any[] = [];
-            const selectedIds = new Set<number>();
+    /**
+     * Every song of a playlist. `complete` is false when a page failed (see getPlaylistTracks()),
+     * so the caller can tell a partial read from the whole playlist; an empty playlist is complete.
+     */
+    private async fetchPlaylistTracks(spotifyRemote: any, playlistId: string): Promise<{ tracks: LikedSongRef[]; complete: boolean }> {
+        const tracks: LikedSongRef[] = [];
+        const PAGE_SIZE = 100;
+        let offset = 0;
+        let total = 0;
+        do {
+            const page = await spotifyRemote.getPlaylistTracks(playlistId, PAGE_SIZE, offset);
+            if (page.failed) return { tracks, complete: false };
+            if (!page.items?.length) break; // Empty, or shrank while paging
+            total = page.total;
+            offset += page.items.length;
+            for (const item of page.items) {
+                if (item?.is_local || item?.track?.type === 'episode') continue;
+                const song = GraphService.toLikedSong(item);
+                if (song) tracks.push(song);
+            }
+        } while (offset < total);
+        return { tracks, complete: true };
+    }
 
-            // 1. Pick top one
-            const first = candidates[0];
-            selected.push(first);
-            selectedIds.add(first.id);
+    /** Ids of the songs currently linked to a playlist node. */
+    private async getPlaylistMemberIds(playlistNodeId: number): Promise<Set<number>> {
+        if (!dbService.database) {
+            return new Set(this.memoryEdges
+                .filter(e => e.type === 'IN_PLAYLIST' && e.target === playlistNodeId)
+                .map(e => e.source));
+        }
+        const rows = await dbService.database.getAllAsync<{ source_id: number }>(
+            `SELECT source_id FROM graph_edges WHERE target_id = ? AND type = 'IN_PLAYLIST'`,
+            [playlistNodeId]
+        );
+        return new Set((rows || []).map(r => r.source_id));
+    }
 
-            // 2. Pick others that are NOT connected to selected (Simple Diversity)
-            for (let i = 1; i < candidates.length && selected.length < limit; i++) {
-                const cand = candidates[i];
-                const candData = JSON.parse(cand.data || '{}');
+    /** Unlink songs that were taken off a playlist (their IN_PLAYLIST edge to it). */
+    private async removePlaylistMembers(playlistNodeId: number, songIds: number[]): Promise<void> {
+        if (songIds.length === 0) return;
+        this.structureVersion++;
 
-                const sameArtist = selected.some(s => {
-                    const sData = JSON.parse(s.data || '{}');
-                    return sData.artist === candData.artist;
-                });
+        if (!dbService.database) {
+            const ids = new Set(songIds);
+            this.memoryEdges = this.memoryEdges.filter(e => e.type !== 'IN_PLAYLIST' || e.target !== playlistNodeId || !ids.has(e.source));
+            this.rebuildEdgeIndex();
+            return;
+        }
+        for (let i = 0; i < songIds.length; i += GraphService.BATCH_LOOKUP_CHUNK) {
+            const chunk = songIds.slice(i, i + GraphService.BATCH_LOOKUP_CHUNK);
+            await dbService.database.runAsync(
+                `DELETE FROM graph_edges WHERE type = 'IN_PLAYLIST' AND target_id = ? AND source_id IN (${chunk.map(() => '?').join(',')})`,
+                [playlistNodeId, ...chunk]
+            );
+        }
+    }
+
+    /**
+     * Ingest hand-picked playlists: a PLAYLIST node each, IN_PLAYLIST edges from its songs and
+     * NEXT edges following playlist order. Songs not yet in the graph get the liked-songs
+     * treatment (artist, genres, audio features, SIMILAR) without being marked liked.
+     * Playlists whose snapshot is unchanged since the last ingestion are skipped; on a changed
+     * playlist only new members add edges, so re-ingesting never inflates weights, and (when the
+     * whole playlist was read) songs taken off it lose their IN_PLAYLIST edge.
+     */
+    async ingestPlaylists(playlists: PlaylistChoice[]): Promise<{ playlists: number; songs: number }> {
+        const { spotifyRemote } = require('@/services/spotify/SpotifyRemoteService');
+        const initStore = require('@/stores/InitializationStore').useInitializationStore.getState();
+
+        const playlistNodes = new Map<string, GraphNode>();
+        for (const n of await this.loadNodesByType('PLAYLIST')) {
+            if (n.spotify_id) playlistNodes.set(n.spotify_id, n);
+        }
+        const { bySpotifyId } = await this.loadLikedSongNodes();
+        const addedSongIds: number[] = [];
+        let ingested = 0;
+
+        for (let i = 0; i < playlists.length; i++) {
+            const playlist = playlists[i];
+            const existing = playlistNodes.get(playlist.id);
+            const existingData = existing
+                ? (parseNodeData(existing.data) ?? {})
+                : null;
+            if (existingData && playlist.snapshotId && existingData.snapshot_id === playlist.snapshotId) continue;
+
+            initStore.setStatusMessage(`Reading "${playlist.name}"...`);
+            initStore.setProgress({ current: i, total: playlists.length });
+            const { tracks, complete } = await this.fetchPlaylistTracks(spotifyRemote, playlist.id);
+
+            const fresh = new Map<string, LikedSongRef>();
+            for (const t of tracks) {
+                if (!bySpotifyId.has(t.trackId)) fresh.set(t.trackId, t);
+            }
+            if (fresh.size > 0) {
+                const ids = await this.addSongs(Array.from(fresh.values()), spotifyRemote, initStore, { liked: false });
+                addedSongIds.push(...ids);
+            }
+
+            const [playlistNode, ...songNodes] = await this.upsertNodesBatch([
+                { type: 'PLAYLIST', name: playlist.name, spotifyId: playlist.id },
+                ...tracks.map(t => ({ type: 'SONG' as const, name: t.trackName, spotifyId: t.trackId, data: { artist: t.primaryArtistName } })),
+            ]);
+            if (!playlistNode) continue;
+            // The snapshot marks the playlist as read: after a partial read it must be read again next time
+            await this.updateNodeData(playlistNode.id, {
+                owner: playlist.owner,
+                ...(complete && { track_count: tracks.length, snapshot_id: playlist.snapshotId }),
+            });
 
-                if (!sameArtist) {
-                    selected.push(cand);
-                    selectedIds.add(cand.id);
+            const members = existing ? await this.getPlaylistMemberIds(playlistNode.id) : new Set<number>();
+            const edges: EdgeUpsert[] = [];
+            let prev: { id: number; isNew: boolean } | null = null;
+            for (const songNode of songNodes) {
+                if (!songNode) continue;
+                bySpotifyId.set(songNode.spotify_id!, songNode.id);
+                const isNew = !members.has(songNode.id);
+                if (isNew) {
+                    edges.push({ source: songNode.id, target: playlistNode.id, type: 'IN_PLAYLIST' });
+                    members.add(songNode.id);
+                }
+                // Transitions already linked by an earlier ingestion are left alone
+                if (prev && prev.id !== songNode.id && (isNew || prev.isNew)) {
+                    edges.push({ source: prev.id, target: songNode.id, type: 'NEXT' });
                 }
+                prev = { id: songNode.id, isNew };
+            }
+            await this.connectEdgesBatch(edges);
+            if (complete && existing) {
+                const current = new Set(songNodes.filter((n): n is GraphNode => !!n).map(n => n.id));
+                await this.removePlaylistMembers(playlistNode.id, Array.from(members).filter(id => !current.has(id)));
+            }
+            ingested++;
+        }
+
+        if (addedSongIds.length > 0) await this.linkSimilarSongs(addedSongIds, false);
+        this.persistToStorage();
+        this.invalidateCache();
+        initStore.setProgress({ current: playlists.length, total: playlists.length });
+        console.log(`[GraphService] Ingested ${ingested} playlists (${addedSongIds.length} new songs)`);
+        return { playlists: ingested, songs: addedSongIds.length };
+    }
+
+    /** Playlists with the most songs in the graph (taste context for prompts). */
+    async getTopPlaylists(limit: number = 5): Promise<{ name: string; songCount: number }[]> {
+        return this.getTopGroups('PLAYLIST', 'IN_PLAYLIST', limit);
+    }
+
+    /** Release decades with the most songs in the graph, e.g. `{ name: '1990s', songCount: 42 }`. */
+    async getTopEras(limit: number = 3): Promise<{ name: string; songCount: number }[]> {
+        return this.getTopGroups('ERA', 'FROM_ERA', limit);
+    }
+
+    /** Nodes of `type` ranked by how many distinct songs point at them through `edgeType`. */
+    private async getTopGroups(type: NodeType, edgeType: EdgeType, limit: number): Promise<{ name: string; songCount: number }[]> {
+        if (!dbService.database) {
+            const members = new Map<number, Set<number>>();
+            for (const edge of this.memoryEdges) {
+                if (edge.type !== edgeType || this.memoryNodes.get(edge.target)?.type !== type) continue;
+                if (!members.has(edge.target)) members.set(edge.target, new Set());
+                members.get(edge.target)!.add(edge.source);
+            }
+            return Array.from(members.entries())
+                .map(([id, songs]) => ({ name: this.memoryNodes.get(id)!.name, songCount: songs.size }))
+                .sort((a, b) => b.songCount - a.songCount)
+                .slice(0, limit);
+        }
+
+        try {
+            const results = await dbService.database.getAllAsync<any>(
+                `SELECT tn.name, COUNT(DISTINCT e.source_id) as song_count
+                 FROM graph_edges e
+                 JOIN graph_nodes tn ON e.target_id = tn.id AND tn.type = ?
+                 WHERE e.type = ?
+                 GROUP BY tn.id
+                 ORDER BY song_count DESC
+                 LIMIT ?`,
+                [type, edgeType, limit]
+            );
+            return (results || []).map((r: any) => ({ name: r.name, songCount: r.song_count }));
+        } catch (e) {
+            console.error(`[GraphService] getTopGroups(${type}) Error`, e);
+            return [];
+        }
+    }
+
+    /** Preference key: `played_at` (ms) of the newest recently-played entry already imported. */
+    private static readonly RECENTLY_PLAYED_CURSOR_PREF_KEY = 'graph_recently_played_cursor';
+
+    /**
+     * How far a Moodify log may sit from a Spotify play of the same track, on top of the track's
+     * duration, and still be that play (Moodify logs when a track ends, Spotify when it starts).
+     */
+    private static readonly RECENT_PLAY_MATCH_SLACK_MS = 2 * 60 * 1000;
+
+    /** Add `count` plays to a node; last_played_at only moves forward. */
+    private async addPlays(nodeId: number, count: number, lastPlayedAt: number): Promise<void> {
+        if (!dbService.database) {
+            const node = this.memoryNodes.get(nodeId);
+            if (node) {
+                node.play_count = (node.play_count || 0) + count;
+                node.last_played_at = Math.max(node.last_played_at || 0, lastPlayedAt);
             }
+            return;
+        }
 
-            // Fill rest if needed
-            if (selected.length < limit) {
-                for (const c of candidates) {
-                    if (!selectedIds.has(c.id)) {
-                        selected.push(c);
-                        selectedIds.add(c.id);
-                        if (selected.length >= limit) break;
+        try {
+            await dbService.database.runAsync(
+                `UPDATE graph_nodes SET play_count = play_count + ?, last_played_at = MAX(COALESCE(last_played_at, 0), ?)
+                 WHERE id = ?`,
+                [count, lastPlayedAt, nodeId]
+            );
+        } catch (e) {
+            console.error('[GraphService] addPlays Error', e);
+        }
+    }
+
+    /**
+     * Import plays made outside Moodify (Spotify's recently-played history) since the last import:
+     * play counts and last_played_at on SONG nodes, plus NEXT edges between consecutive songs of
+     * each contiguous listening session. Songs new to the graph get the playlist treatment
+     * (artist, genres, audio features, SIMILAR). Plays Moodify itself logged are skipped, since
+     * their session is committed to the graph already: each Moodify log absorbs one Spotify play
+     * of the same track near its time. After a partial fetch nothing is imported and the cursor
+     * stays put, so the next import reads the whole window again.
+     */
+    async importRecentlyPlayed(): Promise<{ plays: number; sessions: number }> {
+        const { spotifyRemote } = require('@/services/spotify/SpotifyRemoteService');
+        const initStore = require('@/stores/InitializationStore').useInitializationStore.getState();
+
+        try {
+            const cursor = Number(await dbService.getPreference(GraphService.RECENTLY_PLAYED_CURSOR_PREF_KEY)) || 0;
+            const { items, complete }: { items: RecentlyPlayedItem[]; complete: boolean } = await spotifyRemote.getRecentlyPlayed(cursor);
+            if (!complete) {
+                console.warn('[GraphService] Recently played history only partly read, import postponed');
+                return { plays: 0, sessions: 0 };
+            }
+            if (items.length === 0) return { plays: 0, sessions: 0 };
+
+            const plays: { song: LikedSongRef; playedAt: number; durationMs?: number }[] = [];
+            for (const item of items) {
+                const song = GraphService.toLikedSong({ track: item.track, added_at: item.played_at });
+                if (song) plays.push({ song, playedAt: song.addedAt, durationMs: item.track.duration_ms });
+            }
+            await this.dropPlaysLoggedByMoodify(plays);
+
+            if (plays.length === 0) {
+                await this.setRecentlyPlayedCursor(items);
+                return { plays: 0, sessions: 0 };
+            }
+
+            const { bySpotifyId } = await this.loadLikedSongNodes();
+            const fresh = new Map<string, LikedSongRef>();
+            for (const { song } of plays) {
+                if (!bySpotifyId.has(song.trackId)) fresh.set(song.trackId, song);
+            }
+            const addedSongIds = fresh.size > 0
+                ? await this.addSongs(Array.from(fresh.values()), spotifyRemote, initStore, { liked: false })
+                : [];
+
+            const nodes = await this.upsertNodesBatch(plays.map(({ song }) => ({
+                type: 'SONG' as const,
+                name: song.trackName,
+                spotifyId: song.trackId,
+                data: { artist: song.primaryArtistName },
+            })));
+            const nodeIdByTrack = new Map<string, number>();
+            nodes.forEach((node, i) => {
+                if (node) nodeIdByTrack.set(plays[i].song.trackId, node.id);
+            });
+
+            // Play stats per song
+            const stats = new Map<number, { count: number; lastPlayedAt: number }>();
+            for (const { song, playedAt } of plays) {
+                const nodeId = nodeIdByTrack.get(song.trackId);
+                if (nodeId == null) continue;
+                const s = stats.get(nodeId) ?? { count: 0, lastPlayedAt: 0 };
+                stats.set(nodeId, { count: s.count + 1, lastPlayedAt: Math.max(s.lastPlayedAt, playedAt) });
+            }
+            for (const [nodeId, { count, lastPlayedAt }] of stats) {
+                await this.addPlays(nodeId, count, lastPlayedAt);
+            }
+
+            // NEXT edges within each contiguous session
+            const sessions = splitIntoSessions(plays);
+            const edges: EdgeUpsert[] = [];
+            for (const session of sessions) {
+                for (let i = 1; i < session.length; i++) {
+                    const prevId = nodeIdByTrack.get(session[i - 1].song.trackId);
+                    const nextId = nodeIdByTrack.get(session[i].song.trackId);
+                    if (prevId != null && nextId != null && prevId !== nextId) {
+                        edges.push({ source: prevId, target: nextId, type: 'NEXT' });
                     }
                 }
             }
+            await this.connectEdgesBatch(edges);
+
+            if (addedSongIds.length > 0) await this.linkSimilarSongs(addedSongIds, false);
+            this.persistToStorage();
+            this.invalidateCache();
+            console.log(`[GraphService] Imported ${plays.length} recent plays in ${sessions.length} sessions (${addedSongIds.length} new songs)`);
+            await this.setRecentlyPlayedCursor(items);
+            return { plays: plays.length, sessions: sessions.length };
+        } catch (e) {
+            console.error('[GraphService] importRecentlyPlayed Error', e);
+            return { plays: 0, sessions: 0 };
+        }
+    }
+
+    /**
+     * Remove (in place) the plays Moodify logged itself. Matching is one-to-one, closest first:
+     * a track played twice in the window but logged once is still imported once.
+     */
+    private async dropPlaysLoggedByMoodify(plays: { song: LikedSongRef; playedAt: number; durationMs?: number }[]): Promise<void> {
+        if (plays.length === 0) return;
+        const window = (durationMs?: number) => (durationMs ?? 0) + GraphService.RECENT_PLAY_MATCH_SLACK_MS;
+        const since = Math.min(...plays.map(p => p.playedAt - window(p.durationMs)));
+        const logsByTrack = new Map<string, number[]>();
+        for (const log of await dbService.getLoggedPlaysSince(since)) {
+            const times = logsByTrack.get(log.trackId) ?? [];
+            times.push(log.playedAt);
+            logsByTrack.set(log.trackId, times);
+        }
+
+        const logged = new Set<number>();
+        for (let i = 0; i < plays.length; i++) {
+            const times = logsByTrack.get(plays[i].song.trackId);
+            if (!times?.length) continue;
+            let best = -1;
+            for (let j = 0; j < times.length; j++) {
+                const diff = Math.abs(times[j] - plays[i].playedAt);
+                if (diff <= window(plays[i].durationMs) && (best < 0 || diff < Math.abs(times[best] - plays[i].playedAt))) best = j;
+            }
+            if (best < 0) continue;
+            times.splice(best, 1);
+            logged.add(i);
+        }
+        if (logged.size === 0) return;
+        const kept = plays.filter((_, i) => !logged.has(i));
+        plays.splice(0, plays.length, ...kept);
+    }
+
+    private async setRecentlyPlayedCursor(items: RecentlyPlayedItem[]): Promise<void> {
+        const newest = items.reduce((max, item) => Math.max(max, Date.parse(item.played_at) || 0), 0);
+        if (newest > 0) await dbService.setPreference(GraphService.RECENTLY_PLAYED_CURSOR_PREF_KEY, String(newest));
+    }
+
+    /** Edge types that express taste affinity; community detection runs over these only. */
+    private static readonly CLUSTER_EDGE_TYPES: ReadonlySet<EdgeType> = new Set<EdgeType>(['SIMILAR', 'NEXT', 'RELATED', 'HAS_GENRE']);
+
+    /**
+     * What detected clusters are valid for: the graph's nodes, taste edges and structureVersion.
+     * Weight updates (commits, skips, plays) don't change it, so they don't rerun Louvain.
+     */
+    private clusterKey(nodes: GraphNode[], edges: GraphEdge[]): string {
+        const linked = edges.reduce((count, e) => count + (GraphService.CLUSTER_EDGE_TYPES.has(e.type) ? 1 : 0), 0);
+        return `${this.structureVersion}:${nodes.length}:${linked}`;
+    }
+
+    /** Re-detect taste clusters if the graph's structure changed since the last run. */
+    private async refreshTasteClusters(): Promise<void> {
+        const { nodes, edges } = await this.getGraphSnapshot();
+        if (this.clustersKey !== this.clusterKey(nodes, edges)) await this.detectTasteClusters();
+    }
+
+    /**
+     * Detect taste clusters (Louvain communities over SIMILAR/NEXT/RELATED/HAS_GENRE edges,
+     * using decayed weights) and persist the cluster id on every node.
+     * Runs lazily from getClusterRepresentatives() after the graph's structure changed.
+     */
+    async detectTasteClusters(): Promise<Map<number, number>> {
+        const { nodes, edges } = await this.getGraphSnapshot(true);
+        const now = Date.now();
+        const halfLife = await this.getEdgeHalfLifeDays();
+
+        const clusterEdges = edges
+            .filter(e => GraphService.CLUSTER_EDGE_TYPES.has(e.type))
+            .map(e => ({
+                source: e.source,
+                target: e.target,
+                weight: decayEdgeWeight(e.weight, e.type, e.updated_at, halfLife, now),
+            }));
+        const clusters = detectCommunities(nodes.map(n => n.id), clusterEdges);
+
+        // Most nodes keep their cluster between runs; only write the ones that moved
+        const changed = nodes
+            .filter(n => (n.cluster_id ?? null) !== (clusters.get(n.id) ?? null))
+            .map(n => [n.id, clusters.get(n.id) ?? null] as const);
+        if (changed.length > 0) this.structureVersion++;
+
+        if (!dbService.database) {
+            for (const [nodeId, clusterId] of changed) {
+                const node = this.memoryNodes.get(nodeId);
+                if (node) node.cluster_id = clusterId;
+            }
+            if (changed.length) this.persistToStorage();
+        } else if (changed.length) {
+            try {
+                const db = dbService.database;
+                await db.withTransactionAsync(async () => {
+                    for (let i = 0; i < changed.length; i += GraphService.BATCH_LOOKUP_CHUNK) {
+                        const chunk = changed.slice(i, i + GraphService.BATCH_LOOKUP_CHUNK);
+                        await db.runAsync(
+                            `UPDATE graph_nodes SET cluster_id = CASE id ${chunk.map(() => 'WHEN ? THEN ?').join(' ')} END
+                             WHERE id IN (${chunk.map(() => '?').join(',')})`,
+                            [...chunk.flat(), ...chunk.map(([nodeId]) => nodeId)]
+                        );
+                    }
+                });
+            } catch (e) {
+                console.error('[GraphService] detectTasteClusters Error', e);
+            }
+        }
+
+        this.clustersKey = this.clusterKey(nodes, edges); // After the bump above: moved clusters aren't a new structure
+        this.snapshotCache = null; // Snapshot rows predate the new cluster ids
+        console.log(`[GraphService] Detected ${new Set(clusters.values()).size} taste clusters over ${clusters.size} nodes`);
+        return clusters;
+    }
+
+    /**
+     * Representative songs of the user's taste clusters.
+     * Slots are allocated to clusters in proportion to their size (D'Hondt), so big facets get
+     * more songs and small ones still show up; within a cluster the most-played songs win,
+     * preferring artists not already picked. Disliked songs never represent a cluster.
+     */
+    async getClusterRepresentatives(limit: number = 8): Promise<GraphNode[]> {
+        try {
+            await this.refreshTasteClusters();
+
+            let songs: GraphNode[];
+            if (!dbService.database) {
+                songs = Array.from(this.memoryNodes.values()).filter(n => n.type === 'SONG');
+            } else {
+                const rows = await dbService.database.getAllAsync<any>(`SELECT * FROM graph_nodes WHERE type = 'SONG'`);
+                songs = (rows || []).map(r => ({ ...r, data: parseNodeData(r.data) ?? {} }));
+            }
 
-            return selected.map(s => ({ ...s, data: JSON.parse(s.data || '{}') }));
+            return GraphService.pickClusterRepresentatives(songs, limit);
         } catch (e) {
             console.error('[GraphService] Cluster Reps Error', e);
             return [];
         }
     }
 
+    private static pickClusterRepresentatives(songs: GraphNode[], limit: number): GraphNode[] {
+        const artistOf = (n: GraphNode): string => {
+            const d = parseNodeData(n.data) ?? {};
+            return d.artist || '';
+        };
+        const byPlays = (a: GraphNode, b: GraphNode) => (b.play_count || 0) - (a.play_count || 0) || b.id - a.id;
+
+        // Unclustered songs (added since the last detection) stand alone
+        const groups = new Map<string, GraphNode[]>();
+        for (const s of songs) {
+            if (isDisliked(s.dislike_score, s.play_count)) continue;
+            const key = s.cluster_id != null ? `c${s.cluster_id}` : `s${s.id}`;
+            const group = groups.get(key);
+            if (group) group.push(s);
+            else groups.set(key, [s]);
+        }
+        const clusters = Array.from(groups.values()).map(members => ({
+            size: members.length,
+            remaining: members.sort(byPlays),
+            picked: 0,
+        }));
+
+        const selected: GraphNode[] = [];
+        const pickedArtists = new Set<string>();
+        while (selected.length < limit) {
+            let best: { cluster: (typeof clusters)[number]; index: number; quotient: number; fresh: boolean } | null = null;
+
+            for (const cluster of clusters) {
+                if (cluster.remaining.length === 0) continue;
+                const freshIdx = cluster.remaining.findIndex(s => !pickedArtists.has(artistOf(s)));
+                const index = freshIdx >= 0 ? freshIdx : 0;
+                const quotient = cluster.size / (cluster.picked + 1);
+                const fresh = freshIdx >= 0;
+
+                const better = !best
+                    || quotient > best.quotient
+                    || (quotient === best.quotient && fresh && !best.fresh)
+                    || (quotient === best.quotient && fresh === best.fresh
+                        && byPlays(cluster.remaining[index], best.cluster.remaining[best.index]) < 0);
+                if (better) best = { cluster, index, quotient, fresh };
+            }
+
+            if (!best) break;
+            const [song] = best.cluster.remaining.splice(best.index, 1);
+            best.cluster.picked++;
+            pickedArtists.add(artistOf(song));
+            selected.push(song);
+        }
+
+        return selected;
+    }
+
     /**
      * Get a rich taste profile for Gemini prompts.
      * Returns cluster reps, top genres, recent vibes, and average audio profile.
      */
     async getTasteProfile(): Promise<{
-        clusterReps: { name: string; artist: string; playCount: number }[];
+        clusterReps: { name: string; artist: string; playCount: number; cluster?: number }[];
         topGenres: { name: string; songCount: number }[];
+        topPlaylists: { name: string; songCount: number }[];
+        topEras: { name: string; songCount: number }[];
         recentVibes: string[];
         audioProfile: { energy: number; valence: number; danceability: number } | null;
+        nowContext: { label: string; vibes: string[] };
     }> {
         // 1. Cluster representatives (6, up from 4)
         const reps = await this.getClusterRepresentatives(6);
         const clusterReps = reps.map(r => {
-            const data = typeof r.data === 'string' ? JSON.parse(r.data || '{}') : (r.data || {});
-            return { name: r.name, artist: data.artist || 'Unknown', playCount: r.play_count || 0 };
+            const data = parseNodeData(r.data) ?? {};
+            return {
+                name: r.name,
+                artist: data.artist || 'Unknown',
+                playCount: r.play_count || 0,
+                ...(r.cluster_id != null && { cluster: r.cluster_id }),
+            };
         });
 
         // 2. Top genres (8)
         const genres = await this.getTopGenres(8);
         const topGenres = genres.map(g => ({ name: g.name, songCount: g.songCount }));
 
-        // 3. Recent vibes (last 5 VIBE nodes by last_played_at)
+        // 2b. Hand-curated playlists (names say a lot about how the user groups music)
+        const topPlaylists = await this.getTopPlaylists(5);
+
+        // 2c. Release decades (lets Gemini shift a vibe to another era of the user's taste)
+        const topEras = await this.getTopEras(3);
+
+        // 3. Recent vibes (last 5 VIBE nodes by last_played_at), near-duplicates merged first
+        if (this.vibesStale) await this.canonicalizeVibes();
         let recentVibes: string[] = [];
         if (!dbService.database) {
             // Memory path
@@ -871,7 +2518,7 @@ export class GraphService {
             let totalE = 0, totalV = 0, totalD = 0, count = 0;
             for (const node of this.memoryNodes.values()) {
                 if (node.type !== 'SONG') continue;
-                const d = typeof node.data === 'string' ? JSON.parse(node.data || '{}') : (node.data || {});
+                const d = parseNodeData(node.data) ?? {};
                 if (typeof d.energy === 'number') {
                     totalE += d.energy;
                     totalV += d.valence || 0;
@@ -911,40 +2558,75 @@ export class GraphService {
             }
         }
 
-        return { clusterReps, topGenres, recentVibes, audioProfile };
+        // 5. Right now (time of day, weekday/weekend) and the vibes usually played then
+        const context = listeningContextOf();
+        const contextVibes = await this.getContextAffinity(context, 'VIBE');
+        const nowContext = { label: describeContext(context), vibes: contextVibes.slice(0, 3).map(v => v.name) };
+
+        return { clusterReps, topGenres, topPlaylists, topEras, recentVibes, audioProfile, nowContext };
     }
 
     /**
      * Commit Session to Graph (works on both SQLite and Memory/Web platforms)
      */
-    async commitSession(vibeName: string, songs: { name: string, artist: string, spotifyId: string, visited: boolean }[]) {
+    async commitSession(
+        vibeName: string,
+        songs: { name: string, artist: string, spotifyId: string, visited: boolean }[],
+        playedAt: number = Date.now()
+    ) {
         const visitedSongs = songs.filter(s => s.visited);
         if (visitedSongs.length === 0) return;
 
-        console.log(`[GraphService] Committing session '${vibeName}' with ${visitedSongs.length} songs`);
-
-        const commitWork = async () => {
-            const vibeNode = await this.getEffectiveNode('VIBE', vibeName, null, {});
+        // Reuse an existing vibe when Gemini just renamed it ("Midnight Drive" → "Late Night Drive")
+        vibeName = await this.resolveVibeName(vibeName, visitedSongs.map(s => s.spotifyId));
+        const contextNames = contextNodeNames(listeningContextOf(playedAt));
+        console.log(`[GraphService] Committing session '${vibeName}' with ${visitedSongs.length} songs (${contextNames.join(' ')})`);
+
+        const songNodes: GraphNode[] = [];
+        // db: inside the SQLite transaction; null for Memory/Web (batches persist once)
+        const commitWork = async (db: GraphDatabase | null) => {
+            const upserts: NodeUpsert[] = [
+                { type: 'VIBE', name: vibeName },
+                ...contextNames.map(name => ({ type: 'CONTEXT' as const, name })),
+                ...visitedSongs.map(song => ({ type: 'SONG' as const, name: song.name, spotifyId: song.spotifyId, data: { artist: song.artist } })),
+            ];
+            const nodes = db
+                ? await this.upsertNodesInTransaction(db, upserts)
+                : await this.upsertNodesBatch(upserts);
+            const vibeNode = nodes[0];
+            const contextNodes = nodes.slice(1, 1 + contextNames.length).filter((n): n is GraphNode => !!n);
+            const resolved = nodes.slice(1 + contextNames.length);
+
+            const edges: EdgeUpsert[] = [];
+            // When this vibe gets played (time of day, weekday/weekend)
+            if (vibeNode) {
+                for (const ctx of contextNodes) edges.push({ source: vibeNode.id, target: ctx.id, type: 'IN_CONTEXT', weight: 1.0 });
+            }
             let prevNodeId: number | null = null;
-
-            for (const song of visitedSongs) {
-                // Ensure Song Node (create or update)
-                const songNode = await this.getEffectiveNode('SONG', song.name, song.spotifyId, { artist: song.artist });
+            for (const songNode of resolved) {
                 if (!songNode) continue;
+                songNodes.push(songNode);
 
-                // Update connection to Vibe (both directions)
+                // Connection to Vibe (both directions)
                 if (vibeNode) {
-                    await this.connectNodes(vibeNode.id, songNode.id, 'RELATED', 2.0);
-                    await this.connectNodes(songNode.id, vibeNode.id, 'RELATED', 2.0);
+                    edges.push({ source: vibeNode.id, target: songNode.id, type: 'RELATED', weight: 2.0 });
+                    edges.push({ source: songNode.id, target: vibeNode.id, type: 'RELATED', weight: 2.0 });
+                }
+                for (const ctx of contextNodes) {
+                    edges.push({ source: songNode.id, target: ctx.id, type: 'IN_CONTEXT', weight: 1.0 });
                 }
 
                 // Link Prev -> Current (Next)
                 if (prevNodeId) {
-                    await this.connectNodes(prevNodeId, songNode.id, 'NEXT', 1.0);
+                    edges.push({ source: prevNodeId, target: songNode.id, type: 'NEXT', weight: 1.0 });
                 }
                 prevNodeId = songNode.id;
+            }
+            if (db) await this.connectEdgesInTransaction(db, edges);
+            else await this.connectEdgesBatch(edges);
 
-                // Record play (play_count + last_played_at)
+            // Record play (play_count + last_played_at)
+            for (const songNode of songNodes) {
                 await this.recordPlay(songNode.id);
             }
         };
@@ -952,22 +2634,42 @@ export class GraphService {
         try {
             if (dbService.database) {
                 // SQLite: wrap in transaction for atomicity
-                await dbService.database.withTransactionAsync(commitWork);
+                const db = dbService.database;
+                await db.withTransactionAsync(() => commitWork(db));
             } else {
                 // Memory/Web: run directly, persist once at end
-                await commitWork();
+                await commitWork(null);
                 this.persistToStorage();
             }
+            this.invalidateCache();
         } catch (e) {
             console.error('[GraphService] Commit Session Failed', e);
+            return;
+        }
+
+        // Outside the transaction: needs the network, and the session is already safe
+        try {
+            if (await this.enrichAudioFeatures(songNodes) > 0) this.invalidateCache();
+        } catch (e) {
+            console.error('[GraphService] Audio enrichment Error', e);
         }
     }
 
     // --- Caching ---
     private snapshotCache: { nodes: GraphNode[]; edges: GraphEdge[] } | null = null;
+    /**
+     * Analytics and the structure they were computed for (see analyticsKey()). invalidateCache()
+     * leaves them alone: commits and skips mostly reweigh edges, which analytics don't depend on.
+     */
+    private analyticsCache: { key: string; analytics: GraphAnalytics } | null = null;
+    private analyticsRun: { key: string; promise: Promise<GraphAnalytics> } | null = null;
+    /** Bumped when edges are deleted, nodes merged or clusters move: changes node/edge counts can miss. */
+    private structureVersion: number = 0;
 
     public invalidateCache() {
         this.snapshotCache = null;
+        this.vibesStale = true;
+        this.vibeNameCache = null;
         console.log('[GraphService] Cache invalidated');
     }
 
@@ -1057,7 +2759,8 @@ export class GraphService {
             // Ensure data is parsed correctly for nodes; map pos_x/pos_y → x/y
             const parsedNodes = nodes.map((n: any) => ({
                 ...n,
-                data: JSON.parse(n.data || '{}'),
+                // Corrupt rows must not take the whole graph down; verifyIntegrity() repairs them
+                data: parseNodeData(n.data) ?? {},
                 x: n.pos_x ?? undefined,
                 y: n.pos_y ?? undefined,
             }));
@@ -1067,7 +2770,8 @@ export class GraphService {
                 source: e.source_id,
                 target: e.target_id,
                 type: e.type as EdgeType,
-                weight: e.weight ?? 1.0
+                weight: e.weight ?? 1.0,
+                ...(e.updated_at != null && { updated_at: e.updated_at }),
             }));
 
             const result = { nodes: parsedNodes, edges };
@@ -1107,63 +2811,207 @@ export class GraphService {
     }
 
     /**
-     * Get top genres ranked by total edge weight and song count.
-     * Used for graph-based fallback when Gemini is unavailable.
+     * Get top genres ranked by total edge weight and song count.
+     * Used for graph-based fallback when Gemini is unavailable.
+     */
+    async getTopGenres(limit: number = 10): Promise<{ name: string; songCount: number; totalWeight: number }[]> {
+        if (!dbService.database) {
+            // Memory path: aggregate HAS_GENRE edges by target genre node
+            const genreStats = new Map<number, { name: string; songCount: Set<number>; totalWeight: number }>();
+
+            for (const edge of this.memoryEdges) {
+                if (edge.type !== 'HAS_GENRE') continue;
+                const targetNode = this.memoryNodes.get(edge.target);
+                if (!targetNode || targetNode.type !== 'GENRE') continue;
+
+                let stats = genreStats.get(edge.target);
+                if (!stats) {
+                    stats = { name: targetNode.name, songCount: new Set(), totalWeight: 0 };
+                    genreStats.set(edge.target, stats);
+                }
+                stats.songCount.add(edge.source);
+                stats.totalWeight += edge.weight;
+            }
+
+            return Array.from(genreStats.values())
+                .map(s => ({ name: s.name, songCount: s.songCount.size, totalWeight: s.totalWeight }))
+                .sort((a, b) => b.totalWeight - a.totalWeight)
+                .slice(0, limit);
+        }
+
+        try {
+            const results = await dbService.database.getAllAsync<any>(
+                `SELECT gn.name, COUNT(DISTINCT ge.source_id) as song_count, SUM(ge.weight) as total_weight
+                 FROM graph_edges ge
+                 JOIN graph_nodes gn ON ge.target_id = gn.id AND gn.type = 'GENRE'
+                 WHERE ge.type = 'HAS_GENRE'
+                 GROUP BY gn.id
+                 ORDER BY total_weight DESC
+                 LIMIT ?`,
+                [limit]
+            );
+
+            return (results || []).map((r: any) => ({
+                name: r.name,
+                songCount: r.song_count,
+                totalWeight: r.total_weight
+            }));
+        } catch (e) {
+            console.error('[GraphService] getTopGenres Error', e);
+            return [];
+        }
+    }
+
+    private genreHierarchyChecked = false;
+
+    /**
+     * Link GENRE nodes to their parent genre (bundled taxonomy, see genreTaxonomy.ts) with
+     * SUBGENRE_OF edges, creating the parent GENRE nodes as needed. Genres that already have a
+     * parent, are a parent themselves or match no rule are left alone.
+     * @param genres genre nodes to link; all GENRE nodes when omitted (backfill)
+     * @returns number of SUBGENRE_OF edges created
+     */
+    async linkGenreHierarchy(genres?: GraphNode[]): Promise<number> {
+        try {
+            const candidates = genres ?? await this.loadNodesByType('GENRE');
+            const linked = new Set<number>();
+            if (!dbService.database) {
+                for (const edge of this.memoryEdges) {
+                    if (edge.type === 'SUBGENRE_OF') linked.add(edge.source);
+                }
+            } else {
+                const rows = await dbService.database.getAllAsync<any>(
+                    `SELECT source_id FROM graph_edges WHERE type = 'SUBGENRE_OF'`
+                );
+                for (const r of rows || []) linked.add(r.source_id);
+            }
+
+            const pending: { genre: GraphNode; parent: string }[] = [];
+            for (const genre of candidates) {
+                if (linked.has(genre.id)) continue;
+                const parent = parentGenreOf(genre.name);
+                if (parent && parent !== genre.name.toLowerCase()) pending.push({ genre, parent });
+            }
+            if (pending.length === 0) return 0;
+
+            const parentNames = Array.from(new Set(pending.map(p => p.parent)));
+            const parentNodes = await this.upsertNodesBatch(parentNames.map(name => ({ type: 'GENRE' as const, name })));
+            const parentIds = new Map<string, number>();
+            parentNames.forEach((name, i) => {
+                if (parentNodes[i]) parentIds.set(name, parentNodes[i]!.id);
+            });
+
+            const edges: EdgeUpsert[] = [];
+            for (const { genre, parent } of pending) {
+                const parentId = parentIds.get(parent);
+                if (parentId != null) edges.push({ source: genre.id, target: parentId, type: 'SUBGENRE_OF' });
+            }
+            await this.connectEdgesBatch(edges);
+            console.log(`[GraphService] Linked ${edges.length} genres to ${parentIds.size} parent genres`);
+            return edges.length;
+        } catch (e) {
+            console.error('[GraphService] linkGenreHierarchy Error', e);
+            return 0;
+        }
+    }
+
+    /**
+     * Top genres rolled up to their parent genre (SUBGENRE_OF), ranked by total edge weight.
+     * Genres outside the taxonomy count as their own group. Graphs built before the hierarchy
+     * existed are linked lazily on the first call.
      */
-    async getTopGenres(limit: number = 10): Promise<{ name: string; songCount: number; totalWeight: number }[]> {
-        if (!dbService.database) {
-            // Memory path: aggregate HAS_GENRE edges by target genre node
-            const genreStats = new Map<number, { name: string; songCount: Set<number>; totalWeight: number }>();
+    async getTopParentGenres(limit: number = 5): Promise<{ name: string; songCount: number; totalWeight: number }[]> {
+        if (!this.genreHierarchyChecked) {
+            this.genreHierarchyChecked = true;
+            if (await this.linkGenreHierarchy() > 0) this.invalidateCache();
+        }
 
+        if (!dbService.database) {
+            const parentOf = new Map<number, number>();
             for (const edge of this.memoryEdges) {
-                if (edge.type !== 'HAS_GENRE') continue;
-                const targetNode = this.memoryNodes.get(edge.target);
-                if (!targetNode || targetNode.type !== 'GENRE') continue;
-
-                let stats = genreStats.get(edge.target);
-                if (!stats) {
-                    stats = { name: targetNode.name, songCount: new Set(), totalWeight: 0 };
-                    genreStats.set(edge.target, stats);
-                }
-                stats.songCount.add(edge.source);
-                stats.totalWeight += edge.weight;
+                if (edge.type === 'SUBGENRE_OF') parentOf.set(edge.source, edge.target);
             }
-
-            return Array.from(genreStats.values())
-                .map(s => ({ name: s.name, songCount: s.songCount.size, totalWeight: s.totalWeight }))
+            const groups = new Map<number, { songs: Set<number>; totalWeight: number }>();
+            for (const edge of this.memoryEdges) {
+                if (edge.type !== 'HAS_GENRE' || this.memoryNodes.get(edge.target)?.type !== 'GENRE') continue;
+                const groupId = parentOf.get(edge.target) ?? edge.target;
+                if (!groups.has(groupId)) groups.set(groupId, { songs: new Set(), totalWeight: 0 });
+                const group = groups.get(groupId)!;
+                group.songs.add(edge.source);
+                group.totalWeight += edge.weight;
+            }
+            return Array.from(groups.entries())
+                .map(([id, g]) => ({ name: this.memoryNodes.get(id)?.name ?? '', songCount: g.songs.size, totalWeight: g.totalWeight }))
+                .filter(g => g.name)
                 .sort((a, b) => b.totalWeight - a.totalWeight)
                 .slice(0, limit);
         }
 
         try {
             const results = await dbService.database.getAllAsync<any>(
-                `SELECT gn.name, COUNT(DISTINCT ge.source_id) as song_count, SUM(ge.weight) as total_weight
+                `SELECT COALESCE(pn.name, gn.name) as name,
+                        COUNT(DISTINCT ge.source_id) as song_count, SUM(ge.weight) as total_weight
                  FROM graph_edges ge
                  JOIN graph_nodes gn ON ge.target_id = gn.id AND gn.type = 'GENRE'
+                 LEFT JOIN graph_edges pe ON pe.source_id = gn.id AND pe.type = 'SUBGENRE_OF'
+                 LEFT JOIN graph_nodes pn ON pe.target_id = pn.id
                  WHERE ge.type = 'HAS_GENRE'
-                 GROUP BY gn.id
+                 GROUP BY COALESCE(pn.id, gn.id)
                  ORDER BY total_weight DESC
                  LIMIT ?`,
                 [limit]
             );
-
             return (results || []).map((r: any) => ({
                 name: r.name,
                 songCount: r.song_count,
                 totalWeight: r.total_weight
             }));
         } catch (e) {
-            console.error('[GraphService] getTopGenres Error', e);
+            console.error('[GraphService] getTopParentGenres Error', e);
             return [];
         }
     }
 
+    /** Given genre names plus every genre linked below them with SUBGENRE_OF. */
+    private async withSubgenres(genreNames: string[]): Promise<string[]> {
+        const names = new Set(genreNames);
+        if (!dbService.database) {
+            const parentIds = new Set<number>();
+            for (const name of genreNames) {
+                const node = this.memoryNodesByTypeName.get(GraphService.typeNameKey('GENRE', name));
+                if (node) parentIds.add(node.id);
+            }
+            for (const edge of this.memoryEdges) {
+                if (edge.type !== 'SUBGENRE_OF' || !parentIds.has(edge.target)) continue;
+                const child = this.memoryNodes.get(edge.source);
+                if (child) names.add(child.name);
+            }
+            return Array.from(names);
+        }
+
+        const rows = await dbService.database.getAllAsync<any>(
+            `SELECT gn.name
+             FROM graph_edges se
+             JOIN graph_nodes gn ON se.source_id = gn.id
+             JOIN graph_nodes pn ON se.target_id = pn.id AND pn.type = 'GENRE'
+             WHERE se.type = 'SUBGENRE_OF' AND pn.name IN (${genreNames.map(() => '?').join(',')})`,
+            genreNames
+        );
+        for (const r of rows || []) names.add(r.name);
+        return Array.from(names);
+    }
+
     /**
-     * Find songs connected to given genres, excluding specified URIs.
+     * Find songs connected to given genres (or any of their subgenres), excluding specified URIs.
      * Returns GraphNode[] with spotify_id already set (no Spotify search needed).
      */
     async getSongsByGenres(genreNames: string[], limit: number = 20, excludeUris: Set<string> = new Set()): Promise<GraphNode[]> {
         if (genreNames.length === 0) return [];
+        try {
+            genreNames = await this.withSubgenres(genreNames);
+        } catch (e) {
+            console.error('[GraphService] getSongsByGenres subgenres Error', e);
+        }
 
         if (!dbService.database) {
             // Memory path: find genre node IDs, then find songs via HAS_GENRE edges
@@ -1185,6 +3033,7 @@ export class GraphService {
                 if (!songNode || songNode.type !== 'SONG') continue;
                 if (!songNode.spotify_id) continue;
                 if (excludeUris.has(songNode.spotify_id) || excludeUris.has(`spotify:track:${songNode.spotify_id}`)) continue;
+                if (isDisliked(songNode.dislike_score, songNode.play_count)) continue;
 
                 const existing = songScores.get(edge.source);
                 if (existing) {
@@ -1195,6 +3044,7 @@ export class GraphService {
             }
 
             return Array.from(songScores.values())
+                .map(s => ({ node: s.node, weight: penalizeWeight(s.weight, s.node.dislike_score, s.node.play_count) }))
                 .sort((a, b) => b.weight - a.weight)
                 .slice(0, limit)
                 .map(s => s.node);
@@ -1216,17 +3066,22 @@ export class GraphService {
                  GROUP BY sn.id
                  ORDER BY genre_weight DESC, sn.play_count DESC
                  LIMIT ?`,
-                [...genreNames, todayStart.getTime(), limit]
+                // Over-fetch: skip penalties re-rank and drop some rows below
+                [...genreNames, todayStart.getTime(), limit * 3]
             );
 
             if (!results) return [];
 
-            // Filter out excluded URIs in JS (simpler than SQL with dynamic exclude list)
+            // Filter out excluded URIs and disliked songs in JS (simpler than SQL with dynamic exclude list)
             return results
                 .filter((r: any) => !excludeUris.has(r.spotify_id) && !excludeUris.has(`spotify:track:${r.spotify_id}`))
-                .map((r: any) => ({
+                .filter((r: any) => !isDisliked(r.dislike_score, r.play_count))
+                .map((r: any) => ({ row: r, weight: penalizeWeight(r.genre_weight, r.dislike_score, r.play_count) }))
+                .sort((a: any, b: any) => b.weight - a.weight)
+                .slice(0, limit)
+                .map(({ row: { genre_weight, ...r } }: any) => ({
                     ...r,
-                    data: JSON.parse(r.data || '{}')
+                    data: parseNodeData(r.data) ?? {}
                 })) as GraphNode[];
         } catch (e) {
             console.error('[GraphService] getSongsByGenres Error', e);
@@ -1234,6 +3089,702 @@ export class GraphService {
         }
     }
 
+    // --- Duplicate songs ---
+
+    /** Edge types whose weights add up when two duplicates' edges collide on merge (the rest keep the max). */
+    private static readonly MERGE_SUMMED_EDGE_TYPES: ReadonlySet<EdgeType> = new Set<EdgeType>(['NEXT', 'HAS_VIBE', 'SKIPPED_IN']);
+
+    /** Keep order for a duplicate group: liked songs first, then most played, then oldest node. */
+    private static byKeepPreference(a: GraphNode, b: GraphNode): number {
+        const liked = (n: GraphNode) => {
+            const data: SongNodeData = parseNodeData(n.data) ?? {};
+            return data.liked_at && !data.unliked_at ? 1 : 0;
+        };
+        return liked(b) - liked(a) || (b.play_count || 0) - (a.play_count || 0) || a.id - b.id;
+    }
+
+    /**
+     * Detect SONG nodes that are likely the same recording under different spotify_ids
+     * (same ISRC, or same artist and title once remaster/release tags are stripped).
+     * @param nodeId only return the group containing this song
+     */
+    async findDuplicateSongs(nodeId?: number): Promise<SongDuplicateGroup[]> {
+        try {
+            const songs = (await this.loadNodesByType('SONG')).map(n => {
+                const data: SongNodeData = parseNodeData(n.data) ?? {};
+                return { ...n, data };
+            });
+            const byId = new Map(songs.map(n => [n.id, n]));
+            return findDuplicateGroups(songs.map(n => ({ id: n.id, name: n.name, artist: n.data.artist || '', isrc: n.data.isrc })))
+                .filter(group => nodeId == null || group.ids.includes(nodeId))
+                .map(group => ({
+                    songs: group.ids.map(id => byId.get(id)!).sort(GraphService.byKeepPreference),
+                    reason: group.reason,
+                }));
+        } catch (e) {
+            console.error('[GraphService] findDuplicateSongs Error', e);
+            return [];
+        }
+    }
+
+    /**
+     * Merge duplicate songs into `keepId`: their edges are re-pointed to it (colliding edges are
+     * combined, self-loops dropped), play counts and skip penalties summed, last_played_at and
+     * node data folded in. Their spotify_ids keep resolving to the kept song afterwards.
+     * @returns false when a node is missing or the merge failed
+     */
+    async mergeSongs(keepId: number, mergeIds: number[]): Promise<boolean> {
+        const dupIds = Array.from(new Set(mergeIds.filter(id => id !== keepId)));
+        if (dupIds.length === 0) return true;
+
+        try {
+            const nodes = await this.loadNodesById([keepId, ...dupIds]);
+            const keep = nodes.get(keepId);
+            const dups = dupIds.map(id => nodes.get(id));
+            if (keep?.type !== 'SONG' || dups.some(d => d?.type !== 'SONG')) return false;
+            await this.mergeNodes(keep, dups as GraphNode[]);
+
+            this.invalidateCache();
+            console.log(`[GraphService] Merged ${dupIds.length} duplicate(s) into "${keep.name}" (${keepId})`);
+            return true;
+        } catch (e) {
+            console.error('[GraphService] mergeSongs Error', e);
+            return false;
+        }
+    }
+
+    /**
+     * Fold `dups` into `keep`: edges re-pointed (colliding edges combined, self-loops dropped),
+     * stats summed, data merged, then the duplicates deleted. Callers validate and invalidate the cache.
+     */
+    private async mergeNodes(keep: GraphNode, dups: GraphNode[]): Promise<void> {
+        const keepId = keep.id;
+        const dupIds = dups.map(d => d.id);
+        const merged = GraphService.mergedNodeStats(keep, dups);
+        this.structureVersion++;
+
+        const dupSet = new Set(dupIds);
+        const repoint = (id: number) => (dupSet.has(id) ? keepId : id);
+        const combine = (type: EdgeType, a: number, b: number) =>
+            GraphService.MERGE_SUMMED_EDGE_TYPES.has(type) ? a + b : Math.max(a, b);
+
+        if (!dbService.database) {
+            const edges = new Map<string, GraphEdge>();
+            for (const e of this.memoryEdges) {
+                const source = repoint(e.source);
+                const target = repoint(e.target);
+                if (source === target) continue;
+                const key = GraphService.edgeKey(source, target, e.type);
+                const existing = edges.get(key);
+                if (existing) {
+                    existing.weight = combine(e.type, existing.weight, e.weight);
+                    existing.updated_at = Math.max(existing.updated_at || 0, e.updated_at || 0) || undefined;
+                } else {
+                    edges.set(key, { ...e, source, target });
+                }
+            }
+            this.memoryEdges = Array.from(edges.values());
+            this.rebuildEdgeIndex();
+            Object.assign(keep, merged);
+            for (const id of dupIds) this.memoryNodes.delete(id);
+            this.rebuildMemoryIndices();
+            this.persistToStorage();
+        } else {
+            const db = dbService.database;
+            const placeholders = dupIds.map(() => '?').join(',');
+            await db.withTransactionAsync(async () => {
+                const rows = await db.getAllAsync<any>(
+                    `SELECT * FROM graph_edges WHERE source_id IN (${placeholders}) OR target_id IN (${placeholders})`,
+                    [...dupIds, ...dupIds]
+                );
+                await db.runAsync(
+                    `DELETE FROM graph_edges WHERE source_id IN (${placeholders}) OR target_id IN (${placeholders})`,
+                    [...dupIds, ...dupIds]
+                );
+                for (const e of rows) {
+                    const source = repoint(e.source_id);
+                    const target = repoint(e.target_id);
+                    if (source === target) continue;
+                    const onConflict = GraphService.MERGE_SUMMED_EDGE_TYPES.has(e.type)
+                        ? 'weight = weight + excluded.weight'
+                        : 'weight = MAX(weight, excluded.weight)';
+                    await db.runAsync(
+                        `INSERT INTO graph_edges (source_id, target_id, type, weight, created_at, updated_at)
+                         VALUES (?, ?, ?, ?, ?, ?)
+                         ON CONFLICT(source_id, target_id, type) DO UPDATE SET ${onConflict},
+                            updated_at = MAX(COALESCE(updated_at, 0), COALESCE(excluded.updated_at, 0))`,
+                        [source, target, e.type, e.weight, e.created_at ?? Date.now(), e.updated_at ?? null]
+                    );
+                }
+                await db.runAsync(
+                    `UPDATE graph_nodes SET play_count = ?, last_played_at = ?, dislike_score = ?, data = ? WHERE id = ?`,
+                    [merged.play_count, merged.last_played_at, merged.dislike_score, JSON.stringify(merged.data), keepId]
+                );
+                await GraphService.writeSongAliases(db, keepId, merged.data.merged_spotify_ids ?? []);
+                await db.runAsync(`DELETE FROM graph_nodes WHERE id IN (${placeholders})`, dupIds);
+            });
+        }
+    }
+
+    private async loadNodesById(ids: number[]): Promise<Map<number, GraphNode>> {
+        const parse = (n: any): GraphNode => ({ ...n, data: parseNodeData(n.data) ?? {} });
+        if (!dbService.database) {
+            return new Map(ids.filter(id => this.memoryNodes.has(id)).map(id => [id, this.memoryNodes.get(id)!]));
+        }
+        const rows = await dbService.database.getAllAsync<any>(
+            `SELECT * FROM graph_nodes WHERE id IN (${ids.map(() => '?').join(',')})`,
+            ids
+        );
+        return new Map((rows || []).map((r: any) => [r.id, parse(r)]));
+    }
+
+    /** Stats and data of `keep` after absorbing `dups` (see mergeNodes()). */
+    private static mergedNodeStats(keep: GraphNode, dups: GraphNode[]) {
+        const all = [keep, ...dups];
+        const dataOf = (n: GraphNode): Record<string, any> => parseNodeData(n.data) ?? {};
+        const likedAt = all.map(n => dataOf(n).liked_at).filter((t): t is number => typeof t === 'number');
+        const mergedIds = new Set<string>([
+            ...(dataOf(keep).merged_spotify_ids ?? []),
+            ...dups.flatMap(d => [d.spotify_id, ...(dataOf(d).merged_spotify_ids ?? [])]),
+        ].filter((id): id is string => !!id && id !== keep.spotify_id));
+        const data: Record<string, any> = Object.assign({}, ...dups.map(dataOf).reverse(), dataOf(keep));
+        if (likedAt.length > 0) {
+            data.liked_at = Math.min(...likedAt);
+            // Still liked under any of its ids → liked
+            if (all.some(n => dataOf(n).liked_at && !dataOf(n).unliked_at)) delete data.unliked_at;
+        }
+        if (mergedIds.size > 0) data.merged_spotify_ids = Array.from(mergedIds);
+        // Names the merged nodes went by (vibes: "Midnight Drive" folded into "Late Night Drive")
+        const aliases = new Set<string>([
+            ...(dataOf(keep).aliases ?? []),
+            ...dups.flatMap(d => [d.name, ...(dataOf(d).aliases ?? [])]),
+        ].filter((name): name is string => !!name && name !== keep.name));
+        if (keep.type !== 'SONG' && aliases.size > 0) data.aliases = Array.from(aliases);
+        return {
+            play_count: all.reduce((sum, n) => sum + (n.play_count || 0), 0),
+            last_played_at: Math.max(...all.map(n => Number(n.last_played_at) || 0)),
+            dislike_score: all.reduce((sum, n) => sum + (n.dislike_score || 0), 0),
+            data,
+        };
+    }
+
+    // --- Vibe canonicalization ---
+
+    /**
+     * VIBE nodes as canonicalization candidates.
+     * @param withSongs also load the songs played in each vibe (RELATED / HAS_VIBE edges)
+     */
+    private async loadVibeCandidates(withSongs: boolean): Promise<VibeCandidate[]> {
+        const vibes = await this.loadNodesByType('VIBE');
+        const songs = new Map<number, string[]>(vibes.map(v => [v.id, []]));
+        if (withSongs && vibes.length > 0) {
+            if (!dbService.database) {
+                for (const e of this.memoryEdges) {
+                    if (e.type !== 'RELATED' && e.type !== 'HAS_VIBE') continue;
+                    const vibeId = songs.has(e.source) ? e.source : e.target;
+                    const song = this.memoryNodes.get(vibeId === e.source ? e.target : e.source);
+                    if (songs.has(vibeId) && song?.type === 'SONG') songs.get(vibeId)!.push(song.spotify_id || `#${song.id}`);
+                }
+            } else {
+                const rows = await dbService.database.getAllAsync<{ vibe_id: number; song_id: number; spotify_id: string | null }>(
+                    `SELECT v.id AS vibe_id, s.id AS song_id, s.spotify_id
+                     FROM graph_edges e
+                     JOIN graph_nodes v ON v.id IN (e.source_id, e.target_id) AND v.type = 'VIBE'
+                     JOIN graph_nodes s ON s.id IN (e.source_id, e.target_id) AND s.type = 'SONG'
+                     WHERE e.type IN ('RELATED', 'HAS_VIBE')`
+                );
+                for (const r of rows || []) songs.get(r.vibe_id)?.push(r.spotify_id || `#${r.song_id}`);
+            }
+        }
+        return vibes.map(v => ({
+            id: v.id,
+            name: v.name,
+            aliases: parseNodeData(v.data)?.aliases ?? [],
+            songs: songs.get(v.id) ?? [],
+        }));
+    }
+
+    /**
+     * Name of the vibe a vibe name or alias stands for, or `vibeName` itself. Read-only: new names
+     * are matched to an existing vibe (and learned as its alias) on commit, by resolveVibeName().
+     */
+    async lookupVibeName(vibeName: string): Promise<string> {
+        try {
+            return (await this.getVibeNameCache()).get(vibeName) ?? vibeName;
+        } catch (e) {
+            console.error('[GraphService] lookupVibeName Error', e);
+            return vibeName;
+        }
+    }
+
+    /**
+     * Name of the existing vibe a (possibly new) vibe name stands for: a vibe named or aliased so,
+     * or the closest one by name and song overlap. A reused vibe learns the new name as an alias.
+     * @param spotifyIds songs about to be committed under this name
+     * @returns the canonical name, or `vibeName` itself when it is a new vibe
+     */
+    async resolveVibeName(vibeName: string, spotifyIds: string[]): Promise<string> {
+        try {
+            const cache = await this.getVibeNameCache();
+            const cached = cache.get(vibeName);
+            if (cached) return cached;
+
+            const vibes = await this.loadVibeCandidates(spotifyIds.length > 0);
+            const match = vibes.find(v => v.id === findClosestVibe(vibeName, spotifyIds, vibes));
+            if (!match) return vibeName;
+            if (!match.aliases?.includes(vibeName)) {
+                await this.updateNodeData(match.id, { aliases: [...(match.aliases ?? []), vibeName] });
+                if (!dbService.database) this.persistToStorage();
+            }
+            cache.set(vibeName, match.name);
+            return match.name;
+        } catch (e) {
+            console.error('[GraphService] resolveVibeName Error', e);
+            return vibeName;
+        }
+    }
+
+    /** vibeNameCache, filled with every vibe's name and aliases on first use. */
+    private async getVibeNameCache(): Promise<Map<string, string>> {
+        if (!this.vibeNameCache) {
+            const vibes = await this.loadVibeCandidates(false);
+            const cache = new Map<string, string>();
+            for (const v of vibes) for (const alias of v.aliases ?? []) cache.set(alias, v.name);
+            // A vibe's own name wins over another vibe's alias
+            for (const v of vibes) cache.set(v.name, v.name);
+            this.vibeNameCache = cache;
+        }
+        return this.vibeNameCache;
+    }
+
+    /**
+     * Merge VIBE nodes that are the same mood (by name similarity and shared songs) into one
+     * canonical vibe per group; the others' names become its aliases. Runs lazily from getTasteProfile().
+     * @returns number of vibe nodes merged away
+     */
+    async canonicalizeVibes(): Promise<number> {
+        let merged = 0;
+        try {
+            const groups = clusterVibes(await this.loadVibeCandidates(true));
+            for (const ids of groups) {
+                const nodes = await this.loadNodesById(ids);
+                const [keep, ...dups] = ids.map(id => nodes.get(id)).filter((n): n is GraphNode => !!n);
+                if (!keep || dups.length === 0) continue;
+                await this.mergeNodes(keep, dups);
+                merged += dups.length;
+                console.log(`[GraphService] Merged vibes ${dups.map(d => `"${d.name}"`).join(', ')} into "${keep.name}"`);
+            }
+            if (merged > 0) this.invalidateCache();
+        } catch (e) {
+            console.error('[GraphService] canonicalizeVibes Error', e);
+        }
+        this.vibesStale = false;
+        return merged;
+    }
+
+    // --- Taste evolution ---
+
+    /** Node and edge counts (for taste snapshots). */
+    private async countGraph(): Promise<{ nodes: number; edges: number }> {
+        if (!dbService.database) return { nodes: this.memoryNodes.size, edges: this.memoryEdges.length };
+        const row = await dbService.database.getFirstAsync<{ node_count: number; edge_count: number }>(
+            'SELECT (SELECT COUNT(*) FROM graph_nodes) AS node_count, (SELECT COUNT(*) FROM graph_edges) AS edge_count'
+        );
+        return { nodes: row?.node_count || 0, edges: row?.edge_count || 0 };
+    }
+
+    /**
+     * Record the current taste profile (top genres, cluster reps, audio profile) and graph size.
+     * @returns the stored snapshot, or null when the graph is empty or it failed
+     */
+    async takeTasteSnapshot(): Promise<TasteSnapshot | null> {
+        try {
+            const { nodes, edges } = await this.countGraph();
+            if (nodes === 0) return null;
+            const { topGenres, clusterReps, audioProfile } = await this.getTasteProfile();
+            const snapshot: TasteSnapshot = {
+                takenAt: Date.now(),
+                topGenres,
+                clusterReps,
+                audioProfile,
+                nodeCount: nodes,
+                edgeCount: edges,
+            };
+            const { takenAt, ...data } = snapshot;
+            await dbService.addTasteSnapshot(takenAt, data);
+            console.log(`[GraphService] Taste snapshot: ${topGenres.length} genres, ${nodes} nodes, ${edges} edges`);
+            return snapshot;
+        } catch (e) {
+            console.error('[GraphService] takeTasteSnapshot Error', e);
+            return null;
+        }
+    }
+
+    /** takeTasteSnapshot() when the latest snapshot is a week old (or there is none). */
+    async takeTasteSnapshotIfDue(): Promise<TasteSnapshot | null> {
+        const [latest] = await dbService.getTasteSnapshots(1);
+        if (!isSnapshotDue(latest?.takenAt ?? null)) return null;
+        return this.takeTasteSnapshot();
+    }
+
+    /** Stored taste snapshots, oldest first (see tasteEvolution.ts for diffs and chart series). */
+    async getTasteSnapshots(limit?: number): Promise<TasteSnapshot[]> {
+        const rows = await dbService.getTasteSnapshots(limit);
+        return rows.map(r => ({
+            takenAt: r.takenAt,
+            topGenres: r.data.topGenres ?? [],
+            clusterReps: r.data.clusterReps ?? [],
+            audioProfile: r.data.audioProfile ?? null,
+            nodeCount: r.data.nodeCount ?? 0,
+            edgeCount: r.data.edgeCount ?? 0,
+        }));
+    }
+
+    // --- Analytics ---
+
+    /**
+     * Edge types analytics look at. Context and audio-feature hubs link nearly every song (they'd
+     * top every centrality), and a skip is not a connection.
+     */
+    private static readonly ANALYTICS_EDGE_TYPES: ReadonlySet<EdgeType> = new Set<EdgeType>([
+        'SIMILAR', 'NEXT', 'RELATED', 'HAS_VIBE', 'HAS_GENRE', 'IN_GENRE', 'SAME_ARTIST',
+        'IN_PLAYLIST', 'IN_ALBUM', 'FROM_ERA', 'SUBGENRE_OF',
+    ]);
+
+    /** What cached analytics are valid for: the graph's nodes, analytics edges and structureVersion. */
+    private analyticsKey(nodes: GraphNode[], edges: GraphEdge[]): string {
+        const linked = edges.reduce((count, e) => count + (GraphService.ANALYTICS_EDGE_TYPES.has(e.type) ? 1 : 0), 0);
+        return `${this.structureVersion}:${nodes.length}:${linked}`;
+    }
+
+    /**
+     * Degree distribution, betweenness/eigenvector centrality and bridge songs over
+     * ANALYTICS_EDGE_TYPES edges; bridges only count taste edges (see CLUSTER_EDGE_TYPES).
+     * Cached until the graph's structure changes (see analyticsKey()). The computation yields to
+     * the event loop as it goes, and concurrent callers share one run.
+     */
+    async getGraphAnalytics(): Promise<GraphAnalytics> {
+        try {
+            await this.refreshTasteClusters();
+            const { nodes, edges } = await this.getGraphSnapshot();
+            const key = this.analyticsKey(nodes, edges);
+            if (this.analyticsCache?.key === key) return this.analyticsCache.analytics;
+
+            let run = this.analyticsRun;
+            if (run?.key !== key) {
+                const promise = this.computeGraphAnalytics(nodes, edges).then(analytics => {
+                    this.analyticsCache = { key, analytics };
+                    return analytics;
+                }).finally(() => {
+                    if (this.analyticsRun?.promise === promise) this.analyticsRun = null;
+                });
+                run = this.analyticsRun = { key, promise };
+            }
+            return await run.promise;
+        } catch (e) {
+            console.error('[GraphService] getGraphAnalytics Error', e);
+            return { degrees: new Map(), degreeDistribution: [], betweenness: new Map(), eigenvector: new Map(), bridges: [] };
+        }
+    }
+
+    private async computeGraphAnalytics(nodes: GraphNode[], edges: GraphEdge[]): Promise<GraphAnalytics> {
+        const yieldToEventLoop = () => new Promise(r => setTimeout(r, 0));
+        const now = Date.now();
+        const halfLife = await this.getEdgeHalfLifeDays();
+        const ids = nodes.map(n => n.id);
+
+        const linked = edges.filter(e => GraphService.ANALYTICS_EDGE_TYPES.has(e.type));
+        const adjacency = buildAnalyticsAdjacency(ids, linked.map(e => ({ source: e.source, target: e.target, weight: 1 })));
+        const decayed = buildAnalyticsAdjacency(ids, linked.map(e => ({
+            source: e.source,
+            target: e.target,
+            weight: decayEdgeWeight(e.weight, e.type, e.updated_at, halfLife, now),
+        })));
+        const taste = buildAnalyticsAdjacency(ids, edges
+            .filter(e => GraphService.CLUSTER_EDGE_TYPES.has(e.type))
+            .map(e => ({ source: e.source, target: e.target, weight: 1 })));
+
+        await yieldToEventLoop();
+        const betweenness = await betweennessCentralityAsync(adjacency);
+        await yieldToEventLoop();
+        const eigenvector = eigenvectorCentrality(decayed);
+        const songIds = nodes.filter(n => n.type === 'SONG').map(n => n.id);
+        const clusterOf = new Map(nodes.map(n => [n.id, n.cluster_id]));
+
+        const analytics: GraphAnalytics = {
+            degrees: degrees(adjacency),
+            degreeDistribution: degreeDistribution(adjacency),
+            betweenness,
+            eigenvector,
+            bridges: findBridgeSongs(songIds, clusterOf, taste, betweenness),
+        };
+        console.log(`[GraphService] Analytics over ${nodes.length} nodes: ${analytics.bridges.length} bridge songs`);
+        return analytics;
+    }
+
+    /**
+     * Gateway tracks for a move between styles: bridge songs connecting the taste cluster of the
+     * song playing now to the cluster of the song coming up, best bridge first.
+     * Never waits on analytics: when they are missing or stale they are computed in the background
+     * and no gateway is suggested this time.
+     * @param fromUri Spotify URI (or bare track id) of the song playing now
+     * @param toUri Spotify URI (or bare track id) of the song to transition to
+     * @returns empty when either song is unknown or both are in the same cluster
+     */
+    async getGatewayTracks(fromUri: string, toUri: string, limit: number = 1): Promise<GraphNode[]> {
+        try {
+            const { nodes, edges } = await this.getGraphSnapshot();
+            if (this.analyticsCache?.key !== this.analyticsKey(nodes, edges)) {
+                this.getGraphAnalytics();
+                return [];
+            }
+            const { bridges } = this.analyticsCache.analytics;
+            const bySpotifyId = GraphService.songsBySpotifyId(nodes);
+            const from = bySpotifyId.get(GraphService.bareTrackId(fromUri));
+            const to = bySpotifyId.get(GraphService.bareTrackId(toUri));
+            if (from?.cluster_id == null || to?.cluster_id == null || from.cluster_id === to.cluster_id) return [];
+
+            const byId = new Map(nodes.map(n => [n.id, n]));
+            return bridges
+                .filter(b => b.id !== from.id && b.id !== to.id)
+                .filter(b => b.clusters.includes(from.cluster_id!) && b.clusters.includes(to.cluster_id!))
+                .map(b => byId.get(b.id))
+                .filter((n): n is GraphNode => !!n?.spotify_id && !isDisliked(n.dislike_score, n.play_count))
+                .slice(0, limit);
+        } catch (e) {
+            console.error('[GraphService] getGatewayTracks Error', e);
+            return [];
+        }
+    }
+
+    // --- Temporal Decay ---
+
+    /**
+     * Half-life (days) applied to listening-derived edge weights; 0 means decay is off.
+     */
+    async getEdgeHalfLifeDays(): Promise<number> {
+        if (this.edgeHalfLifeDays !== null) return this.edgeHalfLifeDays;
+        const stored = await dbService.getPreference(EDGE_HALF_LIFE_PREF_KEY);
+        this.edgeHalfLifeDays = normalizeHalfLifeDays(stored ?? undefined);
+        return this.edgeHalfLifeDays;
+    }
+
+    async setEdgeHalfLifeDays(days: number): Promise<void> {
+        this.edgeHalfLifeDays = normalizeHalfLifeDays(days);
+        await dbService.setPreference(EDGE_HALF_LIFE_PREF_KEY, String(this.edgeHalfLifeDays));
+        this.invalidateCache();
+    }
+
+    // --- Export / Import ---
+
+    /**
+     * Serialize the whole graph (nodes, edges, weights, play stats, saved positions)
+     * as a versioned JSON document or GraphML, for backup and device migration.
+     */
+    async exportGraph(format: GraphExportFormat = 'json'): Promise<string> {
+        const snap = await this.getGraphSnapshot(true);
+        const doc = toGraphExport(snap.nodes, snap.edges);
+        console.log(`[GraphService] Exporting ${doc.nodes.length} nodes and ${doc.edges.length} edges as ${format}`);
+        return serializeGraphExport(doc, format);
+    }
+
+    /**
+     * Merge an exported graph (JSON or GraphML) into the current one.
+     * Nodes are deduped like getEffectiveNode (spotify_id, else type+name). Stats and
+     * weights keep the max of local vs imported, so re-importing the same backup is a no-op.
+     */
+    async importGraph(payload: string): Promise<{ nodesCreated: number; nodesMerged: number; edgesImported: number }> {
+        const doc = parseGraphExport(payload);
+        await dbService.waitUntilReady();
+
+        const before = (await this.getGraphSnapshot(true)).nodes.length;
+        const idMap = new Map<number, number>();
+        let edgesImported = 0;
+
+        const importWork = async () => {
+            for (const node of doc.nodes) {
+                const local = await this.getEffectiveNode(node.type, node.name, node.spotify_id, node.data, false);
+                if (!local) continue;
+                idMap.set(node.id, local.id);
+                await this.mergeImportedNodeStats(local.id, node);
+            }
+
+            for (const edge of doc.edges) {
+                const source = idMap.get(edge.source);
+                const target = idMap.get(edge.target);
+                if (source === undefined || target === undefined) continue;
+                await this.mergeImportedEdge(source, target, edge);
+                edgesImported++;
+            }
+        };
+
+        try {
+            if (dbService.database) {
+                await dbService.database.withTransactionAsync(importWork);
+            } else {
+                await importWork();
+                this.persistToStorage();
+            }
+        } catch (e) {
+            console.error('[GraphService] importGraph Error', e);
+            throw e;
+        } finally {
+            this.invalidateCache();
+        }
+
+        const after = (await this.getGraphSnapshot(true)).nodes.length;
+        const nodesCreated = after - before;
+        const result = { nodesCreated, nodesMerged: idMap.size - nodesCreated, edgesImported };
+        console.log(`[GraphService] Import complete: ${result.nodesCreated} new nodes, ${result.nodesMerged} merged, ${result.edgesImported} edges`);
+        return result;
+    }
+
+    /** Merge play stats, missing data keys and saved position from an imported node (local values win on data). */
+    private async mergeImportedNodeStats(nodeId: number, imported: GraphExportNode): Promise<void> {
+        if (!dbService.database) {
+            const node = this.memoryNodes.get(nodeId);
+            if (!node) return;
+            node.play_count = Math.max(node.play_count || 0, imported.play_count);
+            node.last_played_at = Math.max(node.last_played_at || 0, imported.last_played_at);
+            node.data = { ...imported.data, ...parseNodeData(node.data) };
+            if (node.x === undefined && imported.x !== undefined) node.x = imported.x;
+            if (node.y === undefined && imported.y !== undefined) node.y = imported.y;
+            return;
+        }
+
+        const existing = await dbService.database.getFirstAsync<{ data: string | null }>(
+            'SELECT data FROM graph_nodes WHERE id = ?',
+            [nodeId]
+        );
+        // Corrupt local data (see verifyIntegrity) is replaced by the imported data rather than failing the import
+        const merged = { ...imported.data, ...parseNodeData(existing?.data) };
+        await dbService.database.runAsync(
+            `UPDATE graph_nodes SET
+                play_count = MAX(COALESCE(play_count, 0), ?),
+                last_played_at = MAX(COALESCE(last_played_at, 0), ?),
+                data = ?,
+                pos_x = COALESCE(pos_x, ?),
+                pos_y = COALESCE(pos_y, ?)
+             WHERE id = ?`,
+            [imported.play_count, imported.last_played_at, JSON.stringify(merged), imported.x ?? null, imported.y ?? null, nodeId]
+        );
+        if (imported.type === 'SONG') {
+            const { merged_spotify_ids: aliases }: SongNodeData = merged;
+            if (Array.isArray(aliases)) await GraphService.writeSongAliases(dbService.database, nodeId, aliases);
+        }
+    }
+
+    /** Insert an imported edge, or keep the heavier weight when it already exists. */
+    private async mergeImportedEdge(sourceId: number, targetId: number, imported: GraphExportEdge): Promise<void> {
+        if (!dbService.database) {
+            const key = GraphService.edgeKey(sourceId, targetId, imported.type);
+            const idx = this.memoryEdgeIndex.get(key);
+            if (idx !== undefined) {
+                const edge = this.memoryEdges[idx];
+                edge.weight = Math.max(edge.weight, imported.weight);
+                edge.updated_at = Math.max(edge.updated_at ?? 0, imported.updated_at ?? 0) || undefined;
+            } else {
+                this.memoryEdgeIndex.set(key, this.memoryEdges.length);
+                this.memoryEdges.push({
+                    source: sourceId, target: targetId, type: imported.type, weight: imported.weight,
+                    ...(imported.updated_at != null && { updated_at: imported.updated_at }),
+                });
+            }
+            return;
+        }
+
+        const now = Date.now();
+        await dbService.database.runAsync(
+            `INSERT INTO graph_edges (source_id, target_id, type, weight, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?)
+             ON CONFLICT(source_id, target_id, type) DO UPDATE SET weight = MAX(weight, excluded.weight), updated_at = MAX(COALESCE(updated_at, 0), excluded.updated_at)`,
+            [sourceId, targetId, imported.type, imported.weight, now, imported.updated_at ?? now]
+        );
+    }
+
+    // --- Integrity ---
+
+    /**
+     * Check for dangling edges, orphan nodes, unparseable `data` and duplicate type+name nodes
+     * (see graphIntegrity.ts). With `repair`: dangling edges are dropped, corrupt data reset to {},
+     * duplicates merged into the oldest node and orphans deleted, in that order.
+     * @returns what was found (before any repair), or null when the check failed
+     */
+    async verifyIntegrity(repair: boolean = false): Promise<GraphIntegrityReport | null> {
+        try {
+            const db = dbService.database;
+            const nodes: GraphNode[] = db
+                ? (await db.getAllAsync<GraphNode>('SELECT * FROM graph_nodes')) || []
+                : Array.from(this.memoryNodes.values());
+            const edges = db
+                ? ((await db.getAllAsync<any>('SELECT * FROM graph_edges')) || [])
+                    .map((e: any) => ({ source: e.source_id, target: e.target_id, type: e.type }))
+                : this.memoryEdges;
+            const report = checkGraphIntegrity(nodes, edges);
+            console.log(
+                `[GraphService] Integrity: ${report.danglingEdges.length} dangling edges, ` +
+                `${report.orphanNodeIds.length} orphans, ${report.corruptDataNodeIds.length} corrupt, ` +
+                `${report.duplicateNodeGroups.length} duplicate groups`
+            );
+            if (!repair || countIntegrityIssues(report) === 0) return report;
+
+            const byId = new Map(nodes.map(n => [n.id, n]));
+            const orphanIds = report.orphanNodeIds;
+            this.structureVersion++;
+
+            if (!db) {
+                this.memoryEdges = this.memoryEdges.filter(e => this.memoryNodes.has(e.source) && this.memoryNodes.has(e.target));
+                this.rebuildEdgeIndex();
+                for (const id of report.corruptDataNodeIds) byId.get(id)!.data = {};
+            } else {
+                await db.withTransactionAsync(async () => {
+                    await db.runAsync(
+                        `DELETE FROM graph_edges
+                         WHERE source_id NOT IN (SELECT id FROM graph_nodes) OR target_id NOT IN (SELECT id FROM graph_nodes)`
+                    );
+                    for (const id of report.corruptDataNodeIds) {
+                        await db.runAsync('UPDATE graph_nodes SET data = ? WHERE id = ?', ['{}', id]);
+                        byId.get(id)!.data = '{}';
+                    }
+                });
+            }
+
+            for (const [keepId, ...dupIds] of report.duplicateNodeGroups) {
+                await this.mergeNodes(byId.get(keepId)!, dupIds.map(id => byId.get(id)!));
+            }
+
+            if (!db) {
+                const orphans = new Set(orphanIds);
+                for (const id of orphanIds) this.memoryNodes.delete(id);
+                this.memoryEdges = this.memoryEdges.filter(e => !orphans.has(e.source) && !orphans.has(e.target));
+                this.rebuildEdgeIndex();
+                this.rebuildMemoryIndices();
+                this.persistToStorage();
+            } else {
+                await db.withTransactionAsync(async () => {
+                    for (let i = 0; i < orphanIds.length; i += GraphService.BATCH_LOOKUP_CHUNK) {
+                        const chunk = orphanIds.slice(i, i + GraphService.BATCH_LOOKUP_CHUNK);
+                        const placeholders = chunk.map(() => '?').join(',');
+                        // VIBE orphans can still have SKIPPED_IN edges
+                        await db.runAsync(
+                            `DELETE FROM graph_edges WHERE source_id IN (${placeholders}) OR target_id IN (${placeholders})`,
+                            [...chunk, ...chunk]
+                        );
+                        await db.runAsync(`DELETE FROM graph_node_aliases WHERE node_id IN (${placeholders})`, chunk);
+                        await db.runAsync(`DELETE FROM graph_nodes WHERE id IN (${placeholders})`, chunk);
+                    }
+                });
+            }
+
+            this.invalidateCache();
+            console.log(`[GraphService] Integrity repaired (${countIntegrityIssues(report)} issues)`);
+            return report;
+        } catch (e) {
+            console.error('[GraphService] verifyIntegrity Error', e);
+            return null;
+        }
+    }
+
     /**
      * Clear all graph data (for testing/re-ingestion)
      */
@@ -1246,6 +3797,7 @@ export class GraphService {
         this.memoryEdgeIndex.clear();
         this.nextNodeId = 1;
         this.rebuildMemoryIndices();
+        this.genreHierarchyChecked = false;
 
         // Clear localStorage (use the same keys as persistToStorage)
         if (typeof localStorage !== 'undefined') {
@@ -1257,6 +3809,7 @@ export class GraphService {
         if (dbService.database) {
             try {
                 await dbService.database.runAsync('DELETE FROM graph_edges');
+                await dbService.database.runAsync('DELETE FROM graph_node_aliases');
                 await dbService.database.runAsync('DELETE FROM graph_nodes');
             } catch (e) {
                 console.error('[GraphService] clearGraph DB Error', e);
@@ -1265,8 +3818,15 @@ export class GraphService {
 
         // Clear ingestion flag
         await dbService.setPreference('graph_ingested_liked', '');
+        await dbService.setPreference(GraphService.LIKED_SYNC_CURSOR_PREF_KEY, '');
+        await dbService.setPreference(GraphService.RECENTLY_PLAYED_CURSOR_PREF_KEY, '');
+        await dbService.clearIngestionCheckpoint();
 
         this.snapshotCache = null;
+        this.analyticsCache = null;
+        this.structureVersion++;
+        this.clustersKey = null;
+        this.vibeNameCache = null;
         console.log('[GraphService] Graph cleared.');
     }
 }
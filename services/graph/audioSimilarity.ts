@@ -0,0 +1,95 @@
+/**
+ * k-nearest-neighbour audio similarity for SIMILAR edges.
+ *
+ * Every song with stored audio features becomes a 6-d vector in [0, 1]
+ * (tempo scaled by 200 BPM). Each song links to its k nearest songs within
+ * SIMILAR_MAX_DISTANCE; the edge weight falls linearly from 1 (identical) to 0 (at the cutoff).
+ */
+
+/** Stored audio feature dimensions, in vector order. */
+export const AUDIO_VECTOR_FEATURES = [
+    'energy', 'valence', 'danceability', 'tempo', 'acousticness', 'instrumentalness',
+] as const;
+
+/** Neighbours linked per song. */
+export const SIMILAR_K = 5;
+
+/** Normalized distance beyond which two songs are never considered similar. */
+export const SIMILAR_MAX_DISTANCE = 0.25;
+
+export interface AudioVectorItem {
+    id: number;
+    vector: number[];
+}
+
+export interface SimilarityEdge {
+    source: number;
+    target: number;
+    weight: number;
+}
+
+/** Map a raw feature value into [0, 1] (tempo is the only unbounded feature). */
+export function normalizeAudioFeature(name: typeof AUDIO_VECTOR_FEATURES[number], value: number): number {
+    return name === 'tempo' ? Math.min(1, value / 200) : value;
+}
+
+/** Feature vector from a song's data blob, or null when any dimension is missing. */
+export function toAudioVector(data: Record<string, any> | null | undefined): number[] | null {
+    if (!data) return null;
+    const vector: number[] = [];
+    for (const name of AUDIO_VECTOR_FEATURES) {
+        const value = data[name];
+        if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+        vector.push(normalizeAudioFeature(name, value));
+    }
+    return vector;
+}
+
+/** Euclidean distance scaled to [0, 1]. */
+export function audioDistance(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+    return Math.sqrt(sum / a.length);
+}
+
+export function similarityWeight(distance: number, maxDistance: number = SIMILAR_MAX_DISTANCE): number {
+    return Math.max(0, 1 - distance / maxDistance);
+}
+
+/**
+ * The k nearest candidates to `vector` within maxDistance, closest first.
+ * Ties break on the lower id so results are stable.
+ */
+export function nearestNeighbors(
+    vector: number[],
+    candidates: AudioVectorItem[],
+    k: number = SIMILAR_K,
+    maxDistance: number = SIMILAR_MAX_DISTANCE,
+    excludeId?: number
+): { id: number; distance: number }[] {
+    const within: { id: number; distance: number }[] = [];
+    for (const c of candidates) {
+        if (c.id === excludeId) continue;
+        const distance = audioDistance(vector, c.vector);
+        if (distance < maxDistance) within.push({ id: c.id, distance });
+    }
+    return within.sort((a, b) => a.distance - b.distance || a.id - b.id).slice(0, k);
+}
+
+/**
+ * Directed kNN graph: one edge from each song to each of its k nearest songs.
+ * Mutual neighbours end up linked in both directions. Brute force (n² distances).
+ */
+export function buildKnnEdges(
+    items: AudioVectorItem[],
+    k: number = SIMILAR_K,
+    maxDistance: number = SIMILAR_MAX_DISTANCE
+): SimilarityEdge[] {
+    const edges: SimilarityEdge[] = [];
+    for (const item of items) {
+        for (const { id, distance } of nearestNeighbors(item.vector, items, k, maxDistance, item.id)) {
+            edges.push({ source: item.id, target: id, weight: similarityWeight(distance, maxDistance) });
+        }
+    }
+    return edges;
+}
@@ -0,0 +1,159 @@
+/**
+ * Louvain community detection (modularity maximisation) on an undirected weighted graph.
+ * Used by GraphService to group songs/artists/genres into taste clusters.
+ *
+ * Deterministic: nodes are visited in ascending id order and ties keep the current community,
+ * so the same graph always yields the same clusters.
+ */
+
+export interface CommunityEdge {
+    source: number;
+    target: number;
+    weight: number;
+}
+
+export interface CommunityOptions {
+    /** Max local-moving sweeps per level (guards against slow convergence on large graphs). */
+    maxSweeps?: number;
+    /** Max aggregation levels. */
+    maxLevels?: number;
+}
+
+/**
+ * Adjacency as neighbor index → summed weight. A self-loop stores twice a community's
+ * internal weight, so a node's degree always equals the summed degree of its members.
+ */
+type Adjacency = Map<number, number>[];
+
+function buildAdjacency(size: number, edges: Iterable<[number, number, number]>): Adjacency {
+    const adj: Adjacency = Array.from({ length: size }, () => new Map());
+    for (const [u, v, w] of edges) {
+        if (!(w > 0)) continue;
+        if (u === v) {
+            adj[u].set(u, (adj[u].get(u) || 0) + 2 * w);
+            continue;
+        }
+        adj[u].set(v, (adj[u].get(v) || 0) + w);
+        adj[v].set(u, (adj[v].get(u) || 0) + w);
+    }
+    return adj;
+}
+
+/**
+ * One Louvain level: move nodes between communities while modularity improves.
+ * Returns community index per node, or null when no node moved.
+ */
+function localMoving(adj: Adjacency, maxSweeps: number): number[] | null {
+    const n = adj.length;
+    const degree = adj.map(neighbors => {
+        let k = 0;
+        for (const w of neighbors.values()) k += w;
+        return k;
+    });
+    const totalWeight = degree.reduce((a, b) => a + b, 0);
+    if (totalWeight === 0) return null;
+
+    const community = Array.from({ length: n }, (_, i) => i);
+    const communityDegree = degree.slice();
+    let movedAny = false;
+
+    for (let sweep = 0; sweep < maxSweeps; sweep++) {
+        let moved = false;
+        for (let i = 0; i < n; i++) {
+            const current = community[i];
+            const ki = degree[i];
+
+            // Weight from i into each neighboring community
+            const linksTo = new Map<number, number>();
+            for (const [j, w] of adj[i]) {
+                if (j === i) continue;
+                linksTo.set(community[j], (linksTo.get(community[j]) || 0) + w);
+            }
+
+            communityDegree[current] -= ki;
+            let best = current;
+            let bestGain = (linksTo.get(current) || 0) - communityDegree[current] * ki / totalWeight;
+            for (const [c, kIn] of linksTo) {
+                const gain = kIn - communityDegree[c] * ki / totalWeight;
+                if (gain > bestGain + 1e-12) {
+                    best = c;
+                    bestGain = gain;
+                }
+            }
+            communityDegree[best] += ki;
+
+            if (best !== current) {
+                community[i] = best;
+                moved = true;
+                movedAny = true;
+            }
+        }
+        if (!moved) break;
+    }
+
+    return movedAny ? community : null;
+}
+
+/**
+ * Partition nodes into communities.
+ * @returns nodeId → community id; ids are 0..k-1 ordered by community size (largest first).
+ *          Isolated nodes get their own community.
+ */
+export function detectCommunities(
+    nodeIds: number[],
+    edges: CommunityEdge[],
+    options: CommunityOptions = {}
+): Map<number, number> {
+    const { maxSweeps = 20, maxLevels = 10 } = options;
+    const ids = Array.from(new Set(nodeIds)).sort((a, b) => a - b);
+    const indexOf = new Map(ids.map((id, i) => [id, i]));
+
+    const initial: [number, number, number][] = [];
+    for (const e of edges) {
+        const u = indexOf.get(e.source);
+        const v = indexOf.get(e.target);
+        if (u === undefined || v === undefined || u === v) continue;
+        initial.push([u, v, e.weight]);
+    }
+
+    // membership[originalIndex] = index of its super-node at the current level
+    let membership = ids.map((_, i) => i);
+    let adj = buildAdjacency(ids.length, initial);
+
+    for (let level = 0; level < maxLevels; level++) {
+        const community = localMoving(adj, maxSweeps);
+        if (!community) break;
+
+        // Renumber communities densely, in order of first appearance
+        const dense = new Map<number, number>();
+        for (const c of community) if (!dense.has(c)) dense.set(c, dense.size);
+        membership = membership.map(m => dense.get(community[m])!);
+
+        // Aggregate: each community becomes a node; internal weight becomes a self-loop
+        const aggregated: [number, number, number][] = [];
+        for (let u = 0; u < adj.length; u++) {
+            const cu = dense.get(community[u])!;
+            for (const [v, w] of adj[u]) {
+                if (v < u) continue; // each undirected pair once
+                aggregated.push([cu, dense.get(community[v])!, v === u ? w / 2 : w]);
+            }
+        }
+        adj = buildAdjacency(dense.size, aggregated);
+        if (dense.size === 1) break;
+    }
+
+    // Final ids ordered by size desc, ties by smallest member id
+    const members = new Map<number, number[]>();
+    membership.forEach((m, i) => {
+        const list = members.get(m);
+        if (list) list.push(ids[i]);
+        else members.set(m, [ids[i]]);
+    });
+    const ordered = Array.from(members.values()).sort((a, b) => b.length - a.length || a[0] - b[0]);
+
+    const result = new Map<number, number>();
+    ordered.forEach((group, clusterId) => {
+        for (const id of group) result.set(id, clusterId);
+    });
+    return result;
+}
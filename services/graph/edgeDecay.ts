@@ -0,0 +1,44 @@
+import type { EdgeType } from './GraphService';
+
+/**
+ * Temporal decay of listening-derived edge weights.
+ *
+ * weight_effective = weight * 0.5 ^ (elapsedDays / halfLifeDays)
+ *
+ * Only behavioural edges fade (transitions, vibe/artist affinity, skips, listening context). Structural edges
+ * (genre tags, audio features, similarity) describe the song itself and keep their weight.
+ */
+
+export const DECAYING_EDGE_TYPES: ReadonlySet<EdgeType> = new Set<EdgeType>(['NEXT', 'RELATED', 'SKIPPED_IN', 'IN_CONTEXT']);
+
+export const DEFAULT_EDGE_HALF_LIFE_DAYS = 180;
+
+/** Preference key for the half-life; 0 disables decay. */
+export const EDGE_HALF_LIFE_PREF_KEY = 'graph_edge_half_life_days';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weight of an edge `now`, given its stored weight and last reinforcement time.
+ * Elapsed time is counted in whole days so repeated reads within a day are stable.
+ * Edges without a timestamp (pre-migration web data) are treated as fresh.
+ */
+export function decayEdgeWeight(
+    weight: number,
+    type: EdgeType,
+    updatedAt: number | null | undefined,
+    halfLifeDays: number,
+    now: number = Date.now()
+): number {
+    if (!DECAYING_EDGE_TYPES.has(type) || !updatedAt || halfLifeDays <= 0) return weight;
+    const elapsedDays = Math.floor((now - updatedAt) / DAY_MS);
+    if (elapsedDays <= 0) return weight;
+    return weight * Math.pow(0.5, elapsedDays / halfLifeDays);
+}
+
+/** Clamp a user-supplied half-life to a sane number of days (0 = off). */
+export function normalizeHalfLifeDays(value: unknown): number {
+    const n = typeof value === 'string' ? Number(value) : value;
+    if (typeof n !== 'number' || !Number.isFinite(n) || n < 0) return DEFAULT_EDGE_HALF_LIFE_DAYS;
+    return Math.round(n);
+}
@@ -0,0 +1,62 @@
+/**
+ * Genre hierarchy: maps Spotify micro-genres ("indie poptimism", "escape room") onto a small,
+ * bundled set of parent genres so genre-based features still work on genre-sparse libraries.
+ *
+ * Keywords match at the start of a word ("pop" matches "k-pop" and "indie poptimism", "rap"
+ * does not match "trap"). Rules are checked in order and the first hit wins, so the more
+ * specific families come first; e.g. "latin hip hop" → latin, "skate punk" → rock before the
+ * reggae rule could read it as "ska".
+ */
+
+/** Micro-genres whose names give no usable hint. */
+const GENRE_OVERRIDES: Readonly<Record<string, string>> = {
+    'escape room': 'r&b',
+    'chillwave': 'electronic',
+    'vaporwave': 'electronic',
+    'lo-fi beats': 'hip hop',
+    'bossa nova': 'jazz',
+    'singer-songwriter': 'folk',
+    'adult standards': 'jazz',
+};
+
+const GENRE_RULES: readonly (readonly [parent: string, keywords: readonly string[]])[] = [
+    ['latin', ['latin', 'reggaeton', 'salsa', 'bachata', 'cumbia', 'samba', 'mpb', 'sertanejo', 'corrido', 'banda', 'tango']],
+    ['hip hop', ['hip hop', 'hip-hop', 'rap', 'trap', 'drill', 'grime', 'boom bap']],
+    ['r&b', ['r&b', 'rnb', 'soul', 'funk', 'motown', 'new jack swing', 'quiet storm']],
+    ['metal', ['metal', 'metalcore', 'deathcore', 'djent', 'doom', 'sludge']],
+    ['country', ['country', 'bluegrass', 'americana', 'honky tonk']],
+    ['folk', ['folk', 'celtic']],
+    ['jazz', ['jazz', 'bebop', 'swing', 'big band']],
+    ['blues', ['blues']],
+    ['classical', ['classical', 'baroque', 'orchestra', 'opera', 'early music', 'compositional']],
+    ['electronic', [
+        'electronic', 'electronica', 'electro', 'edm', 'house', 'techno', 'trance', 'dubstep', 'drum and bass',
+        'dnb', 'jungle', 'garage', 'breakbeat', 'ambient', 'idm', 'synthwave', 'downtempo', 'trip hop', 'hardstyle',
+    ]],
+    ['rock', ['rock', 'punk', 'post-punk', 'grunge', 'shoegaze', 'emo', 'new wave', 'britpop', 'hardcore', 'psychedelic']],
+    ['reggae', ['reggae', 'dancehall', 'ska', 'dub']],
+    ['pop', ['pop', 'boy band', 'girl group', 'idol']],
+    // Last resort: "indie"/"alternative" alone lean rock ("indie pop" already matched pop above)
+    ['rock', ['indie', 'alternative']],
+];
+
+/** Bundled parent genres, in rule order. */
+export const PARENT_GENRES: readonly string[] = Array.from(new Set(GENRE_RULES.map(([parent]) => parent)));
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const RULE_PATTERNS = GENRE_RULES.map(([parent, keywords]) => ({
+    parent,
+    pattern: new RegExp(`(^|[\\s-])(${keywords.map(escapeRegExp).join('|')})`),
+}));
+
+/**
+ * Parent genre of a Spotify genre name (case-insensitive).
+ * @returns the parent (a parent genre maps to itself), or null when no rule matches
+ */
+export function parentGenreOf(genre: string): string | null {
+    const name = genre.trim().toLowerCase();
+    if (!name) return null;
+    if (GENRE_OVERRIDES[name]) return GENRE_OVERRIDES[name];
+    return RULE_PATTERNS.find(r => r.pattern.test(name))?.parent ?? null;
+}
@@ -0,0 +1,220 @@
+/**
+ * Graph analytics on an undirected weighted graph: degree distribution, betweenness and
+ * eigenvector centrality, and "bridge" songs whose neighbors sit in several taste clusters.
+ * Used by GraphService to size nodes in the graph view and to pick gateway tracks when the DJ
+ * moves between styles.
+ *
+ * Deterministic: nodes are visited in ascending id order, so the same graph always yields the
+ * same scores.
+ */
+
+export interface AnalyticsEdge {
+    source: number;
+    target: number;
+    weight: number;
+}
+
+/** Node id → neighbor id → summed edge weight (both directions, no self-loops). */
+export type AnalyticsAdjacency = Map<number, Map<number, number>>;
+
+/** Betweenness runs exact up to this many nodes; larger graphs use this many evenly spread sources. */
+export const BETWEENNESS_MAX_SOURCES = 200;
+
+export interface BridgeSong {
+    id: number;
+    /** Clusters of the song's neighbors, most neighbors first. */
+    clusters: number[];
+    /** Participation coefficient (0–1): how evenly the neighbors spread over the clusters. */
+    score: number;
+}
+
+/** Adjacency over `nodeIds`; edges to unknown nodes, self-loops and non-positive weights are dropped. */
+export function buildAnalyticsAdjacency(nodeIds: Iterable<number>, edges: Iterable<AnalyticsEdge>): AnalyticsAdjacency {
+    const adj: AnalyticsAdjacency = new Map();
+    for (const id of nodeIds) adj.set(id, new Map());
+    for (const { source, target, weight } of edges) {
+        if (source === target || !(weight > 0)) continue;
+        const a = adj.get(source);
+        const b = adj.get(target);
+        if (!a || !b) continue;
+        a.set(target, (a.get(target) || 0) + weight);
+        b.set(source, (b.get(source) || 0) + weight);
+    }
+    return adj;
+}
+
+const sortedIds = (adj: AnalyticsAdjacency): number[] => Array.from(adj.keys()).sort((a, b) => a - b);
+
+/** Number of distinct neighbors per node. */
+export function degrees(adj: AnalyticsAdjacency): Map<number, number> {
+    return new Map(Array.from(adj, ([id, neighbors]) => [id, neighbors.size]));
+}
+
+/** How many nodes have each degree, lowest degree first. */
+export function degreeDistribution(adj: AnalyticsAdjacency): { degree: number; count: number }[] {
+    const counts = new Map<number, number>();
+    for (const neighbors of adj.values()) counts.set(neighbors.size, (counts.get(neighbors.size) || 0) + 1);
+    return Array.from(counts, ([degree, count]) => ({ degree, count })).sort((a, b) => a.degree - b.degree);
+}
+
+/** Betweenness runs this many sources between yields to the event loop (see betweennessCentralityAsync()). */
+export const BETWEENNESS_SOURCES_PER_SLICE = 20;
+
+/** Source nodes expanded for betweenness: all of them, or `maxSources` evenly spread ones. */
+function betweennessSources(ids: number[], maxSources: number): number[] {
+    const n = ids.length;
+    const count = Math.min(n, maxSources);
+    return Array.from({ length: count }, (_, i) => ids[Math.floor((i * n) / count)]);
+}
+
+/** Add the pair dependencies of one Brandes source to `centrality`. */
+function accumulateBetweenness(adj: AnalyticsAdjacency, s: number, centrality: Map<number, number>): void {
+    const stack: number[] = [];
+    const preds = new Map<number, number[]>();
+    const sigma = new Map<number, number>([[s, 1]]);
+    const dist = new Map<number, number>([[s, 0]]);
+    const queue = [s];
+    for (let head = 0; head < queue.length; head++) {
+        const v = queue[head];
+        stack.push(v);
+        for (const w of adj.get(v)!.keys()) {
+            if (!dist.has(w)) {
+                dist.set(w, dist.get(v)! + 1);
+                queue.push(w);
+            }
+            if (dist.get(w) === dist.get(v)! + 1) {
+                sigma.set(w, (sigma.get(w) || 0) + sigma.get(v)!);
+                const p = preds.get(w);
+                if (p) p.push(v);
+                else preds.set(w, [v]);
+            }
+        }
+    }
+
+    const delta = new Map<number, number>();
+    while (stack.length > 0) {
+        const w = stack.pop()!;
+        const coeff = (1 + (delta.get(w) || 0)) / sigma.get(w)!;
+        for (const v of preds.get(w) ?? []) delta.set(v, (delta.get(v) || 0) + sigma.get(v)! * coeff);
+        if (w !== s) centrality.set(w, centrality.get(w)! + (delta.get(w) || 0));
+    }
+}
+
+/** Normalize summed dependencies to 0–1, scaling up for sampled sources. */
+function normalizeBetweenness(centrality: Map<number, number>, sourceCount: number): Map<number, number> {
+    const n = centrality.size;
+    // Every unordered pair was counted from both ends
+    const scale = (n / sourceCount) / ((n - 1) * (n - 2));
+    for (const [id, value] of centrality) centrality.set(id, value * scale);
+    return centrality;
+}
+
+/**
+ * Betweenness centrality (Brandes, hop counts), normalized to 0–1 by (n−1)(n−2).
+ * With more than `maxSources` nodes only that many evenly spread sources are expanded and the
+ * result is scaled up, which keeps the ranking while bounding the cost to O(maxSources · E).
+ */
+export function betweennessCentrality(
+    adj: AnalyticsAdjacency,
+    maxSources: number = BETWEENNESS_MAX_SOURCES
+): Map<number, number> {
+    const ids = sortedIds(adj);
+    const centrality = new Map(ids.map(id => [id, 0]));
+    if (ids.length < 3) return centrality;
+
+    const sources = betweennessSources(ids, maxSources);
+    for (const s of sources) accumulateBetweenness(adj, s, centrality);
+    return normalizeBetweenness(centrality, sources.length);
+}
+
+/**
+ * betweennessCentrality() in slices of `sourcesPerSlice` sources with a macrotask in between,
+ * so a large graph doesn't block the JS thread (taps, playback events) for the whole run.
+ */
+export async function betweennessCentralityAsync(
+    adj: AnalyticsAdjacency,
+    maxSources: number = BETWEENNESS_MAX_SOURCES,
+    sourcesPerSlice: number = BETWEENNESS_SOURCES_PER_SLICE
+): Promise<Map<number, number>> {
+    const ids = sortedIds(adj);
+    const centrality = new Map(ids.map(id => [id, 0]));
+    if (ids.length < 3) return centrality;
+
+    const sources = betweennessSources(ids, maxSources);
+    for (let i = 0; i < sources.length; i += sourcesPerSlice) {
+        if (i > 0) await new Promise(r => setTimeout(r, 0));
+        for (const s of sources.slice(i, i + sourcesPerSlice)) accumulateBetweenness(adj, s, centrality);
+    }
+    return normalizeBetweenness(centrality, sources.length);
+}
+
+/**
+ * Eigenvector centrality by weighted power iteration, scaled so the most central node is 1.
+ * Iterates on A + I so bipartite graphs (songs ↔ genres) converge instead of oscillating;
+ * isolated nodes score 0.
+ */
+export function eigenvectorCentrality(
+    adj: AnalyticsAdjacency,
+    maxIterations: number = 100,
+    tolerance: number = 1e-6
+): Map<number, number> {
+    const ids = sortedIds(adj).filter(id => adj.get(id)!.size > 0);
+    let x = new Map(ids.map(id => [id, 1]));
+
+    for (let iter = 0; iter < maxIterations; iter++) {
+        const next = new Map<number, number>();
+        let max = 0;
+        for (const id of ids) {
+            let value = x.get(id)!;
+            for (const [neighbor, weight] of adj.get(id)!) value += weight * x.get(neighbor)!;
+            next.set(id, value);
+            max = Math.max(max, value);
+        }
+        if (max === 0) break;
+
+        let change = 0;
+        for (const id of ids) {
+            const value = next.get(id)! / max;
+            change = Math.max(change, Math.abs(value - x.get(id)!));
+            next.set(id, value);
+        }
+        x = next;
+        if (change < tolerance) break;
+    }
+
+    const centrality = new Map<number, number>();
+    for (const id of adj.keys()) centrality.set(id, x.get(id) ?? 0);
+    return centrality;
+}
+
+/**
+ * Songs whose neighbors fall in two or more taste clusters, best bridge first.
+ * Scored by the participation coefficient 1 − Σ(k_c / k)², where k_c is the number of neighbors
+ * in cluster c; ties go to the higher betweenness. Unclustered neighbors are ignored.
+ */
+export function findBridgeSongs(
+    songIds: Iterable<number>,
+    clusterOf: ReadonlyMap<number, number | null | undefined>,
+    adj: AnalyticsAdjacency,
+    betweenness: ReadonlyMap<number, number> = new Map()
+): BridgeSong[] {
+    const bridges: BridgeSong[] = [];
+    for (const id of songIds) {
+        const perCluster = new Map<number, number>();
+        for (const neighbor of adj.get(id)?.keys() ?? []) {
+            const cluster = clusterOf.get(neighbor);
+            if (cluster != null) perCluster.set(cluster, (perCluster.get(cluster) || 0) + 1);
+        }
+        if (perCluster.size < 2) continue;
+
+        const k = Array.from(perCluster.values()).reduce((sum, c) => sum + c, 0);
+        const score = 1 - Array.from(perCluster.values()).reduce((sum, c) => sum + (c / k) ** 2, 0);
+        const clusters = Array.from(perCluster.entries())
+            .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+            .map(([cluster]) => cluster);
+        bridges.push({ id, clusters, score });
+    }
+
+    return bridges.sort((a, b) =>
+        b.score - a.score || (betweenness.get(b.id) ?? 0) - (betweenness.get(a.id) ?? 0) || a.id - b.id);
+}
@@ -4,8 +4,8 @@ import type { EdgeType, NodeType } from './GraphService';
 
 /** Single source of truth for graph edge colors (visualization). */
 /**
- * 10 "Cool" Color Constants for Graph Visualization.
- * First 5 for Nodes, Last 5 for Edges.
+ * "Cool" Color Constants for Graph Visualization.
+ * First 9 for Nodes, the rest for Edges.
  */
 const COOL_PALETTE = [
     // Nodes
@@ -14,6 +14,10 @@ const COOL_PALETTE = [
     '#E040FB', // Purple Accent (VIBE)
     '#FFD740', // Amber Accent (GENRE)
     '#FF5252', // Red Accent (AUDIO_FEATURE)
+    '#FF4081', // Pink Accent (PLAYLIST)
+    '#40C4FF', // Light Blue Accent (ALBUM)
+    '#B388FF', // Deep Purple Accent (ERA)
+    '#A7FFEB', // Teal Accent (CONTEXT)
 
     // Edges
     '#69F0AE', // Teal Accent (SIMILAR)
@@ -21,6 +25,12 @@ const COOL_PALETTE = [
     '#EA80FC', // Purple (RELATED)
     '#FFAB40', // Orange (HAS_FEATURE)
     '#B2FF59', // Lime (HAS_GENRE)
+    '#FF6E40', // Deep Orange (SKIPPED_IN)
+    '#F48FB1', // Pink (IN_PLAYLIST)
+    '#80D8FF', // Light Blue (IN_ALBUM)
+    '#B39DDB', // Deep Purple (FROM_ERA)
+    '#FFE57F', // Amber (SUBGENRE_OF)
+    '#84FFFF', // Cyan (IN_CONTEXT)
 ];
 
 const NODE_TYPE_COLORS: Record<NodeType, string> = {
@@ -29,14 +39,24 @@ const NODE_TYPE_COLORS: Record<NodeType, string> = {
     VIBE: COOL_PALETTE[2],
     GENRE: COOL_PALETTE[3],
     AUDIO_FEATURE: COOL_PALETTE[4],
+    PLAYLIST: COOL_PALETTE[5],
+    ALBUM: COOL_PALETTE[6],
+    ERA: COOL_PALETTE[7],
+    CONTEXT: COOL_PALETTE[8],
 };
 
 const EDGE_TYPE_COLORS: Record<EdgeType, string> = {
-    SIMILAR: COOL_PALETTE[5],
-    NEXT: COOL_PALETTE[6],
-    RELATED: COOL_PALETTE[7],
-    HAS_FEATURE: COOL_PALETTE[8],
-    HAS_GENRE: COOL_PALETTE[9],
+    SIMILAR: COOL_PALETTE[9],
+    NEXT: COOL_PALETTE[10],
+    RELATED: COOL_PALETTE[11],
+    HAS_FEATURE: COOL_PALETTE[12],
+    HAS_GENRE: COOL_PALETTE[13],
+    SKIPPED_IN: COOL_PALETTE[14],
+    IN_PLAYLIST: COOL_PALETTE[15],
+    IN_ALBUM: COOL_PALETTE[16],
+    FROM_ERA: COOL_PALETTE[17],
+    SUBGENRE_OF: COOL_PALETTE[18],
+    IN_CONTEXT: COOL_PALETTE[19],
 };
 
 export function getNodeColor(type: NodeType): string {
@@ -0,0 +1,99 @@
+/**
+ * Graph integrity checks: finds the damage that clearGraph, interrupted ingestions and
+ * spotify_id rewrites (queueOrRecover) leave behind. Pure: the caller loads rows and applies repairs.
+ *
+ * - Dangling edges: source or target node no longer exists.
+ * - Orphan nodes: non-SONG nodes without edges, and VIBE nodes no song HAS_VIBE. SONG nodes are
+ *   never orphans; they carry play history and liked state on their own.
+ * - Corrupt data: `data` that is not a JSON object.
+ * - Duplicate nodes: nodes without spotify_id sharing type + name (their identity key, see
+ *   GraphService.getEffectiveNode). Nodes with a spotify_id are kept unique by the DB index.
+ */
+
+export interface IntegrityNode {
+    id: number;
+    type: string;
+    name: string;
+    spotify_id?: string | null;
+    data?: unknown;
+}
+
+export interface IntegrityEdge {
+    source: number;
+    target: number;
+    type: string;
+}
+
+export interface GraphIntegrityReport {
+    danglingEdges: IntegrityEdge[];
+    /** Nodes to delete, including every member of an edgeless duplicate group. */
+    orphanNodeIds: number[];
+    corruptDataNodeIds: number[];
+    /** Groups of duplicate node ids, lowest id (the one to keep) first. Orphan groups are not listed. */
+    duplicateNodeGroups: number[][];
+}
+
+/**
+ * Parse a node's `data` column.
+ * @returns the object (`{}` for empty data), or null when it is not a JSON object
+ */
+export function parseNodeData(data: unknown): Record<string, any> | null {
+    if (data == null || data === '') return {};
+    if (typeof data === 'object') return Array.isArray(data) ? null : (data as Record<string, any>);
+    if (typeof data !== 'string') return null;
+    try {
+        const parsed = JSON.parse(data);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Check nodes and edges for the problems listed above. */
+export function checkGraphIntegrity(nodes: IntegrityNode[], edges: IntegrityEdge[]): GraphIntegrityReport {
+    const nodeById = new Map(nodes.map(n => [n.id, n]));
+    const danglingEdges = edges.filter(e => !nodeById.has(e.source) || !nodeById.has(e.target));
+    const validEdges = edges.filter(e => nodeById.has(e.source) && nodeById.has(e.target));
+
+    const corruptDataNodeIds = nodes.filter(n => parseNodeData(n.data) === null).map(n => n.id);
+
+    // Group id-less nodes by type + name; every other node is its own group
+    const groups = new Map<string, number[]>();
+    for (const n of [...nodes].sort((a, b) => a.id - b.id)) {
+        const key = n.spotify_id ? `id:${n.id}` : `${n.type}:${n.name}`;
+        groups.set(key, [...(groups.get(key) ?? []), n.id]);
+    }
+    const groupOf = new Map<number, number[]>();
+    for (const ids of groups.values()) ids.forEach(id => groupOf.set(id, ids));
+
+    // Orphans are judged per group: a duplicate with edges keeps its whole group alive (edges move on merge)
+    const linked = new Set<number[]>();
+    const hasSong = new Set<number[]>();
+    for (const e of validEdges) {
+        linked.add(groupOf.get(e.source)!);
+        linked.add(groupOf.get(e.target)!);
+        if (e.type === 'HAS_VIBE' && nodeById.get(e.source)!.type === 'SONG') hasSong.add(groupOf.get(e.target)!);
+    }
+    const isOrphan = (ids: number[]) => {
+        const type = nodeById.get(ids[0])!.type;
+        if (type === 'SONG') return false;
+        return !linked.has(ids) || (type === 'VIBE' && !hasSong.has(ids));
+    };
+
+    const orphanNodeIds: number[] = [];
+    const duplicateNodeGroups: number[][] = [];
+    for (const ids of groups.values()) {
+        if (isOrphan(ids)) orphanNodeIds.push(...ids);
+        else if (ids.length > 1) duplicateNodeGroups.push(ids);
+    }
+
+    return { danglingEdges, orphanNodeIds, corruptDataNodeIds, duplicateNodeGroups };
+}
+
+/** Total number of problems in a report. */
+export function countIntegrityIssues(report: GraphIntegrityReport): number {
+    return report.danglingEdges.length
+        + report.orphanNodeIds.length
+        + report.corruptDataNodeIds.length
+        + report.duplicateNodeGroups.reduce((sum, ids) => sum + ids.length - 1, 0);
+}
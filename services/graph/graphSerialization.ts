@@ -0,0 +1,313 @@
+import type { EdgeType, GraphEdge, GraphNode, NodeType } from './GraphService';
+import { parseNodeData } from './graphIntegrity';
+
+/**
+ * Versioned knowledge-graph backup format (JSON + GraphML).
+ * Used by GraphService.exportGraph()/importGraph() for backups and phone ↔ web migration.
+ */
+
+export const GRAPH_EXPORT_FORMAT = 'moodify-graph';
+export const GRAPH_EXPORT_VERSION = 1;
+
+export type GraphExportFormat = 'json' | 'graphml';
+
+/** Every NodeType / EdgeType, for checking imported documents (a Record so a new type can't be forgotten). */
+const NODE_TYPES: Record<NodeType, true> = {
+    SONG: true, ARTIST: true, GENRE: true, VIBE: true, AUDIO_FEATURE: true,
+    PLAYLIST: true, ALBUM: true, ERA: true, CONTEXT: true,
+};
+const EDGE_TYPES: Record<EdgeType, true> = {
+    SIMILAR: true, SAME_ARTIST: true, IN_GENRE: true, HAS_VIBE: true, NEXT: true, RELATED: true, HAS_GENRE: true,
+    HAS_FEATURE: true, SKIPPED_IN: true, IN_PLAYLIST: true, IN_ALBUM: true, FROM_ERA: true, SUBGENRE_OF: true, IN_CONTEXT: true,
+};
+
+function isNodeType(value: unknown): value is NodeType {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(NODE_TYPES, value);
+}
+
+function isEdgeType(value: unknown): value is EdgeType {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EDGE_TYPES, value);
+}
+
+export interface GraphExportNode {
+    id: number;
+    type: NodeType;
+    name: string;
+    spotify_id: string | null;
+    data: Record<string, any>;
+    play_count: number;
+    last_played_at: number;
+    created_at?: number;
+    x?: number;
+    y?: number;
+}
+
+export interface GraphExportEdge {
+    source: number;
+    target: number;
+    type: EdgeType;
+    weight: number;
+    updated_at?: number;
+}
+
+export interface GraphExport {
+    format: typeof GRAPH_EXPORT_FORMAT;
+    version: number;
+    exportedAt: number;
+    nodes: GraphExportNode[];
+    edges: GraphExportEdge[];
+}
+
+function toNumber(value: unknown, fallback: number = 0): number {
+    const n = typeof value === 'string' ? Number(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) ? n : fallback;
+}
+
+/**
+ * Build an export document from a graph snapshot.
+ */
+export function toGraphExport(nodes: GraphNode[], edges: GraphEdge[]): GraphExport {
+    return {
+        format: GRAPH_EXPORT_FORMAT,
+        version: GRAPH_EXPORT_VERSION,
+        exportedAt: Date.now(),
+        nodes: nodes.map(n => ({
+            id: n.id,
+            type: n.type,
+            name: n.name,
+            spotify_id: n.spotify_id ?? null,
+            data: parseNodeData(n.data) ?? {},
+            play_count: toNumber(n.play_count),
+            last_played_at: toNumber(n.last_played_at),
+            ...(n.created_at != null && { created_at: toNumber(n.created_at) }),
+            ...(typeof n.x === 'number' && { x: n.x }),
+            ...(typeof n.y === 'number' && { y: n.y }),
+        })),
+        edges: edges.map(e => ({
+            source: e.source,
+            target: e.target,
+            type: e.type,
+            weight: toNumber(e.weight, 1.0),
+            ...(e.updated_at != null && { updated_at: toNumber(e.updated_at) }),
+        })),
+    };
+}
+
+/**
+ * Validate an untrusted document and normalize it to the current shape.
+ * Nodes and edges of unknown types are dropped (edges to a dropped node follow on import).
+ * Throws with a descriptive message when the payload is not a Moodify graph export.
+ */
+function validateGraphExport(raw: any): GraphExport {
+    if (!raw || typeof raw !== 'object') throw new Error('Graph import: payload is not an object');
+    if (raw.format !== GRAPH_EXPORT_FORMAT) throw new Error(`Graph import: unknown format '${raw.format}'`);
+    const version = toNumber(raw.version, NaN);
+    if (!Number.isFinite(version) || version > GRAPH_EXPORT_VERSION) {
+        throw new Error(`Graph import: unsupported version ${raw.version} (max ${GRAPH_EXPORT_VERSION})`);
+    }
+    if (!Array.isArray(raw.nodes) || !Array.isArray(raw.edges)) {
+        throw new Error('Graph import: nodes/edges must be arrays');
+    }
+
+    const nodes: GraphExportNode[] = [];
+    for (const n of raw.nodes) {
+        if (!n || !isNodeType(n.type) || typeof n.name !== 'string' || !Number.isFinite(toNumber(n.id, NaN))) continue;
+        nodes.push({
+            id: toNumber(n.id),
+            type: n.type,
+            name: n.name,
+            spotify_id: n.spotify_id || null,
+            data: parseNodeData(n.data) ?? {},
+            play_count: toNumber(n.play_count),
+            last_played_at: toNumber(n.last_played_at),
+            ...(n.created_at != null && { created_at: toNumber(n.created_at) }),
+            ...(Number.isFinite(toNumber(n.x, NaN)) && { x: toNumber(n.x) }),
+            ...(Number.isFinite(toNumber(n.y, NaN)) && { y: toNumber(n.y) }),
+        });
+    }
+
+    const edges: GraphExportEdge[] = [];
+    for (const e of raw.edges) {
+        if (!e || !isEdgeType(e.type)) continue;
+        const source = toNumber(e.source, NaN);
+        const target = toNumber(e.target, NaN);
+        if (!Number.isFinite(source) || !Number.isFinite(target)) continue;
+        edges.push({
+            source,
+            target,
+            type: e.type,
+            weight: toNumber(e.weight, 1.0),
+            ...(Number.isFinite(toNumber(e.updated_at, NaN)) && { updated_at: toNumber(e.updated_at) }),
+        });
+    }
+
+    return { format: GRAPH_EXPORT_FORMAT, version, exportedAt: toNumber(raw.exportedAt), nodes, edges };
+}
+
+// --- GraphML ---
+
+const NODE_KEYS = ['type', 'name', 'spotify_id', 'data', 'play_count', 'last_played_at', 'created_at', 'x', 'y'] as const;
+const NODE_KEY_TYPES: Record<(typeof NODE_KEYS)[number], string> = {
+    type: 'string', name: 'string', spotify_id: 'string', data: 'string',
+    play_count: 'int', last_played_at: 'long', created_at: 'long', x: 'double', y: 'double',
+};
+const EDGE_KEYS = ['type', 'weight', 'updated_at'] as const;
+const EDGE_KEY_TYPES: Record<(typeof EDGE_KEYS)[number], string> = { type: 'string', weight: 'double', updated_at: 'long' };
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Serialize an export document as GraphML (readable by Gephi, yEd, networkx, ...).
+ * Format/version/exportedAt are stored as graph-level data so the file round-trips.
+ */
+export function toGraphML(doc: GraphExport): string {
+    const lines: string[] = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+        '  <key id="g_format" for="graph" attr.name="format" attr.type="string"/>',
+        '  <key id="g_version" for="graph" attr.name="version" attr.type="int"/>',
+        '  <key id="g_exportedAt" for="graph" attr.name="exportedAt" attr.type="long"/>',
+    ];
+    for (const k of NODE_KEYS) {
+        lines.push(`  <key id="n_${k}" for="node" attr.name="${k}" attr.type="${NODE_KEY_TYPES[k]}"/>`);
+    }
+    for (const k of EDGE_KEYS) {
+        lines.push(`  <key id="e_${k}" for="edge" attr.name="${k}" attr.type="${EDGE_KEY_TYPES[k]}"/>`);
+    }
+
+    lines.push('  <graph id="moodify" edgedefault="directed">');
+    lines.push(`    <data key="g_format">${doc.format}</data>`);
+    lines.push(`    <data key="g_version">${doc.version}</data>`);
+    lines.push(`    <data key="g_exportedAt">${doc.exportedAt}</data>`);
+
+    for (const n of doc.nodes) {
+        lines.push(`    <node id="n${n.id}">`);
+        for (const k of NODE_KEYS) {
+            const value = k === 'data' ? JSON.stringify(n.data ?? {}) : n[k];
+            if (value === undefined || value === null) continue;
+            lines.push(`      <data key="n_${k}">${escapeXml(String(value))}</data>`);
+        }
+        lines.push('    </node>');
+    }
+
+    doc.edges.forEach((e, i) => {
+        lines.push(`    <edge id="e${i}" source="n${e.source}" target="n${e.target}">`);
+        lines.push(`      <data key="e_type">${escapeXml(e.type)}</data>`);
+        lines.push(`      <data key="e_weight">${e.weight}</data>`);
+        if (e.updated_at != null) lines.push(`      <data key="e_updated_at">${e.updated_at}</data>`);
+        lines.push('    </edge>');
+    });
+
+    lines.push('  </graph>');
+    lines.push('</graphml>');
+    return lines.join('\n');
+}
+
+function readDataElements(body: string, prefix: string): Record<string, string> {
+    const out: Record<string, string> = {};
+    const pattern = /<data\s+key="([^"]+)"\s*>([\s\S]*?)<\/data>/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(body)) !== null) {
+        const key = match[1].startsWith(prefix) ? match[1].slice(prefix.length) : match[1];
+        out[key] = unescapeXml(match[2]);
+    }
+    return out;
+}
+
+function parseNodeRef(ref: string): number {
+    return toNumber(ref.replace(/^n/, ''), NaN);
+}
+
+/**
+ * Parse GraphML produced by toGraphML(). Only the subset Moodify writes is supported
+ * (no nested graphs, hyperedges or ports).
+ */
+export function fromGraphML(xml: string): GraphExport {
+    const graphMatch = /<graph\b[^>]*>([\s\S]*)<\/graph>/.exec(xml);
+    if (!graphMatch) throw new Error('Graph import: GraphML has no <graph> element');
+    const graphBody = graphMatch[1];
+
+    const withoutChildren = graphBody
+        .replace(/<node\b[\s\S]*?<\/node>/g, '')
+        .replace(/<edge\b[\s\S]*?<\/edge>/g, '');
+    const meta = readDataElements(withoutChildren, 'g_');
+
+    const nodes: any[] = [];
+    const nodePattern = /<node\s+id="([^"]+)"\s*(?:\/>|>([\s\S]*?)<\/node>)/g;
+    let match: RegExpExecArray | null;
+    while ((match = nodePattern.exec(graphBody)) !== null) {
+        const attrs = readDataElements(match[2] ?? '', 'n_');
+        nodes.push({
+            id: parseNodeRef(match[1]),
+            type: attrs.type,
+            name: attrs.name,
+            spotify_id: attrs.spotify_id || null,
+            data: attrs.data,
+            play_count: attrs.play_count,
+            last_played_at: attrs.last_played_at,
+            created_at: attrs.created_at,
+            x: attrs.x,
+            y: attrs.y,
+        });
+    }
+
+    const edges: any[] = [];
+    const edgePattern = /<edge\b([^>]*?)(?:\/>|>([\s\S]*?)<\/edge>)/g;
+    while ((match = edgePattern.exec(graphBody)) !== null) {
+        const source = /source="([^"]+)"/.exec(match[1])?.[1];
+        const target = /target="([^"]+)"/.exec(match[1])?.[1];
+        if (!source || !target) continue;
+        const attrs = readDataElements(match[2] ?? '', 'e_');
+        edges.push({ source: parseNodeRef(source), target: parseNodeRef(target), type: attrs.type, weight: attrs.weight, updated_at: attrs.updated_at });
+    }
+
+    return validateGraphExport({
+        format: meta.format,
+        version: meta.version,
+        exportedAt: meta.exportedAt,
+        nodes,
+        edges,
+    });
+}
+
+/**
+ * Serialize an export document in the requested format.
+ */
+export function serializeGraphExport(doc: GraphExport, format: GraphExportFormat = 'json'): string {
+    return format === 'graphml' ? toGraphML(doc) : JSON.stringify(doc);
+}
+
+/**
+ * Parse a JSON or GraphML payload (format is sniffed from the first character).
+ */
+export function parseGraphExport(payload: string | GraphExport): GraphExport {
+    if (typeof payload !== 'string') return validateGraphExport(payload);
+
+    const trimmed = payload.trim();
+    if (trimmed.startsWith('<')) return fromGraphML(trimmed);
+
+    let raw: any;
+    try {
+        raw = JSON.parse(trimmed);
+    } catch (e: any) {
+        throw new Error(`Graph import: invalid JSON (${e.message})`);
+    }
+    return validateGraphExport(raw);
+}
@@ -0,0 +1,57 @@
+/**
+ * Listening context: when music is played, as two coarse buckets the graph can learn habits from
+ * ("weekday" + "morning" → commute vibes). Each bucket is a CONTEXT node; songs and vibes committed
+ * in that context get an IN_CONTEXT edge to it.
+ *
+ * Friday from 17:00 counts as weekend: Friday night listening looks like Saturday, not Monday.
+ */
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+export type DayKind = 'weekday' | 'weekend';
+
+export interface ListeningContext {
+    timeOfDay: TimeOfDay;
+    dayKind: DayKind;
+}
+
+/** Bucket start hours (local time); night wraps past midnight. */
+const TIME_OF_DAY_STARTS: readonly (readonly [hour: number, bucket: TimeOfDay])[] = [
+    [5, 'morning'],
+    [12, 'afternoon'],
+    [17, 'evening'],
+    [22, 'night'],
+];
+
+const WEEKEND_START_HOUR_FRIDAY = 17;
+
+export function timeOfDayOf(date: Date): TimeOfDay {
+    const hour = date.getHours();
+    let bucket: TimeOfDay = 'night';
+    for (const [start, name] of TIME_OF_DAY_STARTS) {
+        if (hour >= start) bucket = name;
+    }
+    return bucket;
+}
+
+export function dayKindOf(date: Date): DayKind {
+    const day = date.getDay(); // 0 = Sunday
+    if (day === 0 || day === 6) return 'weekend';
+    if (day === 5 && date.getHours() >= WEEKEND_START_HOUR_FRIDAY) return 'weekend';
+    return 'weekday';
+}
+
+/** Context of a moment (local time), now by default. */
+export function listeningContextOf(at: number = Date.now()): ListeningContext {
+    const date = new Date(at);
+    return { timeOfDay: timeOfDayOf(date), dayKind: dayKindOf(date) };
+}
+
+/** CONTEXT node names for a context, e.g. ["weekday", "morning"]. */
+export function contextNodeNames(context: ListeningContext): string[] {
+    return [context.dayKind, context.timeOfDay];
+}
+
+/** "weekday morning" */
+export function describeContext(context: ListeningContext): string {
+    return `${context.dayKind} ${context.timeOfDay}`;
+}
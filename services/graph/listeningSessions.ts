@@ -0,0 +1,36 @@
+/**
+ * Listening sessions from raw play timestamps (Spotify's recently-played history).
+ *
+ * Two plays belong to the same session when the next one starts within SESSION_GAP_MS of the
+ * previous one ending. Spotify reports `played_at` as the time a track finished, so the start of
+ * a play is `playedAt - durationMs` (or just `playedAt` when the duration is unknown).
+ */
+
+/** Silence between two tracks beyond which a new session starts. */
+export const SESSION_GAP_MS = 20 * 60 * 1000;
+
+export interface TimedPlay {
+    playedAt: number;
+    durationMs?: number;
+}
+
+/**
+ * Split plays into contiguous sessions, oldest first (input order does not matter).
+ * @returns sessions of plays sorted by playedAt; empty when there are no plays
+ */
+export function splitIntoSessions<T extends TimedPlay>(plays: T[], maxGapMs: number = SESSION_GAP_MS): T[][] {
+    const sorted = [...plays].sort((a, b) => a.playedAt - b.playedAt);
+    const sessions: T[][] = [];
+    let current: T[] = [];
+    for (const play of sorted) {
+        const prev = current[current.length - 1];
+        const startedAt = play.playedAt - (play.durationMs ?? 0);
+        if (prev && startedAt - prev.playedAt > maxGapMs) {
+            sessions.push(current);
+            current = [];
+        }
+        current.push(play);
+    }
+    if (current.length > 0) sessions.push(current);
+    return sessions;
+}
@@ -0,0 +1,208 @@
+import type { EdgeType, NodeType } from './GraphService';
+
+/**
+ * Recommendation explanations: the shortest weighted path from what the user is listening to
+ * (session songs, current vibe) to a recommended song, e.g. "Heroes → artist David Bowie → Ashes to Ashes".
+ *
+ * Edges are walked in both directions and cost 1 / weight, so a path over a few strong edges
+ * (played next, same playlist) beats a short hop through a weak hub (an era, an audio feature).
+ */
+
+/** Longest path worth showing; beyond this the link is too loose to explain anything. */
+export const MAX_EXPLANATION_HOPS = 4;
+
+/**
+ * Hubs most songs hang off (a listening context like "evening", an audio feature like energy):
+ * "Heroes → evening → Fashion" reads like a reason but isn't one, so paths never pass through them.
+ */
+export const UNEXPLAINING_NODE_TYPES: ReadonlySet<NodeType> = new Set<NodeType>(['CONTEXT', 'AUDIO_FEATURE']);
+
+/** Edges into those hubs, plus skips (a skip is not a connection). */
+export const UNEXPLAINING_EDGE_TYPES: ReadonlySet<EdgeType> = new Set<EdgeType>(['IN_CONTEXT', 'HAS_FEATURE', 'SKIPPED_IN']);
+
+export interface ExplanationEdge {
+    source: number;
+    target: number;
+    type: EdgeType;
+    /** Effective weight (type weight × decayed edge weight); edges with weight <= 0 are ignored. */
+    weight: number;
+}
+
+export interface PathStep {
+    nodeId: number;
+    name: string;
+    type: NodeType;
+    /** Edge type that led to this node; null for the first step. */
+    via: EdgeType | null;
+}
+
+export interface PathExplanation {
+    steps: PathStep[];
+    /** Sum of 1 / weight over the path; lower is a stronger link. */
+    cost: number;
+    /** One-line rendering for the UI (see describePath()). */
+    text: string;
+}
+
+export interface WeightedPath {
+    nodeIds: number[];
+    edgeTypes: EdgeType[];
+    cost: number;
+}
+
+export type ExplanationAdjacency = Map<number, { to: number; type: EdgeType; cost: number }[]>;
+
+/**
+ * Undirected adjacency keeping the strongest edge between each pair of nodes.
+ * UNEXPLAINING_EDGE_TYPES edges and edges touching `hubIds` (UNEXPLAINING_NODE_TYPES nodes) are left out.
+ */
+export function buildExplanationAdjacency(edges: ExplanationEdge[], hubIds: ReadonlySet<number> = new Set()): ExplanationAdjacency {
+    const best = new Map<string, ExplanationEdge>();
+    for (const e of edges) {
+        if (!(e.weight > 0) || e.source === e.target || UNEXPLAINING_EDGE_TYPES.has(e.type)) continue;
+        if (hubIds.has(e.source) || hubIds.has(e.target)) continue;
+        const key = e.source < e.target ? `${e.source}|${e.target}` : `${e.target}|${e.source}`;
+        const existing = best.get(key);
+        if (!existing || e.weight > existing.weight) best.set(key, e);
+    }
+    const adjacency: ExplanationAdjacency = new Map();
+    const add = (from: number, to: number, type: EdgeType, cost: number) => {
+        if (!adjacency.has(from)) adjacency.set(from, []);
+        adjacency.get(from)!.push({ to, type, cost });
+    };
+    for (const e of best.values()) {
+        add(e.source, e.target, e.type, 1 / e.weight);
+        add(e.target, e.source, e.type, 1 / e.weight);
+    }
+    return adjacency;
+}
+
+/**
+ * Cheapest path from each source to `target` (Dijkstra from the target), at most `maxHops` long.
+ * @returns up to `maxPaths` paths, each starting at a source and ending at `target`, cheapest first
+ */
+export function shortestWeightedPaths(
+    adjacency: ExplanationAdjacency,
+    sources: number[],
+    target: number,
+    maxPaths: number = 1,
+    maxHops: number = MAX_EXPLANATION_HOPS
+): WeightedPath[] {
+    const wanted = new Set(sources.filter(s => s !== target));
+    if (wanted.size === 0 || !adjacency.has(target)) return [];
+
+    // prev points one step closer to the target
+    const dist = new Map<number, number>([[target, 0]]);
+    const hops = new Map<number, number>([[target, 0]]);
+    const prev = new Map<number, { node: number; type: EdgeType }>();
+    const settled = new Set<number>();
+    const heap = new MinHeap();
+    heap.push(target, 0);
+    let remaining = wanted.size;
+
+    while (heap.size > 0 && remaining > 0) {
+        const { id, cost } = heap.pop()!;
+        if (settled.has(id)) continue;
+        settled.add(id);
+        if (wanted.has(id)) remaining--;
+        // Sources are path ends; don't route other paths through them
+        if (wanted.has(id) || hops.get(id)! >= maxHops) continue;
+
+        for (const edge of adjacency.get(id) ?? []) {
+            const next = cost + edge.cost;
+            if (settled.has(edge.to) || next >= (dist.get(edge.to) ?? Infinity)) continue;
+            dist.set(edge.to, next);
+            hops.set(edge.to, hops.get(id)! + 1);
+            prev.set(edge.to, { node: id, type: edge.type });
+            heap.push(edge.to, next);
+        }
+    }
+
+    const paths: WeightedPath[] = [];
+    for (const source of wanted) {
+        if (!settled.has(source)) continue;
+        const nodeIds = [source];
+        const edgeTypes: EdgeType[] = [];
+        let step = prev.get(source);
+        while (step) {
+            nodeIds.push(step.node);
+            edgeTypes.push(step.type);
+            step = prev.get(step.node);
+        }
+        paths.push({ nodeIds, edgeTypes, cost: dist.get(source)! });
+    }
+    return paths.sort((a, b) => a.cost - b.cost || a.nodeIds.length - b.nodeIds.length).slice(0, maxPaths);
+}
+
+/** Labels for direct song-to-song hops; hops through a hub are described by the hub node instead. */
+const SONG_LINK_LABELS: Partial<Record<EdgeType, string>> = {
+    NEXT: 'played next',
+    SIMILAR: 'sounds similar',
+};
+
+const NODE_PREFIXES: Partial<Record<NodeType, string>> = {
+    ARTIST: 'artist',
+    GENRE: 'genre',
+    VIBE: 'vibe',
+    PLAYLIST: 'playlist',
+    ALBUM: 'album',
+};
+
+/**
+ * Render a path as "Heroes → artist David Bowie → genre art rock → Ashes to Ashes".
+ * Direct song-to-song hops name the link instead: "Heroes → played next → Ashes to Ashes".
+ */
+export function describePath(steps: PathStep[]): string {
+    const parts: string[] = [];
+    steps.forEach((step, i) => {
+        const prevStep = steps[i - 1];
+        if (prevStep?.type === 'SONG' && step.type === 'SONG' && step.via && SONG_LINK_LABELS[step.via]) {
+            parts.push(SONG_LINK_LABELS[step.via]!);
+        }
+        const prefix = NODE_PREFIXES[step.type];
+        parts.push(prefix && i > 0 && i < steps.length - 1 ? `${prefix} ${step.name}` : step.name);
+    });
+    return parts.join(' → ');
+}
+
+/** Binary min-heap of (id, cost) for Dijkstra. */
+class MinHeap {
+    private items: { id: number; cost: number }[] = [];
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    push(id: number, cost: number): void {
+        const items = this.items;
+        items.push({ id, cost });
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (items[parent].cost <= items[i].cost) break;
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    }
+
+    pop(): { id: number; cost: number } | undefined {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop();
+        if (items.length > 0 && last) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const l = 2 * i + 1;
+                const r = l + 1;
+                let min = i;
+                if (l < items.length && items[l].cost < items[min].cost) min = l;
+                if (r < items.length && items[r].cost < items[min].cost) min = r;
+                if (min === i) break;
+                [items[min], items[i]] = [items[i], items[min]];
+                i = min;
+            }
+        }
+        return top;
+    }
+}
@@ -0,0 +1,122 @@
+import type { EdgeType } from './GraphService';
+
+/**
+ * Personalized PageRank (random walk with restart) over the knowledge graph.
+ *
+ * A walker starts at a seed node, follows edges with probability proportional to their weight,
+ * and jumps back to the seeds with probability `restartProbability` at every step. The stationary
+ * visit probability ranks every node by how reachable it is from the seeds over many hops, so
+ * recommendations escape the one-hop loops of "heaviest outgoing edge".
+ */
+
+export interface WalkEdge {
+    source: number;
+    target: number;
+    weight: number;
+}
+
+export interface RandomWalkOptions {
+    /** Probability of jumping back to the seeds at each step. */
+    restartProbability?: number;
+    /** Max power iterations. */
+    maxIterations?: number;
+    /** Stop once the L1 change between iterations falls below this. */
+    tolerance?: number;
+}
+
+/**
+ * How strongly the walker follows each edge type (multiplied into the edge weight).
+ * Listening behaviour and hand-curated playlists lead, genre/era/feature hubs only nudge; skips are never followed.
+ */
+export const WALK_EDGE_TYPE_WEIGHTS: Readonly<Record<EdgeType, number>> = {
+    NEXT: 1.0,
+    IN_PLAYLIST: 0.9,
+    RELATED: 0.8,
+    HAS_VIBE: 0.8,
+    SIMILAR: 0.7,
+    SAME_ARTIST: 0.6,
+    IN_ALBUM: 0.5,
+    HAS_GENRE: 0.4,
+    IN_GENRE: 0.4,
+    FROM_ERA: 0.3,
+    SUBGENRE_OF: 0.3,
+    HAS_FEATURE: 0.2,
+    IN_CONTEXT: 0.1,
+    SKIPPED_IN: 0,
+};
+
+/** Share of the restart mass given to each seed kind (renormalized over the seeds present). */
+export const WALK_SEED_WEIGHTS = {
+    current: 0.5,
+    vibe: 0.3,
+    session: 0.2,
+} as const;
+
+/**
+ * Visit probability of every node for a walk restarting at `seeds` (nodeId → restart weight).
+ * Edges are walked in both directions. Dangling nodes restart, so scores always sum to 1.
+ * @returns nodeId → score; empty when no seed is a known node.
+ */
+export function personalizedPageRank(
+    nodeIds: number[],
+    edges: WalkEdge[],
+    seeds: Map<number, number>,
+    options: RandomWalkOptions = {}
+): Map<number, number> {
+    const { restartProbability = 0.15, maxIterations = 50, tolerance = 1e-6 } = options;
+    const ids = Array.from(new Set(nodeIds));
+    const indexOf = new Map(ids.map((id, i) => [id, i]));
+    const n = ids.length;
+
+    const restart = new Float64Array(n);
+    let seedTotal = 0;
+    for (const [id, w] of seeds) {
+        const i = indexOf.get(id);
+        if (i === undefined || !(w > 0)) continue;
+        restart[i] += w;
+        seedTotal += w;
+    }
+    if (seedTotal === 0) return new Map();
+    for (let i = 0; i < n; i++) restart[i] /= seedTotal;
+
+    const neighbors: [number, number][][] = Array.from({ length: n }, () => []);
+    const outWeight = new Float64Array(n);
+    for (const e of edges) {
+        const u = indexOf.get(e.source);
+        const v = indexOf.get(e.target);
+        if (u === undefined || v === undefined || u === v || !(e.weight > 0)) continue;
+        neighbors[u].push([v, e.weight]);
+        neighbors[v].push([u, e.weight]);
+        outWeight[u] += e.weight;
+        outWeight[v] += e.weight;
+    }
+
+    let rank = Float64Array.from(restart);
+    for (let iter = 0; iter < maxIterations; iter++) {
+        const next = new Float64Array(n);
+        let dangling = 0;
+        for (let u = 0; u < n; u++) {
+            if (rank[u] === 0) continue;
+            if (outWeight[u] === 0) {
+                dangling += rank[u];
+                continue;
+            }
+            const share = (1 - restartProbability) * rank[u] / outWeight[u];
+            for (const [v, w] of neighbors[u]) next[v] += share * w;
+        }
+
+        // Restart mass plus whatever got stuck on dangling nodes goes back to the seeds
+        const toSeeds = restartProbability + (1 - restartProbability) * dangling;
+        let delta = 0;
+        for (let i = 0; i < n; i++) {
+            next[i] += toSeeds * restart[i];
+            delta += Math.abs(next[i] - rank[i]);
+        }
+        rank = next;
+        if (delta < tolerance) break;
+    }
+
+    const result = new Map<number, number>();
+    for (let i = 0; i < n; i++) result.set(ids[i], rank[i]);
+    return result;
+}
@@ -0,0 +1,35 @@
+/**
+ * Negative learning: turn early skips into a ranking penalty.
+ *
+ * Every song node carries a dislike_score (one point per early skip). The penalty is the
+ * smoothed skip ratio dislike / (dislike + plays + 1), so a song skipped once after
+ * fifty full listens barely moves, while a song skipped every day sinks and is dropped.
+ * Vibe-specific skips are stored as SONG → VIBE `SKIPPED_IN` edges.
+ */
+
+/** Skips needed before a song can be excluded outright (one bad day is not a verdict). */
+export const DISLIKE_EXCLUDE_MIN_SKIPS = 3;
+
+/** Smoothed skip ratio above which a song is excluded instead of down-ranked. */
+export const DISLIKE_EXCLUDE_RATIO = 0.6;
+
+/** Decayed SKIPPED_IN weight at which a song is excluded from that vibe (1.0 = one recent skip). */
+export const VIBE_SKIP_EXCLUDE_WEIGHT = 1.0;
+
+/** Penalty in [0, 1) from a song's skip and play counts. */
+export function dislikePenalty(dislikeScore: number | null | undefined, playCount: number | null | undefined): number {
+    const dislike = Math.max(0, dislikeScore || 0);
+    if (dislike === 0) return 0;
+    return dislike / (dislike + Math.max(0, playCount || 0) + 1);
+}
+
+/** True when a song has been skipped often enough to stop suggesting it. */
+export function isDisliked(dislikeScore: number | null | undefined, playCount: number | null | undefined): boolean {
+    return (dislikeScore || 0) >= DISLIKE_EXCLUDE_MIN_SKIPS
+        && dislikePenalty(dislikeScore, playCount) >= DISLIKE_EXCLUDE_RATIO;
+}
+
+/** Scale a ranking weight by the song's dislike penalty. */
+export function penalizeWeight(weight: number, dislikeScore: number | null | undefined, playCount: number | null | undefined): number {
+    return weight * (1 - dislikePenalty(dislikeScore, playCount));
+}
@@ -0,0 +1,104 @@
+/**
+ * Duplicate SONG detection: the same recording saved under several spotify_ids
+ * ("Song X" vs "Song X - 2011 Remaster", single vs album release).
+ *
+ * Two songs are duplicates when they share an ISRC, or when their artists match and their
+ * titles match once version tags are stripped (Dice similarity, see trackMatching.ts) with
+ * the same numbers in them ("Part 1" and "Part 2" are near-identical but different songs).
+ * Live, remix, acoustic etc. are different recordings and are deliberately not stripped.
+ */
+import { calculateSimilarity, normalizeTitle } from '../core/trackMatching';
+
+/** Minimum Dice similarity of two canonical titles (same artist) to count as one song. */
+export const DUPLICATE_TITLE_SIMILARITY = 0.9;
+
+export interface DuplicateCandidate {
+    id: number;
+    name: string;
+    artist: string;
+    isrc?: string | null;
+}
+
+export interface DuplicateGroup {
+    /** Node ids, in input order. */
+    ids: number[];
+    /** 'isrc' when every member was linked by ISRC, else 'title'. */
+    reason: 'isrc' | 'title';
+}
+
+/** Version tags that don't change the recording. */
+const VERSION_TAG = /\b(remaster(ed)?|re-?mastered|single version|album version|mono|stereo|deluxe|edition|bonus track|original mix)\b/i;
+
+/**
+ * Title without release/version tags: "Song X - 2011 Remaster" and "Song X (Remastered 2009)"
+ * both become "song x".
+ */
+export function canonicalSongTitle(title: string): string {
+    const stripped = title
+        .replace(/\s*[([]([^)\]]*)[)\]]/g, (m, inner: string) => (VERSION_TAG.test(inner) ? '' : m))
+        .replace(/\s+-\s+(.*)$/, (m, suffix: string) => (VERSION_TAG.test(suffix) ? '' : m));
+    return normalizeTitle(stripped);
+}
+
+/** The numbers in a title, in order ("Symphony No. 5, Part 02" → "5 2"). */
+function titleNumbers(title: string): string {
+    return (title.match(/\d+/g) ?? []).map(n => String(Number(n))).join(' ');
+}
+
+/**
+ * Group likely duplicate songs (transitively: A~B and B~C puts A, B, C in one group).
+ * @returns groups of two or more songs
+ */
+export function findDuplicateGroups(
+    songs: DuplicateCandidate[],
+    minTitleSimilarity: number = DUPLICATE_TITLE_SIMILARITY
+): DuplicateGroup[] {
+    const parent = songs.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const byTitle = new Set<number>();
+    const union = (a: number, b: number, viaTitle: boolean) => {
+        const ra = find(a);
+        const rb = find(b);
+        if (ra !== rb) parent[rb] = ra;
+        if (viaTitle) byTitle.add(a).add(b);
+    };
+
+    // 1. Same ISRC
+    const byIsrc = new Map<string, number>();
+    songs.forEach((s, i) => {
+        const isrc = s.isrc?.trim().toUpperCase();
+        if (!isrc) return;
+        if (byIsrc.has(isrc)) union(byIsrc.get(isrc)!, i, false);
+        else byIsrc.set(isrc, i);
+    });
+
+    // 2. Same artist, near-identical canonical title (bucketed by artist to stay O(n · bucket))
+    const byArtist = new Map<string, { index: number; title: string; numbers: string }[]>();
+    songs.forEach((s, i) => {
+        const artist = normalizeTitle(s.artist || '');
+        const title = canonicalSongTitle(s.name);
+        if (!artist || !title) return;
+        const numbers = titleNumbers(title);
+        const bucket = byArtist.get(artist) ?? [];
+        for (const other of bucket) {
+            if (other.numbers !== numbers) continue;
+            if (other.title === title || calculateSimilarity(other.title, title) >= minTitleSimilarity) {
+                union(other.index, i, true);
+            }
+        }
+        bucket.push({ index: i, title, numbers });
+        byArtist.set(artist, bucket);
+    });
+
+    const groups = new Map<number, number[]>();
+    songs.forEach((_, i) => {
+        const root = find(i);
+        groups.set(root, [...(groups.get(root) ?? []), i]);
+    });
+    return Array.from(groups.values())
+        .filter(members => members.length > 1)
+        .map(members => ({
+            ids: members.map(i => songs[i].id),
+            reason: members.some(i => byTitle.has(i)) ? 'title' as const : 'isrc' as const,
+        }));
+}
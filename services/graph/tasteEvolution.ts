@@ -0,0 +1,115 @@
+/**
+ * Taste evolution: periodic snapshots of the taste profile (top genres, cluster representatives,
+ * audio profile) and graph size, and diffs between them. Besides showing the user how their
+ * taste moved, a sudden jump between two snapshots flags a change in ingestion or decay logic.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Snapshots are taken at most this often (weekly points on the evolution charts). */
+export const TASTE_SNAPSHOT_INTERVAL_MS = 7 * DAY_MS;
+
+export interface TasteSnapshot {
+    takenAt: number;
+    topGenres: { name: string; songCount: number }[];
+    clusterReps: { name: string; artist: string; playCount: number; cluster?: number }[];
+    audioProfile: { energy: number; valence: number; danceability: number } | null;
+    nodeCount: number;
+    edgeCount: number;
+}
+
+export interface GenreShareChange {
+    name: string;
+    /** Share of the snapshot's top-genre songs (0–1); 0 when the genre was not in the top list. */
+    before: number;
+    after: number;
+    change: number;
+}
+
+export interface TasteDiff {
+    days: number;
+    /** Every genre in either snapshot, biggest change first. */
+    genres: GenreShareChange[];
+    /** Cluster representatives ("Title - Artist") that appeared / disappeared. */
+    addedReps: string[];
+    removedReps: string[];
+    /** after − before; null when either snapshot has no audio profile. */
+    audio: { energy: number; valence: number; danceability: number } | null;
+    nodes: number;
+    edges: number;
+}
+
+/** Whether a new snapshot is due, given when the latest one was taken (null: none yet). */
+export function isSnapshotDue(
+    lastTakenAt: number | null,
+    now: number = Date.now(),
+    interval: number = TASTE_SNAPSHOT_INTERVAL_MS
+): boolean {
+    return lastTakenAt == null || now - lastTakenAt >= interval;
+}
+
+/** Genre name → share of the snapshot's top-genre songs. */
+export function genreShares(snapshot: TasteSnapshot): Map<string, number> {
+    const total = snapshot.topGenres.reduce((sum, g) => sum + g.songCount, 0);
+    return new Map(snapshot.topGenres.map(g => [g.name, total > 0 ? g.songCount / total : 0]));
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/** What changed from `before` to `after`. */
+export function diffTasteSnapshots(before: TasteSnapshot, after: TasteSnapshot): TasteDiff {
+    const sharesBefore = genreShares(before);
+    const sharesAfter = genreShares(after);
+    const genres = Array.from(new Set([...sharesBefore.keys(), ...sharesAfter.keys()]))
+        .map(name => {
+            const b = sharesBefore.get(name) ?? 0;
+            const a = sharesAfter.get(name) ?? 0;
+            return { name, before: round(b), after: round(a), change: round(a - b) };
+        })
+        .sort((x, y) => Math.abs(y.change) - Math.abs(x.change) || x.name.localeCompare(y.name));
+
+    const repKey = (r: { name: string; artist: string }) => `${r.name} - ${r.artist}`;
+    const repsBefore = new Set(before.clusterReps.map(repKey));
+    const repsAfter = new Set(after.clusterReps.map(repKey));
+
+    const audio = before.audioProfile && after.audioProfile
+        ? {
+            energy: round(after.audioProfile.energy - before.audioProfile.energy),
+            valence: round(after.audioProfile.valence - before.audioProfile.valence),
+            danceability: round(after.audioProfile.danceability - before.audioProfile.danceability),
+        }
+        : null;
+
+    return {
+        days: Math.round((after.takenAt - before.takenAt) / DAY_MS),
+        genres,
+        addedReps: [...repsAfter].filter(r => !repsBefore.has(r)),
+        removedReps: [...repsBefore].filter(r => !repsAfter.has(r)),
+        audio,
+        nodes: after.nodeCount - before.nodeCount,
+        edges: after.edgeCount - before.edgeCount,
+    };
+}
+
+/**
+ * Share of each of the `maxGenres` genres with the highest average share, per snapshot
+ * (aligned with `snapshots`); everything else is summed into "other".
+ */
+export function genreShareSeries(snapshots: TasteSnapshot[], maxGenres: number = 5): { name: string; shares: number[] }[] {
+    const perSnapshot = snapshots.map(genreShares);
+    const totals = new Map<string, number>();
+    for (const shares of perSnapshot) {
+        for (const [name, share] of shares) totals.set(name, (totals.get(name) ?? 0) + share);
+    }
+    const top = Array.from(totals.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, maxGenres)
+        .map(([name]) => name);
+
+    const series = top.map(name => ({ name, shares: perSnapshot.map(shares => round(shares.get(name) ?? 0)) }));
+    const other = perSnapshot.map((shares, i) =>
+        shares.size > 0 ? round(Math.max(0, 1 - series.reduce((sum, s) => sum + s.shares[i], 0))) : 0
+    );
+    if (other.some(share => share > 0)) series.push({ name: 'other', shares: other });
+    return series;
+}
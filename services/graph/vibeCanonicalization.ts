@@ -0,0 +1,123 @@
+/**
+ * Vibe canonicalization: Gemini names every vibe afresh ("Late Night Drive", "Midnight Drive",
+ * "Night Driving Synthwave"), so the graph fills up with one-off VIBE nodes. Vibes that are the
+ * same mood are clustered and merged into one canonical vibe that keeps the other names as aliases.
+ *
+ * Two vibes are the same when their names are close (stemmed word overlap or Dice similarity),
+ * or when their names are loosely related and they were played with the same songs.
+ */
+import { calculateSimilarity } from '../core/trackMatching';
+
+/** Minimum vibeSimilarity() to treat two vibes as one. */
+export const VIBE_MERGE_SIMILARITY = 0.8;
+
+/** Share of the name in the combined name + song overlap score. */
+const NAME_WEIGHT = 0.5;
+
+export interface VibeCandidate {
+    id: number;
+    name: string;
+    /** Names already merged into this vibe. */
+    aliases?: string[];
+    /** Keys (spotify ids) of the songs played in this vibe. */
+    songs: string[];
+}
+
+/** Words that say nothing about the mood. */
+const STOP_WORDS = new Set(['a', 'an', 'the', 'and', 'of', 'for', 'in', 'on', 'to', 'with', 'vibe', 'vibes', 'mix']);
+
+/** Crude stem so "Driving", "Drives" and "Drive" compare equal. */
+function stem(word: string): string {
+    return word.replace(/(ing|s)$/, '').replace(/e$/, '');
+}
+
+/** Lower-case stemmed content words: "Night Driving Synthwave" → ["night", "driv", "synthwav"]. */
+export function vibeNameTokens(name: string): string[] {
+    return name
+        .toLowerCase()
+        .replace(/[^\w\s]/g, ' ')
+        .split(/\s+/)
+        .filter(w => w && !STOP_WORDS.has(w))
+        .map(stem);
+}
+
+/** Name similarity (0–1): the better of stemmed word overlap (Dice) and character Dice similarity. */
+export function vibeNameSimilarity(a: string, b: string): number {
+    const ta = vibeNameTokens(a);
+    const tb = vibeNameTokens(b);
+    if (ta.length === 0 || tb.length === 0) return 0;
+    const setB = new Set(tb);
+    const shared = new Set(ta.filter(t => setB.has(t))).size;
+    const words = (2 * shared) / (new Set(ta).size + setB.size);
+    return Math.max(words, calculateSimilarity(ta.join(' '), tb.join(' ')));
+}
+
+/** Share of the smaller vibe's songs also played in the other one (0 when either has none). */
+export function vibeSongOverlap(a: readonly string[], b: readonly string[]): number {
+    if (a.length === 0 || b.length === 0) return 0;
+    const setA = new Set(a);
+    const setB = new Set(b);
+    let shared = 0;
+    for (const key of setA) if (setB.has(key)) shared++;
+    return shared / Math.min(setA.size, setB.size);
+}
+
+/**
+ * Similarity of two vibes (0–1): the name similarity on its own, or blended with song overlap
+ * when that is higher. Shared songs alone never merge two unrelated names (they score 0.5 at most).
+ */
+export function vibeSimilarity(a: VibeCandidate, b: VibeCandidate): number {
+    let name = 0;
+    for (const na of [a.name, ...(a.aliases ?? [])]) {
+        for (const nb of [b.name, ...(b.aliases ?? [])]) name = Math.max(name, vibeNameSimilarity(na, nb));
+    }
+    const overlap = vibeSongOverlap(a.songs, b.songs);
+    return Math.max(name, NAME_WEIGHT * name + (1 - NAME_WEIGHT) * overlap);
+}
+
+/**
+ * Group vibes that are the same mood (transitively: A~B and B~C puts A, B, C in one group).
+ * @returns groups of two or more vibe ids, canonical vibe (most songs, then lowest id) first
+ */
+export function clusterVibes(vibes: VibeCandidate[], minSimilarity: number = VIBE_MERGE_SIMILARITY): number[][] {
+    const parent = vibes.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    for (let i = 0; i < vibes.length; i++) {
+        for (let j = i + 1; j < vibes.length; j++) {
+            if (find(i) !== find(j) && vibeSimilarity(vibes[i], vibes[j]) >= minSimilarity) parent[find(j)] = find(i);
+        }
+    }
+
+    const groups = new Map<number, VibeCandidate[]>();
+    vibes.forEach((v, i) => groups.set(find(i), [...(groups.get(find(i)) ?? []), v]));
+    return Array.from(groups.values())
+        .filter(members => members.length > 1)
+        .map(members => members
+            .sort((a, b) => new Set(b.songs).size - new Set(a.songs).size || a.id - b.id)
+            .map(v => v.id));
+}
+
+/**
+ * Existing vibe to reuse for a new vibe name: one named or aliased exactly so, else the most
+ * similar one at or above `minSimilarity`.
+ * @param songs keys of the songs about to be committed under the new name
+ * @returns the vibe's id, or null when the name is new
+ */
+export function findClosestVibe(
+    name: string,
+    songs: string[],
+    vibes: VibeCandidate[],
+    minSimilarity: number = VIBE_MERGE_SIMILARITY
+): number | null {
+    const key = vibeNameTokens(name).join(' ');
+    const exact = key && vibes.find(v => [v.name, ...(v.aliases ?? [])].some(n => vibeNameTokens(n).join(' ') === key));
+    if (exact) return exact.id;
+
+    const incoming: VibeCandidate = { id: -1, name, songs };
+    let best: { id: number; score: number } | null = null;
+    for (const v of vibes) {
+        const score = vibeSimilarity(incoming, v);
+        if (score >= minSimilarity && (!best || score > best.score)) best = { id: v.id, score };
+    }
+    return best?.id ?? null;
+}
@@ -0,0 +1,99 @@
+/**
+ * Google's Gemini API (`generativelanguage.googleapis.com`), the default provider.
+ */
+import { GEMINI_MODELS, MODEL_PRIORITY, ModelId } from '@/services/gemini/constants';
+import { tokensFromUsageMetadata } from '@/services/gemini/usage';
+import axios from 'axios';
+import { postForEventStream, readEventData } from './sse';
+import type { LLMCapabilities, LLMGenerationConfig, LLMProvider, LLMReply, LLMRequest, LLMStreamChunk } from './types';
+
+/** `generationConfig` of a generateContent body. */
+export function geminiGenerationConfig(config: LLMGenerationConfig): Record<string, any> {
+    return {
+        responseMimeType: config.responseMimeType,
+        maxOutputTokens: config.maxOutputTokens,
+        temperature: config.temperature,
+        topP: config.topP,
+        ...(config.seed !== undefined && { seed: config.seed }),
+        ...(config.responseSchema && { responseSchema: config.responseSchema }),
+    };
+}
+
+/** Answer text of a response or streamed chunk (thought summaries are left out). */
+function candidateText(data: any): string {
+    const parts: any[] = data?.candidates?.[0]?.content?.parts || [];
+    return parts.filter((p) => !p.thought && typeof p.text === 'string').map((p) => p.text).join('');
+}
+
+/** Thought signature of a response or streamed chunk; Gemini attaches it to a part of the answer. */
+function candidateThoughtSignature(data: any): string | undefined {
+    const parts: any[] = data?.candidates?.[0]?.content?.parts || [];
+    return parts.map((p) => p.thoughtSignature).filter((s) => typeof s === 'string' && s).pop();
+}
+
+export class GeminiProvider implements LLMProvider {
+    readonly id = 'gemini' as const;
+
+    modelsToTry(preferred: string): string[] {
+        const first = preferred in GEMINI_MODELS ? preferred : MODEL_PRIORITY[0];
+        return [first, ...MODEL_PRIORITY.filter((m) => m !== first)];
+    }
+
+    capabilities(model: string): LLMCapabilities {
+        return {
+            // Gemini 2.0/2.5 Pro/Flash don't know the field and fail with 400 INVALID_ARGUMENT
+            thoughtSignatures: model === 'gemini-3-pro',
+            structuredOutput: true,
+            streaming: true,
+        };
+    }
+
+    private body(model: string, request: LLMRequest): Record<string, any> {
+        return {
+            contents: [{ parts: [{ text: request.prompt }] }],
+            generationConfig: geminiGenerationConfig(request.config),
+            ...(this.capabilities(model).thoughtSignatures && request.thoughtSignature && { thoughtSignature: request.thoughtSignature }),
+        };
+    }
+
+    async generate(model: string, request: LLMRequest, apiKey: string): Promise<LLMReply> {
+        const response = await axios.post(`${GEMINI_MODELS[model as ModelId].url}?key=${apiKey}`, this.body(model, request), {
+            timeout: 60000,
+        });
+        return {
+            text: candidateText(response.data) || null,
+            usage: tokensFromUsageMetadata(response.data?.usageMetadata),
+            thoughtSignature: candidateThoughtSignature(response.data),
+        };
+    }
+
+    async openStream(model: string, request: LLMRequest, apiKey: string, signal: AbortSignal): Promise<AsyncGenerator<LLMStreamChunk>> {
+        const url = `${GEMINI_MODELS[model as ModelId].url.replace(/:generateContent$/, ':streamGenerateContent')}?alt=sse&key=${apiKey}`;
+        const body = await postForEventStream(url, this.body(model, request), {}, signal);
+        return (async function* () {
+            for await (const event of readEventData(body)) {
+                const chunk = JSON.parse(event);
+                const thoughtSignature = candidateThoughtSignature(chunk);
+                yield {
+                    text: candidateText(chunk),
+                    // Each chunk carries the counts so far
+                    ...(chunk.usageMetadata && { usage: tokensFromUsageMetadata(chunk.usageMetadata) }),
+                    ...(thoughtSignature && { thoughtSignature }),
+                };
+            }
+        })();
+    }
+
+    async test(model: string, apiKey: string): Promise<void> {
+        await axios.post(
+            `${GEMINI_MODELS[model as ModelId].url}?key=${apiKey}`,
+            {
+                contents: [{ parts: [{ text: 'Hi' }] }],
+                generationConfig: { maxOutputTokens: 1 },
+            },
+            { timeout: 15000 }
+        );
+    }
+}
+
+export const geminiProvider = new GeminiProvider();
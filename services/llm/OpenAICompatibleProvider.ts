@@ -0,0 +1,126 @@
+/**
+ * Any server speaking OpenAI's chat completions API: OpenAI itself, or a local llama.cpp
+ * (`llama-server`), Ollama, LM Studio or vLLM, for running the DJ without Gemini.
+ */
+import type { ResponseSchema } from '@/services/gemini/responseSchema';
+import type { TokenCounts } from '@/services/gemini/usage';
+import axios from 'axios';
+import { postForEventStream, readEventData } from './sse';
+import type { LLMCapabilities, LLMGenerationConfig, LLMProvider, LLMReply, LLMRequest, LLMStreamChunk } from './types';
+
+/** `{baseUrl}/chat/completions`, whether or not the base URL ends in a slash. */
+export function chatCompletionsUrl(baseUrl: string): string {
+    return `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+}
+
+/** A Gemini response schema as JSON Schema (lowercase types, nullable as a type union). */
+export function toJsonSchema(schema: ResponseSchema): Record<string, any> {
+    const type = schema.type.toLowerCase();
+    return {
+        type: schema.nullable ? [type, 'null'] : type,
+        ...(schema.description && { description: schema.description }),
+        ...(schema.enum && { enum: schema.enum }),
+        ...(schema.items && { items: toJsonSchema(schema.items) }),
+        ...(schema.properties && {
+            properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])),
+        }),
+        ...(schema.required && { required: schema.required }),
+    };
+}
+
+/** `response_format` for a config: its schema when it has one, plain JSON mode for JSON without. */
+function responseFormat(config: LLMGenerationConfig): Record<string, any> | undefined {
+    if (config.responseSchema) {
+        return { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(config.responseSchema) } };
+    }
+    return config.responseMimeType === 'application/json' ? { type: 'json_object' } : undefined;
+}
+
+export function chatCompletionsBody(model: string, request: LLMRequest, stream: boolean): Record<string, any> {
+    const { config } = request;
+    return {
+        model,
+        messages: [{ role: 'user', content: request.prompt }],
+        max_tokens: config.maxOutputTokens,
+        temperature: config.temperature,
+        top_p: config.topP,
+        ...(config.seed !== undefined && { seed: config.seed }),
+        ...(responseFormat(config) && { response_format: responseFormat(config) }),
+        ...(stream && { stream: true, stream_options: { include_usage: true } }),
+    };
+}
+
+/** Token counts of a chat completion's `usage`; reasoning tokens count as thinking, not answer. */
+export function tokensFromOpenAIUsage(usage: any): TokenCounts {
+    const count = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+    const promptTokens = count(usage?.prompt_tokens);
+    const completionTokens = count(usage?.completion_tokens);
+    const thinkingTokens = count(usage?.completion_tokens_details?.reasoning_tokens);
+    return {
+        promptTokens,
+        candidateTokens: Math.max(0, completionTokens - thinkingTokens),
+        thinkingTokens,
+        totalTokens: count(usage?.total_tokens) || promptTokens + completionTokens,
+    };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly id = 'openai-compatible' as const;
+
+    constructor(private readonly baseUrl: string) {}
+
+    /** One configured model, so there is nothing to fall back to. */
+    modelsToTry(preferred: string): string[] {
+        return [preferred];
+    }
+
+    capabilities(): LLMCapabilities {
+        return { thoughtSignatures: false, structuredOutput: true, streaming: true };
+    }
+
+    private headers(apiKey: string): Record<string, string> {
+        return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+    }
+
+    async generate(model: string, request: LLMRequest, apiKey: string): Promise<LLMReply> {
+        const response = await axios.post(chatCompletionsUrl(this.baseUrl), chatCompletionsBody(model, request, false), {
+            headers: this.headers(apiKey),
+            // Local models on a laptop take a while over long replies
+            timeout: 180000,
+        });
+        const content = response.data?.choices?.[0]?.message?.content;
+        return {
+            text: typeof content === 'string' && content ? content : null,
+            usage: tokensFromOpenAIUsage(response.data?.usage),
+        };
+    }
+
+    async openStream(model: string, request: LLMRequest, apiKey: string, signal: AbortSignal): Promise<AsyncGenerator<LLMStreamChunk>> {
+        const body = await postForEventStream(
+            chatCompletionsUrl(this.baseUrl),
+            chatCompletionsBody(model, request, true),
+            this.headers(apiKey),
+            signal
+        );
+        return (async function* () {
+            for await (const event of readEventData(body)) {
+                if (event.trim() === '[DONE]') return;
+                const chunk = JSON.parse(event);
+                const content = chunk.choices?.[0]?.delta?.content;
+                yield {
+                    text: typeof content === 'string' ? content : '',
+                    // Sent once, in a last chunk without choices (stream_options.include_usage)
+                    ...(chunk.usage && { usage: tokensFromOpenAIUsage(chunk.usage) }),
+                };
+            }
+        })();
+    }
+
+    async test(model: string, apiKey: string): Promise<void> {
+        await axios.post(
+            chatCompletionsUrl(this.baseUrl),
+            { model, messages: [{ role: 'user', content: 'Hi' }], max_tokens: 1 },
+            { headers: this.headers(apiKey), timeout: 30000 }
+        );
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * Server-sent events over fetch, shared by the providers' streaming requests.
+ */
+import { splitSseEvents } from '@/services/gemini/streamParser';
+
+/**
+ * POST `body` as JSON and return the response's SSE body once the server has accepted it.
+ * A non-2xx answer is thrown in axios's error shape, so it is handled like a failed generate().
+ */
+export async function postForEventStream(
+    url: string,
+    body: Record<string, any>,
+    headers: Record<string, string>,
+    signal: AbortSignal
+): Promise<ReadableStream<Uint8Array>> {
+    // Lazy: expo/fetch needs its native module, which isn't there until it's first used
+    const { fetch: streamingFetch } = require('expo/fetch') as typeof import('expo/fetch');
+    const response = await streamingFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (response.ok && response.body) return response.body;
+
+    const data = await response.json().catch(() => ({}));
+    throw Object.assign(new Error(data?.error?.message || `HTTP ${response.status}`), {
+        response: { status: response.status, data },
+    });
+}
+
+/** The `data` payload of each event, as it arrives; stopping early cancels the body. */
+export async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            const { events, rest } = splitSseEvents(pending + decoder.decode(value, { stream: true }));
+            pending = rest;
+            yield* events;
+        }
+    } finally {
+        reader.cancel().catch(() => {});
+    }
+}
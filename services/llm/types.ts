@@ -0,0 +1,96 @@
+/**
+ * LLM providers.
+ *
+ * GeminiService talks to its model through an LLMProvider: Google's Gemini API (GeminiProvider),
+ * or any server with an OpenAI-style `/chat/completions` endpoint — a local llama.cpp or Ollama
+ * included (OpenAICompatibleProvider). Prompts, validation, caching, usage accounting and model
+ * fallback stay in GeminiService; a provider only turns one request into one reply or stream.
+ *
+ * Request errors keep axios's shape (`error.response.status`, `error.response.data.error.message`),
+ * which is what GeminiService's error handling and retries read.
+ */
+import type { ResponseSchema } from '@/services/gemini/responseSchema';
+import type { TokenCounts } from '@/services/gemini/usage';
+
+export type LLMProviderId = 'gemini' | 'openai-compatible';
+
+export type ThinkingLevel = 'minimal' | 'low' | 'medium' | 'high';
+
+export interface LLMGenerationConfig {
+    responseMimeType?: string;
+    maxOutputTokens?: number;
+    thinkingLevel?: ThinkingLevel;
+    seed?: number;
+    temperature?: number;
+    topP?: number;
+    responseSchema?: ResponseSchema;
+}
+
+export interface LLMRequest {
+    prompt: string;
+    config: LLMGenerationConfig;
+    /** Reasoning state from an earlier reply; only sent to models with the `thoughtSignatures` capability. */
+    thoughtSignature?: string | null;
+}
+
+export interface LLMReply {
+    /** The answer text (thoughts left out); null when the reply had none. */
+    text: string | null;
+    usage: TokenCounts;
+    thoughtSignature?: string;
+}
+
+/** One piece of a streamed reply; `usage` is the running total when the provider reports it. */
+export interface LLMStreamChunk {
+    text: string;
+    usage?: TokenCounts;
+    thoughtSignature?: string;
+}
+
+export interface LLMCapabilities {
+    /** Accepts and returns `thoughtSignature` to carry reasoning across calls. */
+    thoughtSignatures: boolean;
+    /** Can constrain a reply to `config.responseSchema`. */
+    structuredOutput: boolean;
+    streaming: boolean;
+}
+
+export interface LLMProvider {
+    readonly id: LLMProviderId;
+    /** Models to try for a request, in order, starting with `preferred`. */
+    modelsToTry(preferred: string): string[];
+    capabilities(model: string): LLMCapabilities;
+    generate(model: string, request: LLMRequest, apiKey: string): Promise<LLMReply>;
+    /**
+     * Start a streamed reply. Resolves once the server has accepted the request (so a failure
+     * to connect can still fall back to another model); the chunks follow as they arrive.
+     */
+    openStream(model: string, request: LLMRequest, apiKey: string, signal: AbortSignal): Promise<AsyncGenerator<LLMStreamChunk>>;
+    /** A minimal request to `model`; throws like generate() when it can't be reached. */
+    test(model: string, apiKey: string): Promise<void>;
+}
+
+/** Which provider GeminiService uses, and where the OpenAI-compatible one points. */
+export interface LLMProviderSettings {
+    provider: LLMProviderId;
+    /** OpenAI-compatible server, e.g. `http://localhost:11434/v1` (Ollama). */
+    baseUrl: string;
+    /** Model name on that server, e.g. `llama3.1:8b`. */
+    model: string;
+    /** Bearer token for that server; empty for local servers without auth. */
+    apiKey: string;
+}
+
+export const LLM_PREF_KEYS = {
+    PROVIDER: 'llm_provider',
+    BASE_URL: 'llm_base_url',
+    MODEL: 'llm_model',
+    API_KEY: 'llm_api_key',
+} as const;
+
+export const DEFAULT_LLM_SETTINGS: LLMProviderSettings = {
+    provider: 'gemini',
+    baseUrl: 'http://localhost:11434/v1',
+    model: '',
+    apiKey: '',
+};
@@ -10,6 +10,20 @@ import { SPOTIFY_API_BASE, SPOTIFY_TOKEN_URL } from './constants';
  */
 export type AuthFailReason = 'invalid_client' | 'invalid_grant' | 'network' | 'unknown' | null;
 
+/** One play from `/me/player/recently-played` (only the fields Moodify reads). */
+export interface RecentlyPlayedItem {
+    /** ISO timestamp of the play. */
+    played_at: string;
+    track: {
+        id: string | null;
+        name: string;
+        duration_ms?: number;
+        artists?: { id: string; name: string }[];
+        album?: { id: string; name: string; release_date?: string };
+        external_ids?: { isrc?: string };
+    };
+}
+
 /**
  * Get Spotify Client ID from database (user-entered in settings)
  */
@@ -279,6 +293,74 @@ export class SpotifyRemoteService {
         }
     }
 
+    /**
+     * Get the user's playlists, owned and followed (max 50 per request)
+     */
+    async getUserPlaylists(limit: number = 50, offset: number = 0): Promise<{ items: any[], total: number }> {
+        try {
+            const response = await this.request('get', '/me/playlists', {}, { limit, offset });
+            return {
+                items: response?.data?.items || [],
+                total: response?.data?.total || 0
+            };
+        } catch (e) {
+            console.error('[SpotifyRemote] Get Playlists Error', e);
+            return { items: [], total: 0 };
+        }
+    }
+
+    /**
+     * Get a playlist's tracks in playlist order (max 100 per request).
+     * A failed request answers an empty page with `failed` set.
+     */
+    async getPlaylistTracks(playlistId: string, limit: number = 100, offset: number = 0): Promise<{ items: any[], total: number, failed?: boolean }> {
+        try {
+            const response = await this.request('get', `/playlists/${playlistId}/tracks`, {}, {
+                limit,
+                offset,
+                fields: 'total,items(added_at,is_local,track(id,name,type,artists(id,name),album(id,name,release_date),external_ids(isrc)))'
+            });
+            return {
+                items: response?.data?.items || [],
+                total: response?.data?.total || 0
+            };
+        } catch (e) {
+            console.error(`[SpotifyRemote] Get Playlist Tracks Error (${playlistId})`, e);
+            return { items: [], total: 0, failed: true };
+        }
+    }
+
+    /**
+     * Get plays newer than `afterMs` from the recently-played history, newest first.
+     * Pages back with the `before` cursor (Spotify only keeps the last ~50 plays).
+     * `complete` is false when a page failed: the oldest plays after `afterMs` may be missing.
+     */
+    async getRecentlyPlayed(afterMs: number = 0, maxPages: number = 5): Promise<{ items: RecentlyPlayedItem[]; complete: boolean }> {
+        const plays: RecentlyPlayedItem[] = [];
+        let before: number | null = null;
+
+        for (let page = 0; page < maxPages; page++) {
+            try {
+                const params: Record<string, number> = { limit: 50 };
+                if (before) params.before = before;
+                const response = await this.request('get', '/me/player/recently-played', {}, params);
+
+                const items: RecentlyPlayedItem[] = response?.data?.items || [];
+                const fresh = items.filter(item => Date.parse(item.played_at) > afterMs);
+                plays.push(...fresh);
+
+                const next = Number(response?.data?.cursors?.before);
+                if (items.length === 0 || fresh.length < items.length || !next) break;
+                before = next;
+            } catch (e) {
+                console.error(`[SpotifyRemote] Recently Played Error (page ${page})`, e);
+                return { items: plays, complete: false };
+            }
+        }
+
+        return { items: plays, complete: true };
+    }
+
     /**
      * Get audio features for multiple tracks (max 100 per request)
      */
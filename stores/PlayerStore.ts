@@ -1,6 +1,7 @@
 import { GeminiErrors, SpotifyErrors } from '@/services/core/ServiceError';
 import { dbService } from '@/services/database';
 import { graphService } from '@/services/graph/GraphService';
+import type { PathExplanation } from '@/services/graph/pathExplanation';
 import { appendToQueue, QueuedTrack, replaceQueue } from '@/services/spotify/QueueManager';
 import { spotifyRemote } from '@/services/spotify/SpotifyRemoteService';
 import { useErrorStore } from '@/stores/ErrorStore';
@@ -9,6 +10,8 @@ import { create } from 'zustand';
 
 /** Minimum listen time (ms) for a track to count as "visited" in graph commits */
 const GRAPH_COMMIT_LISTEN_THRESHOLD_MS = 60_000;
+/** Skips before this listen time (ms) count against the song in the current vibe (matches SkipTracker's 30s) */
+const GRAPH_SKIP_PENALTY_THRESHOLD_MS = 30_000;
 
 export interface Track {
     title: string;
@@ -19,6 +22,8 @@ export interface Track {
     // Helper fields
     spotifyName?: string;
     reason?: string;
+    /** Graph path that led to this recommendation; see GraphService.explainTracks(). */
+    explanation?: PathExplanation;
     query?: string;
     origin?: 'api' | 'sync' | 'optimistic';
 }
@@ -200,6 +205,16 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
                 );
             }
 
+            // Negative learning: an early skip means this song doesn't fit the current vibe
+            const vibe = get().currentMood;
+            const skippedTrackId = track.uri?.replace(/^spotify:track:/, '') ?? '';
+            if (type === 'skip' && listenMs < GRAPH_SKIP_PENALTY_THRESHOLD_MS && vibe && skippedTrackId) {
+                // Only songs already in the graph; a skipped stranger shouldn't become a node
+                graphService.findSongNode(skippedTrackId)
+                    .then(node => node ? graphService.recordVibeSkip(node.id, vibe) : undefined)
+                    .catch(e => console.error('[PlayerStore] Graph skip update failed', e));
+            }
+
             // Record to Session (graph commit only includes songs listened >= 1 min)
             get().addToHistory({
                 uri: track.uri,
@@ -294,7 +309,14 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
                             const bareTrackId = state.uri?.replace(/^spotify:track:/, '') ?? '';
                             const currentNode = bareTrackId ? await graphService.getEffectiveNode('SONG', state.title, bareTrackId, { artist: state.artist }) : null;
                             if (currentNode) {
-                                const nextNode = await graphService.getNextSuggestedNode(currentNode.id);
+                                // Random walk from the current song, vibe and session; never re-queue what's heard or queued
+                                const recentUris = get().sessionHistory.map(h => h.uri);
+                                const excludeUris = new Set([...recentUris, ...synchronizedQueue.map(t => t.uri)]);
+                                const [nextNode] = await graphService.getRandomWalkSuggestions(
+                                    { currentNodeId: currentNode.id, vibeName: get().currentMood, recentUris },
+                                    1,
+                                    excludeUris
+                                );
 
                                 if (nextNode && nextNode.spotify_id) {
                                     console.log(`[PlayerStore] AutoDJ: Graph suggested '${nextNode.name}'`);
@@ -591,11 +613,19 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
             track.origin = 'sync';
         }
 
+        // Spotify knows nothing about why we queued a track: carry reason/explanation over by URI
+        const { queue, currentTrack } = get();
+        const known = new Map([...(currentTrack ? [currentTrack] : []), ...queue].map(t => [t.uri, t]));
+        const withWhy = (t: Track): Track => {
+            const prev = known.get(t.uri);
+            return prev ? { ...t, reason: t.reason ?? prev.reason, explanation: t.explanation ?? prev.explanation } : t;
+        };
+
         // Only update if provided
-        const updates: any = { isPlaying, currentTrack: track };
+        const updates: any = { isPlaying, currentTrack: track ? withWhy(track) : track };
         if (progressMs !== undefined) updates.progressMs = progressMs;
         if (spotifyQueue) {
-            updates.queue = spotifyQueue;
+            updates.queue = spotifyQueue.map(withWhy);
         }
 
         set(updates);
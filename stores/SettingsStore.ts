@@ -1,12 +1,19 @@
 import { create } from 'zustand';
 import { DEFAULT_THEME, ThemeName } from '../constants/theme';
 import { dbService } from '../services/database';
+import { gemini } from '../services/gemini/GeminiService';
+import { graphService } from '../services/graph/GraphService';
+import { DEFAULT_EDGE_HALF_LIFE_DAYS } from '../services/graph/edgeDecay';
 
 interface SettingsState {
     theme: ThemeName;
     autoTheme: boolean;
     geminiApiKey: string | null;
     spotifyClientId: string | null;
+    /** Half-life (days) for listening-derived graph edges; 0 = never forget. */
+    graphHalfLifeDays: number;
+    /** Daily Gemini token budget; 0 = none. */
+    geminiDailyTokenBudget: number;
     isLoading: boolean;
     isConnected: boolean;
 
@@ -16,6 +23,8 @@ interface SettingsState {
     setThemeFromMood: (mood: string, energyLevel: string) => Promise<void>;
     setGeminiApiKey: (key: string) => Promise<void>;
     setSpotifyClientId: (clientId: string) => Promise<void>;
+    setGraphHalfLifeDays: (days: number) => Promise<void>;
+    setGeminiDailyTokenBudget: (tokens: number) => Promise<void>;
     checkConnection: () => Promise<void>;
     loadSettings: () => Promise<void>;
 }
@@ -25,6 +34,8 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     autoTheme: true, // Default to auto theme
     geminiApiKey: null,
     spotifyClientId: null,
+    graphHalfLifeDays: DEFAULT_EDGE_HALF_LIFE_DAYS,
+    geminiDailyTokenBudget: 0,
     isLoading: true,
     isConnected: false,
 
@@ -84,6 +95,16 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
         await dbService.setPreference('spotify_client_id', clientId);
     },
 
+    setGraphHalfLifeDays: async (days) => {
+        set({ graphHalfLifeDays: days });
+        await graphService.setEdgeHalfLifeDays(days);
+    },
+
+    setGeminiDailyTokenBudget: async (tokens) => {
+        set({ geminiDailyTokenBudget: tokens });
+        await gemini.setDailyTokenBudget(tokens);
+    },
+
     checkConnection: async () => {
         const token = await dbService.getServiceToken('spotify');
         set({ isConnected: !!token });
@@ -96,6 +117,8 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
             const storedAutoTheme = await dbService.getPreference('autoTheme');
             const storedGeminiKey = await dbService.getPreference('gemini_api_key');
             const storedSpotifyClientId = await dbService.getPreference('spotify_client_id');
+            const graphHalfLifeDays = await graphService.getEdgeHalfLifeDays();
+            const geminiDailyTokenBudget = await gemini.getDailyTokenBudget();
             const token = await dbService.getServiceToken('spotify');
 
             set({
@@ -103,6 +126,8 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
                 autoTheme: storedAutoTheme !== 'false', // Default true if not set
                 geminiApiKey: storedGeminiKey,
                 spotifyClientId: storedSpotifyClientId,
+                graphHalfLifeDays,
+                geminiDailyTokenBudget,
                 isConnected: !!token
             });
         } catch (e) {
@@ -108,13 +108,17 @@ export const useSkipTracker = create<SkipTrackerState>((set, get) => ({
             { duration }
         );
 
-        // Update Graph (Real-time Learning)
-        if (!wasSkipped && currentTrackName) {
-            // we fire and forget to not block UI
-            graphService.getEffectiveNode('SONG', currentTrackName, currentTrackId, { artist: currentArtist })
+        // Update Graph (Real-time Learning): listens count as plays, early skips as dislikes.
+        // Vibe-level skips (SKIPPED_IN) are recorded by PlayerStore, which knows the current vibe.
+        if (currentTrackName) {
+            // we fire and forget to not block UI; skips only count against songs already in the graph
+            const lookup = wasSkipped
+                ? graphService.findSongNode(currentTrackId)
+                : graphService.getEffectiveNode('SONG', currentTrackName, currentTrackId, { artist: currentArtist });
+            lookup
                 .then(node => {
                     if (node) {
-                        graphService.recordPlay(node.id);
+                        return wasSkipped ? graphService.recordSkip(node.id) : graphService.recordPlay(node.id);
                     }
                 })
                 .catch(e => console.error('[SkipTracker] Graph update failed', e));
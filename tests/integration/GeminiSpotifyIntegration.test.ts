@@ -204,8 +204,8 @@ describe('Gemini → Spotify Integration Tests (Real API)', () => {
             }
 
             const suggestion = {
-                title: firstOption.track.title || firstOption.track.t,
-                artist: firstOption.track.artist || firstOption.track.a
+                title: firstOption.track.title,
+                artist: firstOption.track.artist
             };
 
             const validated = await waitForApiCall(
@@ -79,6 +79,46 @@ describe('GeminiPrompts', () => {
             expect(prompt).toContain('afternoon vibes');
         });
 
+        it('should group taste cluster reps by cluster', () => {
+            const prompt = GeminiPrompts.generateVibeOptionsPrompt([], {
+                clusterReps: [
+                    { name: 'Creep', artist: 'Radiohead', playCount: 10, cluster: 0 },
+                    { name: 'So What', artist: 'Miles Davis', cluster: 1 },
+                    { name: 'Karma Police', artist: 'Radiohead', cluster: 0 },
+                ],
+            }, [], '');
+
+            expect(prompt).toContain('Ctx(Taste Clusters):C1:Creep|Radiohead(10),Karma Police|Radiohead;C2:So What|Miles Davis');
+        });
+
+        it('should include playlist names as taste context', () => {
+            const prompt = GeminiPrompts.generateVibeOptionsPrompt([], {
+                clusterReps: [],
+                topPlaylists: [{ name: 'Sunday Morning', songCount: 42 }, { name: 'Gym', songCount: 17 }],
+            }, [], '');
+
+            expect(prompt).toContain('Ctx(Playlists):Sunday Morning(42);Gym(17)');
+        });
+
+        it('should include top release decades as taste context', () => {
+            const prompt = GeminiPrompts.generateVibeOptionsPrompt([], {
+                clusterReps: [],
+                topEras: [{ name: '1990s', songCount: 30 }, { name: '2010s', songCount: 12 }],
+            }, [], '');
+
+            expect(prompt).toContain('Ctx(Eras):1990s(30);2010s(12)');
+        });
+
+        it('should include the current listening context and its usual vibes', () => {
+            const prompt = GeminiPrompts.generateVibeOptionsPrompt([], {
+                clusterReps: [],
+                nowContext: { label: 'weekday morning', vibes: ['Commute', 'Focus'] },
+            }, [], '');
+
+            expect(prompt).toContain('Ctx(Now):weekday morning|usual:Commute;Focus');
+            expect(prompt).toContain('6. 4+ options suit Ctx(Now).');
+        });
+
         it('should include exclusion list', () => {
             const prompt = GeminiPrompts.generateVibeOptionsPrompt(
                 [], baseTaste, [], '', ['Song A|Artist A', 'Song B|Artist B']
@@ -176,4 +216,17 @@ describe('GeminiPrompts', () => {
             expect(prompt).not.toContain('Ctx:');
         });
     });
+
+    describe('generateCorrectionPrompt', () => {
+        it('should repeat the original prompt and list at most 5 errors', () => {
+            const errors = Array.from({ length: 7 }, (_, i) => `items[${i}].a: missing`);
+            const prompt = GeminiPrompts.generateCorrectionPrompt('Original prompt', errors);
+
+            expect(prompt.startsWith('Original prompt\n')).toBe(true);
+            expect(prompt).toContain('rejected:items[0].a: missing;');
+            expect(prompt).toContain('items[4].a: missing');
+            expect(prompt).not.toContain('items[5]');
+            expect(prompt).toContain('JSON');
+        });
+    });
 });
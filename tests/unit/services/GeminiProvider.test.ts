@@ -0,0 +1,76 @@
+/**
+ * Gemini Provider Unit Tests
+ * Pure logic, plus replies from a mocked axios and expo/fetch.
+ */
+import axios from 'axios';
+import { fetch as streamingFetch } from 'expo/fetch';
+import { GeminiProvider, geminiGenerationConfig } from '../../../services/llm/GeminiProvider';
+
+jest.mock('expo/fetch', () => ({ fetch: jest.fn() }));
+
+function eventStreamResponse(events: string[]) {
+    const bytes = new TextEncoder().encode(events.map(data => `data: ${data}\n\n`).join(''));
+    return {
+        ok: true,
+        status: 200,
+        body: new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(bytes);
+                controller.close();
+            },
+        }),
+    };
+}
+
+describe('geminiGenerationConfig', () => {
+    it('should only send seed and responseSchema when set, and never thinkingLevel', () => {
+        const config = geminiGenerationConfig({ maxOutputTokens: 1024, temperature: 0.7, thinkingLevel: 'low' });
+        expect(config).not.toHaveProperty('seed');
+        expect(config).not.toHaveProperty('responseSchema');
+        expect(config).not.toHaveProperty('thinkingLevel');
+        expect(geminiGenerationConfig({ seed: 0 }).seed).toBe(0);
+    });
+});
+
+describe('GeminiProvider', () => {
+    const provider = new GeminiProvider();
+    const request = { prompt: 'p', config: { maxOutputTokens: 1024 } };
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.mocked(streamingFetch).mockReset();
+    });
+
+    it('should read the answer and thought signature from the candidate parts', async () => {
+        jest.spyOn(axios, 'post').mockResolvedValue({
+            data: {
+                candidates: [{ content: { parts: [{ text: 'Thinking...', thought: true }, { text: '{"a":1}', thoughtSignature: 'sig-1' }] } }],
+                usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 4, thoughtsTokenCount: 6 },
+            },
+        });
+
+        const reply = await provider.generate('gemini-3-pro', request, 'key');
+        expect(reply).toEqual({
+            text: '{"a":1}',
+            usage: { promptTokens: 10, candidateTokens: 4, thinkingTokens: 6, totalTokens: 20 },
+            thoughtSignature: 'sig-1',
+        });
+    });
+
+    it('should pass on the thought signature a streamed chunk carries in its parts', async () => {
+        jest.mocked(streamingFetch).mockResolvedValue(eventStreamResponse([
+            JSON.stringify({ candidates: [{ content: { parts: [{ text: '[{"t":' }] } }] }),
+            JSON.stringify({
+                candidates: [{ content: { parts: [{ text: '"X"}]', thoughtSignature: 'sig-2' }] } }],
+                usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 4 },
+            }),
+        ]) as any);
+
+        const chunks = [];
+        for await (const chunk of await provider.openStream('gemini-3-pro', request, 'key', new AbortController().signal)) chunks.push(chunk);
+        expect(chunks.map(c => c.text).join('')).toBe('[{"t":"X"}]');
+        expect(chunks[0]).not.toHaveProperty('thoughtSignature');
+        expect(chunks[1].thoughtSignature).toBe('sig-2');
+        expect(jest.mocked(streamingFetch).mock.calls[0][0]).toContain(':streamGenerateContent?alt=sse&key=key');
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Gemini Response Schema Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import { GeminiPrompts, GeminiSchemas } from '../../../services/gemini/GeminiPrompts';
+import { GeminiResponses } from '../../../services/gemini/GeminiResponses';
+import { formatValidationErrors, Schema, validateAgainstSchema } from '../../../services/gemini/responseSchema';
+
+/** The JSON example a prompt ends with. */
+function outputExample(prompt: string): unknown {
+    return JSON.parse(prompt.slice(prompt.lastIndexOf('\n') + 1).replace(/^Output:/, ''));
+}
+
+describe('validateAgainstSchema', () => {
+    const schema = Schema.object({
+        name: Schema.string(),
+        level: Schema.string(['low', 'high']),
+        tags: Schema.array(Schema.object({ t: Schema.string() })),
+    });
+
+    it('should accept a conforming value and ignore extra properties', () => {
+        expect(validateAgainstSchema({ name: 'x', level: 'low', tags: [{ t: 'a', extra: 1 }], more: true }, schema)).toEqual([]);
+    });
+
+    it('should name the exact path of every problem', () => {
+        const errors = validateAgainstSchema({ name: '  ', level: 'mid', tags: [{ t: 'a' }, {}, { t: 3 }] }, schema);
+        expect(errors).toEqual([
+            'name: empty',
+            'level: expected one of low|high, got "mid"',
+            'tags[1].t: missing',
+            'tags[2].t: expected string, got number',
+        ]);
+    });
+
+    it('should report the wrong root type', () => {
+        expect(validateAgainstSchema([], schema)).toEqual(['(root): expected object, got array']);
+        expect(validateAgainstSchema(null, schema)).toEqual(['(root): expected object, got null']);
+    });
+
+    it('should prefix errors with the given path', () => {
+        expect(validateAgainstSchema({ t: 1 }, Schema.object({ t: Schema.string() }), 'items[4]'))
+            .toEqual(['items[4].t: expected string, got number']);
+    });
+});
+
+describe('formatValidationErrors', () => {
+    it('should cap the list and count the rest', () => {
+        expect(formatValidationErrors(['a', 'b', 'c'], 2)).toBe('a; b; ...and 1 more');
+        expect(formatValidationErrors(['a'])).toBe('a');
+    });
+});
+
+describe('GeminiSchemas', () => {
+    it("should accept each prompt's own Output example", () => {
+        const examples = [
+            [GeminiSchemas.djRecommendation, GeminiPrompts.generateDJRecommendation([], [], 0, '')],
+            [GeminiSchemas.vibeOptions, GeminiPrompts.generateVibeOptionsPrompt([], { clusterReps: [] }, [], '')],
+            [GeminiSchemas.vibeExpansion, GeminiPrompts.generateVibeExpansionPrompt({ title: 'S', artist: 'A' }, [], [], [])],
+            [GeminiSchemas.rescueVibe, GeminiPrompts.generateRescueVibePrompt([], [], [])],
+        ] as const;
+        for (const [schema, prompt] of examples) {
+            expect(validateAgainstSchema(outputExample(prompt), schema)).toEqual([]);
+        }
+    });
+
+    it('should generate properties in the order the prompts show them', () => {
+        expect(GeminiSchemas.rescueVibe.propertyOrdering).toEqual(['vibe', 'why', 'items']);
+        expect(GeminiSchemas.djRecommendation.propertyOrdering).toEqual(['reasoning', 'items']);
+    });
+});
+
+describe('GeminiResponses', () => {
+    it('should spell out short track keys', () => {
+        const result = GeminiResponses.vibeOptions.validate({
+            options: [{ id: 'v1', title: 'Night', description: 'Calm', track: { t: 'Song', a: 'Artist' }, reason: 'Late' }],
+        });
+        expect(result).toEqual({
+            ok: true,
+            value: [{ id: 'v1', title: 'Night', description: 'Calm', track: { title: 'Song', artist: 'Artist' }, reason: 'Late' }],
+        });
+
+        const rescue = GeminiResponses.rescueVibe.validate({ vibe: 'Funk', why: 'Too slow', items: [{ t: 'X', a: 'Y' }] });
+        expect(rescue.ok && rescue.value.items).toEqual([{ title: 'X', artist: 'Y' }]);
+    });
+
+    it('should reject replies instead of filling in defaults', () => {
+        expect(GeminiResponses.moodAssessment.validate({})).toEqual({
+            ok: false,
+            errors: ['mood: missing', 'mood_description: missing', 'energy_level: missing', 'recommended_direction: missing'],
+        });
+
+        const result = GeminiResponses.moodAssessment.validate({
+            mood: 'calm', mood_description: 'Chill.', energy_level: 'very high', recommended_direction: 'keep_current',
+        });
+        expect(result.ok).toBe(false);
+        expect(!result.ok && result.errors).toEqual(['energy_level: expected one of low|medium|high, got "very high"']);
+    });
+
+    it('should drop only the list items that break the schema', () => {
+        const result = GeminiResponses.vibeExpansion.validate({ mood: 'Calm', items: [{ t: 'X', a: 'Y' }, { t: 'No artist' }, { t: 'Z', a: 'W' }] });
+        expect(result).toEqual({
+            ok: true,
+            value: { mood: 'Calm', items: [{ title: 'X', artist: 'Y' }, { title: 'Z', artist: 'W' }] },
+            dropped: ['items[1].a: missing'],
+        });
+    });
+
+    it('should reject a list reply when no item conforms or the rest of it is wrong', () => {
+        expect(GeminiResponses.rescueVibe.validate({ vibe: 'Funk', why: 'Too slow', items: [{ t: 'X' }] }))
+            .toEqual({ ok: false, errors: ['items[0].a: missing'] });
+        expect(GeminiResponses.rescueVibe.validate({ vibe: 'Funk', items: [{ t: 'X', a: 'Y' }, {}] }))
+            .toEqual({ ok: false, errors: ['why: missing'] });
+    });
+
+    it('should validate a single streamed option under its position', () => {
+        const result = GeminiResponses.vibeOption.validate({ id: 'v3', title: 'T', description: 'D', track: { t: 'S' }, reason: 'R' }, 'options[2]');
+        expect(result).toEqual({ ok: false, errors: ['options[2].track.a: missing'] });
+    });
+});
@@ -3,8 +3,12 @@
  * NO MOCKS - uses real dbService and real axios (real Gemini API when key present).
  */
 
+import axios from 'axios';
 import { gemini } from '../../../services/gemini/GeminiService';
+import { DEFAULT_JSON_CONFIG } from '../../../services/gemini/constants';
+import { responseCacheKey } from '../../../services/gemini/responseCache';
 import { dbService } from '../../../services/database';
+import { DEFAULT_LLM_SETTINGS } from '../../../services/llm/types';
 import { initializeTestDatabase } from '../../utils/testDb';
 
 describe('GeminiService (Real DB)', () => {
@@ -36,4 +40,96 @@ describe('GeminiService (Real DB)', () => {
             await slowRequest.catch(() => {});
         });
     });
+
+    describe('Daily Token Budget', () => {
+        afterEach(async () => {
+            await gemini.setDailyTokenBudget(0);
+        });
+
+        it('should block requests once today\'s recorded usage reaches the budget', async () => {
+            await dbService.recordGeminiUsage({
+                timestamp: Date.now(), operation: 'request', model: 'gemini-2.5-flash',
+                promptTokens: 40, candidateTokens: 10, thinkingTokens: 0, totalTokens: 50, latencyMs: 100,
+            });
+            const usedToday = await gemini.getTokensUsedToday();
+            expect(usedToday).toBeGreaterThanOrEqual(50);
+
+            await gemini.setDailyTokenBudget(usedToday);
+            expect(await gemini.isOverDailyBudget()).toBe(true);
+            await expect(gemini.makeRequest('test_key', 'test prompt')).rejects.toThrow('Daily Token Budget Exceeded');
+
+            await gemini.setDailyTokenBudget(usedToday + 1_000_000);
+            expect(await gemini.isOverDailyBudget()).toBe(false);
+        });
+
+        it('should report today in the usage summary', async () => {
+            const summary = await gemini.getUsageSummary(7);
+            expect(summary.tokensToday).toBe(await gemini.getTokensUsedToday());
+            expect(summary.byDay.length).toBeLessThanOrEqual(7);
+        });
+    });
+
+    describe('Response Cache', () => {
+        const prompt = 'cached expansion prompt';
+        const seedCache = (text: string) => dbService.setCachedGeminiResponse({
+            key: responseCacheKey(gemini.getCurrentModelId(), prompt, { ...DEFAULT_JSON_CONFIG }),
+            operation: 'expandVibe', model: gemini.getCurrentModelId(), text,
+            createdAt: Date.now(), expiresAt: Date.now() + 60_000,
+        });
+
+        afterEach(async () => {
+            await gemini.setDailyTokenBudget(0);
+        });
+
+        it('should answer an identical request from the cache, even over the daily budget', async () => {
+            await seedCache('{"items":[]}');
+            await gemini.setDailyTokenBudget(1);
+            const reply = await gemini.makeRequest('test_key', prompt, {}, false, undefined, 'expandVibe');
+            expect(reply.cached).toBe(true);
+            expect(reply.text).toBe('{"items":[]}');
+        });
+
+        it('should skip the cache for fresh requests and uncached operations', async () => {
+            await seedCache('{"items":[]}');
+            await gemini.setDailyTokenBudget(1);
+            await expect(gemini.makeRequest('test_key', prompt, {}, false, undefined, 'expandVibe', true))
+                .rejects.toThrow('Daily Token Budget Exceeded');
+            await expect(gemini.makeRequest('test_key', prompt, {}, false, undefined, 'request'))
+                .rejects.toThrow('Daily Token Budget Exceeded');
+            await expect(gemini.makeRequest('test_key', prompt, {}, false, undefined, 'backfill'))
+                .rejects.toThrow('Daily Token Budget Exceeded');
+        });
+    });
+
+    describe('OpenAI-compatible Provider', () => {
+        beforeEach(async () => {
+            await gemini.setProviderSettings({ provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1/', model: 'llama3.1:8b', apiKey: '' });
+        });
+
+        afterEach(async () => {
+            jest.restoreAllMocks();
+            await gemini.setProviderSettings(DEFAULT_LLM_SETTINGS);
+        });
+
+        it('should send structured requests to the configured server and validate its reply', async () => {
+            const post = jest.spyOn(axios, 'post').mockResolvedValue({
+                data: {
+                    choices: [{ message: { content: JSON.stringify({ mood: 'Mellow', items: [{ t: 'Song', a: 'Artist' }, { t: 'No artist' }] }) } }],
+                    usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+                },
+            });
+            const usedBefore = await gemini.getTokensUsedToday();
+
+            const result = await gemini.expandVibe({ title: 'Seed', artist: 'Seed Artist' }, [], [], []);
+
+            expect(result).toEqual({ mood: 'Mellow', items: [{ title: 'Song', artist: 'Artist' }] });
+            expect(post).toHaveBeenCalledTimes(1);
+            const [url, body, options] = post.mock.calls[0] as [string, any, any];
+            expect(url).toBe('http://localhost:11434/v1/chat/completions');
+            expect(body.model).toBe('llama3.1:8b');
+            expect(body.response_format.type).toBe('json_schema');
+            expect(options.headers).toEqual({});
+            expect(await gemini.getTokensUsedToday()).toBe(usedBefore + 150);
+        });
+    });
 });
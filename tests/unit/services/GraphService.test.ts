@@ -5,8 +5,10 @@
  * NO MOCKS.
  */
 
-import { graphService } from '../../../services/graph/GraphService';
+import { PlaylistChoice, SongNodeData, graphService } from '../../../services/graph/GraphService';
 import { dbService } from '../../../services/database';
+import { spotifyRemote } from '../../../services/spotify/SpotifyRemoteService';
+import { parseNodeData } from '../../../services/graph/graphIntegrity';
 import { initializeTestDatabase } from '../../utils/testDb';
 import {
     song, artist, genre, vibe,
@@ -156,7 +158,7 @@ describe('GraphService (Real Graph)', () => {
 
             const edges = await snapshotEdges();
             expect(edges).toHaveLength(1);
-            expect(edges[0]).toEqual({ source: a.id, target: b.id, type: 'NEXT', weight: 1.0 });
+            expect(edges[0]).toEqual({ source: a.id, target: b.id, type: 'NEXT', weight: 1.0, updated_at: expect.any(Number) });
         });
     });
 
@@ -227,6 +229,643 @@ describe('GraphService (Real Graph)', () => {
         });
     });
 
+    // ═══════════════════════════════════════════════
+    // getRandomWalkSuggestions
+    // ═══════════════════════════════════════════════
+    describe('getRandomWalkSuggestions', () => {
+        it('should reach songs beyond one hop from the current song', async () => {
+            const a = await song('A', 'sp:a');
+            const b = await song('B', 'sp:b');
+            const c = await song('C', 'sp:c');
+            await connect(a.id, b.id, 'NEXT', 1.0);
+            await connect(b.id, c.id, 'NEXT', 1.0);
+            await connect(b.id, a.id, 'NEXT', 1.0); // the A ⇄ B loop one-hop traversal gets stuck in
+
+            const suggestions = await graphService.getRandomWalkSuggestions({ currentNodeId: a.id }, 5, new Set(['spotify:track:sp:b']));
+            expect(suggestions.map(s => s.name)).toEqual(['C']);
+        });
+
+        it('should never return seeds, played-today or non-song nodes', async () => {
+            const { center, neighbors } = await buildStar('Center', ['Fresh', 'PlayedToday'], [1.0, 5.0]);
+            const rock = await genre('rock');
+            await tagGenre(center.id, rock.id);
+            await graphService.recordPlay(neighbors[1].id);
+
+            const suggestions = await graphService.getRandomWalkSuggestions({ currentNodeId: center.id });
+            expect(suggestions.map(s => s.name)).toEqual(['Fresh']);
+        });
+
+        it('should weight edge types (listening transitions beat shared genre)', async () => {
+            const current = await song('Current', 'sp:cur');
+            const viaNext = await song('Via Next', 'sp:next');
+            const viaGenre = await song('Via Genre', 'sp:genre');
+            const g = await genre('indie');
+            await connect(current.id, viaNext.id, 'NEXT', 1.0);
+            await tagGenre(current.id, g.id);
+            await tagGenre(viaGenre.id, g.id);
+
+            const suggestions = await graphService.getRandomWalkSuggestions({ currentNodeId: current.id });
+            expect(suggestions.map(s => s.name)).toEqual(['Via Next', 'Via Genre']);
+        });
+
+        it('should seed from the vibe and session, and drop songs skipped in the vibe', async () => {
+            const v = await vibe('Focus');
+            const inVibe = await song('In Vibe', 'sp:v1');
+            const skipped = await song('Skipped', 'sp:v2');
+            const heard = await song('Heard', 'sp:h');
+            const afterHeard = await song('After Heard', 'sp:ah');
+            await connect(v.id, inVibe.id, 'RELATED', 2.0);
+            await connect(v.id, skipped.id, 'RELATED', 2.0);
+            await connect(heard.id, afterHeard.id, 'NEXT', 1.0);
+            await graphService.recordVibeSkip(skipped.id, 'Focus');
+
+            const suggestions = await graphService.getRandomWalkSuggestions({
+                vibeName: 'Focus',
+                recentUris: ['spotify:track:sp:h'],
+            });
+            const names = suggestions.map(s => s.name);
+            expect(names).toEqual(expect.arrayContaining(['In Vibe', 'After Heard']));
+            expect(names).not.toContain('Skipped');
+            expect(names).not.toContain('Heard');
+        });
+
+        it('should return empty without usable seeds', async () => {
+            await song('Lonely', 'sp:lonely');
+            expect(await graphService.getRandomWalkSuggestions({ recentUris: ['spotify:track:unknown'] })).toEqual([]);
+        });
+    });
+
+    // ═══════════════════════════════════════════════
+    // explainTracks
+    // ═══════════════════════════════════════════════
+    describe('explainTracks', () => {
+        it('should explain a track by the strongest path from the session', async () => {
+            const heard = await song('Heroes', 'sp:h', { artist: 'David Bowie' });
+            const target = await song('Ashes to Ashes', 'sp:t', { artist: 'David Bowie' });
+            const bowie = await artist('David Bowie', 'ar:bowie');
+            const rock = await genre('art rock');
+            await connect(heard.id, bowie.id, 'RELATED', 1.0);
+            await connect(target.id, bowie.id, 'RELATED', 1.0);
+            await tagGenre(heard.id, rock.id);
+            await tagGenre(target.id, rock.id);
+
+            const explanations = await graphService.explainTracks(['spotify:track:sp:t'], { recentUris: ['spotify:track:sp:h'] });
+            const [path] = explanations.get('spotify:track:sp:t')!;
+            expect(path.steps.map(s => s.name)).toEqual(['Heroes', 'David Bowie', 'Ashes to Ashes']);
+            expect(path.text).toBe('Heroes → artist David Bowie → Ashes to Ashes');
+        });
+
+        it('should start from the vibe and leave unconnected tracks out', async () => {
+            const v = await vibe('Focus');
+            const inVibe = await song('In Vibe', 'sp:v1');
+            await song('Elsewhere', 'sp:e');
+            await connect(v.id, inVibe.id, 'RELATED', 2.0);
+
+            const explanations = await graphService.explainTracks(['sp:v1', 'sp:e', 'sp:unknown'], { vibeName: 'Focus' });
+            expect(Array.from(explanations.keys())).toEqual(['sp:v1']);
+            expect(explanations.get('sp:v1')![0].text).toBe('Focus → In Vibe');
+        });
+
+        it('should not explain a track by a shared listening context', async () => {
+            const heard = await song('Heroes', 'sp:h');
+            const target = await song('Fashion', 'sp:f');
+            const evening = await graphService.getEffectiveNode('CONTEXT', 'evening');
+            await connect(heard.id, evening!.id, 'IN_CONTEXT', 5.0);
+            await connect(target.id, evening!.id, 'IN_CONTEXT', 5.0);
+
+            const explanations = await graphService.explainTracks(['spotify:track:sp:f'], { recentUris: ['spotify:track:sp:h'] });
+            expect(explanations.size).toBe(0);
+        });
+    });
+
+    // ═══════════════════════════════════════════════
+    // Audio similarity (kNN SIMILAR edges)
+    // ═══════════════════════════════════════════════
+    describe('linkSimilarSongs', () => {
+        const features = (energy: number) => ({
+            energy, valence: 0.5, danceability: 0.5, tempo: 120, acousticness: 0.1, instrumentalness: 0,
+        });
+
+        it('should link a new song to its nearest songs in both directions, weighted by distance', async () => {
+            const near = await song('Near', 'sp:near', { artist: 'A', ...features(0.50) });
+            const mid = await song('Mid', 'sp:mid', { artist: 'B', ...features(0.60) });
+            const far = await song('Far', 'sp:far', { artist: 'C', ...features(0.99), acousticness: 1, instrumentalness: 1 });
+            const fresh = await song('Fresh', 'sp:fresh', { artist: 'D', ...features(0.51) });
+
+            const created = await graphService.linkSimilarSongs([fresh.id]);
+
+            const similar = await snapshotEdges('SIMILAR');
+            expect(created).toBe(4);
+            const from = similar.filter(e => e.source === fresh.id).sort((a, b) => b.weight - a.weight);
+            expect(from.map(e => e.target)).toEqual([near.id, mid.id]);
+            expect(similar.some(e => e.source === near.id && e.target === fresh.id)).toBe(true);
+            expect(similar.some(e => e.target === far.id || e.source === far.id)).toBe(false);
+        });
+
+        it('should skip songs without stored audio features', async () => {
+            await song('Known', 'sp:known', features(0.5));
+            const bare = await song('Bare', 'sp:bare', { artist: 'X' });
+
+            expect(await graphService.linkSimilarSongs([bare.id])).toBe(0);
+            expect(await snapshotEdges('SIMILAR')).toHaveLength(0);
+        });
+
+        it('should replace a relinked song\'s SIMILAR edges instead of reinforcing them', async () => {
+            const near = await song('Near', 'sp:near', { artist: 'A', ...features(0.50) });
+            const fresh = await song('Fresh', 'sp:fresh', { artist: 'D', ...features(0.51) });
+            const stale = await song('Stale', 'sp:stale', { artist: 'E' });
+            await connect(fresh.id, stale.id, 'SIMILAR', 1.0); // left over from before the kNN
+
+            await graphService.linkSimilarSongs([fresh.id]);
+            const first = await snapshotEdges('SIMILAR');
+            await graphService.linkSimilarSongs([fresh.id]);
+
+            const similar = await snapshotEdges('SIMILAR');
+            expect(similar.map(e => [e.source, e.target, e.weight])).toEqual(first.map(e => [e.source, e.target, e.weight]));
+            expect(similar.every(e => e.weight <= 1)).toBe(true);
+            expect(similar.some(e => e.target === stale.id)).toBe(false);
+            expect(similar.some(e => e.source === near.id && e.target === fresh.id)).toBe(true);
+        });
+    });
+
+    // ═══════════════════════════════════════════════
+    // syncLikedSongs (Spotify library stubbed at the API boundary)
+    // ═══════════════════════════════════════════════
+    describe('syncLikedSongs', () => {
+        let library: any[] = [];
+        let savedTracksSpy: jest.SpyInstance;
+
+        const liked = (id: string, day: number) => ({
+            added_at: new Date(Date.UTC(2026, 0, day)).toISOString(),
+            track: { id, name: `Song ${id}`, artists: [{ id: `ar:${id}`, name: `Artist ${id}` }] },
+        });
+        const songData = async (id: string): Promise<SongNodeData> => parseNodeData((await snapshotNodes('SONG')).find(n => n.spotify_id === id)?.data) ?? {};
+
+        beforeEach(() => {
+            // Newest first, like /me/tracks
+            library = [liked('c', 3), liked('b', 2), liked('a', 1)];
+            savedTracksSpy = jest.spyOn(spotifyRemote, 'getUserSavedTracks').mockImplementation(async (limit = 50, offset = 0) => ({
+                items: library.slice(offset, offset + limit),
+                total: library.length,
+            }));
+            jest.spyOn(spotifyRemote, 'getArtistsBatch').mockImplementation(async (ids: string[]) =>
+                ids.map(id => ({ id, name: `Artist ${id.slice(3)}`, genres: ['indie'] })));
+            jest.spyOn(spotifyRemote, 'getAudioFeaturesBatch').mockImplementation(async (ids: string[]) => ids.map(() => null));
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should run the full ingestion first and mark songs as liked', async () => {
+            const result = await graphService.syncLikedSongs();
+
+            expect(result).toEqual({ added: 3, removed: 0 });
+            expect((await songData('a')).liked_at).toBe(Date.UTC(2026, 0, 1));
+            expect(await dbService.getPreference('graph_ingested_liked')).toBe('true');
+        });
+
+        it('should add newly liked songs with their edges and stop paging at the last sync', async () => {
+            await graphService.syncLikedSongs();
+            library = [liked('d', 4), ...library];
+            savedTracksSpy.mockClear();
+
+            const result = await graphService.syncLikedSongs();
+
+            expect(result).toEqual({ added: 1, removed: 0 });
+            expect(savedTracksSpy).toHaveBeenCalledTimes(1);
+            const d = (await snapshotNodes('SONG')).find(n => n.spotify_id === 'd')!;
+            const edges = await snapshotEdges();
+            expect(edges.some(e => e.source === d.id && e.type === 'RELATED')).toBe(true);
+            expect(edges.some(e => e.source === d.id && e.type === 'HAS_GENRE')).toBe(true);
+        });
+
+        it('should tombstone removed likes and drop their edge weights', async () => {
+            await graphService.syncLikedSongs();
+            library = library.filter(item => item.track.id !== 'b');
+
+            const result = await graphService.syncLikedSongs();
+
+            expect(result).toEqual({ added: 0, removed: 1 });
+            expect((await songData('b')).unliked_at).toEqual(expect.any(Number));
+            expect((await songData('a')).unliked_at).toBeUndefined();
+            const b = (await snapshotNodes('SONG')).find(n => n.spotify_id === 'b')!;
+            const related = (await snapshotEdges('RELATED')).find(e => e.source === b.id)!;
+            expect(related.weight).toBe(0.5);
+        });
+
+        it('should find removed likes even when Spotify\'s total still adds up', async () => {
+            // A local file counts in the total but never becomes a liked node
+            library = [{ added_at: new Date(Date.UTC(2026, 0, 4)).toISOString(), track: { id: null, name: 'Local' } }, ...library];
+            await graphService.syncLikedSongs();
+            library = library.filter(item => item.track.id !== 'b');
+
+            expect(await graphService.syncLikedSongs()).toEqual({ added: 0, removed: 1 });
+            expect((await songData('b')).unliked_at).toEqual(expect.any(Number));
+        });
+
+        it('should give a re-liked song its edge weights back', async () => {
+            await graphService.syncLikedSongs();
+            const likedB = library.find(item => item.track.id === 'b');
+            library = library.filter(item => item !== likedB);
+            await graphService.syncLikedSongs();
+            library = [{ ...likedB, added_at: new Date(Date.UTC(2026, 0, 5)).toISOString() }, ...library];
+
+            expect(await graphService.syncLikedSongs()).toEqual({ added: 1, removed: 0 });
+            expect((await songData('b')).unliked_at).toBeNull();
+            const b = (await snapshotNodes('SONG')).find(n => n.spotify_id === 'b')!;
+            expect((await snapshotEdges('RELATED')).find(e => e.source === b.id)!.weight).toBe(1.0);
+        });
+
+        it('should not inflate edges written while the song was unliked when it is re-liked', async () => {
+            await graphService.syncLikedSongs();
+            const likedB = library.find(item => item.track.id === 'b');
+            library = library.filter(item => item !== likedB);
+            await graphService.syncLikedSongs();
+
+            // Listened to while unliked: a new transition and a rebuilt similarity
+            await new Promise(r => setTimeout(r, 5));
+            const nodes = await snapshotNodes('SONG');
+            const [a, b] = ['a', 'b'].map(id => nodes.find(n => n.spotify_id === id)!);
+            await connect(b.id, a.id, 'NEXT', 3.0);
+            await graphService.connectEdgesBatch([{ source: b.id, target: a.id, type: 'SIMILAR', weight: 0.8 }], 'set');
+
+            library = [{ ...likedB, added_at: new Date(Date.UTC(2026, 0, 5)).toISOString() }, ...library];
+            await graphService.syncLikedSongs();
+
+            const edges = await snapshotEdges();
+            expect(edges.find(e => e.source === b.id && e.type === 'RELATED')!.weight).toBe(1.0);
+            expect(edges.find(e => e.source === b.id && e.type === 'NEXT')!.weight).toBe(3.0);
+            expect(edges.find(e => e.source === b.id && e.type === 'SIMILAR')!.weight).toBe(0.8);
+        });
+
+        it('should mark songs already in the graph as liked when ingesting', async () => {
+            await song('Song a', 'a', { artist: 'Artist a' });
+
+            await graphService.syncLikedSongs();
+            expect((await songData('a')).liked_at).toBe(Date.UTC(2026, 0, 1));
+        });
+
+        it('should not tombstone anything when the library fetch fails', async () => {
+            await graphService.syncLikedSongs();
+            savedTracksSpy.mockResolvedValue({ items: [], total: 0 });
+
+            expect(await graphService.syncLikedSongs()).toEqual({ added: 0, removed: 0 });
+            expect((await songData('a')).unliked_at).toBeUndefined();
+        });
+    });
+
+    describe('ingestPlaylists', () => {
+        let tracksSpy: jest.SpyInstance;
+        let playlistTracks: any[] = [];
+
+        const item = (id: string) => ({
+            added_at: '2026-01-01T00:00:00Z',
+            track: { id, name: `Song ${id}`, type: 'track', artists: [{ id: `ar:${id}`, name: `Artist ${id}` }] },
+        });
+        const roadTrip = (snapshotId: string): PlaylistChoice => ({
+            id: 'pl:road', name: 'Road Trip', owner: 'me', trackCount: playlistTracks.length, snapshotId, ingested: false,
+        });
+        const edgeWeight = (edges: { source: number; target: number; type: string; weight: number }[], type: string, source: number, target: number) =>
+            edges.find(e => e.type === type && e.source === source && e.target === target)?.weight;
+
+        beforeEach(() => {
+            playlistTracks = [item('a'), item('b'), { is_local: true, track: { id: null, name: 'Local' } }, item('c')];
+            tracksSpy = jest.spyOn(spotifyRemote, 'getPlaylistTracks').mockImplementation(async (_id: string, limit = 100, offset = 0) => ({
+                items: playlistTracks.slice(offset, offset + limit),
+                total: playlistTracks.length,
+            }));
+            jest.spyOn(spotifyRemote, 'getArtistsBatch').mockImplementation(async (ids: string[]) =>
+                ids.map(id => ({ id, name: `Artist ${id.slice(3)}`, genres: ['indie'] })));
+            jest.spyOn(spotifyRemote, 'getAudioFeaturesBatch').mockImplementation(async (ids: string[]) => ids.map(() => null));
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should link songs to a PLAYLIST node and chain them with NEXT in playlist order', async () => {
+            const existing = await song('Song b', 'b', { artist: 'Artist b', liked_at: 1 });
+
+            expect(await graphService.ingestPlaylists([roadTrip('s1')])).toEqual({ playlists: 1, songs: 2 });
+
+            const playlist = (await snapshotNodes('PLAYLIST'))[0];
+            expect(playlist).toMatchObject({ name: 'Road Trip', spotify_id: 'pl:road' });
+            const songs = new Map((await snapshotNodes('SONG')).map(n => [n.spotify_id, n]));
+            expect(songs.size).toBe(3);
+            expect(songs.get('b')!.id).toBe(existing.id);
+            expect(parseNodeData(songs.get('a')!.data)?.liked_at).toBeUndefined();
+
+            const edges = await snapshotEdges();
+            expect(edges.filter(e => e.type === 'IN_PLAYLIST' && e.target === playlist.id)).toHaveLength(3);
+            expect(edgeWeight(edges, 'NEXT', songs.get('a')!.id, songs.get('b')!.id)).toBe(1);
+            expect(edgeWeight(edges, 'NEXT', songs.get('b')!.id, songs.get('c')!.id)).toBe(1);
+            expect(edges.some(e => e.source === songs.get('a')!.id && e.type === 'HAS_GENRE')).toBe(true);
+            expect(await graphService.getTopPlaylists()).toEqual([{ name: 'Road Trip', songCount: 3 }]);
+            expect((await graphService.getTasteProfile()).topPlaylists).toEqual([{ name: 'Road Trip', songCount: 3 }]);
+        });
+
+        it('should skip unchanged playlists and only add edges for new members', async () => {
+            await graphService.ingestPlaylists([roadTrip('s1')]);
+            tracksSpy.mockClear();
+
+            expect(await graphService.ingestPlaylists([roadTrip('s1')])).toEqual({ playlists: 0, songs: 0 });
+            expect(tracksSpy).not.toHaveBeenCalled();
+
+            playlistTracks.push(item('d'));
+            expect(await graphService.ingestPlaylists([roadTrip('s2')])).toEqual({ playlists: 1, songs: 1 });
+
+            const songs = new Map((await snapshotNodes('SONG')).map(n => [n.spotify_id, n.id]));
+            const edges = await snapshotEdges();
+            expect(edges.filter(e => e.type === 'IN_PLAYLIST').every(e => e.weight === 1)).toBe(true);
+            expect(edgeWeight(edges, 'NEXT', songs.get('a')!, songs.get('b')!)).toBe(1);
+            expect(edgeWeight(edges, 'NEXT', songs.get('c')!, songs.get('d')!)).toBe(1);
+        });
+
+        it('should read a playlist again when a page failed, even if its snapshot is unchanged', async () => {
+            playlistTracks = Array.from({ length: 150 }, (_, i) => item(`t${i}`));
+            const serve = tracksSpy.getMockImplementation()!;
+            tracksSpy.mockImplementation(async (id: string, limit = 100, offset = 0) =>
+                offset === 100 ? { items: [], total: 0, failed: true } : serve(id, limit, offset));
+
+            await graphService.ingestPlaylists([roadTrip('s1')]);
+            expect((await snapshotNodes('PLAYLIST'))[0].data).not.toHaveProperty('snapshot_id');
+
+            tracksSpy.mockImplementation(serve);
+            expect(await graphService.ingestPlaylists([roadTrip('s1')])).toEqual({ playlists: 1, songs: 50 });
+            expect((await snapshotNodes('PLAYLIST'))[0].data).toMatchObject({ snapshot_id: 's1', track_count: 150 });
+        });
+
+        it('should unlink songs taken off a playlist once it is read in full', async () => {
+            await graphService.ingestPlaylists([roadTrip('s1')]);
+            playlistTracks = playlistTracks.filter(t => t.track.id !== 'b');
+
+            await graphService.ingestPlaylists([roadTrip('s2')]);
+
+            const playlist = (await snapshotNodes('PLAYLIST'))[0];
+            const songs = new Map((await snapshotNodes('SONG')).map(n => [n.id, n.spotify_id]));
+            const members = (await snapshotEdges('IN_PLAYLIST')).filter(e => e.target === playlist.id).map(e => songs.get(e.source));
+            expect(members.sort()).toEqual(['a', 'c']);
+            expect(await graphService.getTopPlaylists()).toEqual([{ name: 'Road Trip', songCount: 2 }]);
+        });
+
+        it('should keep the members of a playlist whose read failed', async () => {
+            await graphService.ingestPlaylists([roadTrip('s1')]);
+            tracksSpy.mockResolvedValue({ items: [], total: 0, failed: true });
+
+            await graphService.ingestPlaylists([roadTrip('s2')]);
+            expect(await snapshotEdges('IN_PLAYLIST')).toHaveLength(3);
+        });
+
+        it('should remember an empty playlist as read', async () => {
+            playlistTracks = [];
+            await graphService.ingestPlaylists([roadTrip('s1')]);
+            expect((await snapshotNodes('PLAYLIST'))[0].data).toMatchObject({ snapshot_id: 's1', track_count: 0 });
+
+            tracksSpy.mockClear();
+            expect(await graphService.ingestPlaylists([roadTrip('s1')])).toEqual({ playlists: 0, songs: 0 });
+            expect(tracksSpy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Album and era nodes', () => {
+        const item = (id: string, album: { id: string; name: string; release_date: string } | null) => ({
+            added_at: '2026-01-01T00:00:00Z',
+            track: { id, name: `Song ${id}`, type: 'track', artists: [{ id: 'ar:x', name: 'Artist x' }], album },
+        });
+
+        beforeEach(() => {
+            const tracks = [
+                item('a', { id: 'al:1', name: 'OK Computer', release_date: '1997-05-21' }),
+                item('b', { id: 'al:1', name: 'OK Computer', release_date: '1997-05-21' }),
+                item('c', { id: 'al:2', name: 'Kid A', release_date: '2000' }),
+                item('d', null),
+            ];
+            jest.spyOn(spotifyRemote, 'getPlaylistTracks').mockResolvedValue({ items: tracks, total: tracks.length });
+            jest.spyOn(spotifyRemote, 'getArtistsBatch').mockImplementation(async (ids: string[]) =>
+                ids.map(id => ({ id, name: 'Artist x', genres: [] })));
+            jest.spyOn(spotifyRemote, 'getAudioFeaturesBatch').mockImplementation(async (ids: string[]) => ids.map(() => null));
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should link songs to ALBUM and ERA (release decade) nodes', async () => {
+            await graphService.ingestPlaylists([{ id: 'pl:1', name: 'Mix', owner: 'me', trackCount: 4, snapshotId: 's1', ingested: false }]);
+
+            const albums = await snapshotNodes('ALBUM');
+            expect(albums.map(n => [n.name, n.spotify_id]).sort()).toEqual([['Kid A', 'al:2'], ['OK Computer', 'al:1']]);
+            expect((await snapshotNodes('ERA')).map(n => n.name).sort()).toEqual(['1990s', '2000s']);
+
+            const songs = new Map((await snapshotNodes('SONG')).map(n => [n.spotify_id, n.id]));
+            const edges = await snapshotEdges();
+            const okComputer = albums.find(n => n.spotify_id === 'al:1')!.id;
+            expect(edges.filter(e => e.type === 'IN_ALBUM' && e.target === okComputer).map(e => e.source).sort())
+                .toEqual([songs.get('a'), songs.get('b')].sort());
+            expect(edges.some(e => e.source === songs.get('d') && (e.type === 'IN_ALBUM' || e.type === 'FROM_ERA'))).toBe(false);
+
+            const topEras = [{ name: '1990s', songCount: 2 }, { name: '2000s', songCount: 1 }];
+            expect(await graphService.getTopEras()).toEqual(topEras);
+            expect((await graphService.getTasteProfile()).topEras).toEqual(topEras);
+        });
+    });
+
+    describe('importRecentlyPlayed', () => {
+        let recentSpy: jest.SpyInstance;
+        let recent: any[] = [];
+
+        const MIN = 60_000;
+        const T0 = Date.UTC(2026, 0, 1, 12);
+        const play = (id: string, finishedAtMin: number) => ({
+            played_at: new Date(T0 + finishedAtMin * MIN).toISOString(),
+            track: { id, name: `Song ${id}`, duration_ms: 3 * MIN, artists: [{ id: `ar:${id}`, name: `Artist ${id}` }] },
+        });
+        const hasNext = (edges: { source: number; target: number; type: string }[], source: number, target: number) =>
+            edges.some(e => e.type === 'NEXT' && e.source === source && e.target === target);
+
+        beforeEach(() => {
+            // Newest first, like /me/player/recently-played; a-b-a back to back, then c two hours later
+            recent = [play('c', 130), play('a', 9), play('b', 6), play('a', 3)];
+            recentSpy = jest.spyOn(spotifyRemote, 'getRecentlyPlayed').mockImplementation(async (afterMs = 0) =>
+                ({ items: recent.filter(item => Date.parse(item.played_at) > afterMs), complete: true }));
+            jest.spyOn(spotifyRemote, 'getArtistsBatch').mockImplementation(async (ids: string[]) =>
+                ids.map(id => ({ id, name: `Artist ${id.slice(3)}`, genres: ['indie'] })));
+            jest.spyOn(spotifyRemote, 'getAudioFeaturesBatch').mockImplementation(async (ids: string[]) => ids.map(() => null));
+        });
+
+        afterEach(async () => {
+            await dbService.database!.runAsync('DELETE FROM daily_play_log');
+            await dbService.database!.runAsync('DELETE FROM listening_history');
+            jest.restoreAllMocks();
+        });
+
+        it('should add play counts and chain NEXT edges within a session only', async () => {
+            const existing = await song('Song a', 'a', { artist: 'Artist a', liked_at: 1 });
+
+            expect(await graphService.importRecentlyPlayed()).toEqual({ plays: 4, sessions: 2 });
+
+            const songs = new Map((await snapshotNodes('SONG')).map(n => [n.spotify_id, n]));
+            expect(songs.get('a')).toMatchObject({ id: existing.id, play_count: 2, last_played_at: T0 + 9 * MIN });
+            expect(songs.get('c')).toMatchObject({ play_count: 1, last_played_at: T0 + 130 * MIN });
+            expect(parseNodeData(songs.get('c')!.data)?.liked_at).toBeUndefined();
+
+            const edges = await snapshotEdges();
+            const [a, b, c] = ['a', 'b', 'c'].map(id => songs.get(id)!.id);
+            expect(hasNext(edges, a, b)).toBe(true);
+            expect(hasNext(edges, b, a)).toBe(true);
+            expect(hasNext(edges, a, c)).toBe(false);
+        });
+
+        it('should resume from the cursor and skip plays Moodify already logged', async () => {
+            await graphService.importRecentlyPlayed();
+            expect(await graphService.importRecentlyPlayed()).toEqual({ plays: 0, sessions: 0 });
+            expect(recentSpy).toHaveBeenLastCalledWith(T0 + 130 * MIN);
+
+            // Moodify logs d as it ends, about now
+            await dbService.recordPlay('d', 'Song d', 'Artist d', false, {});
+            const dStarted = { ...play('d', 0), played_at: new Date(Date.now() - 3 * MIN).toISOString() };
+            recent = [dStarted, play('e', 140), ...recent];
+            expect(await graphService.importRecentlyPlayed()).toEqual({ plays: 1, sessions: 1 });
+
+            const songs = new Map((await snapshotNodes('SONG')).map(n => [n.spotify_id, n]));
+            expect(songs.has('d')).toBe(false);
+            expect(songs.get('a')!.play_count).toBe(2);
+            expect(songs.get('e')!.play_count).toBe(1);
+        });
+
+        it('should still import a play of a logged track made at another time', async () => {
+            await dbService.recordPlay('a', 'Song a', 'Artist a', false, {});
+            recent = [{ ...play('a', 0), played_at: new Date(Date.now() - 3 * MIN).toISOString() }, ...recent];
+
+            // The recent play of a is Moodify's; the two from January are not
+            expect(await graphService.importRecentlyPlayed()).toEqual({ plays: 4, sessions: 2 });
+            const songs = new Map((await snapshotNodes('SONG')).map(n => [n.spotify_id, n]));
+            expect(songs.get('a')!.play_count).toBe(2);
+        });
+
+        it('should neither import nor move the cursor after a partial fetch', async () => {
+            recentSpy.mockImplementationOnce(async () => ({ items: recent.slice(0, 2), complete: false }));
+            expect(await graphService.importRecentlyPlayed()).toEqual({ plays: 0, sessions: 0 });
+            expect(await snapshotNodes('SONG')).toHaveLength(0);
+
+            expect(await graphService.importRecentlyPlayed()).toEqual({ plays: 4, sessions: 2 });
+            expect(recentSpy).toHaveBeenLastCalledWith(0);
+        });
+    });
+
+    describe('Resumable ingestion', () => {
+        let savedTracksSpy: jest.SpyInstance;
+        let artistsSpy: jest.SpyInstance;
+
+        // Newest first, like /me/tracks
+        const library = (n: number) => Array.from({ length: n }, (_, i) => ({
+            added_at: new Date(Date.UTC(2026, 0, 1) + (n - i) * 60_000).toISOString(),
+            track: { id: `t${i}`, name: `Song ${i}`, artists: [{ id: `ar:${i % 7}`, name: `Artist ${i % 7}` }] },
+        }));
+        const serveLibrary = (items: any[], failAtOffset = -1) =>
+            savedTracksSpy.mockImplementation(async (limit = 50, offset = 0) =>
+                offset === failAtOffset
+                    ? { items: [], total: 0 }
+                    : { items: items.slice(offset, offset + limit), total: items.length });
+
+        beforeEach(() => {
+            savedTracksSpy = jest.spyOn(spotifyRemote, 'getUserSavedTracks');
+            artistsSpy = jest.spyOn(spotifyRemote, 'getArtistsBatch').mockImplementation(async (ids: string[]) =>
+                ids.map(id => ({ id, name: `Artist ${id.slice(3)}`, genres: ['indie'] })));
+            jest.spyOn(spotifyRemote, 'getAudioFeaturesBatch').mockImplementation(async (ids: string[]) => ids.map(() => null));
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should keep the fetch checkpoint on failure and resume from that offset', async () => {
+            const items = library(120);
+            serveLibrary(items, 100);
+
+            await expect(graphService.ingestLikedSongs()).rejects.toThrow();
+            expect(await graphService.getIngestionProgress()).toEqual({ phase: 'fetch', fetched: 100, processed: 0, total: 120 });
+            expect(await dbService.getPreference('graph_ingested_liked')).not.toBe('true');
+
+            serveLibrary(items);
+            savedTracksSpy.mockClear();
+            await graphService.ingestLikedSongs();
+
+            expect(savedTracksSpy.mock.calls.map((call: any[]) => call[1])).toEqual([100]);
+            expect(await snapshotNodes('SONG')).toHaveLength(120);
+            expect(await graphService.getIngestionProgress()).toBeNull();
+            expect(await dbService.getPreference('graph_ingested_liked')).toBe('true');
+        });
+
+        it('should not move the fetch checkpoint past a page that could not be staged', async () => {
+            const items = library(120);
+            serveLibrary(items);
+            const db = dbService.database!;
+            const runAsync = db.runAsync.bind(db);
+            let stagedRows = 0;
+            const runSpy = jest.spyOn(db, 'runAsync').mockImplementation((async (sql: string, params: any) => {
+                if (sql.includes('INTO ingestion_tracks') && ++stagedRows > 50) throw new Error('disk full');
+                return runAsync(sql, params);
+            }) as any);
+
+            await expect(graphService.ingestLikedSongs()).rejects.toThrow('disk full');
+            expect(await graphService.getIngestionProgress()).toEqual({ phase: 'fetch', fetched: 50, processed: 0, total: 120 });
+
+            runSpy.mockRestore();
+            await graphService.ingestLikedSongs();
+            expect(await snapshotNodes('SONG')).toHaveLength(120);
+        });
+
+        it('should skip already-built chunks when resuming the build phase', async () => {
+            serveLibrary(library(250));
+            artistsSpy.mockImplementationOnce(async (ids: string[]) => ids.map(id => ({ id, name: id, genres: ['indie'] })))
+                .mockRejectedValueOnce(new Error('network down'));
+
+            await expect(graphService.ingestLikedSongs()).rejects.toThrow('network down');
+            expect(await graphService.getIngestionProgress()).toEqual({ phase: 'build', fetched: 250, processed: 200, total: 250 });
+
+            savedTracksSpy.mockClear();
+            artistsSpy.mockClear();
+            await graphService.ingestLikedSongs();
+
+            expect(savedTracksSpy).not.toHaveBeenCalled();
+            expect(artistsSpy).toHaveBeenCalledTimes(1);
+            expect(await snapshotNodes('SONG')).toHaveLength(250);
+            expect(await graphService.getIngestionProgress()).toBeNull();
+        });
+
+        it('should end with the same edge weights when a chunk and the similar phase are redone', async () => {
+            serveLibrary(library(30));
+            jest.spyOn(spotifyRemote, 'getAudioFeaturesBatch').mockImplementation(async (ids: string[]) => ids.map(id => ({
+                energy: (Number(id.slice(1)) % 10) / 10, valence: 0.5, danceability: 0.5, tempo: 120, acousticness: 0.2, instrumentalness: 0,
+            })));
+            const edgeWeights = async () => {
+                const { nodes, edges } = await snapshot();
+                const name = new Map(nodes.map(n => [n.id, `${n.type}:${n.name}`]));
+                return edges.map(e => `${name.get(e.source)} ${e.type} ${name.get(e.target)} ${e.weight}`).sort();
+            };
+
+            await graphService.ingestLikedSongs();
+            const uninterrupted = await edgeWeights();
+            expect(uninterrupted.some(e => e.includes(' SIMILAR '))).toBe(true);
+            await graphService.clearGraph();
+
+            // Crash after the chunk's edges are written but before it is marked processed...
+            jest.spyOn(dbService, 'markIngestionTracksProcessed').mockRejectedValueOnce(new Error('killed'));
+            await expect(graphService.ingestLikedSongs()).rejects.toThrow('killed');
+            // ...then after the SIMILAR edges are written but before the ingestion is finished
+            const setPreference = dbService.setPreference.bind(dbService);
+            jest.spyOn(dbService, 'setPreference').mockImplementationOnce(async () => {
+                throw new Error('killed again');
+            }).mockImplementation(setPreference);
+            await expect(graphService.ingestLikedSongs()).rejects.toThrow('killed again');
+            await graphService.ingestLikedSongs();
+
+            expect(await edgeWeights()).toEqual(uninterrupted);
+        });
+    });
+
     // ═══════════════════════════════════════════════
     // getNeighbors
     // ═══════════════════════════════════════════════
@@ -251,6 +890,77 @@ describe('GraphService (Real Graph)', () => {
         });
     });
 
+    // ═══════════════════════════════════════════════
+    // Temporal edge decay
+    // ═══════════════════════════════════════════════
+    describe('Temporal edge decay', () => {
+        const DAY_MS = 24 * 60 * 60 * 1000;
+        const realNow = Date.now();
+
+        /** Pretend `days` have passed since the test started. */
+        const travel = (days: number) => jest.spyOn(Date, 'now').mockReturnValue(realNow + days * DAY_MS);
+
+        beforeEach(async () => {
+            travel(0);
+            await graphService.setEdgeHalfLifeDays(180);
+        });
+
+        afterEach(async () => {
+            jest.restoreAllMocks();
+            await graphService.setEdgeHalfLifeDays(180);
+        });
+
+        it('should halve NEXT edge weight after one half-life', async () => {
+            const { center } = await buildStar('Center', ['Old'], [4.0]);
+
+            travel(180);
+            const neighbors = await graphService.getNeighbors(center.id);
+            expect(neighbors[0].weight).toBeCloseTo(2.0);
+        });
+
+        it('should prefer a fresh transition over a heavier stale one', async () => {
+            const { center } = await buildStar('Center', ['Stale'], [4.0]);
+
+            travel(360); // Stale decays to 1.0
+            const fresh = await song('Fresh', 'sp:fresh');
+            await connect(center.id, fresh.id, 'NEXT', 2.0);
+
+            const suggestion = await graphService.getNextSuggestedNode(center.id);
+            expect(suggestion!.name).toBe('Fresh');
+        });
+
+        it('should not decay structural edges', async () => {
+            const s = await song('Tagged', 'sp:tagged');
+            const rock = await genre('rock');
+            await tagGenre(s.id, rock.id, 3.0);
+
+            travel(720);
+            const neighbors = await graphService.getNeighbors(s.id);
+            expect(neighbors[0].weight).toBe(3.0);
+        });
+
+        it('should fold decay into the stored weight when reinforcing a stale edge', async () => {
+            const { center, neighbors } = await buildStar('Center', ['Old'], [4.0]);
+
+            travel(180);
+            await connect(center.id, neighbors[0].id, 'NEXT');
+
+            const edges = await snapshotEdges();
+            expect(edges[0].weight).toBeCloseTo(2.5);
+            expect(edges[0].updated_at).toBe(realNow + 180 * DAY_MS);
+        });
+
+        it('should disable decay when half-life is 0 and persist the setting', async () => {
+            await graphService.setEdgeHalfLifeDays(0);
+            expect(await dbService.getPreference('graph_edge_half_life_days')).toBe('0');
+
+            const { center } = await buildStar('Center', ['Old'], [4.0]);
+            travel(720);
+            const neighbors = await graphService.getNeighbors(center.id);
+            expect(neighbors[0].weight).toBe(4.0);
+        });
+    });
+
     // ═══════════════════════════════════════════════
     // commitSession
     // ═══════════════════════════════════════════════
@@ -305,6 +1015,288 @@ describe('GraphService (Real Graph)', () => {
 
             expect((await snapshotNodes('SONG'))).toHaveLength(0);
         });
+
+        it('should link the vibe and its songs to the time-of-day and weekday CONTEXT nodes', async () => {
+            const mondayMorning = new Date(2024, 0, 8, 8, 30).getTime();
+            await graphService.commitSession('Commute', [
+                { name: 'Song A', artist: 'A', spotifyId: 'sp:a', visited: true },
+            ], mondayMorning);
+
+            const contexts = await snapshotNodes('CONTEXT');
+            expect(contexts.map(n => n.name).sort()).toEqual(['morning', 'weekday']);
+            expect(await snapshotEdges('IN_CONTEXT')).toHaveLength(4); // vibe + song → both contexts
+        });
+    });
+
+    // ═══════════════════════════════════════════════
+    // Vibe canonicalization
+    // ═══════════════════════════════════════════════
+    describe('Vibe canonicalization', () => {
+        const drive = [
+            { name: 'Song A', artist: 'A', spotifyId: 'sp:a', visited: true },
+            { name: 'Song B', artist: 'B', spotifyId: 'sp:b', visited: true },
+        ];
+
+        it('should reuse a close vibe on commitSession and remember the new name', async () => {
+            await graphService.commitSession('Late Night Drive', drive);
+            await graphService.commitSession('Midnight Drive', drive);
+
+            const vibes = await snapshotNodes('VIBE');
+            expect(vibes).toHaveLength(1);
+            expect(vibes[0].name).toBe('Late Night Drive');
+            expect(parseNodeData(vibes[0].data)?.aliases).toEqual(['Midnight Drive']);
+            expect(await graphService.lookupVibeName('Midnight Drive')).toBe('Late Night Drive');
+        });
+
+        it('should only learn a new vibe name on commit, where its songs can be compared', async () => {
+            await graphService.commitSession('Late Night Drive', drive);
+
+            await graphService.getRandomWalkSuggestions({ vibeName: 'Midnight Drive' });
+            await graphService.getSkippedInVibe('Midnight Drive');
+            expect(parseNodeData((await snapshotNodes('VIBE')).find(v => v.name === 'Late Night Drive')!.data)?.aliases).toBeUndefined();
+
+            await graphService.commitSession('Midnight Drive', drive);
+            expect(parseNodeData((await snapshotNodes('VIBE')).find(v => v.name === 'Late Night Drive')!.data)?.aliases).toEqual(['Midnight Drive']);
+        });
+
+        it('should keep unrelated vibes apart', async () => {
+            await graphService.commitSession('Late Night Drive', drive);
+            await graphService.commitSession('Rainy Sunday Jazz', drive);
+
+            expect(await snapshotNodes('VIBE')).toHaveLength(2);
+        });
+
+        it('should merge existing equivalent vibes into the one with most songs', async () => {
+            const a = await song('Song A', 'sp:a');
+            const b = await song('Song B', 'sp:b');
+            const late = await vibe('Late Night Drive');
+            const midnight = await vibe('Midnight Drive');
+            for (const s of [a, b]) await connect(late.id, s.id, 'RELATED', 2.0);
+            await connect(midnight.id, a.id, 'RELATED', 2.0);
+
+            expect(await graphService.canonicalizeVibes()).toBe(1);
+
+            const vibes = await snapshotNodes('VIBE');
+            expect(vibes.map(v => v.name)).toEqual(['Late Night Drive']);
+            expect(parseNodeData(vibes[0].data)?.aliases).toEqual(['Midnight Drive']);
+            const toA = (await snapshotEdges('RELATED')).find(e => e.source === late.id && e.target === a.id);
+            expect(toA!.weight).toBe(2.0); // the heavier edge is kept
+        });
+
+        it('should seed suggestions and explanations from the vibe an alias stands for', async () => {
+            const v = (await graphService.getEffectiveNode('VIBE', 'Late Night Drive', null, { aliases: ['Midnight Drive'] }))!;
+            const inVibe = await song('In Vibe', 'sp:v1');
+            const next = await song('Next', 'sp:n');
+            await connect(v.id, inVibe.id, 'RELATED', 2.0);
+            await connect(inVibe.id, next.id, 'NEXT', 2.0);
+
+            const suggestions = await graphService.getRandomWalkSuggestions({ vibeName: 'Midnight Drive' });
+            expect(suggestions.map(n => n.spotify_id)).toEqual(['sp:v1', 'sp:n']);
+            const explanations = await graphService.explainTracks(['sp:v1'], { vibeName: 'Midnight Drive' });
+            expect(explanations.get('sp:v1')![0].text).toBe('Late Night Drive → In Vibe');
+        });
+
+        it('should resolve a known vibe name without reloading the vibes', async () => {
+            await graphService.getEffectiveNode('VIBE', 'Late Night Drive', null, { aliases: ['Midnight Drive'] });
+            await graphService.lookupVibeName('Midnight Drive');
+            const getAll = jest.spyOn(dbService.database!, 'getAllAsync');
+
+            expect(await graphService.lookupVibeName('Midnight Drive')).toBe('Late Night Drive');
+            expect(await graphService.lookupVibeName('Late Night Drive')).toBe('Late Night Drive');
+            expect(await graphService.lookupVibeName('Rainy Sunday Jazz')).toBe('Rainy Sunday Jazz');
+            expect(await graphService.resolveVibeName('Midnight Drive', ['sp:a'])).toBe('Late Night Drive');
+            expect(getAll).not.toHaveBeenCalled();
+            getAll.mockRestore();
+        });
+    });
+
+    // ═══════════════════════════════════════════════
+    // Taste evolution
+    // ═══════════════════════════════════════════════
+    describe('Taste evolution', () => {
+        it('should store a snapshot of the taste profile and graph size', async () => {
+            const before = (await graphService.getTasteSnapshots()).length;
+            const g = await genre('indie rock');
+            const s = await song('Song A', 'sp:a', { artist: 'A' });
+            await tagGenre(s.id, g.id);
+
+            const taken = await graphService.takeTasteSnapshot();
+
+            const snapshots = await graphService.getTasteSnapshots();
+            expect(snapshots).toHaveLength(before + 1);
+            expect(snapshots[snapshots.length - 1]).toEqual(taken);
+            expect(taken!.nodeCount).toBe(2);
+            expect(taken!.edgeCount).toBe(1);
+        });
+
+        it('should skip an empty graph and snapshots that are not due', async () => {
+            expect(await graphService.takeTasteSnapshot()).toBeNull();
+
+            await song('Song A', 'sp:a');
+            await graphService.takeTasteSnapshot();
+            expect(await graphService.takeTasteSnapshotIfDue()).toBeNull(); // latest is from just now
+        });
+    });
+
+    // ═══════════════════════════════════════════════
+    // Analytics
+    // ═══════════════════════════════════════════════
+    describe('Analytics', () => {
+        const buildTwoFacetsWithFusion = () => buildGraph([
+            { name: 'Rock1', spotifyId: 'sp:r1', artist: 'R1', genres: ['rock'] },
+            { name: 'Rock2', spotifyId: 'sp:r2', artist: 'R2', genres: ['rock'] },
+            { name: 'Rock3', spotifyId: 'sp:r3', artist: 'R3', genres: ['rock'] },
+            { name: 'Jazz1', spotifyId: 'sp:j1', artist: 'J1', genres: ['jazz'] },
+            { name: 'Jazz2', spotifyId: 'sp:j2', artist: 'J2', genres: ['jazz'] },
+            { name: 'Jazz3', spotifyId: 'sp:j3', artist: 'J3', genres: ['jazz'] },
+            { name: 'Fusion', spotifyId: 'sp:f', artist: 'F', genres: ['rock', 'jazz'] },
+        ]);
+
+        it('should compute degrees and find the song bridging two clusters', async () => {
+            await buildTwoFacetsWithFusion();
+            const analytics = await graphService.getGraphAnalytics();
+
+            const fusion = (await snapshotNodes('SONG')).find(n => n.name === 'Fusion')!;
+            expect(analytics.bridges.map(b => b.id)).toEqual([fusion.id]);
+            expect(analytics.degreeDistribution.reduce((sum, d) => sum + d.count, 0)).toBe(analytics.degrees.size);
+            expect(Math.max(...analytics.eigenvector.values())).toBeCloseTo(1);
+        });
+
+        it('should cache until the graph structure changes', async () => {
+            await buildTwoFacetsWithFusion();
+            const first = await graphService.getGraphAnalytics();
+            expect(await graphService.getGraphAnalytics()).toBe(first);
+
+            graphService.invalidateCache();
+            expect(await graphService.getGraphAnalytics()).toBe(first);
+
+            await song('New', 'sp:new');
+            graphService.invalidateCache();
+            expect(await graphService.getGraphAnalytics()).not.toBe(first);
+        });
+
+        it('should suggest gateway tracks only across clusters', async () => {
+            await buildTwoFacetsWithFusion();
+            // Analytics aren't ready yet, so nothing waits for them
+            expect(await graphService.getGatewayTracks('sp:r1', 'sp:j1')).toEqual([]);
+            await graphService.getGraphAnalytics();
+
+            expect((await graphService.getGatewayTracks('spotify:track:sp:r1', 'sp:j1')).map(n => n.name)).toEqual(['Fusion']);
+            expect(await graphService.getGatewayTracks('sp:r1', 'sp:r2')).toEqual([]);
+            expect(await graphService.getGatewayTracks('sp:r1', 'sp:unknown')).toEqual([]);
+        });
+    });
+
+    // ═══════════════════════════════════════════════
+    // Listening context
+    // ═══════════════════════════════════════════════
+    describe('Listening context', () => {
+        const mondayMorning = new Date(2024, 0, 8, 8, 30).getTime();
+        const saturdayNight = new Date(2024, 0, 13, 23, 0).getTime();
+
+        beforeEach(async () => {
+            await graphService.commitSession('Commute', [
+                { name: 'Morning Song', artist: 'A', spotifyId: 'sp:morning', visited: true },
+            ], mondayMorning);
+            await graphService.commitSession('Party', [
+                { name: 'Night Song', artist: 'B', spotifyId: 'sp:night', visited: true },
+            ], saturdayNight);
+        });
+
+        it('should rank candidates usually played in the given context first', async () => {
+            const morning = await graphService.getCandidates(1, { dayKind: 'weekday', timeOfDay: 'morning' });
+            const night = await graphService.getCandidates(1, { dayKind: 'weekend', timeOfDay: 'night' });
+
+            expect(morning[0].name).toBe('Morning Song');
+            expect(night[0].name).toBe('Night Song');
+        });
+
+        it('should report the current context in the taste profile', async () => {
+            const { nowContext } = await graphService.getTasteProfile();
+            expect(nowContext.label).toMatch(/^(weekday|weekend) (morning|afternoon|evening|night)$/);
+        });
+    });
+
+    // ═══════════════════════════════════════════════
+    // Negative learning (skips)
+    // ═══════════════════════════════════════════════
+    describe('Negative learning (skips)', () => {
+        const skipTimes = async (nodeId: number, count: number) => {
+            for (let i = 0; i < count; i++) await graphService.recordSkip(nodeId);
+        };
+
+        it('should accumulate a dislike score per skip', async () => {
+            const s = await song('Annoying', 'sp:annoying');
+            await skipTimes(s.id, 2);
+
+            const [node] = await snapshotNodes('SONG');
+            expect(node.dislike_score).toBe(2);
+        });
+
+        it('should down-rank a once-skipped song below a slightly weaker neighbor', async () => {
+            const { center, neighbors } = await buildStar('Center', ['Skipped', 'Kept'], [5.0, 3.0]);
+            await graphService.recordSkip(neighbors[0].id); // penalty 0.5 → 2.5
+
+            const suggestion = await graphService.getNextSuggestedNode(center.id);
+            expect(suggestion!.name).toBe('Kept');
+        });
+
+        it('should exclude a song skipped again and again', async () => {
+            const { center, neighbors } = await buildStar('Center', ['Daily Skip'], [10.0]);
+            await skipTimes(neighbors[0].id, 3);
+
+            expect(await graphService.getNextSuggestedNode(center.id)).toBeNull();
+            expect(await graphService.getNeighbors(center.id)).toHaveLength(0);
+        });
+
+        it('should forgive skips once the song has been played enough', async () => {
+            const { center, neighbors } = await buildStar('Center', ['Grower'], [5.0]);
+            await skipTimes(neighbors[0].id, 3);
+            await playTimes(neighbors[0].id, 10);
+
+            const result = await graphService.getNeighbors(center.id);
+            expect(result[0].name).toBe('Grower');
+        });
+
+        it('should exclude a song skipped in the current vibe only', async () => {
+            const { center, neighbors } = await buildStar('Center', ['Wrong Mood'], [5.0]);
+            await graphService.recordVibeSkip(neighbors[0].id, 'Focus');
+
+            expect(await graphService.getNextSuggestedNode(center.id, new Set(), 'Focus')).toBeNull();
+            const elsewhere = await graphService.getNextSuggestedNode(center.id, new Set(), 'Party');
+            expect(elsewhere!.name).toBe('Wrong Mood');
+        });
+
+        it('should store vibe skips as SKIPPED_IN edges that are not neighbors', async () => {
+            const s = await song('Song', 'sp:song');
+            await graphService.recordVibeSkip(s.id, 'Focus');
+            await graphService.recordVibeSkip(s.id, 'Focus');
+
+            const edges = await snapshotEdges('SKIPPED_IN');
+            expect(edges).toHaveLength(1);
+            expect(edges[0].weight).toBe(1.5);
+            expect(await graphService.getNeighbors(s.id)).toHaveLength(0);
+        });
+
+        it('should list disliked and vibe-skipped songs as exclusion keys', async () => {
+            const disliked = await song('Never Again', 'sp:never', { artist: 'A' });
+            const vibeSkipped = await song('Not Now', 'sp:notnow', { artist: 'B' });
+            await song('Fine', 'sp:fine', { artist: 'C' });
+            await skipTimes(disliked.id, 3);
+            await graphService.recordVibeSkip(vibeSkipped.id, 'Focus');
+
+            expect(await graphService.getDislikedSongKeys()).toEqual(['Never Again - A']);
+            const keys = await graphService.getDislikedSongKeys('Focus');
+            expect(keys.sort()).toEqual(['Never Again - A', 'Not Now - B']);
+        });
+
+        it('should look up skipped songs without creating nodes for unknown tracks', async () => {
+            const known = await song('Known', 'sp:known');
+
+            expect((await graphService.findSongNode('sp:known'))!.id).toBe(known.id);
+            expect(await graphService.findSongNode('sp:unknown')).toBeNull();
+            expect(await snapshotNodes('SONG')).toHaveLength(1);
+        });
     });
 
     // ═══════════════════════════════════════════════
@@ -341,6 +1333,162 @@ describe('GraphService (Real Graph)', () => {
         });
     });
 
+    // ═══════════════════════════════════════════════
+    // Duplicate songs
+    // ═══════════════════════════════════════════════
+    describe('Duplicate songs', () => {
+        it('should find remasters and ISRC twins, liked song first', async () => {
+            const original = await song('Heroes', 'sp:1', { artist: 'David Bowie' });
+            const remaster = await song('Heroes - 2017 Remaster', 'sp:2', { artist: 'David Bowie', liked_at: 5 });
+            await song('Heroes', 'sp:3', { artist: 'Peter Gabriel' });
+            const a = await song('Song A', 'sp:4', { artist: 'X', isrc: 'GB123' });
+            const b = await song('Song A (Single)', 'sp:5', { artist: 'X feat. Y', isrc: 'GB123' });
+
+            const groups = await graphService.findDuplicateSongs();
+            expect(groups.map(g => [g.reason, g.songs.map(n => n.id)])).toEqual([
+                ['title', [remaster.id, original.id]],
+                ['isrc', [a.id, b.id]],
+            ]);
+            expect(await graphService.findDuplicateSongs(b.id)).toHaveLength(1);
+        });
+
+        it('should merge stats and re-point edges into the kept song', async () => {
+            const keep = await song('Heroes', 'sp:1', { artist: 'David Bowie', liked_at: 5 });
+            const dup = await song('Heroes - 2017 Remaster', 'sp:2', { artist: 'David Bowie' });
+            const other = await song('Ashes to Ashes', 'sp:3', { artist: 'David Bowie' });
+            const rock = await genre('rock');
+            await tagGenre(keep.id, rock.id);
+            await tagGenre(dup.id, rock.id);
+            await connect(other.id, keep.id, 'NEXT', 1);
+            await connect(other.id, dup.id, 'NEXT', 2);
+            await connect(keep.id, dup.id, 'NEXT', 1);
+            await playTimes(keep.id, 2);
+            await playTimes(dup.id, 3);
+
+            expect(await graphService.mergeSongs(keep.id, [dup.id])).toBe(true);
+
+            const songs = await snapshotNodes('SONG');
+            expect(songs.map(n => n.id).sort()).toEqual([keep.id, other.id].sort());
+            const kept = songs.find(n => n.id === keep.id)!;
+            expect(kept.play_count).toBe(5);
+            expect(parseNodeData(kept.data)?.merged_spotify_ids).toEqual(['sp:2']);
+
+            const edges = await snapshotEdges();
+            expect(edges.filter(e => e.source === dup.id || e.target === dup.id)).toEqual([]);
+            expect(edges.filter(e => e.type === 'HAS_GENRE')).toEqual([expect.objectContaining({ source: keep.id, target: rock.id, weight: 1 })]);
+            expect(edges.find(e => e.type === 'NEXT' && e.source === other.id)?.weight).toBe(3);
+            expect(edges.some(e => e.source === keep.id && e.target === keep.id)).toBe(false);
+
+            // The merged-away spotify_id keeps resolving to the kept song
+            expect((await song('Heroes - 2017 Remaster', 'sp:2'))?.id).toBe(keep.id);
+            expect(await graphService.findDuplicateSongs()).toEqual([]);
+        });
+
+        it('should resolve every merged-away spotify_id after a chain of merges', async () => {
+            const a = await song('Heroes', 'sp:1', { artist: 'David Bowie' });
+            const b = await song('Heroes - 2017 Remaster', 'sp:2', { artist: 'David Bowie' });
+            const c = await song('Heroes - Single Version', 'sp:3', { artist: 'David Bowie' });
+
+            await graphService.mergeSongs(b.id, [a.id]);
+            await graphService.mergeSongs(c.id, [b.id]);
+
+            expect((await graphService.findSongNode('sp:1'))?.id).toBe(c.id);
+            expect((await graphService.findSongNode('sp:2'))?.id).toBe(c.id);
+            const batch = await graphService.upsertNodesBatch(['sp:1', 'sp:2'].map(id => ({ type: 'SONG' as const, name: 'Heroes', spotifyId: id })));
+            expect(batch.map(n => n?.id)).toEqual([c.id, c.id]);
+            expect(await snapshotNodes('SONG')).toHaveLength(1);
+        });
+    });
+
+    // ═══════════════════════════════════════════════
+    // Integrity
+    // ═══════════════════════════════════════════════
+    describe('Integrity', () => {
+        const insertRaw = async (type: string, name: string, data: string) => {
+            const res = await dbService.database!.runAsync(
+                'INSERT INTO graph_nodes (type, spotify_id, name, data, created_at, last_accessed) VALUES (?, ?, ?, ?, ?, ?)',
+                [type, null, name, data, Date.now(), Date.now()]
+            );
+            return res.lastInsertRowId;
+        };
+
+        it('should report problems without changing the graph', async () => {
+            const s = await song('Song', 'sp:1', { artist: 'A' });
+            const gone = await song('Gone', 'sp:2', { artist: 'A' });
+            await connect(s.id, gone.id, 'NEXT');
+            await dbService.database!.runAsync('DELETE FROM graph_nodes WHERE id IN (?)', [gone.id]);
+            const lonely = await genre('lonely');
+            const corrupt = await insertRaw('GENRE', 'broken', '{not json');
+            await tagGenre(s.id, corrupt);
+
+            const report = (await graphService.verifyIntegrity())!;
+            expect(report.danglingEdges).toEqual([{ source: s.id, target: gone.id, type: 'NEXT' }]);
+            expect(report.orphanNodeIds).toEqual([lonely.id]);
+            expect(report.corruptDataNodeIds).toEqual([corrupt]);
+            expect(await snapshotEdges()).toHaveLength(2);
+        });
+
+        it('should repair: drop dangling edges, fix data, merge duplicates, delete orphans', async () => {
+            const s1 = await song('S1', 'sp:1', { artist: 'A' });
+            const s2 = await song('S2', 'sp:2', { artist: 'A' });
+            const gone = await song('Gone', 'sp:3', { artist: 'A' });
+            await connect(s1.id, gone.id, 'NEXT');
+            await dbService.database!.runAsync('DELETE FROM graph_nodes WHERE id IN (?)', [gone.id]);
+            const rock = await genre('rock');
+            const rockCopy = await insertRaw('GENRE', 'rock', '{bad');
+            await tagGenre(s1.id, rock.id);
+            await tagGenre(s2.id, rockCopy);
+            const emptyVibe = await vibe('Empty');
+            await connect(s1.id, emptyVibe.id, 'SKIPPED_IN');
+
+            await graphService.verifyIntegrity(true);
+
+            const nodes = await snapshotNodes();
+            expect(nodes.map(n => n.id).sort()).toEqual([s1.id, s2.id, rock.id].sort());
+            expect((await snapshotEdges()).map(e => [e.source, e.target, e.type])).toEqual(
+                expect.arrayContaining([[s1.id, rock.id, 'HAS_GENRE'], [s2.id, rock.id, 'HAS_GENRE']])
+            );
+            expect(await snapshotEdges()).toHaveLength(2);
+
+            const after = (await graphService.verifyIntegrity())!;
+            expect(after).toEqual({ danglingEdges: [], orphanNodeIds: [], corruptDataNodeIds: [], duplicateNodeGroups: [] });
+        });
+    });
+
+    // ═══════════════════════════════════════════════
+    // Genre hierarchy
+    // ═══════════════════════════════════════════════
+    describe('Genre hierarchy', () => {
+        it('should roll micro-genres up to their parent genre', async () => {
+            await buildGraph([
+                { name: 'S1', spotifyId: 'sp:s1', genres: ['indie poptimism'] },
+                { name: 'S2', spotifyId: 'sp:s2', genres: ['dance pop', 'indie poptimism'] },
+                { name: 'S3', spotifyId: 'sp:s3', genres: ['escape room'] },
+                { name: 'S4', spotifyId: 'sp:s4', genres: ['zolo'] },
+            ]);
+
+            expect(await graphService.getTopParentGenres(10)).toEqual([
+                { name: 'pop', songCount: 2, totalWeight: 3 },
+                { name: 'r&b', songCount: 1, totalWeight: 1 },
+                { name: 'zolo', songCount: 1, totalWeight: 1 },
+            ]);
+
+            const genres = new Map((await snapshotNodes('GENRE')).map(n => [n.id, n.name]));
+            const links = (await snapshotEdges()).filter(e => e.type === 'SUBGENRE_OF')
+                .map(e => `${genres.get(e.source)}>${genres.get(e.target)}`);
+            expect(links.sort()).toEqual(['dance pop>pop', 'escape room>r&b', 'indie poptimism>pop']);
+        });
+
+        it('should only link genres that have no parent yet', async () => {
+            await genre('deep house');
+            expect(await graphService.linkGenreHierarchy()).toBe(1);
+            await genre('tech house');
+            expect(await graphService.linkGenreHierarchy()).toBe(1);
+            expect(await graphService.linkGenreHierarchy()).toBe(0);
+            expect((await snapshotEdges()).filter(e => e.type === 'SUBGENRE_OF').every(e => e.weight === 1)).toBe(true);
+        });
+    });
+
     // ═══════════════════════════════════════════════
     // getSongsByGenres
     // ═══════════════════════════════════════════════
@@ -423,6 +1571,83 @@ describe('GraphService (Real Graph)', () => {
         it('should return empty when no songs exist', async () => {
             expect(await graphService.getClusterRepresentatives()).toEqual([]);
         });
+
+        const buildTwoFacets = () => buildGraph([
+            { name: 'Rock1', spotifyId: 'sp:r1', artist: 'R1', genres: ['rock'], plays: 4 },
+            { name: 'Rock2', spotifyId: 'sp:r2', artist: 'R2', genres: ['rock'], plays: 3 },
+            { name: 'Rock3', spotifyId: 'sp:r3', artist: 'R3', genres: ['rock'], plays: 2 },
+            { name: 'Rock4', spotifyId: 'sp:r4', artist: 'R4', genres: ['rock'], plays: 1 },
+            { name: 'Jazz1', spotifyId: 'sp:j1', artist: 'J1', genres: ['jazz'], plays: 9 },
+            { name: 'Jazz2', spotifyId: 'sp:j2', artist: 'J2', genres: ['jazz'], plays: 8 },
+        ]);
+
+        it('should persist cluster ids, numbering the largest community 0', async () => {
+            await buildTwoFacets();
+            await graphService.getClusterRepresentatives();
+
+            const songs = await snapshotNodes('SONG');
+            const clusterOf = (name: string) => songs.find(n => n.name === name)!.cluster_id;
+            expect(clusterOf('Rock1')).toBe(0);
+            expect(clusterOf('Rock4')).toBe(0);
+            expect(clusterOf('Jazz1')).toBe(1);
+            expect(clusterOf('Jazz2')).toBe(1);
+        });
+
+        it('should write cluster ids in one statement, and nothing when no node moved', async () => {
+            await buildTwoFacets();
+            const run = jest.spyOn(dbService.database!, 'runAsync');
+
+            await graphService.detectTasteClusters();
+            const clusterWrites = () => run.mock.calls.filter((call: unknown[]) => String(call[0]).includes('SET cluster_id'));
+            expect(clusterWrites()).toHaveLength(1);
+
+            await graphService.detectTasteClusters();
+            expect(clusterWrites()).toHaveLength(1);
+            run.mockRestore();
+        });
+
+        it('should allocate representatives by cluster size', async () => {
+            await buildTwoFacets();
+
+            const reps = await graphService.getClusterRepresentatives(3);
+            const names = reps.map(r => r.name);
+            expect(names.filter(n => n.startsWith('Rock'))).toEqual(['Rock1', 'Rock2']);
+            expect(names.filter(n => n.startsWith('Jazz'))).toEqual(['Jazz1']);
+        });
+
+        it('should recompute clusters after the graph changes', async () => {
+            await buildTwoFacets();
+            await graphService.getClusterRepresentatives();
+
+            await graphService.commitSession('Late Night', [
+                { name: 'Jazz3', artist: 'J3', spotifyId: 'sp:j3', visited: true },
+            ]);
+            await graphService.getClusterRepresentatives();
+
+            const jazz3 = (await snapshotNodes('SONG')).find(n => n.name === 'Jazz3')!;
+            expect(jazz3.cluster_id).not.toBeNull();
+            expect(jazz3.cluster_id).toBeDefined();
+        });
+
+        it('should not recompute clusters when only edge weights change', async () => {
+            await buildTwoFacets();
+            await graphService.getClusterRepresentatives();
+            const detect = jest.spyOn(graphService, 'detectTasteClusters');
+            const songs = await snapshotNodes('SONG');
+            const idOf = (name: string) => songs.find(n => n.name === name)!.id;
+
+            await connect(idOf('Rock1'), idOf('Rock2'), 'NEXT', 1.0);
+            graphService.invalidateCache();
+            await graphService.getClusterRepresentatives();
+            expect(detect).toHaveBeenCalledTimes(1); // New edge
+
+            await connect(idOf('Rock1'), idOf('Rock2'), 'NEXT', 1.0);
+            graphService.invalidateCache();
+            await graphService.getClusterRepresentatives();
+            await graphService.getGraphAnalytics();
+            expect(detect).toHaveBeenCalledTimes(1);
+            detect.mockRestore();
+        });
     });
 
     // ═══════════════════════════════════════════════
@@ -441,6 +1666,7 @@ describe('GraphService (Real Graph)', () => {
 
             expect(profile.clusterReps.length).toBeGreaterThan(0);
             expect(profile.clusterReps[0].name).toBe('S1'); // highest play count
+            expect(profile.clusterReps[0].cluster).toBe(0);
             expect(profile.topGenres).toHaveLength(1);
             expect(profile.topGenres[0].name).toBe('rock');
             expect(profile.audioProfile).not.toBeNull();
@@ -483,6 +1709,109 @@ describe('GraphService (Real Graph)', () => {
     // ═══════════════════════════════════════════════
     // isGraphPopulated
     // ═══════════════════════════════════════════════
+    describe('Batch upserts', () => {
+        it('should resolve existing nodes and dedup repeats, in input order', async () => {
+            const existing = await song('Old', 'sp:old');
+            const indie = await genre('indie');
+
+            const nodes = await graphService.upsertNodesBatch([
+                { type: 'SONG', name: 'New', spotifyId: 'sp:new', data: { artist: 'A' } },
+                { type: 'SONG', name: 'Old (renamed)', spotifyId: 'sp:old' },
+                { type: 'GENRE', name: 'indie' },
+                { type: 'SONG', name: 'New', spotifyId: 'sp:new' },
+            ]);
+
+            expect(nodes[1]!.id).toBe(existing.id);
+            expect(nodes[2]!.id).toBe(indie.id);
+            expect(nodes[3]!.id).toBe(nodes[0]!.id);
+            expect(nodes[0]!.data).toEqual({ artist: 'A' });
+            expect(await snapshotNodes('SONG')).toHaveLength(2);
+        });
+
+        it('should insert new edges and reinforce existing ones like connectNodes', async () => {
+            const a = await song('A', 'sp:a');
+            const b = await song('B', 'sp:b');
+            await connect(a.id, b.id, 'HAS_GENRE', 1.0);
+
+            await graphService.connectEdgesBatch([
+                { source: a.id, target: b.id, type: 'HAS_GENRE' },
+                { source: b.id, target: a.id, type: 'NEXT', weight: 2.0 },
+            ]);
+
+            const edges = await snapshotEdges();
+            expect(edges.find(e => e.type === 'HAS_GENRE')!.weight).toBe(1.5);
+            expect(edges.find(e => e.type === 'NEXT')).toMatchObject({ source: b.id, target: a.id, weight: 2.0 });
+        });
+
+        it('should prepare a handful of statements for a batch instead of a query per row', async () => {
+            const SONGS = 1000;
+            const upserts = Array.from({ length: SONGS }, (_, i) => ({ type: 'SONG' as const, name: `Song ${i}`, spotifyId: `sp:${i}` }));
+            const db = dbService.database!;
+            await graphService.getEdgeHalfLifeDays(); // loaded once, then cached: not part of either path
+            const calls = () => ({
+                getFirst: jest.spyOn(db, 'getFirstAsync'),
+                run: jest.spyOn(db, 'runAsync'),
+                prepared: jest.spyOn(db, 'prepareAsync'),
+                transactions: jest.spyOn(db, 'withTransactionAsync'),
+            });
+
+            let spies = calls();
+            const artistNode = (await graphService.getEffectiveNode('ARTIST', 'Artist', 'ar:1'))!;
+            for (const u of upserts) {
+                const node = await graphService.getEffectiveNode(u.type, u.name, u.spotifyId);
+                await graphService.connectNodes(node!.id, artistNode.id, 'RELATED');
+            }
+            const rowByRowQueries = spies.getFirst.mock.calls.length + spies.run.mock.calls.length;
+            jest.restoreAllMocks();
+
+            await graphService.clearGraph();
+            spies = calls();
+            const [artist, ...songs] = await graphService.upsertNodesBatch([{ type: 'ARTIST', name: 'Artist', spotifyId: 'ar:1' }, ...upserts]);
+            await graphService.connectEdgesBatch(songs.map(n => ({ source: n!.id, target: artist!.id, type: 'RELATED' as const })));
+            const batchedQueries = spies.getFirst.mock.calls.length + spies.run.mock.calls.length;
+            const prepared = spies.prepared.mock.calls.length;
+            const transactions = spies.transactions.mock.calls.length;
+            jest.restoreAllMocks();
+
+            expect(await snapshotNodes('SONG')).toHaveLength(SONGS);
+            expect(await snapshotEdges('RELATED')).toHaveLength(SONGS);
+            expect(rowByRowQueries).toBeGreaterThanOrEqual(SONGS * 2);
+            expect(batchedQueries).toBe(0);
+            expect(prepared).toBe(4); // node INSERT; edge SELECT, UPDATE, upsert
+            expect(transactions).toBe(2);
+        });
+
+        it('should store a whole library\'s audio features in one transaction', async () => {
+            const SONGS = 300;
+            const items = Array.from({ length: SONGS }, (_, i) => ({
+                added_at: new Date(Date.UTC(2026, 0, 1) + i * 60_000).toISOString(),
+                track: { id: `t${i}`, name: `Song ${i}`, artists: [{ id: `ar:${i % 7}`, name: `Artist ${i % 7}` }] },
+            }));
+            jest.spyOn(spotifyRemote, 'getUserSavedTracks').mockImplementation(async (limit = 50, offset = 0) => ({
+                items: items.slice(offset, offset + limit),
+                total: items.length,
+            }));
+            jest.spyOn(spotifyRemote, 'getArtistsBatch').mockImplementation(async (ids: string[]) =>
+                ids.map(id => ({ id, name: `Artist ${id.slice(3)}`, genres: ['indie'] })));
+            jest.spyOn(spotifyRemote, 'getAudioFeaturesBatch').mockImplementation(async (ids: string[]) => ids.map(id => ({
+                energy: (Number(id.slice(1)) % 10) / 10, valence: 0.5, danceability: 0.5, tempo: 120, acousticness: 0.2, instrumentalness: 0,
+            })));
+            const db = dbService.database!;
+            const getFirst = jest.spyOn(db, 'getFirstAsync');
+            const run = jest.spyOn(db, 'runAsync');
+
+            await graphService.ingestLikedSongs();
+
+            const nodeQueries = [...getFirst.mock.calls, ...run.mock.calls].filter(([sql]) => String(sql).includes('graph_nodes'));
+            jest.restoreAllMocks();
+
+            expect(nodeQueries).toEqual([]);
+            const t7 = (await snapshotNodes('SONG')).find(n => n.spotify_id === 't7')!;
+            expect(parseNodeData(t7.data)).toMatchObject({ artist: 'Artist 0', energy: 0.7, tempo: 120 });
+            expect(await snapshotEdges('HAS_FEATURE')).toHaveLength(SONGS * 6);
+        });
+    });
+
     describe('isGraphPopulated', () => {
         it('should return false for empty graph', async () => {
             expect(await graphService.isGraphPopulated()).toBe(false);
@@ -677,6 +2006,122 @@ describe('GraphService (Real Graph)', () => {
         });
     });
 
+    // ═══════════════════════════════════════════════
+    // exportGraph / importGraph
+    // ═══════════════════════════════════════════════
+    describe('exportGraph / importGraph', () => {
+        async function buildBackupGraph() {
+            const a = await song('Song A', 'sp:a', { artist: 'A', energy: 0.7 });
+            const b = await song('Song B', 'sp:b', { artist: 'B' });
+            const rock = await genre('rock & roll');
+            const chill = await vibe('Chill <Evening>');
+            await playTimes(a.id, 4);
+            await connect(a.id, b.id, 'NEXT', 3.0);
+            await tagGenre(a.id, rock.id);
+            await connect(chill.id, b.id, 'RELATED', 2.0);
+            return { a, b, rock, chill };
+        }
+
+        it('should round-trip nodes, edges, weights and play stats through JSON', async () => {
+            await buildBackupGraph();
+            const json = await graphService.exportGraph();
+            const doc = JSON.parse(json);
+            expect(doc.format).toBe('moodify-graph');
+            expect(doc.version).toBe(1);
+
+            await graphService.clearGraph();
+            const result = await graphService.importGraph(json);
+            expect(result).toEqual({ nodesCreated: 4, nodesMerged: 0, edgesImported: 3 });
+
+            const snap = await snapshot();
+            expect(snap.nodes).toHaveLength(4);
+            expect(snap.edges).toHaveLength(3);
+            const a = snap.nodes.find(n => n.spotify_id === 'sp:a')!;
+            const b = snap.nodes.find(n => n.spotify_id === 'sp:b')!;
+            expect(a.play_count).toBe(4);
+            expect(parseNodeData(a.data)?.energy).toBe(0.7);
+            const next = snap.edges.find(e => e.type === 'NEXT')!;
+            expect(next).toEqual({ source: a.id, target: b.id, type: 'NEXT', weight: 3.0, updated_at: expect.any(Number) });
+        });
+
+        it('should round-trip through GraphML with escaped names', async () => {
+            await buildBackupGraph();
+            const xml = await graphService.exportGraph('graphml');
+            expect(xml).toContain('<graphml');
+            expect(xml).toContain('Chill &lt;Evening&gt;');
+
+            await graphService.clearGraph();
+            await graphService.importGraph(xml);
+
+            const names = (await snapshotNodes()).map(n => n.name).sort();
+            expect(names).toEqual(['Chill <Evening>', 'Song A', 'Song B', 'rock & roll']);
+            expect(await snapshotEdges('RELATED')).toHaveLength(1);
+        });
+
+        it('should merge into an existing graph without duplicating nodes or edges', async () => {
+            await buildBackupGraph();
+            const json = await graphService.exportGraph();
+
+            const result = await graphService.importGraph(json);
+            expect(result.nodesCreated).toBe(0);
+            expect(result.nodesMerged).toBe(4);
+
+            const snap = await snapshot();
+            expect(snap.nodes).toHaveLength(4);
+            expect(snap.edges).toHaveLength(3);
+            expect(snap.edges.find(e => e.type === 'NEXT')!.weight).toBe(3.0);
+            expect(snap.nodes.find(n => n.spotify_id === 'sp:a')!.play_count).toBe(4);
+        });
+
+        it('should keep the higher play count and weight when merging', async () => {
+            const { a, b } = await buildBackupGraph();
+            const json = await graphService.exportGraph();
+
+            await playTimes(a.id, 6); // local now 10 plays
+            await graphService.importGraph(json);
+
+            const snap = await snapshot();
+            expect(snap.nodes.find(n => n.id === a.id)!.play_count).toBe(10);
+            expect(snap.edges.find(e => e.source === a.id && e.target === b.id)!.weight).toBe(3.0);
+        });
+
+        it('should reject payloads that are not graph exports', async () => {
+            await expect(graphService.importGraph('{"nodes":[]}')).rejects.toThrow(/unknown format/);
+            await expect(graphService.importGraph('not json')).rejects.toThrow(/invalid JSON/);
+            await expect(graphService.importGraph('<graphml></graphml>')).rejects.toThrow(/no <graph>/);
+        });
+
+        it('should drop nodes and edges of unknown types', async () => {
+            const doc = {
+                format: 'moodify-graph', version: 1, exportedAt: 0,
+                nodes: [
+                    { id: 1, type: 'SONG', name: 'Song A', spotify_id: 'sp:a', data: {} },
+                    { id: 2, type: 'SONG', name: 'Song B', spotify_id: 'sp:b', data: {} },
+                    { id: 3, type: 'PODCAST', name: 'Episode', spotify_id: null, data: {} },
+                ],
+                edges: [
+                    { source: 1, target: 2, type: 'NEXT', weight: 1 },
+                    { source: 1, target: 2, type: 'FOLLOWS', weight: 1 },
+                    { source: 1, target: 3, type: 'NEXT', weight: 1 },
+                ],
+            };
+            const result = await graphService.importGraph(JSON.stringify(doc));
+            expect(result).toEqual({ nodesCreated: 2, nodesMerged: 0, edgesImported: 1 });
+            expect((await snapshotNodes()).map(n => n.type)).toEqual(['SONG', 'SONG']);
+        });
+
+        it('should import over a node whose stored data is corrupt', async () => {
+            await buildBackupGraph();
+            const json = await graphService.exportGraph();
+            const a = await graphService.getEffectiveNode('SONG', 'Song A', 'sp:a');
+            await dbService.database!.runAsync('UPDATE graph_nodes SET data = ? WHERE id = ?', ['{oops', a!.id]);
+
+            await graphService.importGraph(json);
+            const imported = (await snapshotNodes()).find(n => n.spotify_id === 'sp:a')!;
+            expect(parseNodeData(imported.data)?.energy).toBe(0.7);
+        });
+    });
+
     // ═══════════════════════════════════════════════
     // End-to-end: realistic graph building
     // ═══════════════════════════════════════════════
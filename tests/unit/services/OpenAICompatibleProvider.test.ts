@@ -0,0 +1,160 @@
+/**
+ * OpenAI-compatible Provider Unit Tests
+ * Pure logic, plus streaming over a mocked expo/fetch (SSE bodies built in memory).
+ */
+import { fetch as streamingFetch } from 'expo/fetch';
+import { Schema } from '../../../services/gemini/responseSchema';
+import {
+    chatCompletionsBody,
+    chatCompletionsUrl,
+    OpenAICompatibleProvider,
+    toJsonSchema,
+    tokensFromOpenAIUsage,
+} from '../../../services/llm/OpenAICompatibleProvider';
+import type { LLMStreamChunk } from '../../../services/llm/types';
+
+jest.mock('expo/fetch', () => ({ fetch: jest.fn() }));
+
+/** A 200 response whose body sends `events` as SSE, split mid-event to exercise buffering. */
+function eventStreamResponse(events: string[]) {
+    const text = events.map(data => `data: ${data}\n\n`).join('');
+    const bytes = new TextEncoder().encode(text);
+    const middle = Math.floor(bytes.length / 2);
+    return {
+        ok: true,
+        status: 200,
+        body: new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(bytes.slice(0, middle));
+                controller.enqueue(bytes.slice(middle));
+                controller.close();
+            },
+        }),
+    };
+}
+
+async function collect(stream: AsyncGenerator<LLMStreamChunk>): Promise<LLMStreamChunk[]> {
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+}
+
+describe('chatCompletionsUrl', () => {
+    it('should append the endpoint with or without a trailing slash', () => {
+        expect(chatCompletionsUrl('http://localhost:11434/v1')).toBe('http://localhost:11434/v1/chat/completions');
+        expect(chatCompletionsUrl(' http://localhost:8080/v1/ ')).toBe('http://localhost:8080/v1/chat/completions');
+    });
+});
+
+describe('toJsonSchema', () => {
+    it('should lowercase types, keep enums and required, and drop propertyOrdering', () => {
+        const schema = Schema.object({ mood: Schema.string(['calm', 'hype']), tracks: Schema.array(Schema.object({ t: Schema.string() })) });
+        expect(toJsonSchema(schema)).toEqual({
+            type: 'object',
+            properties: {
+                mood: { type: 'string', enum: ['calm', 'hype'] },
+                tracks: {
+                    type: 'array',
+                    items: { type: 'object', properties: { t: { type: 'string' } }, required: ['t'] },
+                },
+            },
+            required: ['mood', 'tracks'],
+        });
+    });
+
+    it('should turn nullable into a type union', () => {
+        expect(toJsonSchema({ type: 'STRING', nullable: true })).toEqual({ type: ['string', 'null'] });
+    });
+});
+
+describe('chatCompletionsBody', () => {
+    const config = { responseMimeType: 'application/json', maxOutputTokens: 1024, temperature: 0.7, topP: 0.9 };
+
+    it('should send the prompt as one user message with the sampling config', () => {
+        const body = chatCompletionsBody('llama3.1:8b', { prompt: 'Pick a vibe', config }, false);
+        expect(body).toEqual({
+            model: 'llama3.1:8b',
+            messages: [{ role: 'user', content: 'Pick a vibe' }],
+            max_tokens: 1024,
+            temperature: 0.7,
+            top_p: 0.9,
+            response_format: { type: 'json_object' },
+        });
+    });
+
+    it('should constrain to the response schema and ask for usage when streaming', () => {
+        const body = chatCompletionsBody('m', { prompt: 'p', config: { ...config, seed: 7, responseSchema: Schema.object({ a: Schema.string() }) } }, true);
+        expect(body.seed).toBe(7);
+        expect(body.response_format.type).toBe('json_schema');
+        expect(body.response_format.json_schema.schema.properties.a).toEqual({ type: 'string' });
+        expect(body.stream).toBe(true);
+        expect(body.stream_options).toEqual({ include_usage: true });
+    });
+
+    it('should never send a thought signature', () => {
+        const body = chatCompletionsBody('m', { prompt: 'p', config, thoughtSignature: 'sig' }, false);
+        expect(body).not.toHaveProperty('thoughtSignature');
+    });
+});
+
+describe('tokensFromOpenAIUsage', () => {
+    it('should count reasoning tokens as thinking, not answer', () => {
+        expect(tokensFromOpenAIUsage({
+            prompt_tokens: 100, completion_tokens: 60, total_tokens: 160, completion_tokens_details: { reasoning_tokens: 20 },
+        })).toEqual({ promptTokens: 100, candidateTokens: 40, thinkingTokens: 20, totalTokens: 160 });
+    });
+
+    it('should treat missing usage as 0 tokens', () => {
+        expect(tokensFromOpenAIUsage(undefined)).toEqual({ promptTokens: 0, candidateTokens: 0, thinkingTokens: 0, totalTokens: 0 });
+        expect(tokensFromOpenAIUsage({ prompt_tokens: 5, completion_tokens: 3 }).totalTokens).toBe(8);
+    });
+});
+
+describe('OpenAICompatibleProvider.openStream', () => {
+    const provider = new OpenAICompatibleProvider('http://localhost:11434/v1');
+    const request = { prompt: 'p', config: { maxOutputTokens: 1024 } };
+
+    afterEach(() => {
+        jest.mocked(streamingFetch).mockReset();
+    });
+
+    it('should yield content deltas, then usage from the last chunk without choices', async () => {
+        jest.mocked(streamingFetch).mockResolvedValue(eventStreamResponse([
+            JSON.stringify({ choices: [{ delta: { role: 'assistant' } }] }),
+            JSON.stringify({ choices: [{ delta: { content: '[{"t":' } }] }),
+            JSON.stringify({ choices: [{ delta: { content: '"X"}]' } }] }),
+            JSON.stringify({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } }),
+            '[DONE]',
+        ]) as any);
+
+        const chunks = await collect(await provider.openStream('m', request, 'key', new AbortController().signal));
+        expect(chunks.map(c => c.text).join('')).toBe('[{"t":"X"}]');
+        expect(chunks.filter(c => c.usage).map(c => c.usage))
+            .toEqual([{ promptTokens: 10, candidateTokens: 5, thinkingTokens: 0, totalTokens: 15 }]);
+        expect(jest.mocked(streamingFetch).mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+    });
+
+    it('should stop at [DONE] without parsing what follows', async () => {
+        jest.mocked(streamingFetch).mockResolvedValue(eventStreamResponse([
+            JSON.stringify({ choices: [{ delta: { content: 'done' } }] }),
+            '[DONE]',
+            'not json',
+        ]) as any);
+
+        const chunks = await collect(await provider.openStream('m', request, '', new AbortController().signal));
+        expect(chunks).toEqual([{ text: 'done' }]);
+    });
+
+    it('should throw a rejected request in axios error shape', async () => {
+        jest.mocked(streamingFetch).mockResolvedValue({
+            ok: false,
+            status: 404,
+            json: async () => ({ error: { message: 'model "m" not found' } }),
+        } as any);
+
+        await expect(provider.openStream('m', request, '', new AbortController().signal)).rejects.toMatchObject({
+            message: 'model "m" not found',
+            response: { status: 404 },
+        });
+    });
+});
@@ -53,6 +53,12 @@ describe('RecommendationService (Real APIs)', () => {
             }
         }, 60000);
 
+        it('should report every streamed option through onOption', async () => {
+            const streamed: any[] = [];
+            const result = await recommendationService.getVibeOptions('', option => streamed.push(option));
+            expect(result).toEqual(streamed);
+        }, 60000);
+
         it('should handle empty query without throwing', async () => {
             if (!sessionsActive) return;
             const result = await waitForApiCall(() => recommendationService.getVibeOptions(''), 30000);
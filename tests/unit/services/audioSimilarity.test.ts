@@ -0,0 +1,53 @@
+/**
+ * Audio Similarity (kNN) Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import {
+    SIMILAR_MAX_DISTANCE,
+    audioDistance,
+    buildKnnEdges,
+    nearestNeighbors,
+    toAudioVector,
+} from '../../../services/graph/audioSimilarity';
+
+const features = (energy: number, extra: Record<string, number> = {}) => ({
+    energy, valence: 0.5, danceability: 0.5, tempo: 120, acousticness: 0.2, instrumentalness: 0, ...extra,
+});
+
+describe('toAudioVector', () => {
+    it('should build a 6-d vector with tempo scaled into [0, 1]', () => {
+        expect(toAudioVector(features(0.8, { tempo: 100 }))).toEqual([0.8, 0.5, 0.5, 0.5, 0.2, 0]);
+        expect(toAudioVector(features(0.8, { tempo: 400 }))![3]).toBe(1);
+    });
+
+    it('should return null when any feature is missing', () => {
+        expect(toAudioVector({ energy: 0.5, valence: 0.5, danceability: 0.5 })).toBeNull();
+        expect(toAudioVector(null)).toBeNull();
+    });
+});
+
+describe('nearestNeighbors / buildKnnEdges', () => {
+    const items = [
+        { id: 1, vector: toAudioVector(features(0.50))! },
+        { id: 2, vector: toAudioVector(features(0.52))! },
+        { id: 3, vector: toAudioVector(features(0.60))! },
+        { id: 4, vector: toAudioVector(features(0.55, { acousticness: 1, instrumentalness: 1 }))! }, // far away
+    ];
+
+    it('should return the closest candidates first, within the cutoff', () => {
+        const nearest = nearestNeighbors(items[0].vector, items, 5, SIMILAR_MAX_DISTANCE, 1);
+        expect(nearest.map(n => n.id)).toEqual([2, 3]);
+        expect(audioDistance(items[0].vector, items[3].vector)).toBeGreaterThan(SIMILAR_MAX_DISTANCE);
+    });
+
+    it('should respect k and weight edges by distance', () => {
+        const edges = buildKnnEdges(items, 1);
+        expect(edges).toEqual([
+            { source: 1, target: 2, weight: expect.any(Number) },
+            { source: 2, target: 1, weight: expect.any(Number) },
+            { source: 3, target: 2, weight: expect.any(Number) },
+        ]);
+        expect(edges[0].weight).toBeGreaterThan(edges[2].weight); // 1↔2 closer than 3→2
+        expect(edges.every(e => e.weight > 0 && e.weight <= 1)).toBe(true);
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Community Detection Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import { CommunityEdge, detectCommunities } from '../../../services/graph/communityDetection';
+
+/** Fully connect the given ids with weight w. */
+function clique(ids: number[], w = 1): CommunityEdge[] {
+    const edges: CommunityEdge[] = [];
+    for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) edges.push({ source: ids[i], target: ids[j], weight: w });
+    }
+    return edges;
+}
+
+describe('detectCommunities', () => {
+    it('should split two cliques joined by a weak bridge', () => {
+        const edges = [...clique([1, 2, 3, 4]), ...clique([5, 6, 7]), { source: 4, target: 5, weight: 0.1 }];
+        const clusters = detectCommunities([1, 2, 3, 4, 5, 6, 7], edges);
+
+        expect(new Set([1, 2, 3, 4].map(id => clusters.get(id)))).toEqual(new Set([0]));
+        expect(new Set([5, 6, 7].map(id => clusters.get(id)))).toEqual(new Set([1]));
+    });
+
+    it('should number clusters by size and give isolated nodes their own cluster', () => {
+        const edges = [...clique([10, 11]), ...clique([20, 21, 22])];
+        const clusters = detectCommunities([10, 11, 20, 21, 22, 99], edges);
+
+        expect(clusters.get(20)).toBe(0); // largest
+        expect(clusters.get(10)).toBe(1);
+        expect(clusters.get(99)).toBe(2);
+    });
+
+    it('should merge hub-and-spoke groups across levels (songs around genres)', () => {
+        // Two genres (100, 200), each with 4 songs; songs within a genre also chained by NEXT
+        const edges: CommunityEdge[] = [];
+        for (const [genre, songs] of [[100, [1, 2, 3, 4]], [200, [5, 6, 7, 8]]] as const) {
+            for (const s of songs) edges.push({ source: s, target: genre, weight: 1 });
+            for (let i = 0; i < songs.length - 1; i++) edges.push({ source: songs[i], target: songs[i + 1], weight: 1 });
+        }
+        edges.push({ source: 4, target: 5, weight: 0.2 });
+
+        const clusters = detectCommunities([1, 2, 3, 4, 5, 6, 7, 8, 100, 200], edges);
+        expect(new Set([1, 2, 3, 4, 100].map(id => clusters.get(id))).size).toBe(1);
+        expect(new Set([5, 6, 7, 8, 200].map(id => clusters.get(id))).size).toBe(1);
+        expect(clusters.get(1)).not.toBe(clusters.get(5));
+    });
+
+    it('should be deterministic and ignore edges to unknown nodes', () => {
+        const edges = [...clique([1, 2, 3]), ...clique([4, 5, 6]), { source: 3, target: 4, weight: 0.5 }, { source: 1, target: 42, weight: 9 }];
+        const a = detectCommunities([1, 2, 3, 4, 5, 6], edges);
+        const b = detectCommunities([6, 5, 4, 3, 2, 1], [...edges].reverse());
+
+        expect(Array.from(a.entries()).sort()).toEqual(Array.from(b.entries()).sort());
+        expect(a.has(42)).toBe(false);
+    });
+});
@@ -0,0 +1,34 @@
+/**
+ * Genre Taxonomy Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import { PARENT_GENRES, parentGenreOf } from '../../../services/graph/genreTaxonomy';
+
+describe('parentGenreOf', () => {
+    it('should map micro-genres onto parent genres', () => {
+        expect(parentGenreOf('indie poptimism')).toBe('pop');
+        expect(parentGenreOf('k-pop')).toBe('pop');
+        expect(parentGenreOf('atl hip hop')).toBe('hip hop');
+        expect(parentGenreOf('melodic metalcore')).toBe('metal');
+        expect(parentGenreOf('deep house')).toBe('electronic');
+        expect(parentGenreOf('neo soul')).toBe('r&b');
+    });
+
+    it('should match keywords at word starts only, most specific family first', () => {
+        expect(parentGenreOf('trap latino')).toBe('latin');
+        expect(parentGenreOf('dubstep')).toBe('electronic');
+        expect(parentGenreOf('skate punk')).toBe('rock');
+        expect(parentGenreOf('indie pop')).toBe('pop');
+        expect(parentGenreOf('indie')).toBe('rock');
+    });
+
+    it('should use overrides for names without a usable keyword', () => {
+        expect(parentGenreOf('Escape Room')).toBe('r&b');
+    });
+
+    it('should map parents to themselves and unknown genres to null', () => {
+        for (const parent of PARENT_GENRES) expect(parentGenreOf(parent)).toBe(parent);
+        expect(parentGenreOf('zolo')).toBeNull();
+        expect(parentGenreOf('  ')).toBeNull();
+    });
+});
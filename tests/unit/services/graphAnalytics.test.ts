@@ -0,0 +1,114 @@
+/**
+ * Graph Analytics Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import {
+    AnalyticsEdge,
+    betweennessCentrality,
+    betweennessCentralityAsync,
+    buildAnalyticsAdjacency,
+    degreeDistribution,
+    degrees,
+    eigenvectorCentrality,
+    findBridgeSongs,
+} from '../../../services/graph/graphAnalytics';
+
+const edge = (source: number, target: number, weight = 1): AnalyticsEdge => ({ source, target, weight });
+
+/** 1 - 2 - 3 - 4 - 5 */
+const path = () => buildAnalyticsAdjacency([1, 2, 3, 4, 5], [edge(1, 2), edge(2, 3), edge(3, 4), edge(4, 5)]);
+
+/** Center 0 with leaves 1..4. */
+const star = () => buildAnalyticsAdjacency([0, 1, 2, 3, 4], [1, 2, 3, 4].map(leaf => edge(0, leaf)));
+
+describe('buildAnalyticsAdjacency', () => {
+    it('should sum parallel edges and drop self-loops, unknown nodes and zero weights', () => {
+        const adj = buildAnalyticsAdjacency([1, 2, 3], [edge(1, 2), edge(2, 1, 0.5), edge(1, 1), edge(1, 99), edge(2, 3, 0)]);
+
+        expect(adj.get(1)).toEqual(new Map([[2, 1.5]]));
+        expect(adj.get(2)).toEqual(new Map([[1, 1.5]]));
+        expect(adj.get(3)!.size).toBe(0);
+    });
+});
+
+describe('degrees / degreeDistribution', () => {
+    it('should count distinct neighbors per node', () => {
+        expect(degrees(star())).toEqual(new Map([[0, 4], [1, 1], [2, 1], [3, 1], [4, 1]]));
+    });
+
+    it('should count nodes per degree, lowest first', () => {
+        expect(degreeDistribution(path())).toEqual([{ degree: 1, count: 2 }, { degree: 2, count: 3 }]);
+    });
+});
+
+describe('betweennessCentrality', () => {
+    it('should give the star center every shortest path and the leaves none', () => {
+        const b = betweennessCentrality(star());
+        expect(b.get(0)).toBeCloseTo(1);
+        expect(b.get(1)).toBe(0);
+    });
+
+    it('should peak in the middle of a path', () => {
+        const b = betweennessCentrality(path());
+        // Node 3 lies on 4 of the 6 pairs not involving it
+        expect(b.get(3)).toBeCloseTo(4 / 6);
+        expect(b.get(2)).toBeCloseTo(3 / 6);
+        expect(b.get(1)).toBe(0);
+    });
+
+    it('should still rank the star center first when sampling sources', () => {
+        const b = betweennessCentrality(star(), 2);
+        expect(b.get(0)!).toBeGreaterThan(0);
+        expect(b.get(1)).toBe(0);
+        expect(b.get(3)).toBe(0);
+    });
+
+    it('should give the same scores when run in slices', async () => {
+        expect(await betweennessCentralityAsync(path(), 200, 2)).toEqual(betweennessCentrality(path()));
+        expect(await betweennessCentralityAsync(star(), 2, 1)).toEqual(betweennessCentrality(star(), 2));
+    });
+});
+
+describe('eigenvectorCentrality', () => {
+    it('should rank the hub highest (scaled to 1) and isolated nodes at 0', () => {
+        const adj = buildAnalyticsAdjacency([0, 1, 2, 3, 4, 9], [1, 2, 3, 4].map(leaf => edge(0, leaf)));
+        const e = eigenvectorCentrality(adj);
+
+        expect(e.get(0)).toBeCloseTo(1);
+        expect(e.get(1)!).toBeGreaterThan(0);
+        expect(e.get(1)!).toBeLessThan(1);
+        expect(e.get(9)).toBe(0);
+    });
+
+    it('should follow edge weights', () => {
+        const adj = buildAnalyticsAdjacency([1, 2, 3], [edge(1, 2, 5), edge(2, 3, 0.1)]);
+        const e = eigenvectorCentrality(adj);
+        expect(e.get(1)!).toBeGreaterThan(e.get(3)!);
+    });
+});
+
+describe('findBridgeSongs', () => {
+    // Cluster 0: songs 1, 2, 3; cluster 1: songs 5, 6, 7; song 4 links both sides
+    const adj = buildAnalyticsAdjacency(
+        [1, 2, 3, 4, 5, 6, 7],
+        [edge(1, 2), edge(2, 3), edge(3, 4), edge(2, 4), edge(4, 5), edge(5, 6), edge(6, 7)]
+    );
+    const clusterOf = new Map([[1, 0], [2, 0], [3, 0], [4, 0], [5, 1], [6, 1], [7, 1]]);
+
+    it('should find songs whose neighbors span clusters, best bridge first', () => {
+        const bridges = findBridgeSongs([1, 2, 3, 4, 5, 6, 7], clusterOf, adj);
+
+        expect(bridges.map(b => b.id)).toEqual([5, 4]);
+        expect(bridges[0]).toEqual({ id: 5, clusters: [0, 1], score: 0.5 });
+        expect(bridges[1].clusters).toEqual([0, 1]); // 2 neighbors in cluster 0, 1 in cluster 1
+        expect(bridges[1].score).toBeCloseTo(1 - (2 / 3) ** 2 - (1 / 3) ** 2);
+    });
+
+    it('should ignore unclustered neighbors and break ties by betweenness', () => {
+        const partial = new Map<number, number | null>([...clusterOf, [3, null]]);
+        const bridges = findBridgeSongs([4, 5], partial, adj, new Map([[4, 0.9], [5, 0.1]]));
+
+        // 4 now has one neighbor per cluster, same score as 5
+        expect(bridges.map(b => b.id)).toEqual([4, 5]);
+    });
+});
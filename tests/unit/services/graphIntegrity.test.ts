@@ -0,0 +1,66 @@
+/**
+ * Graph Integrity Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import { checkGraphIntegrity, countIntegrityIssues, parseNodeData } from '../../../services/graph/graphIntegrity';
+
+const node = (id: number, type: string, name: string, extra: Record<string, unknown> = {}) => ({ id, type, name, spotify_id: null, data: '{}', ...extra });
+
+describe('parseNodeData', () => {
+    it('should parse objects and treat empty data as {}', () => {
+        expect(parseNodeData('{"a":1}')).toEqual({ a: 1 });
+        expect(parseNodeData({ a: 1 })).toEqual({ a: 1 });
+        expect(parseNodeData(null)).toEqual({});
+        expect(parseNodeData('')).toEqual({});
+    });
+
+    it('should reject unparseable and non-object JSON', () => {
+        expect(parseNodeData('{oops')).toBeNull();
+        expect(parseNodeData('[1,2]')).toBeNull();
+        expect(parseNodeData('42')).toBeNull();
+    });
+});
+
+describe('checkGraphIntegrity', () => {
+    it('should find dangling edges and ignore them when judging orphans', () => {
+        const nodes = [node(1, 'SONG', 'S', { spotify_id: 'sp:1' }), node(2, 'GENRE', 'rock')];
+        const edges = [{ source: 2, target: 99, type: 'SUBGENRE_OF' }];
+        const report = checkGraphIntegrity(nodes, edges);
+        expect(report.danglingEdges).toEqual(edges);
+        expect(report.orphanNodeIds).toEqual([2]);
+    });
+
+    it('should never treat a SONG as an orphan, but a VIBE without songs is one', () => {
+        const nodes = [node(1, 'SONG', 'S', { spotify_id: 'sp:1' }), node(2, 'VIBE', 'Skipped'), node(3, 'VIBE', 'Kept')];
+        const edges = [{ source: 1, target: 2, type: 'SKIPPED_IN' }, { source: 1, target: 3, type: 'HAS_VIBE' }];
+        expect(checkGraphIntegrity(nodes, edges).orphanNodeIds).toEqual([2]);
+    });
+
+    it('should group id-less nodes by type + name, oldest first', () => {
+        const nodes = [
+            node(1, 'SONG', 'S', { spotify_id: 'sp:1' }),
+            node(5, 'GENRE', 'rock'),
+            node(3, 'GENRE', 'rock'),
+            node(4, 'VIBE', 'rock'),
+            node(6, 'SONG', 'S', { spotify_id: 'sp:2' }),
+        ];
+        const edges = [{ source: 1, target: 5, type: 'HAS_GENRE' }, { source: 1, target: 4, type: 'HAS_VIBE' }];
+        const report = checkGraphIntegrity(nodes, edges);
+        expect(report.duplicateNodeGroups).toEqual([[3, 5]]);
+        expect(report.orphanNodeIds).toEqual([]);
+    });
+
+    it('should report every member of an edgeless duplicate group as an orphan', () => {
+        const report = checkGraphIntegrity([node(1, 'GENRE', 'rock'), node(2, 'GENRE', 'rock')], []);
+        expect(report.orphanNodeIds).toEqual([1, 2]);
+        expect(report.duplicateNodeGroups).toEqual([]);
+    });
+
+    it('should count corrupt data and sum up issues', () => {
+        const nodes = [node(1, 'SONG', 'S', { spotify_id: 'sp:1', data: '{bad' }), node(2, 'GENRE', 'g'), node(3, 'GENRE', 'g')];
+        const edges = [{ source: 1, target: 2, type: 'HAS_GENRE' }, { source: 1, target: 9, type: 'NEXT' }];
+        const report = checkGraphIntegrity(nodes, edges);
+        expect(report.corruptDataNodeIds).toEqual([1]);
+        expect(countIntegrityIssues(report)).toBe(3); // 1 dangling + 1 corrupt + 1 duplicate
+    });
+});
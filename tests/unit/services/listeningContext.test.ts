@@ -0,0 +1,50 @@
+/**
+ * Listening Context Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import {
+    contextNodeNames,
+    dayKindOf,
+    describeContext,
+    listeningContextOf,
+    timeOfDayOf,
+} from '../../../services/graph/listeningContext';
+
+// 2024-01-08 is a Monday
+const at = (day: number, hour: number) => new Date(2024, 0, day, hour, 0);
+
+describe('timeOfDayOf', () => {
+    it('should bucket hours into morning, afternoon, evening and night', () => {
+        expect(timeOfDayOf(at(8, 5))).toBe('morning');
+        expect(timeOfDayOf(at(8, 12))).toBe('afternoon');
+        expect(timeOfDayOf(at(8, 17))).toBe('evening');
+        expect(timeOfDayOf(at(8, 22))).toBe('night');
+    });
+
+    it('should treat the small hours as night', () => {
+        expect(timeOfDayOf(at(8, 0))).toBe('night');
+        expect(timeOfDayOf(at(8, 4))).toBe('night');
+    });
+});
+
+describe('dayKindOf', () => {
+    it('should split weekdays from weekends', () => {
+        expect(dayKindOf(at(10, 9))).toBe('weekday'); // Wednesday
+        expect(dayKindOf(at(13, 9))).toBe('weekend'); // Saturday
+        expect(dayKindOf(at(14, 9))).toBe('weekend'); // Sunday
+    });
+
+    it('should start the weekend on Friday evening', () => {
+        expect(dayKindOf(at(12, 16))).toBe('weekday');
+        expect(dayKindOf(at(12, 17))).toBe('weekend');
+    });
+});
+
+describe('listeningContextOf', () => {
+    it('should name and describe the context of a timestamp', () => {
+        const context = listeningContextOf(at(8, 8).getTime());
+        expect(context).toEqual({ dayKind: 'weekday', timeOfDay: 'morning' });
+        expect(contextNodeNames(context)).toEqual(['weekday', 'morning']);
+        expect(describeContext(context)).toBe('weekday morning');
+    });
+});
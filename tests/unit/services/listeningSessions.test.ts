@@ -0,0 +1,37 @@
+/**
+ * Listening Sessions Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import { splitIntoSessions } from '../../../services/graph/listeningSessions';
+
+const MIN = 60 * 1000;
+
+describe('splitIntoSessions', () => {
+    it('should keep back-to-back plays together and split on a long silence', () => {
+        const plays = [
+            { id: 'a', playedAt: 10 * MIN, durationMs: 3 * MIN },
+            { id: 'b', playedAt: 13 * MIN, durationMs: 3 * MIN },
+            { id: 'c', playedAt: 120 * MIN, durationMs: 3 * MIN },
+        ];
+        expect(splitIntoSessions(plays).map(s => s.map(p => p.id))).toEqual([['a', 'b'], ['c']]);
+    });
+
+    it('should measure the gap from the end of one play to the start of the next', () => {
+        // b finished 30 min after a, but it was a 15-minute track: only 15 min of silence
+        const plays = [
+            { id: 'a', playedAt: 0 },
+            { id: 'b', playedAt: 30 * MIN, durationMs: 15 * MIN },
+        ];
+        expect(splitIntoSessions(plays)).toHaveLength(1);
+        expect(splitIntoSessions(plays, 10 * MIN)).toHaveLength(2);
+    });
+
+    it('should sort plays oldest first', () => {
+        const plays = [{ id: 'late', playedAt: 2 * MIN }, { id: 'early', playedAt: MIN }];
+        expect(splitIntoSessions(plays)[0].map(p => p.id)).toEqual(['early', 'late']);
+    });
+
+    it('should return no sessions for no plays', () => {
+        expect(splitIntoSessions([])).toEqual([]);
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * Path Explanation Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import {
+    buildExplanationAdjacency,
+    describePath,
+    shortestWeightedPaths,
+    type ExplanationEdge,
+} from '../../../services/graph/pathExplanation';
+
+const edge = (source: number, target: number, weight = 1, type: ExplanationEdge['type'] = 'RELATED'): ExplanationEdge =>
+    ({ source, target, type, weight });
+
+describe('shortestWeightedPaths', () => {
+    it('should prefer a few strong edges over one weak hop', () => {
+        // 1 → 4 directly at weight 0.2 (cost 5) vs 1 → 2 → 3 → 4 at weight 1 (cost 3)
+        const adjacency = buildExplanationAdjacency([edge(1, 4, 0.2), edge(1, 2), edge(2, 3), edge(3, 4)]);
+        const [path] = shortestWeightedPaths(adjacency, [1], 4);
+        expect(path.nodeIds).toEqual([1, 2, 3, 4]);
+        expect(path.cost).toBeCloseTo(3);
+    });
+
+    it('should walk edges in both directions and keep the strongest parallel edge', () => {
+        const adjacency = buildExplanationAdjacency([edge(2, 1, 0.5, 'HAS_GENRE'), edge(1, 2, 2, 'NEXT')]);
+        const [path] = shortestWeightedPaths(adjacency, [1], 2);
+        expect(path.edgeTypes).toEqual(['NEXT']);
+    });
+
+    it('should return one path per source, cheapest first, up to maxPaths', () => {
+        const adjacency = buildExplanationAdjacency([edge(1, 9, 0.5), edge(2, 9, 2), edge(3, 9, 1)]);
+        expect(shortestWeightedPaths(adjacency, [1, 2, 3], 9, 2).map(p => p.nodeIds[0])).toEqual([2, 3]);
+    });
+
+    it('should give up beyond maxHops and ignore zero-weight edges', () => {
+        const chain = buildExplanationAdjacency([edge(1, 2), edge(2, 3), edge(3, 4)]);
+        expect(shortestWeightedPaths(chain, [1], 4, 1, 2)).toEqual([]);
+        const skipOnly = buildExplanationAdjacency([edge(1, 2, 0, 'SKIPPED_IN')]);
+        expect(shortestWeightedPaths(skipOnly, [1], 2)).toEqual([]);
+    });
+
+    it('should not route through context or audio feature hubs', () => {
+        // 1 and 3 share context 8 and feature 9 (cheap), or a weak RELATED hop through 2
+        const edges = [edge(1, 8, 5, 'IN_CONTEXT'), edge(3, 8, 5, 'IN_CONTEXT'), edge(1, 9, 5, 'HAS_FEATURE'), edge(3, 9, 5, 'HAS_FEATURE')];
+        expect(shortestWeightedPaths(buildExplanationAdjacency(edges), [1], 3)).toEqual([]);
+
+        const viaHub = [edge(1, 8, 5), edge(8, 3, 5), edge(1, 2, 0.5), edge(2, 3, 0.5)];
+        const [path] = shortestWeightedPaths(buildExplanationAdjacency(viaHub, new Set([8])), [1], 3);
+        expect(path.nodeIds).toEqual([1, 2, 3]);
+    });
+});
+
+describe('describePath', () => {
+    it('should name hubs by type and label direct song links', () => {
+        expect(describePath([
+            { nodeId: 1, name: 'Heroes', type: 'SONG', via: null },
+            { nodeId: 2, name: 'art rock', type: 'GENRE', via: 'HAS_GENRE' },
+            { nodeId: 3, name: 'Ashes to Ashes', type: 'SONG', via: 'HAS_GENRE' },
+            { nodeId: 4, name: 'Fashion', type: 'SONG', via: 'NEXT' },
+        ])).toBe('Heroes → genre art rock → Ashes to Ashes → played next → Fashion');
+    });
+});
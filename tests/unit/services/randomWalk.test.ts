@@ -0,0 +1,57 @@
+/**
+ * Random Walk (Personalized PageRank) Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import { WalkEdge, personalizedPageRank } from '../../../services/graph/randomWalk';
+
+const sum = (scores: Map<number, number>) => Array.from(scores.values()).reduce((a, b) => a + b, 0);
+
+describe('personalizedPageRank', () => {
+    it('should rank nodes by proximity to the seed over multiple hops', () => {
+        // 1 - 2 - 3 - 4 chain, plus 5 hanging off 4
+        const edges: WalkEdge[] = [
+            { source: 1, target: 2, weight: 1 },
+            { source: 2, target: 3, weight: 1 },
+            { source: 3, target: 4, weight: 1 },
+            { source: 4, target: 5, weight: 1 },
+        ];
+        const scores = personalizedPageRank([1, 2, 3, 4, 5], edges, new Map([[1, 1]]));
+
+        expect(scores.get(2)!).toBeGreaterThan(scores.get(3)!);
+        expect(scores.get(3)!).toBeGreaterThan(scores.get(5)!);
+        expect(scores.get(5)!).toBeGreaterThan(0); // reachable only through 3 hops
+        expect(sum(scores)).toBeCloseTo(1, 5);
+    });
+
+    it('should follow heavier edges more often', () => {
+        const edges: WalkEdge[] = [
+            { source: 1, target: 2, weight: 5 },
+            { source: 1, target: 3, weight: 1 },
+        ];
+        const scores = personalizedPageRank([1, 2, 3], edges, new Map([[1, 1]]));
+        expect(scores.get(2)!).toBeGreaterThan(scores.get(3)!);
+    });
+
+    it('should blend multiple seeds by their restart weight', () => {
+        // Two separate pairs: 1-2 and 3-4
+        const edges: WalkEdge[] = [
+            { source: 1, target: 2, weight: 1 },
+            { source: 3, target: 4, weight: 1 },
+        ];
+        const scores = personalizedPageRank([1, 2, 3, 4], edges, new Map([[1, 0.8], [3, 0.2]]));
+
+        expect(scores.get(2)!).toBeGreaterThan(scores.get(4)!);
+        expect(scores.get(4)!).toBeGreaterThan(0);
+    });
+
+    it('should return restart mass from dangling seeds and ignore unknown nodes', () => {
+        const scores = personalizedPageRank([1, 2], [{ source: 1, target: 99, weight: 1 }], new Map([[1, 1]]));
+        expect(scores.get(1)).toBeCloseTo(1, 5);
+        expect(scores.get(2)).toBe(0);
+        expect(scores.has(99)).toBe(false);
+    });
+
+    it('should return empty scores when no seed is a known node', () => {
+        expect(personalizedPageRank([1, 2], [], new Map([[42, 1]])).size).toBe(0);
+    });
+});
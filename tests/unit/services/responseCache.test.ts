@@ -0,0 +1,46 @@
+/**
+ * Response Cache Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import { hashString, RESPONSE_CACHE_TTL_MS, responseCacheKey, stableStringify } from '../../../services/gemini/responseCache';
+
+describe('hashString', () => {
+    it('should be deterministic and fixed-width', () => {
+        expect(hashString('same prompt')).toBe(hashString('same prompt'));
+        expect(hashString('')).toMatch(/^[0-9a-f]{14}$/);
+        expect(hashString('a long prompt '.repeat(500))).toMatch(/^[0-9a-f]{14}$/);
+    });
+
+    it('should tell near-identical prompts apart', () => {
+        expect(hashString('Exclude: song A')).not.toBe(hashString('Exclude: song B'));
+        expect(hashString('ab')).not.toBe(hashString('ba'));
+    });
+});
+
+describe('stableStringify', () => {
+    it('should ignore key order and undefined values, but not array order', () => {
+        expect(stableStringify({ b: 1, a: { d: [1, 2], c: 'x' }, e: undefined }))
+            .toBe(stableStringify({ a: { c: 'x', d: [1, 2] }, b: 1 }));
+        expect(stableStringify({ a: [1, 2] })).not.toBe(stableStringify({ a: [2, 1] }));
+    });
+});
+
+describe('responseCacheKey', () => {
+    const config = { responseMimeType: 'application/json', maxOutputTokens: 1024, temperature: 0.7 };
+
+    it('should key on model, prompt and generation config', () => {
+        const key = responseCacheKey('gemini-2.5-flash', 'prompt', config);
+        expect(key).toMatch(/^gemini-2\.5-flash:[0-9a-f]{14}:[0-9a-f]{14}$/);
+        expect(responseCacheKey('gemini-2.5-flash', 'prompt', { temperature: 0.7, maxOutputTokens: 1024, responseMimeType: 'application/json' })).toBe(key);
+        expect(responseCacheKey('gemini-2.5-pro', 'prompt', config)).not.toBe(key);
+        expect(responseCacheKey('gemini-2.5-flash', 'prompt 2', config)).not.toBe(key);
+        expect(responseCacheKey('gemini-2.5-flash', 'prompt', { ...config, temperature: 0.9 })).not.toBe(key);
+    });
+});
+
+describe('RESPONSE_CACHE_TTL_MS', () => {
+    it('should never cache direct requests', () => {
+        expect(RESPONSE_CACHE_TTL_MS.request).toBe(0);
+        expect(RESPONSE_CACHE_TTL_MS.streamVibeOptions).toBe(RESPONSE_CACHE_TTL_MS.getVibeOptions);
+    });
+});
@@ -0,0 +1,59 @@
+/**
+ * Song Duplicates Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import { canonicalSongTitle, findDuplicateGroups } from '../../../services/graph/songDuplicates';
+
+describe('canonicalSongTitle', () => {
+    it('should strip remaster and release tags', () => {
+        expect(canonicalSongTitle('Song X - 2011 Remaster')).toBe('song x');
+        expect(canonicalSongTitle('Song X (Remastered 2009)')).toBe('song x');
+        expect(canonicalSongTitle('Song X [Deluxe Edition]')).toBe('song x');
+        expect(canonicalSongTitle('Song X - Single Version')).toBe('song x');
+    });
+
+    it('should keep tags that mark a different recording', () => {
+        expect(canonicalSongTitle('Song X - Live at Wembley')).toBe('song x live at wembley');
+        expect(canonicalSongTitle('Song X (Acoustic)')).toBe('song x acoustic');
+    });
+});
+
+describe('findDuplicateGroups', () => {
+    it('should group remasters of the same artist', () => {
+        const groups = findDuplicateGroups([
+            { id: 1, name: 'Heroes', artist: 'David Bowie' },
+            { id: 2, name: 'Heroes - 2017 Remaster', artist: 'David Bowie' },
+            { id: 3, name: 'Heroes', artist: 'Peter Gabriel' },
+            { id: 4, name: 'Heroes - Live', artist: 'David Bowie' },
+        ]);
+        expect(groups).toEqual([{ ids: [1, 2], reason: 'title' }]);
+    });
+
+    it('should not group titles that differ only in a number', () => {
+        const groups = findDuplicateGroups([
+            { id: 1, name: 'Shine On You Crazy Diamond (Parts I-V), Part 1', artist: 'Pink Floyd' },
+            { id: 2, name: 'Shine On You Crazy Diamond (Parts I-V), Part 2', artist: 'Pink Floyd' },
+            { id: 3, name: 'Symphony No. 5', artist: 'Beethoven' },
+            { id: 4, name: 'Symphony No. 5 - Remastered', artist: 'Beethoven' },
+            { id: 5, name: 'Symphony No. 6', artist: 'Beethoven' },
+        ]);
+        expect(groups).toEqual([{ ids: [3, 4], reason: 'title' }]);
+    });
+
+    it('should group by ISRC regardless of title', () => {
+        const groups = findDuplicateGroups([
+            { id: 1, name: 'Untitled', artist: 'A', isrc: 'usabc1234567' },
+            { id: 2, name: 'Something else', artist: 'B', isrc: 'USABC1234567' },
+        ]);
+        expect(groups).toEqual([{ ids: [1, 2], reason: 'isrc' }]);
+    });
+
+    it('should merge groups transitively', () => {
+        const groups = findDuplicateGroups([
+            { id: 1, name: 'Song', artist: 'A', isrc: 'X1' },
+            { id: 2, name: 'Song - Remastered', artist: 'A' },
+            { id: 3, name: 'Renamed', artist: 'Z', isrc: 'X1' },
+        ]);
+        expect(groups).toEqual([{ ids: [1, 2, 3], reason: 'title' }]);
+    });
+});
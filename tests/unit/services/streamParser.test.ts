@@ -0,0 +1,57 @@
+/**
+ * Stream Parser Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import { JsonArrayStreamParser, splitSseEvents } from '../../../services/gemini/streamParser';
+
+/** Feed `text` in pieces of `size` chars, collecting everything emitted. */
+function feed(parser: JsonArrayStreamParser, text: string, size: number): any[] {
+    const out: any[] = [];
+    for (let i = 0; i < text.length; i += size) out.push(...parser.push(text.slice(i, i + size)));
+    return out;
+}
+
+describe('splitSseEvents', () => {
+    it('should return complete events and keep the incomplete tail', () => {
+        const { events, rest } = splitSseEvents('data: {"a":1}\n\ndata: {"b":2}\r\n\r\ndata: {"c"');
+        expect(events).toEqual(['{"a":1}', '{"b":2}']);
+        expect(rest).toBe('data: {"c"');
+    });
+
+    it('should join multi-line data and ignore other fields', () => {
+        const { events } = splitSseEvents('event: message\ndata: [1,\ndata: 2]\n\n: comment\n\n');
+        expect(events).toEqual(['[1,\n2]']);
+    });
+});
+
+describe('JsonArrayStreamParser', () => {
+    const response = JSON.stringify({
+        mood: 'calm [ish]',
+        options: [
+            { id: 'v1', title: 'Rainy {Lo-Fi}', track: { title: 'Say "Hi"', artist: 'A' } },
+            { id: 'v2', title: 'Night Drive', tags: ['synth', 'retro'] },
+        ],
+        extra: [{ ignored: true }],
+    });
+
+    it('should emit each element of the keyed array as soon as it closes', () => {
+        const parser = new JsonArrayStreamParser('options');
+        const firstHalf = response.slice(0, response.indexOf('{"id":"v2"'));
+
+        expect(parser.push(firstHalf).map(o => o.id)).toEqual(['v1']);
+        expect(parser.push(response.slice(firstHalf.length)).map(o => o.id)).toEqual(['v2']);
+        expect(parser.text).toBe(response);
+    });
+
+    it('should not be fooled by brackets and quotes inside strings, whatever the chunking', () => {
+        for (const size of [1, 3, 7, response.length]) {
+            const options = feed(new JsonArrayStreamParser('options'), response, size);
+            expect(options).toEqual(JSON.parse(response).options);
+        }
+    });
+
+    it('should use the first array without a key and skip malformed elements', () => {
+        const parser = new JsonArrayStreamParser();
+        expect(parser.push('[{"a":1},{"b":},{"c":3}]')).toEqual([{ a: 1 }, { c: 3 }]);
+    });
+});
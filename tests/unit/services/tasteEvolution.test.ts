@@ -0,0 +1,81 @@
+/**
+ * Taste Evolution Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import {
+    TASTE_SNAPSHOT_INTERVAL_MS,
+    TasteSnapshot,
+    diffTasteSnapshots,
+    genreShareSeries,
+    isSnapshotDue,
+} from '../../../services/graph/tasteEvolution';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const snap = (takenAt: number, genres: Record<string, number>, extra: Partial<TasteSnapshot> = {}): TasteSnapshot => ({
+    takenAt,
+    topGenres: Object.entries(genres).map(([name, songCount]) => ({ name, songCount })),
+    clusterReps: [],
+    audioProfile: null,
+    nodeCount: 0,
+    edgeCount: 0,
+    ...extra,
+});
+
+describe('isSnapshotDue', () => {
+    it('should be due with no snapshot or once the interval passed', () => {
+        expect(isSnapshotDue(null)).toBe(true);
+        expect(isSnapshotDue(0, TASTE_SNAPSHOT_INTERVAL_MS - 1)).toBe(false);
+        expect(isSnapshotDue(0, TASTE_SNAPSHOT_INTERVAL_MS)).toBe(true);
+    });
+});
+
+describe('diffTasteSnapshots', () => {
+    it('should report genre share changes, biggest first', () => {
+        const diff = diffTasteSnapshots(
+            snap(0, { rock: 6, jazz: 4 }),
+            snap(14 * DAY, { rock: 3, jazz: 3, techno: 4 })
+        );
+        expect(diff.days).toBe(14);
+        expect(diff.genres.map(g => [g.name, g.change])).toEqual([
+            ['techno', 0.4],
+            ['rock', -0.3],
+            ['jazz', -0.1],
+        ]);
+    });
+
+    it('should report audio profile shifts, new favourites and graph growth', () => {
+        const diff = diffTasteSnapshots(
+            snap(0, {}, {
+                audioProfile: { energy: 0.5, valence: 0.6, danceability: 0.4 },
+                clusterReps: [{ name: 'Creep', artist: 'Radiohead', playCount: 3 }],
+                nodeCount: 10,
+                edgeCount: 20,
+            }),
+            snap(DAY, {}, {
+                audioProfile: { energy: 0.7, valence: 0.5, danceability: 0.4 },
+                clusterReps: [{ name: 'Heroes', artist: 'David Bowie', playCount: 5 }],
+                nodeCount: 12,
+                edgeCount: 25,
+            })
+        );
+        expect(diff.audio).toEqual({ energy: 0.2, valence: -0.1, danceability: 0 });
+        expect(diff.addedReps).toEqual(['Heroes - David Bowie']);
+        expect(diff.removedReps).toEqual(['Creep - Radiohead']);
+        expect([diff.nodes, diff.edges]).toEqual([2, 5]);
+    });
+});
+
+describe('genreShareSeries', () => {
+    it('should chart the top genres per snapshot and lump the rest into other', () => {
+        const series = genreShareSeries([
+            snap(0, { rock: 2, jazz: 1, folk: 1 }),
+            snap(DAY, { rock: 1, jazz: 1 }),
+        ], 2);
+        expect(series).toEqual([
+            { name: 'rock', shares: [0.5, 0.5] },
+            { name: 'jazz', shares: [0.25, 0.5] },
+            { name: 'other', shares: [0.25, 0] },
+        ]);
+    });
+});
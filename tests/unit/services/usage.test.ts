@@ -0,0 +1,79 @@
+/**
+ * Gemini Usage Accounting Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import type { GeminiUsageRecord } from '../../../services/database';
+import {
+    isOverBudget,
+    localDayKey,
+    normalizeTokenBudget,
+    startOfLocalDay,
+    tokensFromUsageMetadata,
+    usageByDay,
+    usageByOperation,
+} from '../../../services/gemini/usage';
+
+const at = (y: number, m: number, d: number, h: number) => new Date(y, m - 1, d, h).getTime();
+
+function record(timestamp: number, operation: string, totalTokens: number, latencyMs: number = 1000): GeminiUsageRecord {
+    return { timestamp, operation, model: 'gemini-2.5-flash', promptTokens: totalTokens, candidateTokens: 0, thinkingTokens: 0, totalTokens, latencyMs };
+}
+
+describe('tokensFromUsageMetadata', () => {
+    it('should read prompt, candidate and thinking counts', () => {
+        expect(tokensFromUsageMetadata({ promptTokenCount: 120, candidatesTokenCount: 80, thoughtsTokenCount: 300, totalTokenCount: 500 }))
+            .toEqual({ promptTokens: 120, candidateTokens: 80, thinkingTokens: 300, totalTokens: 500 });
+    });
+
+    it('should treat missing counts as 0 and sum when there is no total', () => {
+        expect(tokensFromUsageMetadata({ promptTokenCount: 10, candidatesTokenCount: 5 }))
+            .toEqual({ promptTokens: 10, candidateTokens: 5, thinkingTokens: 0, totalTokens: 15 });
+        expect(tokensFromUsageMetadata(undefined).totalTokens).toBe(0);
+    });
+});
+
+describe('daily budget', () => {
+    it('should treat unset, invalid and non-positive budgets as none', () => {
+        expect(normalizeTokenBudget(null)).toBe(0);
+        expect(normalizeTokenBudget('abc')).toBe(0);
+        expect(normalizeTokenBudget('-5')).toBe(0);
+        expect(normalizeTokenBudget('200000')).toBe(200000);
+    });
+
+    it('should only be exceeded with a budget, once usage reaches it', () => {
+        expect(isOverBudget(1_000_000, 0)).toBe(false);
+        expect(isOverBudget(999, 1000)).toBe(false);
+        expect(isOverBudget(1000, 1000)).toBe(true);
+    });
+});
+
+describe('local days', () => {
+    it('should key and start days in local time', () => {
+        const evening = at(2026, 3, 9, 23);
+        expect(localDayKey(evening)).toBe('2026-03-09');
+        expect(startOfLocalDay(evening)).toBe(at(2026, 3, 9, 0));
+        expect(startOfLocalDay(evening, 9)).toBe(at(2026, 2, 28, 0));
+    });
+});
+
+describe('usage aggregates', () => {
+    const records = [
+        record(at(2026, 3, 8, 10), 'expandVibe', 500, 1000),
+        record(at(2026, 3, 9, 9), 'getVibeOptions', 3000, 4000),
+        record(at(2026, 3, 9, 18), 'expandVibe', 700, 2000),
+    ];
+
+    it('should total per day, newest first', () => {
+        expect(usageByDay(records).map(d => [d.key, d.calls, d.totalTokens])).toEqual([
+            ['2026-03-09', 2, 3700],
+            ['2026-03-08', 1, 500],
+        ]);
+    });
+
+    it('should total per operation, most tokens first, with average latency', () => {
+        expect(usageByOperation(records)).toEqual([
+            { key: 'getVibeOptions', calls: 1, promptTokens: 3000, candidateTokens: 0, thinkingTokens: 0, totalTokens: 3000, avgLatencyMs: 4000 },
+            { key: 'expandVibe', calls: 2, promptTokens: 1200, candidateTokens: 0, thinkingTokens: 0, totalTokens: 1200, avgLatencyMs: 1500 },
+        ]);
+    });
+});
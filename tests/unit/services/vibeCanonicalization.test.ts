@@ -0,0 +1,83 @@
+/**
+ * Vibe Canonicalization Unit Tests
+ * Pure logic - no mocks needed.
+ */
+import {
+    clusterVibes,
+    findClosestVibe,
+    vibeNameSimilarity,
+    vibeNameTokens,
+    vibeSimilarity,
+    vibeSongOverlap,
+} from '../../../services/graph/vibeCanonicalization';
+
+describe('vibeNameTokens', () => {
+    it('should stem words and drop filler', () => {
+        expect(vibeNameTokens('Night Driving Synthwave')).toEqual(['night', 'driv', 'synthwav']);
+        expect(vibeNameTokens('The Late-Night Drive Vibes')).toEqual(['lat', 'night', 'driv']);
+    });
+});
+
+describe('vibeNameSimilarity', () => {
+    it('should score rewordings of the same vibe high and unrelated vibes low', () => {
+        expect(vibeNameSimilarity('Late Night Drive', 'Late-Night Driving')).toBe(1);
+        expect(vibeNameSimilarity('Late Night Drive', 'Rainy Sunday Jazz')).toBeLessThan(0.3);
+    });
+});
+
+describe('vibeSongOverlap', () => {
+    it('should measure overlap against the smaller vibe', () => {
+        expect(vibeSongOverlap(['a', 'b'], ['a', 'b', 'c', 'd'])).toBe(1);
+        expect(vibeSongOverlap(['a', 'b'], ['b', 'c'])).toBe(0.5);
+        expect(vibeSongOverlap([], ['a'])).toBe(0);
+    });
+});
+
+describe('vibeSimilarity', () => {
+    it('should merge loosely related names that share their songs', () => {
+        const late = { id: 1, name: 'Late Night Drive', songs: ['a', 'b', 'c'] };
+        const midnight = { id: 2, name: 'Midnight Drive', songs: ['a', 'b'] };
+        expect(vibeSimilarity(late, { ...midnight, songs: [] })).toBeLessThan(0.8);
+        expect(vibeSimilarity(late, midnight)).toBeGreaterThanOrEqual(0.8);
+    });
+
+    it('should not merge unrelated names on shared songs alone', () => {
+        const a = { id: 1, name: 'Gym Energy', songs: ['a'] };
+        const b = { id: 2, name: 'Rainy Sunday Jazz', songs: ['a'] };
+        expect(vibeSimilarity(a, b)).toBeLessThan(0.8);
+    });
+
+    it('should compare aliases too', () => {
+        const a = { id: 1, name: 'Focus', aliases: ['Deep Work Flow'], songs: [] };
+        const b = { id: 2, name: 'Deep Work Flow', songs: [] };
+        expect(vibeSimilarity(a, b)).toBe(1);
+    });
+});
+
+describe('clusterVibes', () => {
+    it('should group equivalent vibes with the one holding most songs first', () => {
+        const groups = clusterVibes([
+            { id: 1, name: 'Midnight Drive', songs: ['a', 'b'] },
+            { id: 2, name: 'Late Night Drive', songs: ['a', 'b', 'c'] },
+            { id: 3, name: 'Late Night Driving', songs: [] },
+            { id: 4, name: 'Rainy Sunday Jazz', songs: ['x'] },
+        ]);
+        expect(groups).toEqual([[2, 1, 3]]);
+    });
+});
+
+describe('findClosestVibe', () => {
+    const vibes = [
+        { id: 1, name: 'Late Night Drive', aliases: ['Nocturnal Cruise'], songs: ['a', 'b'] },
+        { id: 2, name: 'Rainy Sunday Jazz', songs: ['x'] },
+    ];
+
+    it('should match a name or alias exactly', () => {
+        expect(findClosestVibe('nocturnal cruise', [], vibes)).toBe(1);
+    });
+
+    it('should reuse a close vibe and leave new vibes alone', () => {
+        expect(findClosestVibe('Midnight Drive', ['a', 'b'], vibes)).toBe(1);
+        expect(findClosestVibe('Gym Energy', [], vibes)).toBeNull();
+    });
+});
@@ -7,6 +7,7 @@
  */
 
 import { dbService } from '../../../services/database';
+import { graphService } from '../../../services/graph/GraphService';
 import { useSkipTracker } from '../../../stores/SkipTrackerStore';
 import { initializeTestDatabase } from '../../utils/testDb';
 
@@ -109,6 +110,29 @@ describe('SkipTrackerStore', () => {
             expect(getState().recentSkips).toHaveLength(10);
         });
 
+        it('should record a skip as a dislike on the graph song node', async () => {
+            await graphService.getEffectiveNode('SONG', 'Skipped Song', 't-dislike', { artist: 'Artist 1' });
+            getState().onTrackStart('t-dislike', 'Skipped Song', 'Artist 1');
+            useSkipTracker.setState({ listeningStartTime: Date.now() - 5000 });
+
+            getState().onTrackChange('t-next', 'Song 2', 'Artist 2');
+            await new Promise(resolve => setTimeout(resolve, 10)); // graph update is fire-and-forget
+
+            const node = await graphService.getEffectiveNode('SONG', 'Skipped Song', 't-dislike');
+            expect(node!.dislike_score).toBe(1);
+            expect(node!.play_count).toBe(0);
+        });
+
+        it('should not add a skipped song to the graph', async () => {
+            getState().onTrackStart('t-stranger', 'Stranger', 'Artist 1');
+            useSkipTracker.setState({ listeningStartTime: Date.now() - 5000 });
+
+            getState().onTrackChange('t-next', 'Song 2', 'Artist 2');
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            expect(await graphService.findSongNode('t-stranger')).toBeNull();
+        });
+
         it('should handle first track (no previous state)', () => {
             getState().onTrackChange('t1', 'S1', 'A');
 
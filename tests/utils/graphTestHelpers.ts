@@ -5,10 +5,7 @@
  * All helpers operate on the real graphService singleton (no mocks).
  */
 import { graphService } from '../../services/graph/GraphService';
-
-// Re-export types for convenience
-type NodeType = 'SONG' | 'ARTIST' | 'GENRE' | 'VIBE' | 'AUDIO_FEATURE';
-type EdgeType = 'SIMILAR' | 'SAME_ARTIST' | 'IN_GENRE' | 'HAS_VIBE' | 'NEXT' | 'RELATED' | 'HAS_GENRE' | 'HAS_FEATURE';
+import type { EdgeType, NodeType } from '../../services/graph/GraphService';
 
 interface CreatedNode {
     id: number;
@@ -17,6 +17,12 @@ const store = {
     gemini_reasoning: [],
     graph_nodes: new Map(),
     graph_edges: [],
+    graph_node_aliases: new Map(),
+    ingestion_checkpoint: null,
+    ingestion_tracks: new Map(),
+    taste_snapshots: [],
+    gemini_usage: [],
+    gemini_response_cache: new Map(),
 
     // Auto-increment counters
     ids: {
@@ -24,6 +30,8 @@ const store = {
         feedback: 0,
         reasoning: 0,
         graph_node: 0,
+        taste_snapshot: 0,
+        gemini_usage: 0,
     },
 
     reset(table) {
@@ -34,6 +42,8 @@ const store = {
             this.graph_edges.length = 0;
         } else if (table === 'daily_play_log') {
             this.daily_play_log.clear();
+        } else if (table === 'listening_history') {
+            this.listening_history.length = 0;
         }
     }
 };
@@ -75,6 +85,10 @@ const runHandlers = {
     },
 
     // Listening History
+    'DELETE FROM listening_history': () => {
+        store.reset('listening_history');
+        return result();
+    },
     'INSERT INTO listening_history': (p) => {
         const id = ++store.ids.listening_history;
         store.listening_history.unshift({
@@ -83,7 +97,8 @@ const runHandlers = {
             track_name: p[1],
             artist_name: p[2],
             skipped: p[3] ? 1 : 0,
-            context: p[4] || null
+            context: p[4] || null,
+            played_at: new Date().toISOString().slice(0, 19).replace('T', ' '), // CURRENT_TIMESTAMP
         });
         return result(id);
     },
@@ -119,6 +134,79 @@ const runHandlers = {
         return result(++store.ids.reasoning);
     },
 
+    // Taste snapshots
+    'INSERT INTO taste_snapshots': (p) => {
+        const id = ++store.ids.taste_snapshot;
+        store.taste_snapshots.push({ id, taken_at: p[0], data: p[1] });
+        return result(id);
+    },
+
+    // Gemini usage
+    'INSERT INTO gemini_usage': (p) => {
+        const id = ++store.ids.gemini_usage;
+        store.gemini_usage.push({
+            id, timestamp: p[0], operation: p[1], model: p[2], prompt_tokens: p[3], candidate_tokens: p[4],
+            thinking_tokens: p[5], total_tokens: p[6], latency_ms: p[7],
+        });
+        return result(id);
+    },
+    'DELETE FROM gemini_usage WHERE timestamp <': (p) => {
+        const before = store.gemini_usage.length;
+        store.gemini_usage = store.gemini_usage.filter(r => r.timestamp >= p[0]);
+        return result(0, before - store.gemini_usage.length);
+    },
+
+    // Gemini response cache
+    'INSERT OR REPLACE INTO gemini_response_cache': (p) => {
+        store.gemini_response_cache.set(p[0], {
+            cache_key: p[0], operation: p[1], model: p[2], response_text: p[3], created_at: p[4], expires_at: p[5],
+        });
+        return result();
+    },
+    'DELETE FROM gemini_response_cache WHERE cache_key': (p) => {
+        const deleted = store.gemini_response_cache.delete(p[0]);
+        return result(0, deleted ? 1 : 0);
+    },
+    'DELETE FROM gemini_response_cache WHERE expires_at <=': (p) => {
+        let changes = 0;
+        for (const [key, row] of store.gemini_response_cache) {
+            if (row.expires_at <= p[0]) {
+                store.gemini_response_cache.delete(key);
+                changes++;
+            }
+        }
+        return result(0, changes);
+    },
+
+    // Ingestion Checkpoint
+    'INSERT OR REPLACE INTO ingestion_checkpoint': (p) => {
+        store.ingestion_checkpoint = { id: 1, phase: p[0], next_offset: p[1], total: p[2], updated_at: p[3] };
+        return result();
+    },
+    'INSERT OR IGNORE INTO ingestion_tracks': (p) => {
+        if (store.ingestion_tracks.has(p[0])) return result(0, 0);
+        store.ingestion_tracks.set(p[0], {
+            track_id: p[0], track_name: p[1], artist_id: p[2], artist_name: p[3], added_at: p[4],
+            album_id: p[5], album_name: p[6], release_year: p[7], isrc: p[8], position: p[9], processed: 0
+        });
+        return result();
+    },
+    'UPDATE ingestion_tracks SET processed = 1': (p) => {
+        for (const id of p) {
+            const row = store.ingestion_tracks.get(id);
+            if (row) row.processed = 1;
+        }
+        return result(0, p.length);
+    },
+    'DELETE FROM ingestion_checkpoint': () => {
+        store.ingestion_checkpoint = null;
+        return result();
+    },
+    'DELETE FROM ingestion_tracks': () => {
+        store.ingestion_tracks.clear();
+        return result();
+    },
+
     // Graph Nodes
     'INSERT INTO graph_nodes': (p) => {
         const id = ++store.ids.graph_node;
@@ -130,6 +218,8 @@ const runHandlers = {
             data: p[3],
             play_count: 0,
             last_played_at: 0,
+            dislike_score: 0,
+            cluster_id: null,
             created_at: p[4],
             last_accessed: p[5]
         });
@@ -143,6 +233,33 @@ const runHandlers = {
         }
         return result(0, node ? 1 : 0);
     },
+    'UPDATE graph_nodes SET play_count = MAX': (p) => {
+        // importGraph stat merge: [play_count, last_played_at, data, pos_x, pos_y, id]
+        const node = store.graph_nodes.get(p[5]);
+        if (node) {
+            node.play_count = Math.max(node.play_count || 0, p[0]);
+            node.last_played_at = Math.max(node.last_played_at || 0, p[1]);
+            node.data = p[2];
+            node.pos_x = node.pos_x ?? p[3];
+            node.pos_y = node.pos_y ?? p[4];
+        }
+        return result(0, node ? 1 : 0);
+    },
+    'UPDATE graph_nodes SET play_count = ?, last_played_at = ?, dislike_score = ?, data = ?': (p) => {
+        // mergeSongs: [play_count, last_played_at, dislike_score, data, id]
+        const node = store.graph_nodes.get(p[4]);
+        if (node) Object.assign(node, { play_count: p[0], last_played_at: p[1], dislike_score: p[2], data: p[3] });
+        return result(0, node ? 1 : 0);
+    },
+    'UPDATE graph_nodes SET play_count = play_count + ?': (p) => {
+        // importRecentlyPlayed: [count, last_played_at, id]
+        const node = store.graph_nodes.get(p[2]);
+        if (node) {
+            node.play_count = (node.play_count || 0) + p[0];
+            node.last_played_at = Math.max(node.last_played_at || 0, p[1]);
+        }
+        return result(0, node ? 1 : 0);
+    },
     'UPDATE graph_nodes SET play_count': (p) => {
         const node = store.graph_nodes.get(p[1]);
         if (node) {
@@ -151,32 +268,132 @@ const runHandlers = {
         }
         return result(0, node ? 1 : 0);
     },
+    'UPDATE graph_nodes SET data': (p) => {
+        const node = store.graph_nodes.get(p[1]);
+        if (node) node.data = p[0];
+        return result(0, node ? 1 : 0);
+    },
+    'UPDATE graph_nodes SET dislike_score': (p) => {
+        const node = store.graph_nodes.get(p[0]);
+        if (node) node.dislike_score = (node.dislike_score || 0) + 1;
+        return result(0, node ? 1 : 0);
+    },
+    'UPDATE graph_nodes SET cluster_id': (p) => {
+        // detectTasteClusters: CASE id WHEN ? THEN ? ... END WHERE id IN (...) → [id, cluster]*n, id*n
+        const n = p.length / 3;
+        let changes = 0;
+        for (let i = 0; i < n; i++) {
+            const node = store.graph_nodes.get(p[2 * i]);
+            if (node) {
+                node.cluster_id = p[2 * i + 1];
+                changes++;
+            }
+        }
+        return result(0, changes);
+    },
+    'INSERT OR REPLACE INTO graph_node_aliases': (p) => {
+        for (let i = 0; i + 1 < p.length; i += 2) store.graph_node_aliases.set(p[i], p[i + 1]);
+        return result(0, p.length / 2);
+    },
+    'DELETE FROM graph_node_aliases WHERE node_id IN': (p) => {
+        const ids = new Set(p);
+        for (const [spotifyId, nodeId] of store.graph_node_aliases) {
+            if (ids.has(nodeId)) store.graph_node_aliases.delete(spotifyId);
+        }
+        return result();
+    },
+    'DELETE FROM graph_node_aliases': () => {
+        store.graph_node_aliases.clear();
+        return result();
+    },
+    'DELETE FROM graph_nodes WHERE id IN': (p) => {
+        for (const id of p) store.graph_nodes.delete(id);
+        return result(0, p.length);
+    },
     'DELETE FROM graph_nodes': () => {
         store.reset('graph_nodes');
         return result();
     },
 
     // Graph Edges
-    'INSERT INTO graph_edges': (p) => {
+    'INSERT INTO graph_edges': (p, sql) => {
+        const existing = sql.includes('ON CONFLICT')
+            ? store.graph_edges.find(e => e.source_id === p[0] && e.target_id === p[1] && e.type === p[2])
+            : null;
+        if (existing) {
+            // Mirror the DO UPDATE clauses GraphService uses
+            if (sql.includes('weight = weight + excluded.weight')) {
+                existing.weight += p[3];
+                existing.updated_at = Math.max(existing.updated_at || 0, p[5] || 0);
+            } else if (sql.includes('SET weight = excluded.weight')) {
+                existing.weight = p[3];
+                existing.updated_at = p[5];
+            } else if (sql.includes('MAX(weight')) {
+                existing.weight = Math.max(existing.weight, p[3]);
+                existing.updated_at = Math.max(existing.updated_at || 0, p[5]);
+            } else {
+                existing.weight += 0.5;
+                existing.updated_at = p[5];
+            }
+            return result();
+        }
         store.graph_edges.push({
             source_id: p[0],
             target_id: p[1],
             type: p[2],
             weight: p[3],
-            created_at: p[4]
+            created_at: p[4],
+            updated_at: p[5] ?? null
         });
         return result();
     },
+    'UPDATE graph_edges SET weight = weight *': (p, sql) => {
+        const skipped = (sql.match(/type NOT IN \(([^)]*)\)/)?.[1] ?? '').split(',').map(t => t.trim().replace(/'/g, ''));
+        const notUpdatedAfter = sql.includes('updated_at') ? p[3] : Infinity;
+        let changes = 0;
+        for (const e of store.graph_edges) {
+            if ((e.source_id === p[1] || e.target_id === p[2]) && !skipped.includes(e.type) && (e.updated_at || 0) <= notUpdatedAfter) {
+                e.weight *= p[0];
+                changes++;
+            }
+        }
+        return result(0, changes);
+    },
     'UPDATE graph_edges SET weight': (p) => {
         const edge = store.graph_edges.find(e =>
             e.source_id === p[2] && e.target_id === p[3] && e.type === p[4]
         );
         if (edge) {
             edge.weight = p[0];
-            edge.created_at = p[1];
+            edge.updated_at = p[1];
         }
         return result(0, edge ? 1 : 0);
     },
+    'DELETE FROM graph_edges WHERE source_id IN': (p) => {
+        const ids = new Set(p);
+        const before = store.graph_edges.length;
+        store.graph_edges = store.graph_edges.filter(e => !ids.has(e.source_id) && !ids.has(e.target_id));
+        return result(0, before - store.graph_edges.length);
+    },
+    'DELETE FROM graph_edges WHERE source_id NOT IN': () => {
+        // verifyIntegrity: dangling edges
+        const before = store.graph_edges.length;
+        store.graph_edges = store.graph_edges.filter(e => store.graph_nodes.has(e.source_id) && store.graph_nodes.has(e.target_id));
+        return result(0, before - store.graph_edges.length);
+    },
+    "DELETE FROM graph_edges WHERE type = 'IN_PLAYLIST' AND target_id = ?": (p) => {
+        const ids = new Set(p.slice(1));
+        const before = store.graph_edges.length;
+        store.graph_edges = store.graph_edges.filter(e => e.type !== 'IN_PLAYLIST' || e.target_id !== p[0] || !ids.has(e.source_id));
+        return result(0, before - store.graph_edges.length);
+    },
+    'DELETE FROM graph_edges WHERE type = ?': (p) => {
+        // [type] alone: every edge of the type; else [type, ...ids, ...ids]: those touching the ids
+        const ids = new Set(p.slice(1, 1 + (p.length - 1) / 2));
+        const before = store.graph_edges.length;
+        store.graph_edges = store.graph_edges.filter(e => e.type !== p[0] || (ids.size > 0 && !ids.has(e.source_id) && !ids.has(e.target_id)));
+        return result(0, before - store.graph_edges.length);
+    },
     'DELETE FROM graph_edges': () => {
         store.reset('graph_edges');
         return result();
@@ -186,7 +403,43 @@ const runHandlers = {
 // ============================================================================
 // GET FIRST Handlers (SELECT single row)
 // ============================================================================
+const aliasedNode = (spotifyId) => store.graph_nodes.get(store.graph_node_aliases.get(spotifyId));
+
 const getFirstHandlers = [
+    // Songs merged away (mergeSongs): [spotify_id]
+    {
+        match: (s) => s.startsWith('SELECT n.* FROM graph_node_aliases'),
+        handle: (p) => {
+            const node = aliasedNode(p[0]);
+            return node ? { ...node } : null;
+        }
+    },
+    // Graph size (taste snapshots)
+    {
+        match: (s) => s.includes('AS node_count') && s.includes('AS edge_count'),
+        handle: () => ({ node_count: store.graph_nodes.size, edge_count: store.graph_edges.length }),
+    },
+    // Gemini tokens since a time
+    {
+        match: (s) => s.includes('SUM(total_tokens)') && s.includes('FROM gemini_usage'),
+        handle: (p) => ({
+            total: store.gemini_usage.filter(r => r.timestamp >= p[0]).reduce((sum, r) => sum + r.total_tokens, null),
+        }),
+    },
+    // Gemini response cache
+    {
+        match: (s) => s.includes('FROM gemini_response_cache WHERE cache_key'),
+        handle: (p) => {
+            const row = store.gemini_response_cache.get(p[0]);
+            return row && row.expires_at > p[1] ? { response_text: row.response_text } : null;
+        },
+    },
+    // Ingestion Checkpoint
+    {
+        match: (s) => s.includes('FROM ingestion_checkpoint'),
+        handle: () => store.ingestion_checkpoint ? { ...store.ingestion_checkpoint } : null
+    },
+
     // User Preferences
     {
         match: (s) => s.includes('user_preferences') && s.includes('key = ?'),
@@ -295,24 +548,7 @@ const getFirstHandlers = [
             const edge = store.graph_edges.find(e =>
                 e.source_id === p[0] && e.target_id === p[1] && e.type === p[2]
             );
-            return edge ? { weight: edge.weight } : null;
-        }
-    },
-
-    // Graph Next Suggested Node
-    {
-        match: (s) => s.includes('graph_edges') && s.includes('graph_nodes') && s.includes('last_played_at <'),
-        handle: (p) => {
-            const sourceId = p[0];
-            const todayTimestamp = p[1];
-            const candidates = store.graph_edges
-                .filter(e => e.source_id === sourceId)
-                .map(e => ({ edge: e, node: store.graph_nodes.get(e.target_id) }))
-                .filter(({ node }) => node && node.last_played_at < todayTimestamp)
-                .sort((a, b) => b.edge.weight - a.edge.weight);
-
-            if (candidates.length === 0) return null;
-            return { ...candidates[0].node };
+            return edge ? { weight: edge.weight, updated_at: edge.updated_at ?? null } : null;
         }
     },
 ];
@@ -321,7 +557,129 @@ const getFirstHandlers = [
 // GET ALL Handlers (SELECT multiple rows)
 // ============================================================================
 const getAllHandlers = [
+    // Duplicate songs (mergeSongs / merged spotify_id aliases)
+    {
+        match: (s) => s.startsWith('SELECT n.*, a.spotify_id AS merged_id FROM graph_node_aliases'),
+        handle: (p) => p.map(id => [id, aliasedNode(id)]).filter(([, n]) => n).map(([id, n]) => ({ ...n, merged_id: id }))
+    },
+    {
+        match: (s) => s.startsWith('SELECT id, data FROM graph_nodes WHERE id IN ('),
+        handle: (p) => p.map(id => store.graph_nodes.get(id)).filter(Boolean).map(n => ({ id: n.id, data: n.data }))
+    },
+    {
+        match: (s) => s.startsWith('SELECT * FROM graph_nodes WHERE id IN ('),
+        handle: (p) => p.map(id => store.graph_nodes.get(id)).filter(Boolean).map(n => ({ ...n }))
+    },
+    {
+        match: (s) => s.startsWith('SELECT * FROM graph_edges WHERE source_id IN ('),
+        handle: (p) => {
+            const ids = new Set(p);
+            return store.graph_edges.filter(e => ids.has(e.source_id) || ids.has(e.target_id)).map(e => ({ ...e }));
+        }
+    },
+    // Graph nodes of one type (loadNodesByType)
+    {
+        match: (s) => s === 'SELECT * FROM graph_nodes WHERE type = ?',
+        handle: (p) => Array.from(store.graph_nodes.values()).filter(n => n.type === p[0]).map(n => ({ ...n })),
+    },
+    // Playlist membership / top playlists
+    {
+        match: (s) => s.startsWith('SELECT source_id FROM graph_edges WHERE target_id = ?'),
+        handle: (p, s) => {
+            const type = s.match(/type = '(\w+)'/)[1];
+            return store.graph_edges
+                .filter(e => e.target_id === p[0] && e.type === type)
+                .map(e => ({ source_id: e.source_id }));
+        }
+    },
+    {
+        // getTopGroups: [node type, edge type, limit]
+        match: (s) => s.includes('COUNT(DISTINCT e.source_id)') && s.includes('GROUP BY tn.id'),
+        handle: (p) => {
+            const [type, edgeType, limit] = p;
+            const counts = new Map();
+            for (const e of store.graph_edges) {
+                const node = store.graph_nodes.get(e.target_id);
+                if (e.type !== edgeType || node?.type !== type) continue;
+                if (!counts.has(node.id)) counts.set(node.id, { name: node.name, songs: new Set() });
+                counts.get(node.id).songs.add(e.source_id);
+            }
+            return Array.from(counts.values())
+                .map(c => ({ name: c.name, song_count: c.songs.size }))
+                .sort((a, b) => b.song_count - a.song_count)
+                .slice(0, limit);
+        }
+    },
+    // Genre hierarchy (SUBGENRE_OF)
+    {
+        match: (s) => s.includes("SELECT source_id FROM graph_edges WHERE type = 'SUBGENRE_OF'"),
+        handle: () => store.graph_edges.filter(e => e.type === 'SUBGENRE_OF').map(e => ({ source_id: e.source_id }))
+    },
+    {
+        // getTopParentGenres: [limit]
+        match: (s) => s.includes("pe.type = 'SUBGENRE_OF'"),
+        handle: (p) => {
+            const parentOf = new Map();
+            for (const e of store.graph_edges) {
+                if (e.type === 'SUBGENRE_OF') parentOf.set(e.source_id, e.target_id);
+            }
+            const groups = new Map();
+            for (const e of store.graph_edges) {
+                if (e.type !== 'HAS_GENRE' || store.graph_nodes.get(e.target_id)?.type !== 'GENRE') continue;
+                const groupId = parentOf.get(e.target_id) ?? e.target_id;
+                if (!groups.has(groupId)) groups.set(groupId, { name: store.graph_nodes.get(groupId).name, songs: new Set(), total_weight: 0 });
+                const g = groups.get(groupId);
+                g.songs.add(e.source_id);
+                g.total_weight += e.weight;
+            }
+            return Array.from(groups.values())
+                .map(g => ({ name: g.name, song_count: g.songs.size, total_weight: g.total_weight }))
+                .sort((a, b) => b.total_weight - a.total_weight)
+                .slice(0, p[0]);
+        }
+    },
+    {
+        // withSubgenres: parent genre names
+        match: (s) => s.includes("se.type = 'SUBGENRE_OF'"),
+        handle: (p) => {
+            const names = new Set(p);
+            return store.graph_edges
+                .filter(e => e.type === 'SUBGENRE_OF' && names.has(store.graph_nodes.get(e.target_id)?.name))
+                .map(e => ({ name: store.graph_nodes.get(e.source_id).name }));
+        }
+    },
+    // Graph node batch lookups (upsertNodesBatch)
+    {
+        match: (s) => s.includes('FROM graph_nodes WHERE spotify_id IN ('),
+        handle: (p) => {
+            const ids = new Set(p);
+            return Array.from(store.graph_nodes.values()).filter(n => ids.has(n.spotify_id)).map(n => ({ ...n }));
+        }
+    },
+    {
+        match: (s) => s.includes('FROM graph_nodes WHERE type = ? AND name IN ('),
+        handle: (p) => {
+            const names = new Set(p.slice(1));
+            return Array.from(store.graph_nodes.values())
+                .filter(n => n.type === p[0] && names.has(n.name))
+                .map(n => ({ ...n }));
+        }
+    },
+
+    {
+        match: (s) => s.includes('FROM ingestion_tracks'),
+        handle: () => Array.from(store.ingestion_tracks.values())
+            .sort((a, b) => a.position - b.position)
+            .map(r => ({ ...r }))
+    },
     // Listening History
+    {
+        match: (s) => s.startsWith('SELECT spotify_track_id, played_at FROM listening_history'),
+        handle: (p) => store.listening_history
+            .filter(h => h.played_at >= p[0])
+            .map(h => ({ spotify_track_id: h.spotify_track_id, played_at: h.played_at }))
+            .reverse(),
+    },
     {
         match: (s) => s.includes('listening_history') && s.includes('play_count'),
         handle: (p) => {
@@ -356,6 +714,11 @@ const getAllHandlers = [
         handle: (p) => store.feedback_history.slice(0, p[0] || 5)
     },
 
+    // Graph Nodes - all songs (for getClusterRepresentatives)
+    {
+        match: (s) => s.includes("SELECT * FROM graph_nodes WHERE type = 'SONG'") && !s.includes('ORDER BY'),
+        handle: () => Array.from(store.graph_nodes.values()).filter(n => n.type === 'SONG').map(n => ({ ...n })),
+    },
     // Graph Nodes - all nodes (for getGraphSnapshot)
     {
         match: (s) => s.includes('graph_nodes') && s.includes('SELECT *') && !s.includes('ORDER BY'),
@@ -382,22 +745,109 @@ const getAllHandlers = [
             type: e.type,
             weight: e.weight,
             created_at: e.created_at,
+            updated_at: e.updated_at ?? null,
         })),
     },
 
-    // Graph Neighbors
+    // Graph Next Suggested Node (outgoing SONG edges not played today; ranked in JS)
     {
-        match: (s) => s.includes('graph_edges') && s.includes('graph_nodes') && s.includes('ORDER BY e.weight DESC'),
+        match: (s) => s.includes('graph_edges') && s.includes('graph_nodes') && s.includes('last_played_at <'),
         handle: (p) => {
             const sourceId = p[0];
-            const limit = p[1] || 5;
+            const todayTimestamp = p[1];
             return store.graph_edges
                 .filter(e => e.source_id === sourceId)
-                .sort((a, b) => b.weight - a.weight)
-                .slice(0, limit)
+                .map(e => ({ edge: e, node: store.graph_nodes.get(e.target_id) }))
+                .filter(({ node }) => node && node.type === 'SONG' && (node.last_played_at || 0) < todayTimestamp)
+                .map(({ edge, node }) => ({
+                    ...node,
+                    edge_weight: edge.weight,
+                    edge_type: edge.type,
+                    edge_updated_at: edge.updated_at ?? null,
+                }));
+        }
+    },
+
+    // Songs skipped in a vibe (SKIPPED_IN edges into the named VIBE node)
+    {
+        match: (s) => s.includes('SKIPPED_IN') && s.includes('v.name = ?'),
+        handle: (p) => store.graph_edges
+            .filter(e => e.type === 'SKIPPED_IN')
+            .filter(e => {
+                const vibe = store.graph_nodes.get(e.target_id);
+                return vibe && vibe.type === 'VIBE' && vibe.name === p[0];
+            })
+            .map(e => ({ source_id: e.source_id, weight: e.weight, updated_at: e.updated_at ?? null })),
+    },
+
+    // Songs or vibes linked to the named CONTEXT nodes (params: ...contextNames, type)
+    {
+        match: (s) => s.includes("e.type = 'IN_CONTEXT'"),
+        handle: (p) => {
+            const names = p.slice(0, -1);
+            const type = p[p.length - 1];
+            return store.graph_edges
+                .filter(e => e.type === 'IN_CONTEXT')
+                .map(e => ({ edge: e, ctx: store.graph_nodes.get(e.target_id), node: store.graph_nodes.get(e.source_id) }))
+                .filter(({ ctx, node }) => ctx && ctx.type === 'CONTEXT' && names.includes(ctx.name) && node && node.type === type)
+                .map(({ edge, node }) => ({ id: node.id, name: node.name, weight: edge.weight, updated_at: edge.updated_at ?? null }));
+        }
+    },
+
+    // Gemini usage since a time, oldest first
+    {
+        match: (s) => s.includes('FROM gemini_usage'),
+        handle: (p) => store.gemini_usage
+            .filter(r => r.timestamp >= p[0])
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .map(r => ({ ...r })),
+    },
+
+    // Taste snapshots, newest first
+    {
+        match: (s) => s.includes('FROM taste_snapshots'),
+        handle: (p) => [...store.taste_snapshots].sort((a, b) => b.taken_at - a.taken_at).slice(0, p[0]).map(r => ({ ...r })),
+    },
+
+    // Songs played in each vibe (RELATED / HAS_VIBE edges in either direction)
+    {
+        match: (s) => s.includes('v.id IN (e.source_id, e.target_id)'),
+        handle: () => store.graph_edges
+            .filter(e => e.type === 'RELATED' || e.type === 'HAS_VIBE')
+            .map(e => [store.graph_nodes.get(e.source_id), store.graph_nodes.get(e.target_id)])
+            .map(([a, b]) => (a && a.type === 'VIBE' ? [a, b] : [b, a]))
+            .filter(([vibe, song]) => vibe && vibe.type === 'VIBE' && song && song.type === 'SONG')
+            .map(([vibe, song]) => ({ vibe_id: vibe.id, song_id: song.id, spotify_id: song.spotify_id ?? null })),
+    },
+
+    // Songs with a dislike score, or among the given ids (skipped in the vibe)
+    {
+        match: (s) => s.includes('graph_nodes') && s.includes('dislike_score, 0) > 0'),
+        handle: (p) => Array.from(store.graph_nodes.values())
+            .filter(n => n.type === 'SONG' && ((n.dislike_score || 0) > 0 || (p || []).includes(n.id)))
+            .map(n => ({ id: n.id, name: n.name, data: n.data, play_count: n.play_count, dislike_score: n.dislike_score })),
+    },
+
+    // Graph Neighbors (all outgoing edges except SKIPPED_IN; ranked in JS)
+    {
+        match: (s) => s.includes('graph_edges') && s.includes('graph_nodes') && s.includes('e.updated_at') && s.includes('n.name'),
+        handle: (p) => {
+            const sourceId = p[0];
+            return store.graph_edges
+                .filter(e => e.source_id === sourceId && e.type !== 'SKIPPED_IN')
                 .map(e => {
                     const node = store.graph_nodes.get(e.target_id);
-                    return node ? { name: node.name, data: node.data, weight: e.weight } : null;
+                    return node
+                        ? {
+                            name: node.name,
+                            data: node.data,
+                            play_count: node.play_count,
+                            dislike_score: node.dislike_score,
+                            weight: e.weight,
+                            type: e.type,
+                            updated_at: e.updated_at ?? null,
+                        }
+                        : null;
                 })
                 .filter(Boolean);
         }
@@ -407,44 +857,71 @@ const getAllHandlers = [
 // ============================================================================
 // Database Factory
 // ============================================================================
+function dispatchRun(sql, params) {
+    const p = Array.isArray(params) ? params : [];
+    const s = normalize(sql);
+
+    for (const [prefix, handler] of Object.entries(runHandlers)) {
+        if (s.startsWith(prefix)) {
+            return handler(p, s);
+        }
+    }
+    return result(0, 0);
+}
+
+function dispatchFirst(sql, params) {
+    const p = Array.isArray(params) ? params : [];
+    const s = normalize(sql);
+
+    for (const { match, handle } of getFirstHandlers) {
+        if (match(s)) {
+            return handle(p, s);
+        }
+    }
+    return null;
+}
+
+function dispatchAll(sql, params) {
+    const p = Array.isArray(params) ? params : [];
+    const s = normalize(sql);
+
+    for (const { match, handle } of getAllHandlers) {
+        if (match(s)) {
+            return handle(p, s);
+        }
+    }
+    return [];
+}
+
 function createDb() {
     return {
         execAsync: () => Promise.resolve(),
 
         runAsync(sql, params = []) {
-            const p = Array.isArray(params) ? params : [];
-            const s = normalize(sql);
-
-            for (const [prefix, handler] of Object.entries(runHandlers)) {
-                if (s.startsWith(prefix)) {
-                    return Promise.resolve(handler(p, s));
-                }
-            }
-            return Promise.resolve(result(0, 0));
+            return Promise.resolve(dispatchRun(sql, params));
         },
 
         getFirstAsync(sql, params = []) {
-            const p = Array.isArray(params) ? params : [];
-            const s = normalize(sql);
-
-            for (const { match, handle } of getFirstHandlers) {
-                if (match(s)) {
-                    return Promise.resolve(handle(p, s));
-                }
-            }
-            return Promise.resolve(null);
+            return Promise.resolve(dispatchFirst(sql, params));
         },
 
         getAllAsync(sql, params = []) {
-            const p = Array.isArray(params) ? params : [];
-            const s = normalize(sql);
+            return Promise.resolve(dispatchAll(sql, params));
+        },
 
-            for (const { match, handle } of getAllHandlers) {
-                if (match(s)) {
-                    return Promise.resolve(handle(p, s));
-                }
-            }
-            return Promise.resolve([]);
+        // Prepared statements run through the same handlers as the one-shot methods
+        prepareAsync(sql) {
+            const isQuery = normalize(sql).startsWith('SELECT');
+            return Promise.resolve({
+                executeAsync(params = []) {
+                    return Promise.resolve({
+                        ...(isQuery ? result(0, 0) : dispatchRun(sql, params)),
+                        getFirstAsync: () => Promise.resolve(isQuery ? dispatchFirst(sql, params) : null),
+                        getAllAsync: () => Promise.resolve(isQuery ? dispatchAll(sql, params) : []),
+                    });
+                },
+                finalizeAsync: () => Promise.resolve()
+            });
         },
 
         withTransactionAsync(fn) {